@@ -296,6 +296,62 @@ emit_metrics() {
     emit_ralph_event "$issue_id" "metrics" "$payload"
 }
 
+# Emit branch event (the branch a run commits to)
+# Args: issue_id, branch, base_branch
+emit_branch() {
+    local issue_id="$1"
+    local branch="$2"
+    local base_branch="$3"
+
+    emit_ralph_event "$issue_id" "branch" "{\"branch\":$(printf '%s' "$branch" | jq -Rs .),\"baseBranch\":$(printf '%s' "$base_branch" | jq -Rs .)}"
+}
+
+# Emit test_results event (output of the test command run after a build)
+# Args: issue_id, command, exit_code, output
+emit_test_results() {
+    local issue_id="$1"
+    local command="$2"
+    local exit_code="$3"
+    local output="$4"
+
+    emit_ralph_event "$issue_id" "test_results" "{\"command\":$(printf '%s' "$command" | jq -Rs .),\"exitCode\":$exit_code,\"output\":$(printf '%s' "$output" | jq -Rs .)}"
+}
+
+# Emit pull_request event (the PR opened for a run's branch)
+# Args: issue_id, url, branch
+emit_pull_request() {
+    local issue_id="$1"
+    local url="$2"
+    local branch="$3"
+    local head_sha
+    head_sha=$(git rev-parse HEAD 2>/dev/null || echo "")
+
+    emit_ralph_event "$issue_id" "pull_request" "{\"url\":$(printf '%s' "$url" | jq -Rs .),\"branch\":$(printf '%s' "$branch" | jq -Rs .),\"headSha\":$(printf '%s' "$head_sha" | jq -Rs .)}"
+}
+
+# Run the project's test command (RALPH_TEST_COMMAND) on the run's changes
+# and report the result, so reviewers see it next to the diff
+# Args: issue_id
+run_test_command() {
+    local issue_id="$1"
+    [[ -z "${RALPH_TEST_COMMAND:-}" ]] && return 0
+
+    echo -e "${YELLOW}Running tests: $RALPH_TEST_COMMAND${NC}"
+    emit_activity "$issue_id" "message" "" "Running tests: $RALPH_TEST_COMMAND" "running"
+
+    local output exit_code=0
+    output=$(bash -c "$RALPH_TEST_COMMAND" 2>&1) || exit_code=$?
+    # Keep the end of the output, where test runners put their summary
+    output=$(printf '%s\n' "$output" | tail -n "${RALPH_TEST_OUTPUT_LINES:-200}")
+
+    if [[ "$exit_code" -eq 0 ]]; then
+        emit_activity "$issue_id" "message" "" "Tests passed" "success"
+    else
+        emit_activity "$issue_id" "message" "" "Tests failed (exit $exit_code)" "error"
+    fi
+    emit_test_results "$issue_id" "$RALPH_TEST_COMMAND" "$exit_code" "$output"
+}
+
 # Emit complete event
 # Args: issue_id, message
 emit_complete() {
@@ -444,7 +500,7 @@ parse_claude_event() {
 # ============================================================================
 
 # Run the Ralph fix loop for a single issue
-# Args: max_iterations, prd_file, progress_file, issue_id, mode, model, branch_name
+# Args: max_iterations, prd_file, progress_file, issue_id, mode, model, branch_name, auto_push
 ralph_fix_loop() {
     local max_iterations="${1:-10}"
     local prd_file="${2:-PRD.md}"
@@ -453,6 +509,7 @@ ralph_fix_loop() {
     local mode="${5:-build}"  # plan or build
     local model="${6:-sonnet}"  # sonnet or opus
     local branch_name="${7:-}"  # branch for pushing
+    local auto_push="${8:-true}"  # push after each iteration
 
     # Derive work_dir from prd_file location
     local work_dir
@@ -504,6 +561,20 @@ ralph_fix_loop() {
         echo "" >> "$progress_file"
     fi
 
+    # The web UI stores plans per issue and hands the relevant one over
+    # (RALPH_PLAN_FILE): a build of a reviewed plan follows the approved
+    # version, a plan run revises the current one, whatever the work
+    # directory holds now
+    local follows_approved_plan=false
+    if [[ -n "${RALPH_PLAN_FILE:-}" && -f "$RALPH_PLAN_FILE" ]]; then
+        mkdir -p "$work_dir"
+        cp "$RALPH_PLAN_FILE" "$impl_plan_file"
+        if [[ "$mode" == "build" ]]; then
+            follows_approved_plan=true
+            emit_activity "$issue_id" "message" "" "Following the approved implementation plan" "running"
+        fi
+    fi
+
     # Build mode-specific prompt (simplified - no completion markers)
     local mode_instructions=""
 
@@ -591,6 +662,18 @@ Each iteration should go DEEPER:
 3. DO NOT assume something exists - SEARCH and confirm
 4. DO NOT repeat previous discoveries - BUILD ON THEM
 5. Each iteration MUST add new information or mark something as validated"
+
+        # A reviewer requested changes to the previous version of the plan
+        if [[ -n "${RALPH_PLAN_FEEDBACK:-}" ]]; then
+            mode_instructions="$mode_instructions
+
+## Reviewer Feedback
+
+A reviewer read the existing plan at \`$impl_plan_file\` and requested changes.
+Revise the plan to address this feedback before anything else:
+
+$RALPH_PLAN_FEEDBACK"
+        fi
     else
         mode_instructions="You are a senior engineer implementing a fix. Your goal is COMPLETE, WORKING code - no stubs or placeholders.
 
@@ -671,6 +754,42 @@ Before finishing, verify:
 4. ALWAYS search before implementing
 5. ALWAYS run tests before committing
 6. ALWAYS use the specific plan file path above, NOT a generic IMPLEMENTATION_PLAN.md"
+
+        if [[ "$follows_approved_plan" == "true" ]]; then
+            mode_instructions="$mode_instructions
+
+## Approved Plan
+
+The plan at \`$impl_plan_file\` was reviewed and approved. Implement its steps
+in order and check each one off as soon as it is done. Do not add, remove or
+reword steps - record discoveries below the steps instead."
+        fi
+
+        # A reviewer sent the changes on this branch back for another iteration
+        if [[ -n "${RALPH_REVIEW_FEEDBACK:-}" ]]; then
+            mode_instructions="$mode_instructions
+
+## Reviewer Feedback
+
+This branch already holds changes for the issue. A reviewer read them and
+asked for another iteration before they are pushed. Address this feedback
+first, building on the existing commits:
+
+$RALPH_REVIEW_FEEDBACK"
+        fi
+
+        # CI failed on the PR opened for this branch
+        if [[ -n "${RALPH_CI_FAILURES:-}" ]]; then
+            mode_instructions="$mode_instructions
+
+## CI Failures
+
+This branch has an open PR whose CI checks failed. Fix the failures below,
+building on the existing commits, and reproduce the failing checks locally
+before committing:
+
+$RALPH_CI_FAILURES"
+        fi
     fi
 
     # Determine Claude output format
@@ -681,8 +800,11 @@ Before finishing, verify:
         claude_opts="$claude_opts --print"
     fi
 
-    # Add model flag if specified and not default
-    if [[ "$model" == "opus" ]]; then
+    # Add model flag if specified and not default. RALPH_MODEL_ID is the CLI
+    # model resolved from the UI's model catalog.
+    if [[ -n "${RALPH_MODEL_ID:-}" ]]; then
+        claude_opts="$claude_opts --model $RALPH_MODEL_ID"
+    elif [[ "$model" == "opus" ]]; then
         claude_opts="$claude_opts --model claude-opus-4-5-20251101"
     fi
 
@@ -810,8 +932,14 @@ $context_files
         # Emit iteration metrics
         emit_metrics "$issue_id" "$CURRENT_ITERATION" "$max_iterations" "0" "$iteration_duration" "$SESSION_COST" "$SESSION_DURATION"
 
-        # Git push after each iteration (like cwralph)
-        if [ -n "$branch_name" ] && [ "$mode" != "plan" ]; then
+        # Let the web UI check off the approved plan's completed steps
+        if [[ "$follows_approved_plan" == "true" ]]; then
+            emit_ralph_event "$issue_id" "plan_progress" "{\"planFile\":$(printf '%s' "$impl_plan_file" | jq -Rs .)}"
+        fi
+
+        # Git push after each iteration (like cwralph), unless pushing is
+        # disabled or held until a reviewer approves the changes
+        if [ -n "$branch_name" ] && [ "$mode" != "plan" ] && [ "$auto_push" == "true" ]; then
             echo -e "\n${BLUE}📤 Pushing changes...${NC}"
             if git push origin "$branch_name" 2>/dev/null; then
                 echo -e "${GREEN}✅ Pushed to $branch_name${NC}"
@@ -833,9 +961,23 @@ $context_files
     echo -e "\n${GREEN}🎉 Loop finished after $CURRENT_ITERATION iteration(s)${NC}"
     show_cost_summary
 
+    # Let the web UI store the generated plan as a new revision
+    if [[ "$mode" == "plan" && -f "$impl_plan_file" ]]; then
+        emit_ralph_event "$issue_id" "plan_revision" "{\"planFile\":$(printf '%s' "$impl_plan_file" | jq -Rs .)}"
+    fi
+
     return 0
 }
 
+# Whether the current directory is a linked worktree (concurrent runs get a
+# detached one), where branches checked out in the main tree can't be
+is_linked_worktree() {
+    local git_dir common_dir
+    git_dir=$(git rev-parse --absolute-git-dir 2>/dev/null) || return 1
+    common_dir=$(cd "$(git rev-parse --git-common-dir 2>/dev/null)" 2>/dev/null && pwd -P) || return 1
+    [[ "$git_dir" != "$common_dir" ]]
+}
+
 # Process a single issue with full workflow
 # Args: issue_json, provider_name, work_dir, base_branch, max_iterations, mode, model, auto_push
 process_issue() {
@@ -946,25 +1088,67 @@ process_issue() {
     # Get branch name from provider
     local branch_name=$(provider_branch_name "$issue_json")
 
+    # Another iteration on reviewed changes, or a CI fix on a PR, continues
+    # their branch (RALPH_BRANCH); a PR branch may only be on origin
+    local continue_branch=false
+    if [[ -n "${RALPH_BRANCH:-}" ]] && ! git show-ref --verify --quiet "refs/heads/$RALPH_BRANCH"; then
+        git fetch origin "$RALPH_BRANCH:$RALPH_BRANCH" 2>/dev/null || true
+    fi
+    if [[ -n "${RALPH_BRANCH:-}" ]]; then
+        if ! git show-ref --verify --quiet "refs/heads/$RALPH_BRANCH"; then
+            echo -e "${RED}ERROR: Branch to continue not found: $RALPH_BRANCH${NC}"
+            emit_error "$issue_id" "Branch to continue not found: $RALPH_BRANCH"
+            return 1
+        fi
+        branch_name="$RALPH_BRANCH"
+        continue_branch=true
     # Add timestamp suffix if RALPH_FORCE_NEW_BRANCH is true (default)
-    if [[ "${RALPH_FORCE_NEW_BRANCH:-true}" == "true" ]]; then
+    elif [[ "${RALPH_FORCE_NEW_BRANCH:-true}" == "true" ]]; then
         local timestamp=$(date +%H%M%S)
         branch_name="${branch_name}-${timestamp}"
     fi
 
     echo -e "${YELLOW}Preparing branch: $branch_name${NC}"
 
-    # Ensure we're on updated base branch
-    git checkout "$base_branch" 2>/dev/null || true
-    git pull origin "$base_branch" 2>/dev/null || true
+    # In a worktree the base branch is checked out in the main tree, so new
+    # branches start from its ref instead of from checking it out
+    local in_worktree=false
+    is_linked_worktree && in_worktree=true
+    local start_ref=""
+    if [[ "$continue_branch" != "true" ]]; then
+        if [[ "$in_worktree" == "true" ]]; then
+            start_ref="$base_branch"
+            if ! git show-ref --verify --quiet "refs/heads/$base_branch"; then
+                git fetch origin "$base_branch" 2>/dev/null || true
+                start_ref="origin/$base_branch"
+            fi
+        else
+            # Ensure we're on updated base branch
+            git checkout "$base_branch" 2>/dev/null || true
+            git pull origin "$base_branch" 2>/dev/null || true
+        fi
+    fi
 
     # Create or checkout branch
     # With RALPH_FORCE_NEW_BRANCH=true, branch should always be new
+    local checkout_output
     if git show-ref --verify --quiet "refs/heads/$branch_name"; then
         echo -e "${YELLOW}Branch exists, checking out...${NC}"
-        git checkout "$branch_name"
+        checkout_output=$(git checkout "$branch_name" 2>&1)
+    elif [[ -n "$start_ref" ]]; then
+        checkout_output=$(git checkout -b "$branch_name" "$start_ref" 2>&1)
     else
-        git checkout -b "$branch_name"
+        checkout_output=$(git checkout -b "$branch_name" 2>&1)
+    fi || {
+        # Working on whatever is checked out would commit to the wrong branch
+        echo -e "${RED}ERROR: Could not check out branch $branch_name: $checkout_output${NC}"
+        emit_error "$issue_id" "Could not check out branch $branch_name: $checkout_output"
+        return 1
+    }
+
+    # Let the web UI find the run's changes (plan runs don't make any)
+    if [[ "$mode" != "plan" ]]; then
+        emit_branch "$issue_id" "$branch_name" "$base_branch"
     fi
 
     # Create work directory
@@ -987,11 +1171,15 @@ process_issue() {
     echo -e "${YELLOW}Starting Ralph fix loop...${NC}"
     echo ""
 
-    if ralph_fix_loop "$max_iterations" "$prd_file" "$progress_file" "$issue_id" "$mode" "$model" "$branch_name"; then
+    if ralph_fix_loop "$max_iterations" "$prd_file" "$progress_file" "$issue_id" "$mode" "$model" "$branch_name" "$auto_push"; then
         echo ""
         echo -e "${GREEN}Issue $issue_id RESOLVED!${NC}"
         emit_activity "$issue_id" "result" "" "Issue processing completed successfully" "success"
 
+        if [[ "$mode" != "plan" ]]; then
+            run_test_command "$issue_id"
+        fi
+
         # Skip push for plan mode
         if [[ "$mode" == "plan" ]]; then
             echo -e "${YELLOW}Plan mode: skipping push${NC}"
@@ -1036,13 +1224,20 @@ process_issue() {
                 --title "$pr_title" \
                 --body "$pr_body" \
                 --base "$base_branch" 2>&1) && {
+                    # gh may print warnings before the URL
+                    pr_url=$(printf '%s\n' "$pr_url" | tail -n 1)
                     echo -e "${GREEN}PR created: $pr_url${NC}"
                     emit_activity "$issue_id" "push" "" "PR created: $pr_url" "success"
+                    emit_pull_request "$issue_id" "$pr_url" "$branch_name"
                     emit_complete "$issue_id" "Issue resolved - PR: $pr_url"
                 } || {
                     if echo "$pr_url" | grep -q "already exists"; then
                         echo -e "${YELLOW}PR already exists for this branch${NC}"
                         emit_activity "$issue_id" "push" "" "PR already exists for this branch" "success"
+                        local existing_url
+                        if existing_url=$(gh pr view "$branch_name" --json url --jq .url 2>/dev/null) && [[ -n "$existing_url" ]]; then
+                            emit_pull_request "$issue_id" "$existing_url" "$branch_name"
+                        fi
                         emit_complete "$issue_id" "Issue resolved - PR already exists"
                     else
                         echo -e "${RED}PR creation failed: $pr_url${NC}"
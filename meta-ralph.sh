@@ -29,6 +29,7 @@ OFFSET=0
 SINGLE_ISSUE=""
 DRY_RUN=false
 JSON_OUTPUT=false
+JSON_FILE=""
 ONLY_IDS=""
 BASE_BRANCH="${RALPH_BASE_BRANCH:-main}"
 PARALLEL=1
@@ -75,6 +76,11 @@ while [[ $# -gt 0 ]]; do
             JSON_OUTPUT=true
             shift
             ;;
+        --json-file)
+            JSON_OUTPUT=true
+            JSON_FILE="$2"
+            shift 2
+            ;;
         --only-ids)
             ONLY_IDS="$2"
             shift 2
@@ -110,6 +116,7 @@ Options:
   --single ISSUE_ID      Process only a specific issue
   --dry-run              List issues without processing
   --json                 Output issues as JSON (use with --dry-run)
+  --json-file PATH       Write a versioned JSON payload (issues + provider status) to PATH
   --only-ids ID1,ID2     Process only specific issue IDs (comma-separated)
   --base-branch BRANCH   Base branch for PRs (default: main)
   --parallel N           Process N issues in parallel (default: 1)
@@ -171,8 +178,8 @@ fi
 # Change to repo root
 cd "$REPO_ROOT"
 
-# Verify git repo
-if [[ ! -d ".git" ]]; then
+# Verify git repo (.git is a file in a worktree)
+if [[ ! -e ".git" ]]; then
     echo -e "${RED}Error: Not in a git repository${NC}"
     exit 1
 fi
@@ -184,6 +191,19 @@ fi
 # Helper to print only in non-JSON mode
 log() { [[ "$JSON_OUTPUT" != "true" ]] && echo -e "$@" || true; }
 
+# Version of the --json-file payload; bump on breaking changes (see ui/src/lib/issue-schema.ts)
+JSON_SCHEMA_VERSION=1
+
+# Per-provider fetch outcomes, written to the --json-file payload
+provider_statuses="[]"
+
+# Record a provider's fetch outcome
+# Args: provider, status (ok|error|parse_error|unavailable), issue_count, error
+record_provider_status() {
+    provider_statuses=$(echo "$provider_statuses" | jq -c --arg provider "$1" --arg status "$2" --argjson count "$3" --arg error "$4" \
+        '. + [{provider: $provider, status: $status, count: $count} + (if $error == "" then {} else {error: $error} end)]')
+}
+
 log "${BLUE}══════════════════════════════════════════════════════════════${NC}"
 log "${BLUE}  Phase 1: Fetching issues from providers${NC}"
 log "${BLUE}══════════════════════════════════════════════════════════════${NC}"
@@ -199,12 +219,33 @@ for provider_name in "${PROVIDER_LIST[@]}"; do
 
     if ! load_provider "$provider_name"; then
         log "${YELLOW}⚠️  Provider '$provider_name' not available, skipping${NC}"
+        record_provider_status "$provider_name" "unavailable" 0 "Provider not available"
         continue
     fi
 
-    provider_issues=$(provider_fetch 2>/dev/null || echo "[]")
+    # Providers report API failures on stderr and fall back to an empty list
+    provider_stderr_file=$(mktemp)
+    provider_status="ok"
+    provider_issues=$(provider_fetch 2>"$provider_stderr_file") || provider_status="error"
+    provider_error=$(tr '\n' ' ' < "$provider_stderr_file" | cut -c1-500)
+    rm -f "$provider_stderr_file"
+
+    if [[ -z "${provider_issues//[[:space:]]/}" ]]; then
+        provider_status="error"
+        provider_error="${provider_error:-Provider returned no data}"
+        provider_issues="[]"
+    elif ! echo "$provider_issues" | jq -e 'type == "array"' > /dev/null 2>&1; then
+        provider_status="parse_error"
+        provider_issues="[]"
+    fi
     issue_count=$(echo "$provider_issues" | jq 'length')
+    if [[ "$provider_status" == "ok" && "$issue_count" -eq 0 && -n "$provider_error" ]]; then
+        provider_status="error"
+    fi
+    [[ "$provider_status" == "ok" ]] && provider_error=""
 
+    record_provider_status "$provider_name" "$provider_status" "$issue_count" "$provider_error"
+    [[ -n "$provider_error" ]] && log "${YELLOW}⚠️  $provider_error${NC}"
     log "${GREEN}   Found $issue_count issues${NC}"
 
     if [[ "$issue_count" -gt 0 ]]; then
@@ -259,7 +300,15 @@ issue_count=$(echo "$all_issues" | jq 'length')
 if [[ "$DRY_RUN" == "true" ]]; then
     # JSON output mode
     if [[ "$JSON_OUTPUT" == "true" ]]; then
-        echo "$all_issues"
+        if [[ -n "$JSON_FILE" ]]; then
+            # Versioned payload in its own file, so stdout log noise can't corrupt it
+            echo "$all_issues" | jq --argjson version "$JSON_SCHEMA_VERSION" \
+                --argjson providers "$provider_statuses" \
+                '{schemaVersion: $version, generatedAt: (now | todate), issues: ., providers: $providers}' \
+                > "$JSON_FILE.tmp" && mv "$JSON_FILE.tmp" "$JSON_FILE"
+        else
+            echo "$all_issues"
+        fi
         exit 0
     fi
 
@@ -306,8 +355,11 @@ echo -e "${BLUE}  Phase 2: Processing $issue_count issues${NC}"
 echo -e "${BLUE}══════════════════════════════════════════════════════════════${NC}"
 echo ""
 
-# Create log directory
-LOG_DIR="$REPO_ROOT/${RALPH_LOG_DIR:-.ralph-logs}"
+# Create log directory (RALPH_LOG_DIR may be absolute, e.g. when REPO_ROOT is a worktree)
+LOG_DIR="${RALPH_LOG_DIR:-.ralph-logs}"
+if [[ "$LOG_DIR" != /* ]]; then
+    LOG_DIR="$REPO_ROOT/$LOG_DIR"
+fi
 mkdir -p "$LOG_DIR"
 
 # Counters
@@ -367,8 +419,11 @@ for (( idx=0; idx<issue_count; idx++ )); do
 
     ((processed++)) || true
 
-    # Return to base branch
-    git checkout "$BASE_BRANCH" 2>/dev/null || true
+    # Return to base branch (in a worktree it is checked out in the main tree,
+    # and the next issue branches from it without checking it out)
+    if ! is_linked_worktree; then
+        git checkout "$BASE_BRANCH" 2>/dev/null || true
+    fi
 
     echo ""
 done
@@ -1,16 +1,30 @@
 /**
  * CI Fix API Endpoint
  *
- * Triggers an auto-fix attempt for CI failures using Claude.
+ * Queues a build run that tries to fix a PR's failing CI checks, on the
+ * PR's branch and with the failures as context. The PR must be one a run
+ * opened (see pull-request-store.ts); its issue is the one processed.
+ *
+ * The run's events are streamed under the returned `fixAttemptId`
+ * (GET /api/process/stream?ids={fixAttemptId}). Once it pushed, CI runs on
+ * the attempt's `headSha`.
  *
  * POST /api/ci/fix
  * Body: { owner, repo, sha, failures, issueId? }
+ * At most CIConfig.maxRetries fix attempts are made per PR.
+ *
+ * GET /api/ci/fix?id={fixAttemptId}
+ * Returns the fix attempt.
  *
  * @see PRD-07-CICD-AWARENESS.md for specification
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { CIFailure } from '@/lib/types';
+import { getCIFixStore } from '@/lib/ci-fix-store';
+import { getJobQueue } from '@/lib/job-queue';
+import { getRequestActor } from '@/lib/lifecycle-store';
+import { getPullRequestStore } from '@/lib/pull-request-store';
+import { CIFailure, CIFixAttempt, DEFAULT_CI_CONFIG } from '@/lib/types';
 
 // ============================================================================
 // Types
@@ -28,12 +42,26 @@ interface CIFixResponse {
   success: boolean;
   message: string;
   fixAttemptId?: string;
+  attempt?: CIFixAttempt;
 }
 
 // ============================================================================
-// API Handler
+// API Handlers
 // ============================================================================
 
+export async function GET(request: NextRequest) {
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'Missing required parameter: id' }, { status: 400 });
+  }
+
+  const attempt = getCIFixStore().get(id);
+  if (!attempt) {
+    return NextResponse.json({ error: `CI fix attempt ${id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ attempt });
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body: CIFixRequest = await request.json();
@@ -54,78 +82,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build the context for Claude from CI failures
-    const failureContext = failures
-      .map((f, i) => {
-        let context = `${i + 1}. ${f.checkName}: ${f.error}`;
-        if (f.logs) {
-          // Truncate logs to avoid token limits
-          const truncatedLogs = f.logs.length > 2000 ? f.logs.slice(0, 2000) + '...' : f.logs;
-          context += `\n   Logs:\n   ${truncatedLogs}`;
-        }
-        return context;
-      })
-      .join('\n\n');
-
-    const fixContext = `
-CI/CD Pipeline Failures for ${owner}/${repo} at commit ${sha}:
-
-${failureContext}
-
-Please analyze these CI failures and attempt to fix them. Focus on:
-1. Type errors and linting issues
-2. Test failures
-3. Build errors
-4. Security scan findings
-
-After identifying the root cause, make the necessary code changes to resolve the failures.
-`;
-
-    // Log the fix attempt (in production, this would trigger the actual fix process)
-    console.log('CI Fix attempt triggered:', {
-      owner,
-      repo,
-      sha,
-      failureCount: failures.length,
-      issueId,
-    });
+    // The PR whose head failed, or else the issue's latest PR in the repo
+    const pulls = getPullRequestStore();
+    const pull =
+      pulls.list().find((p) => p.owner === owner && p.repo === repo && p.headSha === sha) ??
+      (issueId ? pulls.list().find((p) => p.issueId === issueId && p.owner === owner && p.repo === repo) : undefined);
+    if (!pull) {
+      return NextResponse.json(
+        { success: false, error: `No PR opened by a run found for ${owner}/${repo} at ${sha.slice(0, 7)}` },
+        { status: 404 }
+      );
+    }
 
-    // For now, we'll queue this as a new processing task
-    // In a full implementation, this would:
-    // 1. Create a new branch from the current commit
-    // 2. Run Claude with the failure context
-    // 3. Push fixes and update the PR
+    const fixes = getCIFixStore();
+    const previous = fixes.listForPullRequest(pull.url);
+    if (previous.length >= DEFAULT_CI_CONFIG.maxRetries) {
+      return NextResponse.json(
+        { success: false, error: `Gave up after ${previous.length} CI fix attempt(s) on ${pull.url}` },
+        { status: 409 }
+      );
+    }
 
-    // Generate a fix attempt ID
-    const fixAttemptId = `ci-fix-${Date.now()}-${sha.slice(0, 7)}`;
+    const queue = getJobQueue();
+    if (queue.getActiveJobForIssue(pull.issueId)) {
+      return NextResponse.json(
+        { success: false, error: `Issue ${pull.issueId} is already being processed` },
+        { status: 409 }
+      );
+    }
 
-    // Store the fix request for processing
-    // This would typically go into a queue or session manager
-    const fixTask = {
-      id: fixAttemptId,
+    const attempt = fixes.create({
+      issueId: pull.issueId,
       owner,
       repo,
+      prUrl: pull.url,
+      branch: pull.branch,
       sha,
       failures,
-      context: fixContext,
-      issueId,
-      status: 'queued',
-      createdAt: new Date().toISOString(),
-    };
-
-    // In a real implementation, you would:
-    // 1. Store this in the session manager or a queue
-    // 2. Trigger the meta-ralph processing with CI fix mode
-    // 3. Return immediately and let the processing happen async
+    });
 
-    console.log('CI Fix task created:', fixTask);
+    // Fix with the settings of the run that opened the PR, pushing to it
+    const prJob = pull.jobId ? queue.getJob(pull.jobId) : undefined;
+    const { jobs } = queue.enqueue(
+      [pull.issueId],
+      {
+        ...prJob?.options,
+        mode: 'build',
+        autoPush: true,
+        reviewBeforePush: false,
+        escalation: undefined,
+      },
+      {
+        actor: getRequestActor(request),
+        linkedIssueIds: prJob?.linkedIssueIds ? { [pull.issueId]: prJob.linkedIssueIds } : undefined,
+        ciFixAttemptIds: { [pull.issueId]: attempt.id },
+      }
+    );
 
-    // For demo purposes, we return a success response
-    // The actual fix would be processed asynchronously
     const result: CIFixResponse = {
       success: true,
-      message: `CI fix attempt queued. Claude will analyze ${failures.length} failure(s) and attempt fixes.`,
-      fixAttemptId,
+      message: `CI fix attempt ${attempt.attempt} of ${DEFAULT_CI_CONFIG.maxRetries} queued for ${failures.length} failure(s).`,
+      fixAttemptId: attempt.id,
+      attempt: fixes.assignJob(attempt.id, jobs[0].id) ?? attempt,
     };
 
     return NextResponse.json(result);
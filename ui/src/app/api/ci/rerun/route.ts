@@ -0,0 +1,63 @@
+/**
+ * CI Re-run API Endpoint
+ *
+ * Runs a CI check again through the CI provider (see ci-provider.ts).
+ *
+ * POST /api/ci/rerun
+ * Body: { checkId, owner, repo, provider? }
+ * - owner, repo: required except for the local provider
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCIProvider } from '@/lib/ci-provider';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CIRerunRequest {
+  checkId: string;
+  owner?: string;
+  repo?: string;
+  provider?: string;
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { checkId, owner = '', repo = '', provider: providerName }: CIRerunRequest = await request.json();
+
+    const provider = getCIProvider(providerName);
+    if (!provider) {
+      return NextResponse.json(
+        { error: `Unknown CI provider: ${providerName || process.env.RALPH_CI_PROVIDER}` },
+        { status: 400 }
+      );
+    }
+
+    if (!checkId || (provider.name !== 'local' && (!owner || !repo))) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: checkId, owner, repo' },
+        { status: 400 }
+      );
+    }
+
+    const result = await provider.rerun({ owner, repo }, checkId);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, checkId: result.data.checkId });
+  } catch (error) {
+    console.error('Error re-running CI check:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * SSE API Endpoint for CI Status
+ *
+ * Pushes a commit's CI status to the client whenever the cache stores a new
+ * one, typically on a GitHub webhook (POST /api/webhooks/github). Each
+ * message says whether webhooks keep the status current; while they don't,
+ * clients keep polling GET /api/ci/status.
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { NextRequest } from 'next/server';
+import { getCIStatusCache } from '@/lib/ci-status-cache';
+import type { CIStatusResponse, CIStatusStreamEvent } from '@/lib/types';
+
+// ============================================================================
+// SSE Endpoint Handler
+// ============================================================================
+
+/**
+ * GET /api/ci/stream
+ *
+ * Query params:
+ * - owner, repo, sha: the commit to follow (required)
+ *
+ * Response: text/event-stream with events:
+ * - data: {"status": {...CIStatusResponse} | null, "webhooks": true|false}
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const searchParams = request.nextUrl.searchParams;
+  const owner = searchParams.get('owner');
+  const repo = searchParams.get('repo');
+  const sha = searchParams.get('sha');
+
+  if (!owner || !repo || !sha) {
+    return new Response(JSON.stringify({ error: 'Missing required parameters: owner, repo, sha' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const cache = getCIStatusCache();
+  const webhooksConfigured = !!process.env.GITHUB_WEBHOOK_SECRET;
+  const encoder = new TextEncoder();
+  let isActive = true;
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (status: CIStatusResponse | null) => {
+        const event: CIStatusStreamEvent = {
+          status,
+          webhooks: webhooksConfigured && cache.receivesWebhooks(owner, repo),
+        };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      // Send the cached status, if any, right away
+      send(cache.get(owner, repo, sha)?.status ?? null);
+
+      unsubscribe = cache.subscribe(owner, repo, sha, (status) => {
+        if (isActive) {
+          try {
+            send(status);
+          } catch {
+            // Stream closed
+            isActive = false;
+          }
+        }
+      });
+
+      // Send heartbeat every 30 seconds to keep connection alive
+      const heartbeatInterval = setInterval(() => {
+        if (isActive) {
+          try {
+            const heartbeat = `:heartbeat ${new Date().toISOString()}\n\n`;
+            controller.enqueue(encoder.encode(heartbeat));
+          } catch {
+            isActive = false;
+            clearInterval(heartbeatInterval);
+          }
+        } else {
+          clearInterval(heartbeatInterval);
+        }
+      }, 30000);
+    },
+
+    cancel() {
+      isActive = false;
+      unsubscribe?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+    },
+  });
+}
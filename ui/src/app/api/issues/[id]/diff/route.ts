@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getBranchDiff } from '@/lib/branch-diff';
+import { TARGET_REPO } from '@/lib/meta-ralph';
+import { getLatestBranch } from '@/lib/session-manager';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/issues/[id]/diff
+ * Returns what the issue's latest build run changed: the unified diff of
+ * its branch against the base branch in TARGET_REPO, with per-file hunks
+ * and line counts. Runs without a branch (e.g. later plan runs) are skipped.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const branch = getLatestBranch(id);
+    if (!branch) {
+      return NextResponse.json({ error: `No build run with a branch recorded for issue ${id}` }, { status: 404 });
+    }
+
+    const diff = await getBranchDiff(TARGET_REPO, id, branch);
+    if (!diff) {
+      return NextResponse.json(
+        { error: `Branch ${branch.branch} or ${branch.baseBranch} no longer exists in the target repository` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Failed to fetch issue diff:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch issue diff', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import { getRequestActor } from '@/lib/lifecycle-store';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/issues/[id]/process
+ * Cancels processing of a single issue, leaving the rest of the queue running.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const job = getJobQueue().cancelIssue(id, getRequestActor(request));
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Issue ${id} is not queued or processing` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(job);
+}
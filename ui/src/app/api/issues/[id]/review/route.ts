@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import { createPullRequest, deleteBranch, pushBranch, resolveBranchHead } from '@/lib/branch-publish';
+import { getChangeReviewStore, type ChangeDecision } from '@/lib/change-review-store';
+import { getIssueCache } from '@/lib/issue-cache';
+import { getJobQueue } from '@/lib/job-queue';
+import { getLifecycleStore, getRequestActor } from '@/lib/lifecycle-store';
+import { TARGET_REPO } from '@/lib/meta-ralph';
+import { getPullRequestPoller } from '@/lib/pull-request-poller';
+import { getPullRequestStore } from '@/lib/pull-request-store';
+import type { IssueStatus, ProcessingOptions } from '@/lib/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+type ReviewAction = 'approve' | 'request_iteration' | 'discard';
+
+const DECISIONS: Record<ReviewAction, ChangeDecision['status']> = {
+  approve: 'approved',
+  request_iteration: 'iteration_requested',
+  discard: 'discarded',
+};
+
+/**
+ * GET /api/issues/[id]/review
+ * Returns the review of the issue's held changes, or null if it has none.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ review: getChangeReviewStore().get(id) ?? null });
+  } catch (error) {
+    console.error('Failed to fetch change review:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch change review', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/issues/[id]/review
+ * Approves, sends back or discards changes ready for review.
+ *
+ * Approving pushes the run's branch and opens its PR, which the PR poller
+ * then tracks. Requesting another
+ * iteration queues a build run that continues on the branch and addresses
+ * the comment. Discarding deletes the branch.
+ *
+ * Request body:
+ * {
+ *   action: 'approve' | 'request_iteration' | 'discard';
+ *   comment?: string;  // Required when requesting another iteration
+ *   options?: Partial<ProcessingOptions>;  // For the iteration run
+ * }
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { action, comment, options } = (await request.json()) as {
+      action?: ReviewAction;
+      comment?: string;
+      options?: Partial<ProcessingOptions>;
+    };
+
+    if (!action || !(action in DECISIONS)) {
+      return NextResponse.json(
+        { error: `action must be one of ${Object.keys(DECISIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const trimmedComment = typeof comment === 'string' ? comment.trim() : '';
+    if (action === 'request_iteration' && !trimmedComment) {
+      return NextResponse.json({ error: 'A comment is required when requesting another iteration' }, { status: 400 });
+    }
+
+    const reviews = getChangeReviewStore();
+    const review = reviews.get(id);
+    if (review?.status !== 'ready_for_review') {
+      return NextResponse.json({ error: `No changes ready for review for issue ${id}` }, { status: 409 });
+    }
+
+    const queue = getJobQueue();
+    if (queue.getActiveJobForIssue(id)) {
+      return NextResponse.json({ error: `Issue ${id} is already being processed` }, { status: 409 });
+    }
+
+    const actor = getRequestActor(request);
+    const buildJob = review.jobId ? queue.getJob(review.jobId) : undefined;
+    const branch = { branch: review.branch, baseBranch: review.baseBranch };
+
+    let prUrl: string | undefined;
+    if (action === 'approve') {
+      const issue = (await getIssueCache().getIssues()).find((i) => i.id === id);
+      await pushBranch(TARGET_REPO, review.branch);
+      prUrl = await createPullRequest(TARGET_REPO, branch, {
+        title: `fix(${id}): ${(issue?.title ?? id).slice(0, 50)}`,
+        body: `Fix for issue ${id}\n\nReviewed and approved by ${actor} before pushing.${
+          trimmedComment ? `\n\n${trimmedComment}` : ''
+        }`,
+      });
+      const headSha = await resolveBranchHead(TARGET_REPO, review.branch);
+      if (getPullRequestStore().track(id, { url: prUrl, branch: review.branch, headSha }, review.jobId)) {
+        getPullRequestPoller();
+      }
+    } else if (action === 'discard') {
+      await deleteBranch(TARGET_REPO, review.branch);
+    }
+
+    const updated = reviews.decide(id, {
+      status: DECISIONS[action],
+      actor,
+      comment: trimmedComment || undefined,
+      prUrl,
+    });
+
+    if (action === 'request_iteration') {
+      // Iterate with the settings of the run that made the changes
+      queue.enqueue([id], { ...buildJob?.options, ...options, mode: 'build' }, {
+        actor,
+        linkedIssueIds: buildJob?.linkedIssueIds ? { [id]: buildJob.linkedIssueIds } : undefined,
+      });
+    } else {
+      const to: IssueStatus = action === 'approve' ? 'completed' : 'pending';
+      const reason = action === 'approve' ? 'Changes approved and pushed' : `Changes on ${review.branch} discarded`;
+      getLifecycleStore().record(
+        [id, ...(buildJob?.linkedIssueIds ?? [])].map((issueId) => ({
+          issueId,
+          to,
+          actor,
+          reason,
+          jobId: review.jobId,
+          prUrl,
+        }))
+      );
+    }
+
+    return NextResponse.json({ review: updated });
+  } catch (error) {
+    console.error('Failed to review changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to review changes', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
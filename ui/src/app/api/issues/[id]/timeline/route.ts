@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getLifecycleStore } from '@/lib/lifecycle-store';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/issues/[id]/timeline
+ * Returns the issue's recorded status changes, oldest first.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(getLifecycleStore().getTimeline(id));
+  } catch (error) {
+    console.error('Failed to fetch issue timeline:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch issue timeline', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
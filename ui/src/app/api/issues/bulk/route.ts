@@ -1,22 +1,26 @@
 import { NextResponse } from 'next/server';
-import { fetchIssues, processIssues } from '@/lib/meta-ralph';
-import { getActiveSessions } from '@/lib/session-manager';
-import type { BulkActionRequest, BulkActionResponse, Issue, ProcessingOptions } from '@/lib/types';
+import { getIssueCache } from '@/lib/issue-cache';
+import { getTriageStore, type IssueRef } from '@/lib/triage-store';
+import { getLifecycleStore, getRequestActor } from '@/lib/lifecycle-store';
+import { enqueueProcessRequest } from '@/lib/process-request';
+import type { BulkActionRequest, BulkActionResponse, Issue } from '@/lib/types';
 
 /**
  * POST /api/issues/bulk - Handle bulk actions on issues
  *
  * Supports actions: export, tag, untag, priority, ignore, restore, process
+ * (with `payload.options` and `payload.maxRetries` as POST /api/issues takes them)
  *
  * Why this endpoint exists:
  * - Provides a unified API for all bulk operations on issues
  * - Enables server-side validation and coordination
- * - Allows for future server-side state management
+ * - Persists triage state (tags, ignore, priority) shared by all clients
  */
 export async function POST(request: Request): Promise<NextResponse<BulkActionResponse>> {
   try {
     const body = await request.json() as BulkActionRequest;
     const { action, ids, payload } = body;
+    const actor = getRequestActor(request);
 
     // Validate request
     if (!action) {
@@ -61,27 +65,27 @@ export async function POST(request: Request): Promise<NextResponse<BulkActionRes
       }
 
       case 'tag': {
-        return handleTag(ids, payload?.tags, 'add');
+        return await handleTag(ids, payload?.tags, 'add');
       }
 
       case 'untag': {
-        return handleTag(ids, payload?.tags, 'remove');
+        return await handleTag(ids, payload?.tags, 'remove');
       }
 
       case 'priority': {
-        return handlePriority(ids, payload?.priority);
+        return await handlePriority(ids, payload?.priority);
       }
 
       case 'ignore': {
-        return handleIgnore(ids, true);
+        return await handleIgnore(ids, true, actor);
       }
 
       case 'restore': {
-        return handleIgnore(ids, false);
+        return await handleIgnore(ids, false, actor);
       }
 
       case 'process': {
-        return await handleProcess(ids, payload);
+        return await handleProcess(ids, actor, payload);
       }
 
       default: {
@@ -116,7 +120,7 @@ async function handleExport(
   format?: 'csv' | 'json'
 ): Promise<NextResponse<BulkActionResponse>> {
   try {
-    const allIssues = await fetchIssues();
+    const allIssues = await getIssueCache().getIssues();
 
     // Filter to requested IDs
     const selectedIssues = allIssues.filter((issue: Issue) => ids.includes(issue.id));
@@ -152,15 +156,49 @@ async function handleExport(
 }
 
 /**
- * Handle tag/untag action
- * Note: Tags are currently stored client-side (localStorage).
- * This endpoint validates the request and returns success for UI to update local state.
+ * Resolve issue IDs to provider-qualified references.
+ * Triage state is keyed by provider, so IDs must match a fetched issue.
  */
-function handleTag(
+async function resolveIssueRefs(ids: string[]): Promise<{ refs: IssueRef[]; notFound: string[] }> {
+  const issues = await getIssueCache().getIssues();
+  const refs: IssueRef[] = [];
+  const notFound: string[] = [];
+
+  for (const id of ids) {
+    const matches = issues.filter((issue: Issue) => issue.id === id);
+    if (matches.length === 0) {
+      notFound.push(id);
+    } else {
+      refs.push(...matches.map(({ id, provider }) => ({ id, provider })));
+    }
+  }
+
+  return { refs, notFound };
+}
+
+/**
+ * Response for triage actions where none of the IDs matched an issue.
+ */
+function noMatchingIssues(notFound: string[]): NextResponse<BulkActionResponse> {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'No matching issues found',
+      affected: 0,
+      data: { notFound },
+    },
+    { status: 404 }
+  );
+}
+
+/**
+ * Handle tag/untag action - persists tags server-side
+ */
+async function handleTag(
   ids: string[],
   tags?: string[],
   operation?: 'add' | 'remove'
-): NextResponse<BulkActionResponse> {
+): Promise<NextResponse<BulkActionResponse>> {
   if (!tags || tags.length === 0) {
     return NextResponse.json(
       {
@@ -172,126 +210,152 @@ function handleTag(
     );
   }
 
-  // Tags are stored client-side, so we just acknowledge the operation
-  // The client will update localStorage accordingly
+  const { refs, notFound } = await resolveIssueRefs(ids);
+  if (refs.length === 0) {
+    return noMatchingIssues(notFound);
+  }
+
+  const store = getTriageStore();
+  if (operation === 'add') {
+    store.addTags(refs, tags);
+  } else {
+    store.removeTags(refs, tags);
+  }
+
   return NextResponse.json({
     success: true,
-    message: `${operation === 'add' ? 'Added' : 'Removed'} ${tags.length} tag(s) ${operation === 'add' ? 'to' : 'from'} ${ids.length} issue(s)`,
-    affected: ids.length,
+    message: `${operation === 'add' ? 'Added' : 'Removed'} ${tags.length} tag(s) ${operation === 'add' ? 'to' : 'from'} ${refs.length} issue(s)`,
+    affected: refs.length,
     data: {
-      issueIds: ids,
+      issueIds: refs.map(ref => ref.id),
       tags,
       operation,
+      notFound,
     },
   });
 }
 
 /**
- * Handle priority change action
- * Note: Priority is currently determined by providers and is read-only.
- * This endpoint returns an acknowledgment for future server-side implementation.
+ * Handle priority change action - overrides the provider-computed priority.
+ * A null priority clears the override.
  */
-function handlePriority(
+async function handlePriority(
   ids: string[],
-  priority?: number
-): NextResponse<BulkActionResponse> {
-  if (priority === undefined || priority < 0 || priority > 100) {
+  priority?: number | null
+): Promise<NextResponse<BulkActionResponse>> {
+  if (
+    priority === undefined ||
+    (priority !== null && (typeof priority !== 'number' || priority < 0 || priority > 100))
+  ) {
     return NextResponse.json(
       {
         success: false,
-        message: 'Priority must be a number between 0 and 100',
+        message: 'Priority must be a number between 0 and 100, or null to clear',
         affected: 0,
       },
       { status: 400 }
     );
   }
 
-  // Priority override is a potential future feature
-  // For now, acknowledge the request
+  const { refs, notFound } = await resolveIssueRefs(ids);
+  if (refs.length === 0) {
+    return noMatchingIssues(notFound);
+  }
+
+  getTriageStore().setPriority(refs, priority);
+
   return NextResponse.json({
     success: true,
-    message: `Priority update acknowledged for ${ids.length} issue(s) (priority: ${priority})`,
-    affected: ids.length,
+    message: priority === null
+      ? `Cleared priority override for ${refs.length} issue(s)`
+      : `Set priority to ${priority} for ${refs.length} issue(s)`,
+    affected: refs.length,
     data: {
-      issueIds: ids,
+      issueIds: refs.map(ref => ref.id),
       priority,
-      note: 'Priority override is not yet implemented server-side',
+      notFound,
     },
   });
 }
 
 /**
- * Handle ignore/restore action
- * Note: Ignored state is currently stored client-side.
- * This endpoint validates and acknowledges for UI to update local state.
+ * Handle ignore/restore action - persists ignored state server-side
  */
-function handleIgnore(
+async function handleIgnore(
   ids: string[],
-  ignore: boolean
-): NextResponse<BulkActionResponse> {
+  ignore: boolean,
+  actor: string
+): Promise<NextResponse<BulkActionResponse>> {
+  const { refs, notFound } = await resolveIssueRefs(ids);
+  if (refs.length === 0) {
+    return noMatchingIssues(notFound);
+  }
+
+  getTriageStore().setIgnored(refs, ignore);
+
+  // Restored issues return to the status they had before being ignored
+  const lifecycle = getLifecycleStore();
+  lifecycle.record(refs.map(ref => ({
+    issueId: ref.id,
+    to: ignore
+      ? 'ignored'
+      : (lifecycle.getStatus(ref.id) === 'ignored' && lifecycle.getPreviousStatus(ref.id)) || 'pending',
+    actor,
+    reason: ignore ? 'Ignored' : 'Restored',
+  })));
+
   return NextResponse.json({
     success: true,
-    message: `${ignore ? 'Ignored' : 'Restored'} ${ids.length} issue(s)`,
-    affected: ids.length,
+    message: `${ignore ? 'Ignored' : 'Restored'} ${refs.length} issue(s)`,
+    affected: refs.length,
     data: {
-      issueIds: ids,
+      issueIds: refs.map(ref => ref.id),
       ignored: ignore,
+      notFound,
     },
   });
 }
 
 /**
- * Handle process action - starts processing selected issues
+ * Handle process action - enqueues selected issues for processing with the
+ * payload's options, validated and routed as POST /api/issues does
  */
 async function handleProcess(
   ids: string[],
-  _payload?: BulkActionRequest['payload']
+  actor: string,
+  payload?: BulkActionRequest['payload']
 ): Promise<NextResponse<BulkActionResponse>> {
-  // Check for already processing issues
-  const sessions = getActiveSessions();
-  const processingIds = sessions
-    .filter(s => s.status === 'processing')
-    .map(s => s.issueId);
-
-  const alreadyProcessing = ids.filter(id => processingIds.includes(id));
-  if (alreadyProcessing.length > 0) {
+  const result = await enqueueProcessRequest({
+    ids,
+    options: payload?.options,
+    maxRetries: payload?.maxRetries,
+    actor,
+  });
+
+  if (!result.ok) {
     return NextResponse.json(
       {
         success: false,
-        message: `Some issues are already being processed: ${alreadyProcessing.join(', ')}`,
+        message: result.status === 409
+          ? `Some issues are already being processed: ${result.alreadyProcessing.join(', ')}`
+          : result.error,
         affected: 0,
-        data: { alreadyProcessing },
+        data: result.status === 409 ? { alreadyProcessing: result.alreadyProcessing } : undefined,
       },
-      { status: 409 }
+      { status: result.status }
     );
   }
 
-  // Build processing options from payload (reserved for future use)
-  // _payload could contain processing options in an extended BulkActionRequest
-  const options: Partial<ProcessingOptions> = {};
-
-  // Options could be passed via an extended payload in the future
-  // For now, use defaults
-
-  // Start processing
-  processIssues(
-    ids,
-    (log) => {
-      console.log('[Bulk Process]', log);
-    },
-    (success) => {
-      console.log(`[Bulk Process] Completed: ${success ? 'success' : 'failure'}`);
-    },
-    options
-  );
-
+  const { jobs, plan } = result;
   return NextResponse.json({
     success: true,
-    message: `Started processing ${ids.length} issue(s)`,
-    affected: ids.length,
+    message: `Queued ${jobs.length} issue(s) for processing`,
+    affected: jobs.length,
     data: {
-      issueIds: ids,
-      streamUrl: `/api/process/stream?ids=${ids.join(',')}`,
+      issueIds: plan.issueIds,
+      linkedIssueIds: plan.linkedIssueIds,
+      jobIds: jobs.map(j => j.id),
+      streamUrl: `/api/process/stream?ids=${plan.issueIds.join(',')}`,
     },
   });
 }
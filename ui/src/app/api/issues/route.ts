@@ -1,37 +1,178 @@
+import { createHash } from 'crypto';
 import { NextResponse } from 'next/server';
-import { fetchIssues, processIssues } from '@/lib/meta-ralph';
-import { getActiveSessions } from '@/lib/session-manager';
-import type { ProcessingOptions } from '@/lib/types';
-
-// In-memory store for processing state (legacy support)
-// Note: Session-manager is now the primary state source for streaming
-let processingState = {
-  isProcessing: false,
-  currentIssueId: null as string | null,
-  logs: [] as string[],
-  completed: [] as string[],
-  failed: [] as string[],
-};
-
-// Active process handle for cancellation
-let activeProcess: (() => void) | null = null;
-
-// GET /api/issues - Fetch all issues
-export async function GET() {
+import { getIssueCache } from '@/lib/issue-cache';
+import { getActiveSessions, getSession } from '@/lib/session-manager';
+import { getJobQueue } from '@/lib/job-queue';
+import { getTriageStore } from '@/lib/triage-store';
+import { getLifecycleStore, getRequestActor } from '@/lib/lifecycle-store';
+import { getPlanReviewStore } from '@/lib/plan-review-store';
+import { getChangeReviewStore } from '@/lib/change-review-store';
+import { getPriorityRuleStore } from '@/lib/priority-rule-store';
+import { getPullRequestPoller } from '@/lib/pull-request-poller';
+import { getPullRequestStore } from '@/lib/pull-request-store';
+import { applyPriorityRules } from '@/lib/priority-rules';
+import { extractPrUrl } from '@/lib/events';
+import { enqueueProcessRequest } from '@/lib/process-request';
+import type { ExtendedIssue, IssueStatus, ProcessingJob, ProcessingOptions, ProcessingStatus } from '@/lib/types';
+
+/**
+ * Build the legacy processing status from the server-side job queue.
+ */
+function getProcessingStatus(): ProcessingStatus {
+  const queue = getJobQueue();
+  const jobs = queue.getJobs();
+  const runningJobs = queue.getRunningJobs();
+  const hasQueued = jobs.some(j => j.status === 'queued');
+
+  // An issue's outcome is that of its most recent job (retries supersede failures).
+  // Duplicates linked to a job share its outcome.
+  const latestJobs = new Map<string, ProcessingJob>();
+  for (const job of jobs) {
+    for (const issueId of [job.issueId, ...(job.linkedIssueIds ?? [])]) {
+      const existing = latestJobs.get(issueId);
+      if (!existing || job.sequence > existing.sequence) {
+        latestJobs.set(issueId, job);
+      }
+    }
+  }
+  const latest = Array.from(latestJobs.entries());
+
+  return {
+    isProcessing: runningJobs.length > 0 || (hasQueued && !queue.isPaused()),
+    currentIssueId: runningJobs[0]?.issueId ?? null,
+    runningIssueIds: runningJobs.map(j => j.issueId),
+    logs: queue.getLogs(),
+    completed: latest.filter(([, j]) => j.status === 'completed').map(([id]) => id),
+    failed: latest.filter(([, j]) => j.status === 'failed').map(([id]) => id),
+    isPaused: queue.isPaused(),
+    jobs,
+  };
+}
+
+/**
+ * Map each issue's processing state to an IssueStatus.
+ */
+function getIssueStatuses(processing: ProcessingStatus): Map<string, IssueStatus> {
+  const statuses = new Map<string, IssueStatus>();
+  for (const job of processing.jobs ?? []) {
+    const issueIds = [job.issueId, ...(job.linkedIssueIds ?? [])];
+    if (job.status === 'queued') issueIds.forEach(id => statuses.set(id, 'pending'));
+    if (job.status === 'running') issueIds.forEach(id => statuses.set(id, 'processing'));
+  }
+  // A completed plan-mode run leaves its plan awaiting approval, and a
+  // build run held for review its changes; discarded changes leave nothing done
+  const reviews = getPlanReviewStore();
+  const changeReviews = getChangeReviewStore();
+  for (const id of processing.completed) {
+    const changeStatus = changeReviews.get(id)?.status;
+    if (reviews.get(id)?.status === 'awaiting_approval') statuses.set(id, 'awaiting_approval');
+    else if (changeStatus === 'ready_for_review') statuses.set(id, 'ready_for_review');
+    else if (changeStatus === 'discarded') statuses.set(id, 'pending');
+    else statuses.set(id, 'completed');
+  }
+  for (const id of processing.failed) statuses.set(id, 'failed');
+  return statuses;
+}
+
+/**
+ * Status from the lifecycle log. Ignored state is owned by the triage store,
+ * so a logged 'ignored' is not trusted on its own.
+ */
+function lifecycleStatus(status: IssueStatus | undefined): IssueStatus {
+  return !status || status === 'ignored' ? 'pending' : status;
+}
+
+/**
+ * PR of each issue: the latest PR tracked for it, shared with the
+ * duplicates linked to the run that opened it. Incident runs that predate
+ * PR tracking only mention their PR in the canonical issue's activities.
+ */
+function getPullRequests(processing: ProcessingStatus): Map<string, Pick<ExtendedIssue, 'prUrl' | 'prState'>> {
+  const pulls = new Map<string, Pick<ExtendedIssue, 'prUrl' | 'prState'>>();
+  const linkedIssueIds = new Map<string, string[]>();
+  for (const job of processing.jobs ?? []) {
+    if (!job.linkedIssueIds?.length) continue;
+    linkedIssueIds.set(job.id, job.linkedIssueIds);
+    if (job.status !== 'completed') continue;
+    const prUrl = extractPrUrl(getSession(job.issueId)?.activities ?? []);
+    if (!prUrl) continue;
+    for (const id of [job.issueId, ...job.linkedIssueIds]) {
+      pulls.set(id, { prUrl });
+    }
+  }
+
+  // Oldest first, so an issue ends up with its latest PR
+  for (const pull of getPullRequestStore().list().reverse()) {
+    const linked = pull.jobId ? linkedIssueIds.get(pull.jobId) ?? [] : [];
+    for (const id of [pull.issueId, ...linked]) {
+      pulls.set(id, { prUrl: pull.url, prState: pull.state });
+    }
+  }
+  return pulls;
+}
+
+// Distinguishes this server process's store versions from a previous one's
+const PROCESS_ID = `${process.pid}-${Date.now()}`;
+
+/**
+ * Weak validator for the GET response, used for If-None-Match. Built from
+ * the versions of the stores the response is derived from, so it is cheap
+ * to compute and only changes when the response would.
+ */
+function computeETag(): string {
+  const versions = [
+    getIssueCache(),
+    getTriageStore(),
+    getLifecycleStore(),
+    getPlanReviewStore(),
+    getChangeReviewStore(),
+    getPriorityRuleStore(),
+    getPullRequestStore(),
+    getJobQueue(),
+  ].map((store) => store.getVersion());
+  const sessions = getActiveSessions().map((s) => [s.id, s.status, s.completedAt]);
+  const fingerprint = JSON.stringify([PROCESS_ID, versions, sessions]);
+  return `"${createHash('sha1').update(fingerprint).digest('hex')}"`;
+}
+
+// GET /api/issues - Fetch all issues, merged with server-side triage state and priority rules
+// Query: ?refresh=true re-fetches every provider instead of using the cache
+export async function GET(request: Request) {
   try {
-    const issues = await fetchIssues();
+    const cache = getIssueCache();
+    if (new URL(request.url).searchParams.get('refresh') === 'true') {
+      await cache.refresh();
+    }
+    const cachedIssues = await cache.getIssues();
+    // Resume polling tracked PRs after a restart
+    getPullRequestPoller();
+
+    // Clients polling with If-None-Match get a 304 when nothing changed
+    const etag = computeETag();
+    const headers = { ETag: etag, 'Cache-Control': 'no-cache' };
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
 
     // Get current processing state from session-manager
     const sessions = getActiveSessions();
-    const isProcessing = sessions.some(s => s.status === 'processing');
-    const currentSession = sessions.find(s => s.status === 'processing');
+    const processingState = getProcessingStatus();
 
-    return NextResponse.json({
+    const statuses = getIssueStatuses(processingState);
+    const pulls = getPullRequests(processingState);
+    // Jobs cleared from the queue still have their outcome in the lifecycle log
+    const lifecycle = getLifecycleStore();
+    const triaged = getTriageStore()
+      .apply(cachedIssues, (issue) => statuses.get(issue.id) ?? lifecycleStatus(lifecycle.getStatus(issue.id)))
+      .map((issue) => (pulls.has(issue.id) ? { ...issue, ...pulls.get(issue.id) } : issue));
+    const issues = applyPriorityRules(triaged, getPriorityRuleStore().getRules());
+
+    const body = {
       issues,
+      // Per-provider fetch status, so the UI can flag failures next to partial results
+      providers: cache.getProviderStatuses(),
       processing: {
         ...processingState,
-        isProcessing,
-        currentIssueId: currentSession?.issueId || processingState.currentIssueId,
         // Include session info for streaming-aware clients
         sessions: sessions.map(s => ({
           issueId: s.issueId,
@@ -40,7 +181,9 @@ export async function GET() {
           completedAt: s.completedAt,
         })),
       },
-    });
+    };
+
+    return NextResponse.json(body, { headers });
   } catch (error) {
     console.error('Failed to fetch issues:', error);
     return NextResponse.json(
@@ -50,13 +193,15 @@ export async function GET() {
   }
 }
 
-// POST /api/issues - Process selected issues
+// POST /api/issues - Enqueue selected issues for processing
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { ids, options } = body as {
+    const { ids, options, priority, maxRetries } = body as {
       ids: string[];
       options?: Partial<ProcessingOptions>;
+      priority?: number;
+      maxRetries?: number;
     };
 
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -66,63 +211,25 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if any of the requested issues are already processing
-    const sessions = getActiveSessions();
-    const processingIds = sessions
-      .filter(s => s.status === 'processing')
-      .map(s => s.issueId);
-
-    const alreadyProcessing = ids.filter(id => processingIds.includes(id));
-    if (alreadyProcessing.length > 0) {
-      return NextResponse.json(
-        {
-          error: 'Some issues are already being processed',
-          alreadyProcessing,
-        },
-        { status: 409 }
-      );
-    }
-
-    // Reset and start processing
-    processingState = {
-      isProcessing: true,
-      currentIssueId: ids[0],
-      logs: [`Starting processing of ${ids.length} issue(s)...`],
-      completed: [],
-      failed: [],
-    };
-
-    // Start processing in background with options
-    activeProcess = processIssues(
+    const result = await enqueueProcessRequest({
       ids,
-      (log) => {
-        processingState.logs.push(log);
-        // Keep only last 1000 log lines
-        if (processingState.logs.length > 1000) {
-          processingState.logs = processingState.logs.slice(-1000);
-        }
-      },
-      (success) => {
-        processingState.isProcessing = false;
-        processingState.currentIssueId = null;
-        activeProcess = null;
-
-        if (success) {
-          processingState.completed.push(...ids);
-          processingState.logs.push('Processing completed successfully!');
-        } else {
-          processingState.failed.push(...ids);
-          processingState.logs.push('Processing failed.');
-        }
-      },
-      options
-    );
+      options,
+      priority,
+      maxRetries,
+      actor: getRequestActor(request),
+    });
+    if (!result.ok) {
+      const { ok: _ok, status, ...error } = result;
+      return NextResponse.json(error, { status });
+    }
+    const { jobs, plan } = result;
 
     return NextResponse.json({
       message: 'Processing started',
-      processing: processingState,
+      jobs,
+      processing: getProcessingStatus(),
       // Return session info for streaming clients
-      streamUrl: `/api/process/stream?ids=${ids.join(',')}`,
+      streamUrl: `/api/process/stream?ids=${plan.issueIds.join(',')}`,
     });
   } catch (error) {
     console.error('Failed to start processing:', error);
@@ -133,19 +240,15 @@ export async function POST(request: Request) {
   }
 }
 
-// DELETE /api/issues - Cancel processing
-export async function DELETE() {
+// DELETE /api/issues - Cancel all queued and running jobs
+export async function DELETE(request: Request) {
   try {
-    if (activeProcess) {
-      activeProcess();
-      activeProcess = null;
-      processingState.isProcessing = false;
-      processingState.logs.push('Processing cancelled by user.');
-    }
+    const cancelled = getJobQueue().cancelAll(getRequestActor(request));
 
     return NextResponse.json({
       message: 'Processing cancelled',
-      processing: processingState,
+      cancelled,
+      processing: getProcessingStatus(),
     });
   } catch (error) {
     console.error('Failed to cancel processing:', error);
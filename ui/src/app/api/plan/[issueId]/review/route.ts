@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import { getLifecycleStore, getRequestActor } from '@/lib/lifecycle-store';
+import { getCurrentPlan } from '@/lib/plan-files';
+import { getPlanReviewStore, type PlanDecision } from '@/lib/plan-review-store';
+import type { ProcessingOptions } from '@/lib/types';
+
+interface RouteParams {
+  params: Promise<{ issueId: string }>;
+}
+
+type ReviewAction = 'approve' | 'reject' | 'request_changes';
+
+const DECISIONS: Record<ReviewAction, PlanDecision['status']> = {
+  approve: 'approved',
+  reject: 'rejected',
+  request_changes: 'changes_requested',
+};
+
+/**
+ * GET /api/plan/[issueId]/review
+ * Returns the review state of the issue's plan, or null if it has none.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { issueId } = await params;
+    return NextResponse.json({ review: getPlanReviewStore().get(issueId) ?? null });
+  } catch (error) {
+    console.error('Failed to fetch plan review:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch plan review', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/plan/[issueId]/review
+ * Approves, rejects or requests changes to a plan awaiting approval.
+ *
+ * Approving snapshots the current plan revision; the next build run of
+ * the issue follows it. Requesting changes queues a new plan-mode run that
+ * revises the plan according to the feedback.
+ *
+ * Request body:
+ * {
+ *   action: 'approve' | 'reject' | 'request_changes';
+ *   feedback?: string;  // Required when requesting changes
+ *   options?: Partial<ProcessingOptions>;  // For the revision run
+ * }
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { issueId } = await params;
+    const { action, feedback, options } = (await request.json()) as {
+      action?: ReviewAction;
+      feedback?: string;
+      options?: Partial<ProcessingOptions>;
+    };
+
+    if (!action || !(action in DECISIONS)) {
+      return NextResponse.json(
+        { error: `action must be one of ${Object.keys(DECISIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const trimmedFeedback = typeof feedback === 'string' ? feedback.trim() : '';
+    if (action === 'request_changes' && !trimmedFeedback) {
+      return NextResponse.json({ error: 'Feedback is required when requesting changes' }, { status: 400 });
+    }
+
+    const reviews = getPlanReviewStore();
+    const review = reviews.get(issueId);
+    if (review?.status !== 'awaiting_approval') {
+      return NextResponse.json({ error: `No plan awaiting approval for issue ${issueId}` }, { status: 409 });
+    }
+
+    const queue = getJobQueue();
+    if (action === 'request_changes' && queue.getActiveJobForIssue(issueId)) {
+      return NextResponse.json({ error: `Issue ${issueId} is already being processed` }, { status: 409 });
+    }
+
+    const plan = action === 'approve' ? await getCurrentPlan(issueId) : null;
+    if (action === 'approve' && !plan) {
+      return NextResponse.json({ error: `No plan found for issue ${issueId}` }, { status: 404 });
+    }
+
+    const actor = getRequestActor(request);
+    const planJob = review.jobId ? queue.getJob(review.jobId) : undefined;
+    const updated = reviews.decide(issueId, {
+      status: DECISIONS[action],
+      actor,
+      feedback: trimmedFeedback || undefined,
+      content: plan?.content,
+      revision: plan?.revision,
+    });
+
+    if (action === 'request_changes') {
+      // Revise with the settings the plan was generated with
+      queue.enqueue([issueId], { ...planJob?.options, ...options, mode: 'plan' }, {
+        actor,
+        linkedIssueIds: planJob?.linkedIssueIds ? { [issueId]: planJob.linkedIssueIds } : undefined,
+      });
+    } else {
+      const reason = action === 'approve'
+        ? 'Plan approved'
+        : `Plan rejected${trimmedFeedback ? `: ${trimmedFeedback}` : ''}`;
+      getLifecycleStore().record(
+        [issueId, ...(planJob?.linkedIssueIds ?? [])].map((id) => ({
+          issueId: id,
+          to: 'pending' as const,
+          actor,
+          reason,
+          jobId: review.jobId,
+        }))
+      );
+    }
+
+    return NextResponse.json({ review: updated });
+  } catch (error) {
+    console.error('Failed to review plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to review plan', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
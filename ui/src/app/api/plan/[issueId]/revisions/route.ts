@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getCurrentPlan } from '@/lib/plan-files';
+import { getPlanStore } from '@/lib/plan-store';
+
+interface RouteParams {
+  params: Promise<{ issueId: string }>;
+}
+
+/**
+ * GET /api/plan/[issueId]/revisions
+ * Returns every stored revision of the issue's plan, oldest first: who or
+ * what made it, when, which model generated it, and its content.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { issueId } = await params;
+
+    // Import a plan left in the work directory, if that's all there is
+    await getCurrentPlan(issueId);
+
+    return NextResponse.json({ issueId, revisions: getPlanStore().getRevisions(issueId) });
+  } catch (error) {
+    console.error('Failed to fetch plan revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch plan revisions', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,9 @@
 import { NextResponse } from 'next/server';
-import * as fs from 'fs/promises';
-import * as path from 'path';
 import { parsePlanMarkdown, isValidPlanContent } from '@/lib/plan-parser';
-
-// Directory where meta-ralph stores work files
-const LOG_DIR = process.env.RALPH_LOG_DIR || '/tmp/meta-ralph-logs';
-// Target repo where IMPLEMENTATION_PLAN.md is created
-const TARGET_REPO = process.env.REPO_ROOT || process.cwd();
+import { getCurrentPlan } from '@/lib/plan-files';
+import { getPlanStore } from '@/lib/plan-store';
+import { getPlanReviewStore } from '@/lib/plan-review-store';
+import { getRequestActor } from '@/lib/lifecycle-store';
 
 interface RouteParams {
   params: Promise<{ issueId: string }>;
@@ -14,11 +11,11 @@ interface RouteParams {
 
 /**
  * GET /api/plan/[issueId]
- * Fetches the IMPLEMENTATION_PLAN.md content for a completed plan mode issue.
+ * Fetches the current revision of the issue's implementation plan.
  *
- * The plan file can be in two locations:
- * 1. The target repo root (where Claude creates it)
- * 2. The work directory (as a backup location)
+ * Plans are stored per issue (see plan-store.ts); the response includes
+ * the current revision's details and the plan's review state. Earlier
+ * revisions are listed by GET /api/plan/[issueId]/revisions.
  */
 export async function GET(request: Request, { params }: RouteParams) {
   try {
@@ -28,41 +25,9 @@ export async function GET(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Issue ID is required' }, { status: 400 });
     }
 
-    // Plan can be in repo root or work directory
-    let planContent: string | null = null;
-    let foundPath: string | null = null;
-
-    // Try repo root first
-    try {
-      const repoRootPlan = path.join(TARGET_REPO, 'IMPLEMENTATION_PLAN.md');
-      planContent = await fs.readFile(repoRootPlan, 'utf-8');
-      foundPath = repoRootPlan;
-    } catch {
-      // File not in repo root, try work directories
-    }
-
-    // If not found in repo root, search work directories
-    if (!planContent) {
-      try {
-        const logDirEntries = await fs.readdir(LOG_DIR);
-        for (const entry of logDirEntries) {
-          if (entry.includes(issueId)) {
-            const workDirPlan = path.join(LOG_DIR, entry, 'IMPLEMENTATION_PLAN.md');
-            try {
-              planContent = await fs.readFile(workDirPlan, 'utf-8');
-              foundPath = workDirPlan;
-              break;
-            } catch {
-              // Continue searching
-            }
-          }
-        }
-      } catch {
-        // LOG_DIR might not exist
-      }
-    }
+    const current = await getCurrentPlan(issueId);
 
-    if (!planContent) {
+    if (!current) {
       return NextResponse.json(
         {
           error: 'Plan not found',
@@ -73,14 +38,17 @@ export async function GET(request: Request, { params }: RouteParams) {
     }
 
     // Parse the plan to return structured data alongside raw content
-    const parsedPlan = parsePlanMarkdown(planContent, issueId);
+    const { content, ...revision } = current;
+    const parsedPlan = parsePlanMarkdown(content, issueId);
 
     return NextResponse.json({
       issueId,
-      content: planContent,
-      path: foundPath,
+      content,
+      revision,
       timestamp: new Date().toISOString(),
       plan: parsedPlan,
+      // Review state, with the approved plan once approved
+      review: getPlanReviewStore().get(issueId) ?? null,
     });
   } catch (error) {
     console.error('Error fetching plan:', error);
@@ -93,7 +61,7 @@ export async function GET(request: Request, { params }: RouteParams) {
 
 /**
  * PUT /api/plan/[issueId]
- * Updates the IMPLEMENTATION_PLAN.md content.
+ * Saves edited plan content as a new revision, by the requesting actor.
  * Used for marking steps as complete or editing the plan.
  *
  * Request body:
@@ -130,48 +98,11 @@ export async function PUT(request: Request, { params }: RouteParams) {
       );
     }
 
-    // Find the existing plan file location
-    let planPath: string | null = null;
-
-    // Try repo root first
-    const repoRootPlan = path.join(TARGET_REPO, 'IMPLEMENTATION_PLAN.md');
-    try {
-      await fs.access(repoRootPlan);
-      planPath = repoRootPlan;
-    } catch {
-      // File not in repo root, try work directories
-    }
-
-    // If not found in repo root, search work directories
-    if (!planPath) {
-      try {
-        const logDirEntries = await fs.readdir(LOG_DIR);
-        for (const entry of logDirEntries) {
-          if (entry.includes(issueId)) {
-            const workDirPlan = path.join(LOG_DIR, entry, 'IMPLEMENTATION_PLAN.md');
-            try {
-              await fs.access(workDirPlan);
-              planPath = workDirPlan;
-              break;
-            } catch {
-              // Continue searching
-            }
-          }
-        }
-      } catch {
-        // LOG_DIR might not exist
-      }
-    }
-
-    // If no existing plan found, create in repo root
-    if (!planPath) {
-      planPath = repoRootPlan;
-      // Ensure parent directory exists
-      await fs.mkdir(path.dirname(planPath), { recursive: true });
-    }
-
-    // Write the updated content
-    await fs.writeFile(planPath, content, 'utf-8');
+    const { content: _content, ...revision } = getPlanStore().addRevision(issueId, {
+      content,
+      source: 'edited',
+      author: getRequestActor(request),
+    });
 
     // Parse and return the updated plan
     const parsedPlan = parsePlanMarkdown(content, issueId);
@@ -179,7 +110,7 @@ export async function PUT(request: Request, { params }: RouteParams) {
     return NextResponse.json({
       issueId,
       content,
-      path: planPath,
+      revision,
       timestamp: new Date().toISOString(),
       plan: parsedPlan,
       message: 'Plan updated successfully',
@@ -29,6 +29,8 @@ import { getSession, subscribe } from '@/lib/session-manager';
  * - data: {"type": "metrics", "issueId": "...", "payload": {...}}
  * - data: {"type": "complete", "issueId": "...", "payload": {"message": "..."}}
  * - data: {"type": "error", "issueId": "...", "payload": {"error": "..."}}
+ * - data: {"type": "budget_exceeded", "issueId": "...", "payload": {"error": "...", "scope": "issue|batch|day", ...}}
+ * - data: {"type": "plan_progress", "issueId": "...", "payload": {"completedSteps": 2, "totalSteps": 5, ...}}
  */
 export async function GET(request: NextRequest): Promise<Response> {
   const searchParams = request.nextUrl.searchParams;
@@ -95,6 +97,16 @@ export async function GET(request: NextRequest): Promise<Response> {
             controller.enqueue(encoder.encode(formatSSE(metricsEvent)));
           }
 
+          // Send progress against the approved plan if available
+          if (session.planProgress) {
+            const planEvent: StreamEvent = {
+              type: 'plan_progress',
+              issueId,
+              payload: session.planProgress,
+            };
+            controller.enqueue(encoder.encode(formatSSE(planEvent)));
+          }
+
           // If already completed, send completion event
           if (session.status === 'completed') {
             const completeEvent: StreamEvent = {
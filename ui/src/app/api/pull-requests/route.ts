@@ -0,0 +1,36 @@
+/**
+ * Pull Requests API Endpoint
+ *
+ * Lists the PRs build runs opened, with the state the PR poller last saw.
+ *
+ * GET /api/pull-requests?issueId={id}&refresh=true
+ * - issueId: only that issue's PRs
+ * - refresh: poll open PRs before responding instead of waiting for the
+ *   next background poll
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPullRequestPoller } from '@/lib/pull-request-poller';
+import { getPullRequestStore } from '@/lib/pull-request-store';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const issueId = searchParams.get('issueId');
+
+  try {
+    const poller = getPullRequestPoller();
+    if (searchParams.get('refresh') === 'true') {
+      await poller.poll();
+    }
+    const pullRequests = getPullRequestStore()
+      .list()
+      .filter((pull) => !issueId || pull.issueId === issueId);
+    return NextResponse.json({ pullRequests });
+  } catch (error) {
+    console.error('Failed to fetch pull requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pull requests', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import { getRequestActor } from '@/lib/lifecycle-store';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * POST /api/queue/[jobId]/retry
+ * Re-queues a failed or cancelled job.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+  const queue = getJobQueue();
+  const existing = queue.getJob(jobId);
+
+  if (!existing) {
+    return NextResponse.json({ error: `Job ${jobId} not found` }, { status: 404 });
+  }
+
+  const job = queue.retry(jobId, getRequestActor(request));
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${jobId} cannot be retried (status: ${existing.status})` },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(job);
+}
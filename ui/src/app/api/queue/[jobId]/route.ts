@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+import { getRequestActor } from '@/lib/lifecycle-store';
+
+interface RouteParams {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * GET /api/queue/[jobId]
+ * Returns a single job.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+  const job = getJobQueue().getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: `Job ${jobId} not found` }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+/**
+ * PATCH /api/queue/[jobId]
+ * Updates a job's priority.
+ *
+ * Request body:
+ * {
+ *   priority: number;  // Higher runs first
+ * }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { jobId } = await params;
+    const { priority } = await request.json();
+
+    if (typeof priority !== 'number' || !Number.isFinite(priority)) {
+      return NextResponse.json({ error: 'priority must be a number' }, { status: 400 });
+    }
+
+    const job = getJobQueue().setPriority(jobId, priority);
+    if (!job) {
+      return NextResponse.json({ error: `Job ${jobId} not found` }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error updating job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/queue/[jobId]
+ * Cancels a queued or running job.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { jobId } = await params;
+  const queue = getJobQueue();
+  const existing = queue.getJob(jobId);
+
+  if (!existing) {
+    return NextResponse.json({ error: `Job ${jobId} not found` }, { status: 404 });
+  }
+
+  const job = queue.cancel(jobId, getRequestActor(request));
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${jobId} is already ${existing.status}` },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(job);
+}
@@ -0,0 +1,62 @@
+/**
+ * Job Queue API Endpoint
+ *
+ * Inspects and controls the server-side processing queue.
+ *
+ * GET   /api/queue                       - Queue snapshot (jobs, paused state)
+ * PATCH /api/queue                       - Body: { paused?: boolean, order?: string[] }
+ * DELETE /api/queue?finished=true        - Remove finished jobs from the queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue } from '@/lib/job-queue';
+
+interface QueueUpdateRequest {
+  paused?: boolean;
+  order?: string[];
+}
+
+export async function GET() {
+  return NextResponse.json(getJobQueue().getState());
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body: QueueUpdateRequest = await request.json();
+    const queue = getJobQueue();
+
+    if (body.paused !== undefined && typeof body.paused !== 'boolean') {
+      return NextResponse.json({ error: 'paused must be a boolean' }, { status: 400 });
+    }
+    if (body.order !== undefined && !Array.isArray(body.order)) {
+      return NextResponse.json({ error: 'order must be an array of job IDs' }, { status: 400 });
+    }
+
+    if (body.paused === true) queue.pause();
+    if (body.paused === false) queue.resume();
+    if (body.order) queue.reorder(body.order);
+
+    return NextResponse.json(queue.getState());
+  } catch (error) {
+    console.error('Error updating queue:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const queue = getJobQueue();
+
+  if (searchParams.get('finished') !== 'true') {
+    return NextResponse.json(
+      { error: 'Only finished jobs can be cleared. Pass finished=true.' },
+      { status: 400 }
+    );
+  }
+
+  const removed = queue.clearFinished();
+  return NextResponse.json({ removed, ...queue.getState() });
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getRunHistoryStore } from '@/lib/run-history-store';
+
+/**
+ * GET /api/runs
+ * Returns recorded processing runs (cost, iterations, duration), oldest
+ * first, for learning cost and duration estimates.
+ */
+export async function GET() {
+  return NextResponse.json({ runs: getRunHistoryStore().getRuns() });
+}
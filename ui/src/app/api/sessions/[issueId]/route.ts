@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/session-manager';
+
+interface RouteParams {
+  params: Promise<{ issueId: string }>;
+}
+
+/**
+ * GET /api/sessions/[issueId]
+ * Returns the stored processing session (activities, metrics, status) for an issue.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { issueId } = await params;
+
+  if (!issueId) {
+    return NextResponse.json({ error: 'Issue ID is required' }, { status: 400 });
+  }
+
+  const session = getSession(issueId);
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Session not found', message: `No processing session recorded for issue ${issueId}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(session);
+}
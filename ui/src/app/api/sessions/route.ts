@@ -0,0 +1,56 @@
+/**
+ * Sessions API Endpoint
+ *
+ * Lists persisted processing sessions, including finished runs from
+ * earlier server lifetimes.
+ *
+ * GET /api/sessions?issueId={id}&status=completed,failed&since={iso}&until={iso}&limit={n}
+ * - issueId: only that issue's runs
+ *
+ * @see PRD-03-JSON-STREAMING.md for the session model
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listSessions, type ProcessingSession } from '@/lib/session-manager';
+
+const VALID_STATUSES: ProcessingSession['status'][] = ['pending', 'processing', 'completed', 'failed'];
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const issueId = searchParams.get('issueId') || undefined;
+  const statusParam = searchParams.get('status');
+  const since = searchParams.get('since') || undefined;
+  const until = searchParams.get('until') || undefined;
+  const limitParam = searchParams.get('limit');
+
+  const status = statusParam
+    ? (statusParam.split(',').filter(Boolean) as ProcessingSession['status'][])
+    : undefined;
+
+  const invalidStatus = status?.find((s) => !VALID_STATUSES.includes(s));
+  if (invalidStatus) {
+    return NextResponse.json(
+      { error: `Invalid status: ${invalidStatus}. Valid statuses: ${VALID_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const limit = limitParam !== null ? Number(limitParam) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+    return NextResponse.json(
+      { error: 'limit must be a non-negative integer' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const sessions = listSessions({ issueId, status, since, until, limit });
+    return NextResponse.json({ sessions, total: sessions.length });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
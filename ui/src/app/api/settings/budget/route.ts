@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getBudgetStore } from '@/lib/budget-store';
+import { validateBudgetLimit } from '@/lib/budget';
+
+/**
+ * GET /api/settings/budget
+ * Returns the daily spend limit and what has been spent today (UTC).
+ */
+export async function GET() {
+  return NextResponse.json(getBudgetStore().getStatus());
+}
+
+/**
+ * PUT /api/settings/budget
+ * Sets the daily spend limit shared by all runs. Body: { dailyLimitUsd: number | null }
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const dailyLimitUsd = (body as { dailyLimitUsd?: unknown })?.dailyLimitUsd;
+
+    const error = validateBudgetLimit(dailyLimitUsd);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const store = getBudgetStore();
+    store.setDailyLimit((dailyLimitUsd as number | null | undefined) ?? undefined);
+    return NextResponse.json(store.getStatus());
+  } catch (error) {
+    console.error('Failed to save budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to save budget', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { loadModelConfig } from '@/lib/model-config';
+
+/**
+ * GET /api/settings/models
+ * Returns the model catalog and routing rules from the model config, with
+ * any config entries that were ignored as invalid.
+ */
+export async function GET() {
+  try {
+    const { models, rules, errors } = loadModelConfig();
+    return NextResponse.json({ models, rules, errors });
+  } catch (error) {
+    console.error('Failed to load model config:', error);
+    return NextResponse.json(
+      { error: 'Failed to load model config', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getPriorityRuleStore } from '@/lib/priority-rule-store';
+import { validatePriorityRules, type PriorityRule } from '@/lib/priority-rules';
+
+/**
+ * GET /api/settings/priority-rules
+ * Returns the priority scoring rules applied to /api/issues.
+ */
+export async function GET() {
+  return NextResponse.json({ rules: getPriorityRuleStore().getRules() });
+}
+
+/**
+ * PUT /api/settings/priority-rules
+ * Replaces all rules. Body: { rules: PriorityRule[] }
+ */
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const rules = (body as { rules?: unknown })?.rules;
+
+    const errors = validatePriorityRules(rules);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid priority rules', errors },
+        { status: 400 }
+      );
+    }
+
+    getPriorityRuleStore().setRules(rules as PriorityRule[]);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Failed to save priority rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to save priority rules', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GitHub Webhook Receiver
+ *
+ * Keeps cached CI statuses current from GitHub's check_run, check_suite and
+ * workflow_run events, pushing each update to clients streaming the commit
+ * (GET /api/ci/stream). Only watched commits (see ci-status-cache.ts) are
+ * updated; events for others are acknowledged and ignored.
+ *
+ * POST /api/webhooks/github
+ * Headers: X-GitHub-Event, X-Hub-Signature-256
+ *
+ * Configuration:
+ * - GITHUB_WEBHOOK_SECRET: the webhook's secret (required)
+ * - GITHUB_TOKEN / GH_TOKEN: for re-fetching check runs and failure logs
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildCIStatus } from '@/lib/ci-status';
+import { getCIStatusCache, refreshCIStatus } from '@/lib/ci-status-cache';
+import { getWebhookCommit, verifyGitHubSignature, type GitHubWebhookPayload } from '@/lib/github-webhooks';
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'GitHub webhook secret not configured. Set GITHUB_WEBHOOK_SECRET environment variable.' },
+      { status: 503 }
+    );
+  }
+
+  const body = await request.text();
+  if (!verifyGitHubSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let payload: GitHubWebhookPayload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const event = request.headers.get('x-github-event');
+  const cache = getCIStatusCache();
+  const webhookOwner = payload.repository?.owner?.login;
+  if (payload.repository && webhookOwner) {
+    cache.markWebhook(webhookOwner, payload.repository.name);
+  }
+
+  const commit = getWebhookCommit(event, payload);
+  if (!commit) {
+    return NextResponse.json({ ok: true, ignored: `Unhandled event: ${event ?? 'unknown'}` }, { status: 202 });
+  }
+
+  const { owner, repo, sha, checkRun } = commit;
+  if (!cache.get(owner, repo, sha)) {
+    return NextResponse.json({ ok: true, ignored: `Commit ${sha.slice(0, 7)} is not watched` }, { status: 202 });
+  }
+
+  try {
+    const githubToken = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+    if (checkRun) {
+      const runs = cache.upsertRun(owner, repo, checkRun);
+      if (runs) {
+        const status = await buildCIStatus(owner, repo, sha, runs, githubToken);
+        cache.setStatus(owner, repo, status, runs);
+      }
+    } else {
+      const result = await refreshCIStatus(cache, owner, repo, sha, githubToken);
+      if (!result.ok) {
+        return NextResponse.json(
+          { error: `GitHub API error: ${result.status}` },
+          { status: 502 }
+        );
+      }
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Failed to process GitHub webhook:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
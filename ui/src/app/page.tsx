@@ -8,15 +8,16 @@ import { SearchBar } from '@/components/search/SearchBar';
 import { FilterBar } from '@/components/filters/FilterBar';
 import { BulkActionBar } from '@/components/actions/BulkActionBar';
 import { IssueDetailPanel } from '@/components/details/IssueDetailPanel';
-import { KeyboardShortcuts } from '@/components/common';
+import { KeyboardShortcuts, ProviderStatusBanner } from '@/components/common';
 import { GroupedView, ViewToggle, SavedViews, SaveViewDialog } from '@/components/views';
 import { Dashboard } from '@/components/dashboard';
 import { ProcessingQueue, ProcessingView } from '@/components/queue';
 import { HistoryView } from '@/components/history';
 import { ProcessingOptionsPanel } from '@/components/options';
-import { useSavedViews, useHistory } from '@/hooks';
+import { useSavedViews, useHistory, usePullRequests, useBulkActions, type HistoryAttempt } from '@/hooks';
 import { useApp } from '@/contexts';
 import type { SortField, GroupBy, SavedView, HistoryEntry, ProcessingOptions } from '@/lib/types';
+import { getRunningIssueIds } from '@/lib/types';
 
 export default function Home() {
   const {
@@ -27,6 +28,7 @@ export default function Home() {
     error,
     setError,
     fetchIssues,
+    providerStatuses,
     availableProviders,
 
     // Selection state
@@ -44,6 +46,8 @@ export default function Home() {
     // Processing state
     processing,
     processIssues,
+    toggleQueuePause,
+    cancelIssue,
 
     // Sort state
     sort,
@@ -67,6 +71,8 @@ export default function Home() {
     toggleProvider,
     toggleSeverity,
     toggleStatus,
+    toggleTag,
+    availableTags,
     setPriorityRange,
     hasActiveFilters,
     activeFilterCount,
@@ -120,6 +126,21 @@ export default function Home() {
     stats: historyStats,
   } = useHistory();
 
+  // Triage of the selected issues, shared server-side; re-fetch to show it
+  const refreshIssues = useCallback(() => fetchIssues(), [fetchIssues]);
+  const {
+    addTags,
+    removeTags,
+    ignore,
+    restore,
+    setPriority,
+    isPending: isTriaging,
+    error: triageError,
+  } = useBulkActions({ onChange: refreshIssues });
+
+  // States of the PRs history entries link to
+  const { pullRequests } = usePullRequests({ enabled: isHistoryOpen, refreshKey: historyEntries.length });
+
   // Saved views hook
   const handleLoadView = useCallback((view: SavedView) => {
     setFilters(view.filters);
@@ -189,14 +210,19 @@ export default function Home() {
 
   const handleRemoveFromQueue = useCallback((id: string) => {
     setQueuedIds(prev => prev.filter(qid => qid !== id));
-  }, []);
+    void cancelIssue(id);
+  }, [cancelIssue]);
 
   const handleCancelAll = useCallback(() => {
-    // Remove all pending items (keep completed and failed for history)
-    setQueuedIds(prev => prev.filter(id =>
-      processing.completed.includes(id) || processing.failed.includes(id)
-    ));
-  }, [processing.completed, processing.failed]);
+    // Cancel and remove all pending items (keep completed and failed for history)
+    const pendingIds = queuedIds.filter(id =>
+      !processing.completed.includes(id) &&
+      !processing.failed.includes(id) &&
+      !getRunningIssueIds(processing).includes(id)
+    );
+    pendingIds.forEach(id => void cancelIssue(id));
+    setQueuedIds(prev => prev.filter(id => !pendingIds.includes(id)));
+  }, [queuedIds, processing, cancelIssue]);
 
   // Execute build mode after plan completes
   const handleExecuteBuild = useCallback(async (issueIds: string[]) => {
@@ -273,9 +299,41 @@ export default function Home() {
   // Track processing completed/failed IDs to record history
   const previousCompletedRef = useRef<Set<string>>(new Set());
   const previousFailedRef = useRef<Set<string>>(new Set());
+  // Job attempts already recorded, as `${jobId}:${attempts}:${issueId}`.
+  // History skips attempts recorded before a reload or by another tab.
+  const recordedAttemptsRef = useRef<Set<string>>(new Set());
 
   // Record history when processing completes or fails
   useEffect(() => {
+    // With server-side jobs, record each finished attempt, so a failure
+    // followed right away by an escalated attempt still gets its own entry
+    if (processing.jobs) {
+      for (const job of processing.jobs) {
+        if (job.status !== 'completed' && job.status !== 'failed') continue;
+        const attempt: HistoryAttempt = {
+          jobId: job.id,
+          jobAttempts: job.attempts,
+          escalationLevel: job.escalationLevel,
+          escalationStep: job.escalationLevel ? job.options.escalation?.[job.escalationLevel - 1]?.name : undefined,
+          escalatedFromJobId: job.escalatedFromJobId,
+        };
+        for (const id of [job.issueId, ...(job.linkedIssueIds ?? [])]) {
+          const key = `${job.id}:${job.attempts}:${id}`;
+          if (recordedAttemptsRef.current.has(key)) continue;
+          // Recorded once the issue is loaded
+          const issue = issues.find(i => i.id === id);
+          if (!issue) continue;
+          recordedAttemptsRef.current.add(key);
+          if (job.status === 'completed') {
+            recordCompletion(issue, undefined, attempt);
+          } else {
+            recordFailure(issue, job.error || 'Processing failed', attempt);
+          }
+        }
+      }
+      return;
+    }
+
     // Check for newly completed
     const currentCompleted = new Set(processing.completed);
     for (const id of currentCompleted) {
@@ -299,7 +357,7 @@ export default function Home() {
       }
     }
     previousFailedRef.current = currentFailed;
-  }, [processing.completed, processing.failed, issues, recordCompletion, recordFailure]);
+  }, [processing.jobs, processing.completed, processing.failed, issues, recordCompletion, recordFailure]);
 
   return (
     <div>
@@ -359,7 +417,7 @@ export default function Home() {
             )}
           </button>
           <button
-            onClick={fetchIssues}
+            onClick={() => fetchIssues(true)}
             disabled={loading}
             className="px-4 py-2 text-sm border border-[var(--border)] rounded hover:bg-[var(--card)] transition-colors disabled:opacity-50"
           >
@@ -385,6 +443,9 @@ export default function Home() {
         </div>
       )}
 
+      {/* Providers that failed to fetch; issues from the others are still listed */}
+      <ProviderStatusBanner statuses={providerStatuses} className="mb-6" />
+
       {/* Dashboard with statistics */}
       <Dashboard
         issues={issues}
@@ -420,6 +481,8 @@ export default function Home() {
           onToggleProvider={toggleProvider}
           onToggleSeverity={toggleSeverity}
           onToggleStatus={toggleStatus}
+          availableTags={availableTags}
+          onToggleTag={toggleTag}
           onPriorityRangeChange={setPriorityRange}
           hasActiveFilters={hasActiveFilters}
           activeFilterCount={activeFilterCount}
@@ -510,6 +573,14 @@ export default function Home() {
         isProcessing={processing.isProcessing}
         onProcess={handleProcess}
         onClearSelection={handleDeselectAll}
+        availableTags={availableTags}
+        onAddTag={(tag) => void addTags(Array.from(selectedIds), [tag])}
+        onRemoveTag={(tag) => void removeTags(Array.from(selectedIds), [tag])}
+        onIgnore={() => void ignore(Array.from(selectedIds))}
+        onRestore={() => void restore(Array.from(selectedIds))}
+        onSetPriority={(priority) => void setPriority(Array.from(selectedIds), priority)}
+        isTriaging={isTriaging}
+        triageError={triageError}
       />
 
       {/* Issue detail panel */}
@@ -530,6 +601,9 @@ export default function Home() {
         queuedIds={queuedIds}
         logs={processing.logs}
         processingOptions={currentProcessingOptions}
+        isPaused={processing.isPaused}
+        onTogglePause={toggleQueuePause}
+        onCancelItem={handleRemoveFromQueue}
         onRetryItem={handleRetryItem}
       />
 
@@ -558,6 +632,7 @@ export default function Home() {
         onClearFailed={clearFailedHistory}
         stats={historyStats}
         availableProviders={availableProviders}
+        pullRequests={pullRequests}
       />
 
       {/* Full-screen Processing View */}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { PriorityRuleEditor, PriorityPreview } from '@/components/settings';
+import { usePriorityRules } from '@/hooks';
+import { useApp } from '@/contexts';
+import { matchesRule } from '@/lib/priority-rules';
+
+/**
+ * Settings page for priority scoring rules.
+ *
+ * Rules are edited locally with a live preview of the resulting ranking and
+ * only take effect for everyone once saved.
+ */
+export default function PrioritySettingsPage() {
+  const { issues, fetchIssues } = useApp();
+  const {
+    rules,
+    addRule,
+    updateRule,
+    removeRule,
+    moveRule,
+    resetRules,
+    saveRules,
+    isDirty,
+    isLoading,
+    isSaving,
+    error,
+    validationErrors,
+  } = usePriorityRules();
+
+  const matchCounts = useMemo(
+    () => new Map(rules.map((rule) => [rule.id, issues.filter((issue) => matchesRule(issue, rule)).length])),
+    [rules, issues]
+  );
+
+  const handleSave = useCallback(async () => {
+    if (await saveRules()) {
+      // Re-fetch so the issue list picks up the new priorities
+      await fetchIssues();
+    }
+  }, [saveRules, fetchIssues]);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/" className="text-sm text-[var(--primary)] hover:text-[var(--primary-hover)]">
+            ← Back to issues
+          </Link>
+          <h2 className="text-lg font-semibold text-[var(--foreground)] mt-1">Priority rules</h2>
+          <p className="text-sm text-[var(--muted)]">
+            Matching rules apply in order: priority × weight + boost, clamped to 0-100.
+            Manual priority overrides are never changed.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={resetRules}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 text-sm text-[var(--foreground)] border border-[var(--border)] rounded-md hover:bg-[var(--card)] transition-colors disabled:opacity-50"
+          >
+            Discard changes
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 text-sm text-white bg-[var(--primary)] rounded-md hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save rules'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-500/50 rounded-lg text-sm text-red-400">
+          <p>{error}</p>
+          {validationErrors.length > 0 && (
+            <ul className="mt-1 ml-4 list-disc">
+              {validationErrors.map((e) => (
+                <li key={e.path}>
+                  <span className="font-mono">{e.path}</span>: {e.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <section className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-[var(--muted)]">Loading rules...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-[var(--muted)]">
+              No rules yet. Issues use the priority computed by their provider.
+            </p>
+          ) : (
+            rules.map((rule, index) => (
+              <PriorityRuleEditor
+                key={rule.id}
+                rule={rule}
+                index={index}
+                total={rules.length}
+                matchCount={matchCounts.get(rule.id)}
+                onChange={updateRule}
+                onRemove={removeRule}
+                onMove={moveRule}
+              />
+            ))
+          )}
+          <button
+            type="button"
+            onClick={addRule}
+            disabled={isLoading}
+            className="w-full px-4 py-2 text-sm text-[var(--primary)] border border-dashed border-[var(--border)] rounded-lg hover:bg-[var(--card)] transition-colors"
+          >
+            + Add rule
+          </button>
+        </section>
+
+        <section className="bg-[var(--card)] border border-[var(--border)] rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-[var(--foreground)] mb-2">Ranking preview</h3>
+          <PriorityPreview issues={issues} rules={rules} />
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
-import type { Issue } from '@/lib/types';
+import type { ExtendedIssue, Issue } from '@/lib/types';
 import { ProviderBadge } from './common/ProviderBadge';
+import { PullRequestBadge } from './common/PullRequestBadge';
 
 /**
  * Extract repository full name from issue (supports both MultiRepoIssue and metadata).
@@ -35,6 +36,8 @@ interface IssueRowProps {
   hideSeverity?: boolean;
   /** Show the repo column (only when multi-repo issues exist) */
   showRepoColumn?: boolean;
+  /** Mark the issue as the one processed for its incident */
+  canonical?: boolean;
 }
 
 export function IssueRow({
@@ -46,6 +49,7 @@ export function IssueRow({
   hideProvider = false,
   hideSeverity = false,
   showRepoColumn = false,
+  canonical = false,
 }: IssueRowProps) {
   const severityClass = `badge-${issue.severity.toLowerCase()}`;
 
@@ -65,6 +69,9 @@ export function IssueRow({
 
   const repoName = showRepoColumn ? getRepoFullName(issue) : null;
 
+  // Set when a triage override or priority rule changed the provider priority
+  const { originalPriority, prUrl, prState } = issue as Partial<ExtendedIssue>;
+
   return (
     <tr
       data-testid={`issue-row-${issue.id}`}
@@ -104,8 +111,12 @@ export function IssueRow({
         </td>
       )}
       <td className="p-3">
-        <span className={`font-mono font-bold ${priorityColor}`}>
+        <span
+          className={`font-mono font-bold ${priorityColor}`}
+          title={originalPriority !== undefined ? `Provider priority: ${originalPriority}` : undefined}
+        >
           {issue.priority}
+          {originalPriority !== undefined && <span className="text-[var(--muted)] font-normal">*</span>}
         </span>
       </td>
       {!hideSeverity && (
@@ -117,20 +128,31 @@ export function IssueRow({
       )}
       <td className="p-3 text-center">{issue.count}</td>
       <td className="p-3 max-w-md truncate" title={issue.title}>
+        {canonical && (
+          <span
+            className="mr-2 px-1.5 py-0.5 text-xs rounded bg-blue-900/50 text-blue-300"
+            title="Processed on behalf of every issue in this incident"
+          >
+            canonical
+          </span>
+        )}
         {issue.title}
       </td>
       <td className="p-3">
-        {issue.permalink && (
-          <a
-            href={issue.permalink}
-            target="_blank"
-            rel="noopener noreferrer"
-            onClick={(e) => e.stopPropagation()}
-            className="text-[var(--primary)] hover:text-[var(--primary-hover)] text-sm"
-          >
-            View
-          </a>
-        )}
+        <div className="flex items-center gap-2 whitespace-nowrap">
+          {issue.permalink && (
+            <a
+              href={issue.permalink}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="text-[var(--primary)] hover:text-[var(--primary-hover)] text-sm"
+            >
+              View
+            </a>
+          )}
+          {prUrl && <PullRequestBadge url={prUrl} state={prState} />}
+        </div>
       </td>
     </tr>
   );
@@ -12,12 +12,26 @@ interface BulkActionBarProps {
   onProcess: () => void;
   onSelectByFilter?: () => void;
   onClearSelection: () => void;
+  /** Tags already in use, suggested when tagging */
+  availableTags?: string[];
+  /** Triage actions, applied server-side through the bulk endpoint */
+  onAddTag?: (tag: string) => void;
+  onRemoveTag?: (tag: string) => void;
+  onIgnore?: () => void;
+  onRestore?: () => void;
+  /** Override the selected issues' priority; null clears the override */
+  onSetPriority?: (priority: number | null) => void;
+  /** Whether a triage action is being applied */
+  isTriaging?: boolean;
+  /** Why the last triage action failed */
+  triageError?: string | null;
   className?: string;
 }
 
 /**
  * Sticky action bar that appears when items are selected.
- * Provides bulk actions like process, export, and clear selection.
+ * Provides bulk actions like process, export, triage (tags, ignore,
+ * priority) and clear selection.
  */
 export function BulkActionBar({
   selectedCount,
@@ -27,9 +41,23 @@ export function BulkActionBar({
   onProcess,
   onSelectByFilter,
   onClearSelection,
+  availableTags = [],
+  onAddTag,
+  onRemoveTag,
+  onIgnore,
+  onRestore,
+  onSetPriority,
+  isTriaging = false,
+  triageError,
   className = '',
 }: BulkActionBarProps) {
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [priorityInput, setPriorityInput] = useState('');
+
+  const tag = tagInput.trim();
+  const priority = priorityInput.trim() === '' ? null : Number(priorityInput);
+  const isPriorityValid = priority === null || (Number.isFinite(priority) && priority >= 0 && priority <= 100);
 
   if (selectedCount === 0) {
     return null;
@@ -66,6 +94,99 @@ export function BulkActionBar({
 
           {/* Actions */}
           <div className="flex items-center gap-3">
+            {triageError && (
+              <span className="text-sm text-red-400" data-testid="bulk-triage-error">
+                {triageError}
+              </span>
+            )}
+
+            {/* Tags */}
+            {(onAddTag || onRemoveTag) && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  list="bulk-tag-suggestions"
+                  placeholder="Tag"
+                  aria-label="Tag"
+                  className="w-28 px-2 py-2 text-sm bg-[var(--background)] border border-[var(--border)] rounded-lg"
+                />
+                <datalist id="bulk-tag-suggestions">
+                  {availableTags.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+                {onAddTag && (
+                  <button
+                    data-testid="bulk-tag-button"
+                    onClick={() => onAddTag(tag)}
+                    disabled={!tag || isTriaging}
+                    className="px-3 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Tag
+                  </button>
+                )}
+                {onRemoveTag && (
+                  <button
+                    data-testid="bulk-untag-button"
+                    onClick={() => onRemoveTag(tag)}
+                    disabled={!tag || isTriaging}
+                    className="px-3 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Untag
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Priority override */}
+            {onSetPriority && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={priorityInput}
+                  onChange={(e) => setPriorityInput(e.target.value)}
+                  placeholder="Priority"
+                  aria-label="Priority"
+                  title="Leave empty to clear the override"
+                  className="w-24 px-2 py-2 text-sm bg-[var(--background)] border border-[var(--border)] rounded-lg"
+                />
+                <button
+                  data-testid="bulk-priority-button"
+                  onClick={() => onSetPriority(priority)}
+                  disabled={!isPriorityValid || isTriaging}
+                  className="px-3 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {priority === null ? 'Clear priority' : 'Set priority'}
+                </button>
+              </div>
+            )}
+
+            {/* Ignore / restore */}
+            {onIgnore && (
+              <button
+                data-testid="bulk-ignore-button"
+                onClick={onIgnore}
+                disabled={isTriaging}
+                className="px-3 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Ignore
+              </button>
+            )}
+            {onRestore && (
+              <button
+                data-testid="bulk-restore-button"
+                onClick={onRestore}
+                disabled={isTriaging}
+                className="px-3 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Restore
+              </button>
+            )}
+
             {/* Export button */}
             <button
               onClick={() => setShowExportDialog(true)}
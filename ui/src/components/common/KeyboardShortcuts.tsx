@@ -172,7 +172,7 @@ export function KeyboardShortcuts({
     onFocusSearch: handleFocusSearch,
     onShowHelp: handleShowHelp,
     onToggleFilters: onToggleFilters,
-    onRefresh: fetchIssues,
+    onRefresh: () => fetchIssues(true),
     onCollapseAll: handleCollapseAll,
     onExpandAll: handleExpandAll,
     onCycleGroupBy: handleCycleGroupBy,
@@ -0,0 +1,34 @@
+'use client';
+
+import { getModelInfo } from '@/lib/models';
+import type { ProcessingOptions } from '@/lib/types';
+
+interface ModelBadgeProps {
+  options: Pick<ProcessingOptions, 'model' | 'autoModel'>;
+}
+
+/**
+ * Badge for the model a run uses, or "Auto" with the fallback model when
+ * routing rules pick the model per issue.
+ */
+export function ModelBadge({ options }: ModelBadgeProps) {
+  const info = getModelInfo(options.model);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full ${
+        info.speed === 'slow'
+          ? 'bg-purple-500/20 text-purple-400'
+          : 'bg-yellow-500/20 text-yellow-400'
+      }`}
+      title={options.autoModel
+        ? `Model routed per issue; ${info.name} where no rule matches`
+        : `${info.name}: ${info.description}`}
+    >
+      {info.icon}
+      {options.autoModel ? `Auto / ${info.name}` : info.name}
+    </span>
+  );
+}
+
+export default ModelBadge;
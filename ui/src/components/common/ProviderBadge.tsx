@@ -64,3 +64,7 @@ export function getProviderColor(provider: string): string {
   const config = PROVIDER_CONFIG[provider.toLowerCase()];
   return config?.colors || DEFAULT_CONFIG.colors;
 }
+
+export function getProviderLabel(provider: string): string {
+  return PROVIDER_CONFIG[provider.toLowerCase()]?.label || provider;
+}
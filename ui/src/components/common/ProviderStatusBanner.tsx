@@ -0,0 +1,52 @@
+'use client';
+
+import { getProviderLabel } from './ProviderBadge';
+import type { ProviderFetchStatus } from '@/lib/types';
+
+interface ProviderStatusBannerProps {
+  statuses: ProviderFetchStatus[];
+  className?: string;
+}
+
+const STATE_LABELS: Record<ProviderFetchStatus['status'], string> = {
+  ok: 'ok',
+  auth_error: 'authentication failed',
+  timeout: 'timed out',
+  parse_error: 'invalid response',
+  unavailable: 'not available',
+  error: 'error',
+};
+
+/**
+ * Short reason for a provider failure, preferring an HTTP status code
+ * from the error message (e.g. "401").
+ */
+export function describeProviderFailure(status: ProviderFetchStatus): string {
+  const httpStatus = status.error?.match(/\b([45]\d{2})\b/);
+  if (httpStatus) return httpStatus[1];
+  return STATE_LABELS[status.status];
+}
+
+/**
+ * Warning shown under the header when some providers failed to fetch.
+ * Issues from the remaining providers are still listed.
+ */
+export function ProviderStatusBanner({ statuses, className = '' }: ProviderStatusBannerProps) {
+  const failed = statuses.filter((s) => s.status !== 'ok');
+  if (failed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      data-testid="provider-status-banner"
+      className={`p-3 bg-yellow-900/20 border border-yellow-800 rounded-lg text-yellow-400 text-sm flex flex-wrap gap-x-4 gap-y-1 ${className}`}
+    >
+      {failed.map((status) => (
+        <span key={status.provider} title={status.error}>
+          {getProviderLabel(status.provider)} failed: {describeProviderFailure(status)}
+        </span>
+      ))}
+    </div>
+  );
+}
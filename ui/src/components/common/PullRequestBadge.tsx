@@ -0,0 +1,46 @@
+'use client';
+
+import { parsePullRequestUrl } from '@/lib/pull-requests';
+import type { PullRequestState } from '@/lib/types';
+
+interface PullRequestBadgeProps {
+  url: string;
+  /** Last known state; unknown until the PR poller has fetched it */
+  state?: PullRequestState;
+}
+
+const STATE_STYLES: Record<PullRequestState, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-green-500/20 text-green-400' },
+  review_requested: { label: 'Review requested', className: 'bg-yellow-500/20 text-yellow-400' },
+  changes_requested: { label: 'Changes requested', className: 'bg-orange-500/20 text-orange-400' },
+  approved: { label: 'Approved', className: 'bg-cyan-500/20 text-cyan-400' },
+  merged: { label: 'Merged', className: 'bg-purple-500/20 text-purple-400' },
+  closed: { label: 'Closed', className: 'bg-red-500/20 text-red-400' },
+};
+
+/**
+ * Link to a PR opened for an issue, showing the PR's number and state.
+ */
+export function PullRequestBadge({ url, state }: PullRequestBadgeProps) {
+  const ref = parsePullRequestUrl(url);
+  const style = state ? STATE_STYLES[state] : null;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-medium rounded hover:opacity-80 ${
+        style?.className ?? 'bg-gray-500/20 text-gray-400'
+      }`}
+      title={style ? `PR ${style.label.toLowerCase()}` : 'PR state unknown'}
+      data-testid="pr-badge"
+    >
+      {ref ? `#${ref.number}` : 'PR'}
+      {style && <span>· {style.label}</span>}
+    </a>
+  );
+}
+
+export default PullRequestBadge;
@@ -0,0 +1,43 @@
+import { render, screen } from '@testing-library/react';
+import { ProviderStatusBanner, describeProviderFailure } from '../ProviderStatusBanner';
+import type { ProviderFetchStatus } from '@/lib/types';
+
+function status(overrides: Partial<ProviderFetchStatus>): ProviderFetchStatus {
+  return {
+    provider: 'sentry',
+    status: 'ok',
+    issueCount: 0,
+    durationMs: 100,
+    checkedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('ProviderStatusBanner', () => {
+  it('renders nothing when every provider succeeded', () => {
+    render(<ProviderStatusBanner statuses={[status({ provider: 'zeropath' })]} />);
+    expect(screen.queryByTestId('provider-status-banner')).not.toBeInTheDocument();
+  });
+
+  it('lists only the failed providers', () => {
+    render(
+      <ProviderStatusBanner
+        statuses={[
+          status({ provider: 'zeropath' }),
+          status({ provider: 'sentry', status: 'auth_error', error: 'Sentry API error: 401' }),
+          status({ provider: 'linear', status: 'timeout' }),
+        ]}
+      />
+    );
+
+    expect(screen.getByText('Sentry failed: 401')).toBeInTheDocument();
+    expect(screen.getByText('Linear failed: timed out')).toBeInTheDocument();
+    expect(screen.queryByText(/ZeroPath/)).not.toBeInTheDocument();
+  });
+});
+
+describe('describeProviderFailure', () => {
+  it('falls back to the failure state without an HTTP status', () => {
+    expect(describeProviderFailure(status({ status: 'parse_error', error: 'bad output' }))).toBe('invalid response');
+  });
+});
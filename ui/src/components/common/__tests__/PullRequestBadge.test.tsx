@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react';
+import { PullRequestBadge } from '../PullRequestBadge';
+
+describe('PullRequestBadge', () => {
+  it('links to the PR with its number and state', () => {
+    render(<PullRequestBadge url="https://github.com/acme/app/pull/42" state="changes_requested" />);
+
+    const badge = screen.getByTestId('pr-badge');
+    expect(badge).toHaveAttribute('href', 'https://github.com/acme/app/pull/42');
+    expect(badge).toHaveTextContent('#42');
+    expect(badge).toHaveTextContent('Changes requested');
+  });
+
+  it('shows only the number while the state is unknown', () => {
+    render(<PullRequestBadge url="https://github.com/acme/app/pull/42" />);
+
+    expect(screen.getByTestId('pr-badge')).toHaveTextContent(/^#42$/);
+  });
+});
@@ -2,3 +2,6 @@ export { KeyboardShortcuts, useFocusedIndex } from './KeyboardShortcuts';
 export { ShortcutsModal } from './ShortcutsModal';
 export { PageSizeSelector, LoadMoreButton } from './PageSizeSelector';
 export { ThemeToggle } from './ThemeToggle';
+export { ProviderStatusBanner } from './ProviderStatusBanner';
+export { ModelBadge } from './ModelBadge';
+export { PullRequestBadge } from './PullRequestBadge';
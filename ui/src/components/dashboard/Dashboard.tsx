@@ -38,6 +38,8 @@ function calculateStats(
   const byStatus: Record<string, number> = {
     pending: 0,
     processing: 0,
+    awaiting_approval: 0,
+    ready_for_review: 0,
     completed: 0,
     failed: 0,
     ignored: 0,
@@ -1,9 +1,15 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
-import type { Issue, Severity } from '@/lib/types';
+import { useState, useEffect, useCallback } from 'react';
+import { useIssueTimeline } from '@/hooks/useIssueTimeline';
+import { useIssueDiff } from '@/hooks/useIssueDiff';
+import { useChangeReview, type ChangeReviewAction } from '@/hooks/useChangeReview';
+import type { ExtendedIssue, Issue, Severity } from '@/lib/types';
 import { IssueMetadata } from './IssueMetadata';
 import { CodeSnippet } from './CodeSnippet';
+import { IssueTimeline } from './IssueTimeline';
+import { DiffViewer } from '../diff/DiffViewer';
+import { ChangeReviewPanel } from '../diff/ChangeReviewPanel';
 
 interface IssueDetailPanelProps {
   issue: Issue | null;
@@ -19,6 +25,14 @@ function getMetadataString(metadata: Record<string, unknown>, key: string): stri
   return typeof value === 'string' ? value : null;
 }
 
+type DetailTab = 'details' | 'timeline' | 'changes';
+
+const TABS: { id: DetailTab; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'timeline', label: 'Timeline' },
+  { id: 'changes', label: 'Changes' },
+];
+
 const SEVERITY_COLORS: Record<Severity, string> = {
   CRITICAL: 'bg-red-900/50 text-red-300 border-red-700',
   HIGH: 'bg-orange-900/50 text-orange-300 border-orange-700',
@@ -38,6 +52,40 @@ export function IssueDetailPanel({
   onProcess,
   isProcessing,
 }: IssueDetailPanelProps) {
+  const [activeTab, setActiveTab] = useState<DetailTab>('details');
+  const issueId = issue?.id ?? null;
+
+  // Fetched when the tab opens, and again as the issue's status changes
+  const { timeline, isLoading: isTimelineLoading, error: timelineError } = useIssueTimeline(issueId, {
+    enabled: isOpen && activeTab === 'timeline',
+    refreshKey: (issue as ExtendedIssue | null)?.status,
+  });
+
+  // What the latest build run changed, re-fetched once a new run finishes
+  const { diff, isLoading: isDiffLoading, error: diffError, refresh: refreshDiff } = useIssueDiff(issueId, {
+    enabled: isOpen && activeTab === 'changes',
+    refreshKey: (issue as ExtendedIssue | null)?.status,
+  });
+  const changeReview = useChangeReview(issueId, {
+    enabled: isOpen && activeTab === 'changes',
+    refreshKey: (issue as ExtendedIssue | null)?.status,
+  });
+
+  // A decision can push or delete the branch, which changes what the diff shows
+  const submitChangeReview = useCallback(
+    async (action: ChangeReviewAction, comment?: string) => {
+      const accepted = await changeReview.submit(action, comment);
+      if (accepted) void refreshDiff();
+      return accepted;
+    },
+    [changeReview, refreshDiff]
+  );
+
+  // Each issue opens on its details
+  useEffect(() => {
+    setActiveTab('details');
+  }, [issueId]);
+
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
@@ -118,113 +166,161 @@ export function IssueDetailPanel({
               </svg>
             </button>
           </div>
+
+          {/* Tabs */}
+          <div role="tablist" className="flex gap-4 mt-3 -mb-4">
+            {TABS.map((tab) => (
+              <button
+                key={tab.id}
+                role="tab"
+                data-testid={`detail-tab-${tab.id}`}
+                aria-selected={activeTab === tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`pb-2 text-sm border-b-2 transition-colors ${
+                  activeTab === tab.id
+                    ? 'border-[var(--primary)] text-[var(--foreground)]'
+                    : 'border-transparent text-[var(--muted)] hover:text-[var(--foreground)]'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
         </div>
 
-        {/* Content */}
-        <div className="px-6 py-4 space-y-6">
-          {/* Metrics */}
-          <section>
-            <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Metrics</h3>
-            <div className="grid grid-cols-3 gap-4">
-              <div className="bg-[var(--background)] rounded-lg p-3 text-center">
-                <div className="text-2xl font-bold text-[var(--primary)]">{issue.priority}</div>
-                <div className="text-xs text-[var(--muted)]">Priority</div>
-              </div>
-              <div className="bg-[var(--background)] rounded-lg p-3 text-center">
-                <div className="text-2xl font-bold">{issue.count}</div>
-                <div className="text-xs text-[var(--muted)]">Count</div>
-              </div>
-              <div className="bg-[var(--background)] rounded-lg p-3 text-center">
-                <div className="text-2xl font-bold">{issue.raw_severity}</div>
-                <div className="text-xs text-[var(--muted)]">Raw Score</div>
-              </div>
-            </div>
-          </section>
+        {/* Timeline */}
+        {activeTab === 'timeline' && (
+          <div role="tabpanel" className="px-6 py-4">
+            <IssueTimeline
+              events={timeline?.events ?? []}
+              isLoading={isTimelineLoading}
+              error={timelineError}
+            />
+          </div>
+        )}
 
-          {/* Description */}
-          <section>
-            <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Description</h3>
-            <p className="text-sm whitespace-pre-wrap">{issue.description}</p>
-          </section>
+        {/* Changes */}
+        {activeTab === 'changes' && (
+          <div role="tabpanel" className="px-6 py-4 space-y-4">
+            {changeReview.review && (
+              <ChangeReviewPanel
+                review={changeReview.review}
+                isSubmitting={changeReview.isSubmitting}
+                submitError={changeReview.submitError}
+                onSubmit={submitChangeReview}
+              />
+            )}
+            <DiffViewer diff={diff} isLoading={isDiffLoading} error={diffError} compact />
+          </div>
+        )}
 
-          {/* Location */}
-          {issue.location && (
+        {/* Content */}
+        {activeTab === 'details' && (
+          <div role="tabpanel" className="px-6 py-4 space-y-6">
+            {/* Metrics */}
             <section>
-              <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Location</h3>
-              <div className="bg-[var(--background)] rounded-lg p-3 font-mono text-sm break-all">
-                {issue.location}
+              <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Metrics</h3>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-[var(--background)] rounded-lg p-3 text-center">
+                  <div className="text-2xl font-bold text-[var(--primary)]">{issue.priority}</div>
+                  <div className="text-xs text-[var(--muted)]">Priority</div>
+                </div>
+                <div className="bg-[var(--background)] rounded-lg p-3 text-center">
+                  <div className="text-2xl font-bold">{issue.count}</div>
+                  <div className="text-xs text-[var(--muted)]">Count</div>
+                </div>
+                <div className="bg-[var(--background)] rounded-lg p-3 text-center">
+                  <div className="text-2xl font-bold">{issue.raw_severity}</div>
+                  <div className="text-xs text-[var(--muted)]">Raw Score</div>
+                </div>
               </div>
             </section>
-          )}
 
-          {/* Code Snippet (if available in metadata) */}
-          {getMetadataString(issue.metadata, 'codeSnippet') && (
+            {/* Description */}
+            <section>
+              <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Description</h3>
+              <p className="text-sm whitespace-pre-wrap">{issue.description}</p>
+            </section>
+
+            {/* Location */}
+            {issue.location && (
+              <section>
+                <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Location</h3>
+                <div className="bg-[var(--background)] rounded-lg p-3 font-mono text-sm break-all">
+                  {issue.location}
+                </div>
+              </section>
+            )}
+
+            {/* Code Snippet (if available in metadata) */}
+            {getMetadataString(issue.metadata, 'codeSnippet') && (
+              <section>
+                <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Code Snippet</h3>
+                <CodeSnippet code={getMetadataString(issue.metadata, 'codeSnippet')!} />
+              </section>
+            )}
+
+            {/* Provider-specific metadata */}
             <section>
-              <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Code Snippet</h3>
-              <CodeSnippet code={getMetadataString(issue.metadata, 'codeSnippet')!} />
+              <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Details</h3>
+              <IssueMetadata metadata={issue.metadata} provider={issue.provider} />
             </section>
-          )}
-
-          {/* Provider-specific metadata */}
-          <section>
-            <h3 className="text-sm font-medium text-[var(--muted)] mb-3">Details</h3>
-            <IssueMetadata metadata={issue.metadata} provider={issue.provider} />
-          </section>
-
-          {/* Actions */}
-          <section className="pt-4 border-t border-[var(--border)]">
-            <div className="flex flex-wrap gap-3">
-              {onProcess && (
+
+            {/* Actions */}
+            <section className="pt-4 border-t border-[var(--border)]">
+              <div className="flex flex-wrap gap-3">
+                {onProcess && (
+                  <button
+                    onClick={() => onProcess(issue.id)}
+                    disabled={isProcessing}
+                    className="flex-1 px-4 py-2 text-sm bg-[var(--primary)] text-white rounded-lg hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {isProcessing ? (
+                      <>
+                        <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                          <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" className="opacity-25" />
+                          <path fill="currentColor" className="opacity-75" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                        </svg>
+                        Processing...
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                        </svg>
+                        Process Issue
+                      </>
+                    )}
+                  </button>
+                )}
+
+                <a
+                  href={issue.permalink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-1 px-4 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center justify-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                  </svg>
+                  View Original
+                </a>
+
                 <button
-                  onClick={() => onProcess(issue.id)}
-                  disabled={isProcessing}
-                  className="flex-1 px-4 py-2 text-sm bg-[var(--primary)] text-white rounded-lg hover:bg-[var(--primary-hover)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  onClick={() => {
+                    navigator.clipboard.writeText(issue.permalink);
+                  }}
+                  className="px-4 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center justify-center gap-2"
+                  title="Copy link to clipboard"
                 >
-                  {isProcessing ? (
-                    <>
-                      <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" className="opacity-25" />
-                        <path fill="currentColor" className="opacity-75" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                      </svg>
-                      Processing...
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                      </svg>
-                      Process Issue
-                    </>
-                  )}
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
                 </button>
-              )}
-
-              <a
-                href={issue.permalink}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex-1 px-4 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center justify-center gap-2"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                </svg>
-                View Original
-              </a>
-
-              <button
-                onClick={() => {
-                  navigator.clipboard.writeText(issue.permalink);
-                }}
-                className="px-4 py-2 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center justify-center gap-2"
-                title="Copy link to clipboard"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                </svg>
-              </button>
-            </div>
-          </section>
-        </div>
+              </div>
+            </section>
+          </div>
+        )}
       </div>
 
     </>
@@ -0,0 +1,99 @@
+'use client';
+
+import type { IssueLifecycleEvent, IssueStatus } from '@/lib/types';
+
+interface IssueTimelineProps {
+  /** Status changes, oldest first */
+  events: IssueLifecycleEvent[];
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+const STATUS_COLORS: Record<IssueStatus, string> = {
+  pending: 'bg-gray-900/50 text-gray-300 border-gray-700',
+  processing: 'bg-blue-900/50 text-blue-300 border-blue-700',
+  awaiting_approval: 'bg-purple-900/50 text-purple-300 border-purple-700',
+  ready_for_review: 'bg-cyan-900/50 text-cyan-300 border-cyan-700',
+  completed: 'bg-green-900/50 text-green-300 border-green-700',
+  failed: 'bg-red-900/50 text-red-300 border-red-700',
+  ignored: 'bg-zinc-900/50 text-zinc-400 border-zinc-700',
+};
+
+function StatusBadge({ status }: { status: IssueStatus }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs rounded border ${STATUS_COLORS[status]}`}>
+      {status.replace(/_/g, ' ')}
+    </span>
+  );
+}
+
+/**
+ * Vertical timeline of an issue's status changes, newest first.
+ */
+export function IssueTimeline({ events, isLoading, error }: IssueTimelineProps) {
+  if (error) {
+    return <p className="text-sm text-[var(--danger)]">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-[var(--muted)]">
+        {isLoading ? 'Loading timeline...' : 'No status changes recorded yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <ol data-testid="issue-timeline" className="relative border-l border-[var(--border)] ml-2 space-y-4">
+      {[...events].reverse().map((event) => (
+        <li key={event.id} data-testid="timeline-event" className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-[var(--border)]" aria-hidden="true" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {event.from && (
+              <>
+                <StatusBadge status={event.from} />
+                <span className="text-[var(--muted)]">→</span>
+              </>
+            )}
+            <StatusBadge status={event.to} />
+            <span className="text-[var(--muted)]">by</span>
+            <span className="font-medium">{event.actor}</span>
+          </div>
+          <time
+            dateTime={event.timestamp}
+            className="block text-xs text-[var(--muted)] mt-1"
+          >
+            {new Date(event.timestamp).toLocaleString()}
+          </time>
+          {event.reason && <p className="text-sm mt-1">{event.reason}</p>}
+          {(event.prUrl || event.planUrl) && (
+            <div className="flex gap-3 mt-1 text-xs">
+              {event.prUrl && (
+                <a
+                  href={event.prUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[var(--primary)] hover:text-[var(--primary-hover)]"
+                >
+                  Pull request
+                </a>
+              )}
+              {event.planUrl && (
+                <a
+                  href={event.planUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[var(--primary)] hover:text-[var(--primary-hover)]"
+                >
+                  Implementation plan
+                </a>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default IssueTimeline;
@@ -1,3 +1,4 @@
 export { IssueDetailPanel } from './IssueDetailPanel';
 export { IssueMetadata } from './IssueMetadata';
 export { CodeSnippet } from './CodeSnippet';
+export { IssueTimeline } from './IssueTimeline';
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChangeReviewAction } from '@/hooks/useChangeReview';
+import { formatUsd } from '@/lib/budget';
+import type { ChangeReview, ChangeReviewStatus, ToolName } from '@/lib/types';
+
+interface ChangeReviewPanelProps {
+  review: ChangeReview;
+  isSubmitting?: boolean;
+  submitError?: string | null;
+  /** Submit a decision; resolves to whether it was accepted */
+  onSubmit: (action: ChangeReviewAction, comment?: string) => Promise<boolean>;
+}
+
+const REVIEW_LABELS: Record<ChangeReviewStatus, { label: string; className: string }> = {
+  ready_for_review: { label: 'Ready for review', className: 'bg-cyan-500/20 text-cyan-400' },
+  approved: { label: 'Approved', className: 'bg-green-500/20 text-green-400' },
+  iteration_requested: { label: 'Iteration requested', className: 'bg-yellow-500/20 text-yellow-400' },
+  discarded: { label: 'Discarded', className: 'bg-red-500/20 text-red-400' },
+};
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
+
+function SummaryList({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-[var(--muted)] mb-1">
+        {title} ({items.length})
+      </h4>
+      <ul className="max-h-32 overflow-y-auto space-y-0.5 text-xs font-mono">
+        {items.map((item) => (
+          <li key={item} className="truncate" title={item}>
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * What a build run held for review did, with the reviewer's actions:
+ * approve (push + PR), send back for another iteration with a comment, or
+ * discard the branch. Decided reviews show the outcome instead.
+ */
+export function ChangeReviewPanel({ review, isSubmitting = false, submitError, onSubmit }: ChangeReviewPanelProps) {
+  const [comment, setComment] = useState('');
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+  const { summary, testResults } = review;
+  const pending = review.status === 'ready_for_review';
+  const toolCalls = (Object.entries(summary.toolCalls) as [ToolName, number][]).sort((a, b) => b[1] - a[1]);
+
+  const submit = async (action: ChangeReviewAction) => {
+    if (await onSubmit(action, comment)) {
+      setComment('');
+      setConfirmDiscard(false);
+    }
+  };
+
+  return (
+    <div className="border border-[var(--border)] rounded-lg p-4 space-y-4" data-testid="change-review">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`px-2 py-0.5 text-xs font-medium rounded-full ${REVIEW_LABELS[review.status].className}`}
+          data-testid="change-review-status"
+        >
+          {REVIEW_LABELS[review.status].label}
+        </span>
+        <span className="text-sm text-[var(--muted)]">
+          {summary.iterations} {summary.iterations === 1 ? 'iteration' : 'iterations'} ·{' '}
+          {formatUsd(summary.costUsd)} · {formatDuration(summary.durationMs)}
+        </span>
+      </div>
+
+      {toolCalls.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 text-xs">
+          {toolCalls.map(([tool, count]) => (
+            <span key={tool} className="px-2 py-0.5 rounded bg-[var(--border)]/50">
+              {tool} × {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <SummaryList title="Files edited" items={summary.filesEdited} />
+        <SummaryList title="Commands run" items={summary.commands} />
+      </div>
+
+      {summary.errors.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-red-400 mb-1">Errors ({summary.errors.length})</h4>
+          <ul className="max-h-24 overflow-y-auto space-y-0.5 text-xs text-red-300">
+            {summary.errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {testResults ? (
+        <details open={testResults.exitCode !== 0}>
+          <summary className="cursor-pointer text-sm">
+            <span className={testResults.exitCode === 0 ? 'text-green-400' : 'text-red-400'} data-testid="change-review-tests">
+              {testResults.exitCode === 0 ? 'Tests passed' : `Tests failed (exit ${testResults.exitCode})`}
+            </span>{' '}
+            <span className="font-mono text-xs text-[var(--muted)]">{testResults.command}</span>
+          </summary>
+          <pre className="mt-2 max-h-64 overflow-auto bg-[var(--background)] border border-[var(--border)] rounded p-2 text-xs whitespace-pre-wrap">
+            {testResults.output || '(no output)'}
+          </pre>
+        </details>
+      ) : (
+        <p className="text-xs text-[var(--muted)]">No test command was run (set RALPH_TEST_COMMAND).</p>
+      )}
+
+      {!pending && (
+        <div className="text-sm space-y-1">
+          {review.reviewedBy && (
+            <p className="text-[var(--muted)]">
+              {REVIEW_LABELS[review.status].label} by {review.reviewedBy}
+              {review.reviewedAt && ` on ${new Date(review.reviewedAt).toLocaleString()}`}
+            </p>
+          )}
+          {review.comment && <p className="whitespace-pre-wrap">{review.comment}</p>}
+          {review.prUrl && (
+            <a href={review.prUrl} target="_blank" rel="noopener noreferrer" className="text-[var(--primary)] hover:underline">
+              {review.prUrl}
+            </a>
+          )}
+        </div>
+      )}
+
+      {pending && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment for the next iteration (required to request one)"
+            rows={2}
+            disabled={isSubmitting}
+            className="w-full px-3 py-2 text-sm bg-[var(--background)] border border-[var(--border)] rounded-lg resize-none focus:outline-none focus:border-[var(--primary)]"
+            aria-label="Review comment"
+          />
+          {submitError && <p className="text-xs text-red-400">{submitError}</p>}
+          <div className="flex flex-wrap justify-end gap-2">
+            {confirmDiscard ? (
+              <>
+                <span className="self-center text-xs text-[var(--muted)]">Delete branch {review.branch}?</span>
+                <button
+                  onClick={() => setConfirmDiscard(false)}
+                  disabled={isSubmitting}
+                  className="px-3 py-1.5 text-sm border border-[var(--border)] rounded-lg hover:bg-[var(--border)] transition-colors disabled:opacity-50"
+                >
+                  Keep
+                </button>
+                <button
+                  onClick={() => submit('discard')}
+                  disabled={isSubmitting}
+                  className="px-3 py-1.5 text-sm bg-red-500 text-white hover:bg-red-600 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Delete Branch
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => setConfirmDiscard(true)}
+                  disabled={isSubmitting}
+                  className="px-3 py-1.5 text-sm bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={() => submit('request_iteration')}
+                  disabled={isSubmitting || !comment.trim()}
+                  title={comment.trim() ? undefined : 'Enter a comment first'}
+                  className="px-3 py-1.5 text-sm bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Request Iteration
+                </button>
+                <button
+                  onClick={() => submit('approve')}
+                  disabled={isSubmitting}
+                  className="px-3 py-1.5 text-sm bg-green-500 text-white hover:bg-green-600 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Working...' : 'Approve & Push'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
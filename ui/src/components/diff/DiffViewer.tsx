@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import type { DiffLine, DiffRowType } from '@/lib/line-diff';
+import { highlightLine, languageForPath, type TokenType } from '@/lib/syntax-highlight';
+import { hunkToRows } from '@/lib/unified-diff';
+import type { DiffFile, IssueDiff } from '@/lib/types';
+
+interface DiffViewerProps {
+  diff: IssueDiff | null;
+  isLoading?: boolean;
+  error?: string | null;
+  /** Stack the file tree above the diff, for narrow containers */
+  compact?: boolean;
+}
+
+interface TreeNode {
+  name: string;
+  /** Set for files */
+  file?: DiffFile;
+  children: TreeNode[];
+}
+
+const STATUS_LABELS: Record<DiffFile['status'], { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-400' },
+  deleted: { letter: 'D', className: 'text-red-400' },
+  modified: { letter: 'M', className: 'text-yellow-400' },
+  renamed: { letter: 'R', className: 'text-blue-400' },
+};
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-400',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  comment: 'text-[var(--muted)] italic',
+};
+
+const SIDE_CLASSES: Record<DiffRowType, { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  added: { left: 'bg-[var(--border)]/30', right: 'bg-green-500/15' },
+  removed: { left: 'bg-red-500/15', right: 'bg-[var(--border)]/30' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+/**
+ * Directory tree of the changed files, with single-child directories
+ * collapsed into one node ("src/lib").
+ */
+function buildFileTree(files: DiffFile[]): TreeNode[] {
+  const root: TreeNode = { name: '', children: [] };
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let node = root;
+    parts.slice(0, -1).forEach((part) => {
+      let child = node.children.find((c) => c.name === part && !c.file);
+      if (!child) {
+        child = { name: part, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+    node.children.push({ name: parts[parts.length - 1], file, children: [] });
+  }
+
+  const collapse = (node: TreeNode): TreeNode => {
+    let current = { ...node, children: node.children.map(collapse) };
+    while (!current.file && current.children.length === 1 && !current.children[0].file) {
+      const only = current.children[0];
+      current = { name: `${current.name}/${only.name}`, children: only.children };
+    }
+    return current;
+  };
+  return root.children.map(collapse);
+}
+
+function FileStats({ file }: { file: DiffFile }) {
+  return (
+    <span className="text-xs whitespace-nowrap">
+      <span className="text-green-400">+{file.additions}</span>{' '}
+      <span className="text-red-400">−{file.deletions}</span>
+    </span>
+  );
+}
+
+function FileTree({
+  nodes,
+  selected,
+  onSelect,
+  depth = 0,
+}: {
+  nodes: TreeNode[];
+  selected: string | null;
+  onSelect: (path: string) => void;
+  depth?: number;
+}) {
+  return (
+    <ul role={depth === 0 ? 'tree' : 'group'} aria-label={depth === 0 ? 'Changed files' : undefined}>
+      {nodes.map((node) =>
+        node.file ? (
+          <li key={node.file.path} role="treeitem" aria-selected={selected === node.file.path}>
+            <button
+              onClick={() => onSelect(node.file!.path)}
+              className={`w-full flex items-center gap-2 px-2 py-1 text-left text-xs rounded ${
+                selected === node.file.path ? 'bg-[var(--border)]' : 'hover:bg-[var(--border)]/50'
+              }`}
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              title={node.file.oldPath ? `${node.file.oldPath} → ${node.file.path}` : node.file.path}
+            >
+              <span className={`font-mono font-bold ${STATUS_LABELS[node.file.status].className}`}>
+                {STATUS_LABELS[node.file.status].letter}
+              </span>
+              <span className="flex-1 truncate font-mono">{node.name}</span>
+              <FileStats file={node.file} />
+            </button>
+          </li>
+        ) : (
+          <li key={node.name} role="treeitem" aria-expanded>
+            <div className="px-2 py-1 text-xs text-[var(--muted)] font-mono truncate" style={{ paddingLeft: `${depth * 12 + 8}px` }}>
+              {node.name}/
+            </div>
+            <FileTree nodes={node.children} selected={selected} onSelect={onSelect} depth={depth + 1} />
+          </li>
+        )
+      )}
+    </ul>
+  );
+}
+
+function CodeCell({ line, language, className }: { line: DiffLine | null; language: string | null; className: string }) {
+  return (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-10 flex-shrink-0 pr-2 text-right text-[var(--muted)] select-none">{line?.line ?? ''}</span>
+      <span className="flex-1 whitespace-pre-wrap break-all">
+        {line &&
+          highlightLine(line.text, language).map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>
+              {token.text}
+            </span>
+          ))}
+      </span>
+    </div>
+  );
+}
+
+function FileDiff({ file }: { file: DiffFile }) {
+  const language = languageForPath(file.path);
+  const hunks = useMemo(() => file.hunks.map((hunk) => ({ header: hunk.header, rows: hunkToRows(hunk) })), [file]);
+
+  return (
+    <div className="border border-[var(--border)] rounded-lg overflow-hidden text-xs font-mono" data-testid="diff-file">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-[var(--background)] border-b border-[var(--border)] font-sans">
+        <span className="truncate font-mono">
+          {file.oldPath && <span className="text-[var(--muted)]">{file.oldPath} → </span>}
+          {file.path}
+        </span>
+        <FileStats file={file} />
+      </div>
+      {file.binary ? (
+        <p className="px-3 py-4 text-center text-[var(--muted)] font-sans">Binary file changed</p>
+      ) : hunks.length === 0 ? (
+        <p className="px-3 py-4 text-center text-[var(--muted)] font-sans">No content changes</p>
+      ) : (
+        hunks.map((hunk, hunkIndex) => (
+          <div key={hunkIndex}>
+            <div className="px-3 py-1 bg-blue-500/10 text-blue-300">{hunk.header}</div>
+            {hunk.rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-2 divide-x divide-[var(--border)]" data-diff={row.type}>
+                <CodeCell line={row.left} language={language} className={SIDE_CLASSES[row.type].left} />
+                <CodeCell line={row.right} language={language} className={SIDE_CLASSES[row.type].right} />
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side viewer for the changes a build run made: a tree of the
+ * changed files with per-file line counts, and the selected file's hunks
+ * with syntax highlighting.
+ */
+export function DiffViewer({ diff, isLoading, error, compact = false }: DiffViewerProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const tree = useMemo(() => buildFileTree(diff?.files ?? []), [diff]);
+
+  // Start on the first file of each diff
+  useEffect(() => {
+    setSelectedPath(diff?.files[0]?.path ?? null);
+  }, [diff]);
+
+  if (error) {
+    return <p className="text-sm text-[var(--danger)]">{error}</p>;
+  }
+  if (!diff) {
+    return <p className="text-sm text-[var(--muted)]">{isLoading ? 'Loading changes...' : 'No changes loaded.'}</p>;
+  }
+
+  const selectedFile = diff.files.find((file) => file.path === selectedPath);
+
+  return (
+    <div className="space-y-3" data-testid="diff-viewer">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <span className="font-mono text-xs">
+          {diff.branch} <span className="text-[var(--muted)]">→</span> {diff.baseBranch}
+        </span>
+        <span className="text-[var(--muted)]" data-testid="diff-summary">
+          {diff.files.length} {diff.files.length === 1 ? 'file' : 'files'} changed,{' '}
+          <span className="text-green-400">+{diff.additions}</span>{' '}
+          <span className="text-red-400">−{diff.deletions}</span>
+        </span>
+      </div>
+
+      {diff.files.length === 0 ? (
+        <p className="text-sm text-[var(--muted)]">The run&apos;s branch has no changes.</p>
+      ) : (
+        <div className={compact ? 'space-y-3' : 'flex gap-4 items-start'}>
+          <div
+            className={`border border-[var(--border)] rounded-lg p-1 overflow-y-auto ${
+              compact ? 'max-h-48' : 'w-64 flex-shrink-0 max-h-[70vh]'
+            }`}
+          >
+            <FileTree nodes={tree} selected={selectedPath} onSelect={setSelectedPath} />
+          </div>
+          <div className="flex-1 min-w-0">{selectedFile && <FileDiff file={selectedFile} />}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { useIssueDiff } from '@/hooks/useIssueDiff';
+import { useChangeReview, type ChangeReviewAction } from '@/hooks/useChangeReview';
+import { ChangeReviewPanel } from './ChangeReviewPanel';
+import { DiffViewer } from './DiffViewer';
+
+interface DiffViewerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  issueId: string | null;
+  issueTitle?: string;
+}
+
+/**
+ * Modal showing the changes an issue's latest build run made, with the
+ * review actions when the run was held for review.
+ */
+export function DiffViewerModal({ isOpen, onClose, issueId, issueTitle }: DiffViewerModalProps) {
+  const { diff, isLoading, error, refresh } = useIssueDiff(issueId, { enabled: isOpen && !!issueId });
+  const { review, isSubmitting, submitError, submit } = useChangeReview(issueId, { enabled: isOpen && !!issueId });
+
+  // A decision can push or delete the branch, which changes what the diff shows
+  const handleSubmit = useCallback(
+    async (action: ChangeReviewAction, comment?: string) => {
+      const accepted = await submit(action, comment);
+      if (accepted) void refresh();
+      return accepted;
+    },
+    [submit, refresh]
+  );
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (isOpen && e.key === 'Escape') onClose();
+    },
+    [isOpen, onClose]
+  );
+
+  useEffect(() => {
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} aria-hidden="true" />
+
+      {/* Modal */}
+      <div className="fixed inset-4 z-50 flex items-center justify-center">
+        <div
+          className="bg-[var(--card)] border border-[var(--border)] rounded-xl shadow-2xl w-full max-w-6xl max-h-full flex flex-col"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="diff-viewer-title"
+        >
+          <div className="flex-shrink-0 flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+            <div>
+              <h2 id="diff-viewer-title" className="text-lg font-semibold">
+                Changes
+              </h2>
+              {issueTitle && <p className="text-sm text-[var(--muted)] mt-0.5 truncate max-w-md">{issueTitle}</p>}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--border)] rounded-lg transition-colors"
+              aria-label="Close"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {review && (
+              <ChangeReviewPanel
+                review={review}
+                isSubmitting={isSubmitting}
+                submitError={submitError}
+                onSubmit={handleSubmit}
+              />
+            )}
+            <DiffViewer diff={diff} isLoading={isLoading} error={error} />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for the review panel of held build runs
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ChangeReviewPanel } from '../ChangeReviewPanel';
+import type { ChangeReview } from '@/lib/types';
+
+function changeReview(overrides: Partial<ChangeReview> = {}): ChangeReview {
+  return {
+    issueId: 'issue-1',
+    status: 'ready_for_review',
+    branch: 'fix/issue-1',
+    baseBranch: 'main',
+    summary: {
+      iterations: 2,
+      costUsd: 0.42,
+      durationMs: 90000,
+      toolCalls: { Edit: 3, Bash: 1 },
+      filesEdited: ['src/auth.ts'],
+      commands: ['npm test'],
+      errors: [],
+    },
+    testResults: { command: 'npm test', exitCode: 1, output: '1 failing' },
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('ChangeReviewPanel', () => {
+  it('summarizes the run and its test output', () => {
+    render(<ChangeReviewPanel review={changeReview()} onSubmit={jest.fn()} />);
+
+    expect(screen.getByTestId('change-review-status')).toHaveTextContent('Ready for review');
+    expect(screen.getByText(/2 iterations · \$0\.42 · 1m 30s/)).toBeInTheDocument();
+    expect(screen.getByText('Edit × 3')).toBeInTheDocument();
+    expect(screen.getByText('src/auth.ts')).toBeInTheDocument();
+    expect(screen.getByTestId('change-review-tests')).toHaveTextContent('Tests failed (exit 1)');
+    expect(screen.getByText('1 failing')).toBeInTheDocument();
+  });
+
+  it('requires a comment to request another iteration', async () => {
+    const onSubmit = jest.fn().mockResolvedValue(true);
+    render(<ChangeReviewPanel review={changeReview()} onSubmit={onSubmit} />);
+
+    const iterate = screen.getByRole('button', { name: 'Request Iteration' });
+    expect(iterate).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Review comment'), { target: { value: 'Cover the expiry path' } });
+    fireEvent.click(iterate);
+
+    expect(onSubmit).toHaveBeenCalledWith('request_iteration', 'Cover the expiry path');
+    await waitFor(() => expect(screen.getByLabelText('Review comment')).toHaveValue(''));
+  });
+
+  it('asks for confirmation before discarding the branch', async () => {
+    const onSubmit = jest.fn().mockResolvedValue(true);
+    render(<ChangeReviewPanel review={changeReview()} onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(screen.getByText('Delete branch fix/issue-1?')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Branch' }));
+    expect(onSubmit).toHaveBeenCalledWith('discard', '');
+    await waitFor(() => expect(screen.queryByText('Delete branch fix/issue-1?')).not.toBeInTheDocument());
+  });
+
+  it('shows the outcome instead of actions once decided', () => {
+    render(
+      <ChangeReviewPanel
+        review={changeReview({ status: 'approved', reviewedBy: 'alice', prUrl: 'https://github.com/o/r/pull/7' })}
+        onSubmit={jest.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('change-review-status')).toHaveTextContent('Approved');
+    expect(screen.getByRole('link', { name: 'https://github.com/o/r/pull/7' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Approve & Push' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for the run diff viewer
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { DiffViewer } from '../DiffViewer';
+import { parseUnifiedDiff } from '@/lib/unified-diff';
+import type { IssueDiff } from '@/lib/types';
+
+const RAW = `diff --git a/src/lib/auth.ts b/src/lib/auth.ts
+--- a/src/lib/auth.ts
++++ b/src/lib/auth.ts
+@@ -1,2 +1,2 @@
+-const ttl = 60;
++const ttl = 30;
+ export { ttl };
+diff --git a/README.md b/README.md
+--- a/README.md
++++ b/README.md
+@@ -1 +1,2 @@
+ # App
++Token TTL is 30s.
+`;
+
+function issueDiff(raw = RAW): IssueDiff {
+  const files = parseUnifiedDiff(raw);
+  return {
+    issueId: 'issue-1',
+    branch: 'fix/issue-1',
+    baseBranch: 'main',
+    diff: raw,
+    files,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+  };
+}
+
+describe('DiffViewer', () => {
+  it('summarizes the changes and shows the first file', () => {
+    render(<DiffViewer diff={issueDiff()} />);
+
+    expect(screen.getByTestId('diff-summary')).toHaveTextContent('2 files changed, +2 −1');
+    expect(screen.getByText('src/lib/')).toBeInTheDocument();
+    expect(screen.getByTestId('diff-file')).toHaveTextContent('src/lib/auth.ts');
+    expect(screen.getByTestId('diff-file').querySelector('[data-diff="changed"]')).toHaveTextContent('const ttl = 30;');
+  });
+
+  it('switches files from the tree', () => {
+    render(<DiffViewer diff={issueDiff()} />);
+
+    fireEvent.click(screen.getByText('README.md'));
+
+    expect(screen.getByTestId('diff-file').querySelector('[data-diff="added"]')).toHaveTextContent('Token TTL is 30s.');
+  });
+
+  it('highlights code by language', () => {
+    render(<DiffViewer diff={issueDiff()} />);
+
+    expect(screen.getAllByText('const')[0]).toHaveClass('text-purple-400');
+  });
+
+  it('shows why there is nothing to show', () => {
+    render(<DiffViewer diff={null} error="No build run with a branch recorded for issue issue-1" />);
+
+    expect(screen.getByText(/No build run/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,3 @@
+export { DiffViewer } from './DiffViewer';
+export { DiffViewerModal } from './DiffViewerModal';
+export { ChangeReviewPanel } from './ChangeReviewPanel';
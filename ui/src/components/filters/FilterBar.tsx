@@ -27,7 +27,15 @@ interface FilterBarProps {
 }
 
 const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
-const STATUSES: IssueStatus[] = ['pending', 'processing', 'completed', 'failed', 'ignored'];
+const STATUSES: IssueStatus[] = [
+  'pending',
+  'processing',
+  'awaiting_approval',
+  'ready_for_review',
+  'completed',
+  'failed',
+  'ignored',
+];
 
 const SEVERITY_COLORS: Record<Severity, string> = {
   CRITICAL: 'bg-red-900/50 text-red-300 border-red-700',
@@ -40,6 +48,8 @@ const SEVERITY_COLORS: Record<Severity, string> = {
 const STATUS_COLORS: Record<IssueStatus, string> = {
   pending: 'bg-gray-900/50 text-gray-300 border-gray-700',
   processing: 'bg-blue-900/50 text-blue-300 border-blue-700',
+  awaiting_approval: 'bg-purple-900/50 text-purple-300 border-purple-700',
+  ready_for_review: 'bg-cyan-900/50 text-cyan-300 border-cyan-700',
   completed: 'bg-green-900/50 text-green-300 border-green-700',
   failed: 'bg-red-900/50 text-red-300 border-red-700',
   ignored: 'bg-zinc-900/50 text-zinc-400 border-zinc-700',
@@ -247,7 +257,7 @@ export function FilterBar({
                         : 'border-[var(--border)] hover:border-[var(--muted)]'
                     }`}
                   >
-                    {status}
+                    {status.replace(/_/g, ' ')}
                   </button>
                 ))}
               </div>
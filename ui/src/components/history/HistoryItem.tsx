@@ -1,9 +1,14 @@
 'use client';
 
-import type { HistoryEntry } from '@/lib/types';
+import type { HistoryEntry, TrackedPullRequest } from '@/lib/types';
+import { PullRequestBadge } from '../common/PullRequestBadge';
 
 interface HistoryItemProps {
   entry: HistoryEntry;
+  /** Entry of the failed attempt this escalated attempt followed */
+  escalatedFrom?: HistoryEntry;
+  /** Tracked PR the entry's run opened */
+  pullRequest?: TrackedPullRequest;
   onRetry?: (entry: HistoryEntry) => void;
   onRemove?: (entry: HistoryEntry) => void;
 }
@@ -55,8 +60,9 @@ function getProviderColor(provider: string): string {
   return colors[provider] || 'bg-gray-500/20 text-gray-400';
 }
 
-export function HistoryItem({ entry, onRetry, onRemove }: HistoryItemProps) {
+export function HistoryItem({ entry, escalatedFrom, pullRequest, onRetry, onRemove }: HistoryItemProps) {
   const isCompleted = entry.status === 'completed';
+  const prUrl = entry.prUrl ?? pullRequest?.url;
 
   return (
     <div
@@ -103,6 +109,17 @@ export function HistoryItem({ entry, onRetry, onRemove }: HistoryItemProps) {
           {entry.severity}
         </span>
 
+        {/* Escalation step */}
+        {!!entry.escalationLevel && (
+          <span
+            className="px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-400"
+            title={entry.escalationStep}
+            data-testid="history-escalation"
+          >
+            Escalation {entry.escalationLevel}{entry.escalationStep && `: ${entry.escalationStep}`}
+          </span>
+        )}
+
         {/* Duration */}
         {entry.duration > 0 && (
           <span className="text-[var(--muted)]">{formatDuration(entry.duration)}</span>
@@ -114,6 +131,14 @@ export function HistoryItem({ entry, onRetry, onRemove }: HistoryItemProps) {
         </span>
       </div>
 
+      {/* Link to the failed attempt this one escalated from */}
+      {escalatedFrom && (
+        <div className="mt-2 text-xs text-[var(--muted)]" data-testid="history-escalated-from">
+          Escalated after the attempt that failed {formatDate(escalatedFrom.completedAt)}
+          {escalatedFrom.error && `: ${escalatedFrom.error}`}
+        </div>
+      )}
+
       {/* Error message for failed entries */}
       {!isCompleted && entry.error && (
         <div className="mt-2 text-xs text-red-400 bg-red-900/20 px-2 py-1 rounded">
@@ -122,10 +147,10 @@ export function HistoryItem({ entry, onRetry, onRemove }: HistoryItemProps) {
       )}
 
       {/* PR link for completed entries */}
-      {isCompleted && entry.prUrl && (
-        <div className="mt-2">
+      {isCompleted && prUrl && (
+        <div className="mt-2 flex items-center gap-2">
           <a
-            href={entry.prUrl}
+            href={prUrl}
             target="_blank"
             rel="noopener noreferrer"
             className="text-xs text-[var(--primary)] hover:underline inline-flex items-center gap-1"
@@ -135,6 +160,7 @@ export function HistoryItem({ entry, onRetry, onRemove }: HistoryItemProps) {
             </svg>
             View PR
           </a>
+          {pullRequest && <PullRequestBadge url={prUrl} state={pullRequest.state} />}
         </div>
       )}
 
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { HistoryItem } from './HistoryItem';
-import type { HistoryEntry } from '@/lib/types';
+import type { HistoryEntry, TrackedPullRequest } from '@/lib/types';
 import type { HistoryFilter } from '@/hooks/useHistory';
 
 interface HistoryViewProps {
@@ -24,6 +24,18 @@ interface HistoryViewProps {
     successRate: number;
   };
   availableProviders: string[];
+  /** PRs tracked on the server, to show the state of each entry's PR */
+  pullRequests?: TrackedPullRequest[];
+}
+
+/**
+ * PR an entry's run opened: the one at its recorded URL, or else the one
+ * opened by its job (which also covers duplicates linked to the job).
+ */
+function findPullRequest(entry: HistoryEntry, pullRequests: TrackedPullRequest[]): TrackedPullRequest | undefined {
+  if (entry.status !== 'completed') return undefined;
+  if (entry.prUrl) return pullRequests.find((pull) => pull.url === entry.prUrl);
+  return entry.jobId ? pullRequests.find((pull) => pull.jobId === entry.jobId) : undefined;
 }
 
 export function HistoryView({
@@ -40,6 +52,7 @@ export function HistoryView({
   onClearFailed,
   stats,
   availableProviders,
+  pullRequests = [],
 }: HistoryViewProps) {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
 
@@ -242,6 +255,12 @@ export function HistoryView({
                 <HistoryItem
                   key={entry.id}
                   entry={entry}
+                  escalatedFrom={
+                    entry.escalatedFromJobId
+                      ? entries.find((e) => e.issueId === entry.issueId && e.jobId === entry.escalatedFromJobId)
+                      : undefined
+                  }
+                  pullRequest={findPullRequest(entry, pullRequests)}
                   onRetry={onRetry}
                   onRemove={onRemove}
                 />
@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { ThemeToggle } from '@/components/common';
 
 /**
@@ -12,13 +13,19 @@ export function Header() {
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
           <h1 className="text-xl font-bold text-[var(--foreground)]">
-            Meta-Ralph
+            <Link href="/">Meta-Ralph</Link>
           </h1>
           <span className="text-sm text-[var(--muted)]">
             Unified Issue Resolution Agent
           </span>
         </div>
         <div className="flex items-center gap-4">
+          <Link
+            href="/settings/priority"
+            className="text-sm text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+          >
+            Priority rules
+          </Link>
           <ThemeToggle showDropdown />
         </div>
       </div>
@@ -0,0 +1,111 @@
+'use client';
+
+import { formatUsd, type BudgetStatus } from '@/lib/budget';
+import type { BudgetLimits } from '@/lib/types';
+
+interface BudgetLimitsInputProps {
+  /** The run's limits; undefined when none are set */
+  value: BudgetLimits | undefined;
+  onChange: (value: BudgetLimits | undefined) => void;
+  /** Server-wide daily limit and today's spend, once loaded */
+  daily?: BudgetStatus | null;
+  /** Save a new daily limit; null removes it */
+  onDailyLimitChange?: (limitUsd: number | null) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  'w-full px-2 py-1 text-sm bg-[var(--input)] text-[var(--foreground)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent disabled:opacity-50';
+const labelClass = 'block text-xs font-medium text-[var(--muted)] mb-1';
+
+/**
+ * Parse a USD input: a positive amount, or undefined for no limit.
+ */
+function parseLimit(value: string): number | undefined {
+  const amount = Number(value);
+  return value.trim() === '' || !Number.isFinite(amount) || amount <= 0 ? undefined : amount;
+}
+
+/**
+ * Spend limits for a run. The server stops an issue that reaches its
+ * per-issue limit, and the whole run when the per-batch or daily limit is
+ * reached.
+ */
+export function BudgetLimitsInput({
+  value,
+  onChange,
+  daily,
+  onDailyLimitChange,
+  disabled = false,
+}: BudgetLimitsInputProps) {
+  const update = (updates: BudgetLimits) => {
+    const next = { ...value, ...updates };
+    const hasLimit = next.perIssueUsd !== undefined || next.perBatchUsd !== undefined;
+    onChange(hasLimit ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-[var(--foreground)]">
+        Budget Limits
+      </label>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="budget-per-issue" className={labelClass}>Per issue (USD)</label>
+          <input
+            id="budget-per-issue"
+            type="number"
+            min={0}
+            step={0.5}
+            value={value?.perIssueUsd ?? ''}
+            onChange={(e) => update({ perIssueUsd: parseLimit(e.target.value) })}
+            placeholder="No limit"
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="budget-per-batch" className={labelClass}>Per batch (USD)</label>
+          <input
+            id="budget-per-batch"
+            type="number"
+            min={0}
+            step={0.5}
+            value={value?.perBatchUsd ?? ''}
+            onChange={(e) => update({ perBatchUsd: parseLimit(e.target.value) })}
+            placeholder="No limit"
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="budget-per-day" className={labelClass}>Per day, all runs (USD)</label>
+          <input
+            id="budget-per-day"
+            // Re-mount when the saved limit changes so the uncontrolled value follows
+            key={daily?.dailyLimitUsd ?? 'none'}
+            type="number"
+            min={0}
+            step={1}
+            defaultValue={daily?.dailyLimitUsd ?? ''}
+            onBlur={(e) => {
+              const limit = parseLimit(e.target.value) ?? null;
+              if (limit !== (daily?.dailyLimitUsd ?? null)) onDailyLimitChange?.(limit);
+            }}
+            placeholder="No limit"
+            disabled={disabled || !onDailyLimitChange}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      {daily && (
+        <p className="text-xs text-[var(--muted)]">
+          Spent today: {formatUsd(daily.spentTodayUsd)}
+          {daily.remainingTodayUsd !== null && ` · ${formatUsd(daily.remainingTodayUsd)} left of the daily limit`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default BudgetLimitsInput;
@@ -0,0 +1,60 @@
+'use client';
+
+import { MAX_CONCURRENCY } from '@/lib/types';
+
+interface ConcurrencySelectorProps {
+  value: number;
+  onChange: (value: number) => void;
+  /** Number of selected issues; more lanes than issues are never used */
+  issueCount?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Select how many issues are processed at once.
+ * Above 1, each issue runs in its own git worktree.
+ */
+export function ConcurrencySelector({
+  value,
+  onChange,
+  issueCount,
+  disabled = false,
+}: ConcurrencySelectorProps) {
+  const levels = Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1);
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-[var(--foreground)]">
+        Parallel Issues
+      </label>
+      <div className="flex gap-2" role="radiogroup" aria-label="Parallel issues">
+        {levels.map((level) => (
+          <button
+            key={level}
+            type="button"
+            role="radio"
+            aria-checked={value === level}
+            disabled={disabled}
+            onClick={() => onChange(level)}
+            className={`
+              flex-1 py-2 rounded-lg border-2 text-sm font-mono transition-all
+              ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+              ${
+                value === level
+                  ? 'border-[var(--primary)] bg-[var(--primary)]/10'
+                  : 'border-[var(--border)] hover:border-[var(--muted)] bg-[var(--card)]'
+              }
+            `}
+          >
+            {level}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-[var(--muted)]">
+        {value === 1
+          ? 'One issue at a time in the target repository'
+          : `Up to ${issueCount !== undefined ? Math.min(value, Math.max(issueCount, 1)) : value} issues at once, each in its own git worktree`}
+      </p>
+    </div>
+  );
+}
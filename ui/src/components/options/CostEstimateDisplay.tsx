@@ -1,10 +1,13 @@
 'use client';
 
-import type { CostEstimate } from '@/lib/types';
+import { getBudgetScopeLabel } from '@/lib/budget';
+import type { CostEstimate, RemainingBudget } from '@/lib/types';
 
 interface CostEstimateDisplayProps {
   estimate: CostEstimate;
   issueCount: number;
+  /** Most the run may spend before a budget limit stops it */
+  budget?: RemainingBudget | null;
 }
 
 /**
@@ -13,12 +16,22 @@ interface CostEstimateDisplayProps {
 export function CostEstimateDisplay({
   estimate,
   issueCount,
+  budget,
 }: CostEstimateDisplayProps) {
   const formatCost = (value: number): string => {
     if (value < 0.01) return '<$0.01';
     return `$${value.toFixed(2)}`;
   };
 
+  const formatDuration = (ms: number): string => {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  };
+
+  const overBudget = !!budget && estimate.max > budget.remainingUsd;
+  const { history } = estimate;
+
   return (
     <div className="bg-[var(--card)] border border-[var(--border)] rounded-lg p-4">
       <div className="flex items-center gap-2 mb-2">
@@ -31,6 +44,11 @@ export function CostEstimateDisplay({
       <div className="text-sm text-[var(--muted)] mt-1">
         for {issueCount} issue{issueCount !== 1 ? 's' : ''}
       </div>
+      <div className="text-xs text-[var(--muted)] mt-1" data-testid="cost-estimate-source">
+        {history
+          ? `${Math.round(history.confidence * 100)}% interval from ${history.sampleSize} past run${history.sampleSize !== 1 ? 's' : ''}`
+          : 'Rough estimate; no similar past runs yet'}
+      </div>
       <div className="mt-3 pt-3 border-t border-[var(--border)] text-xs text-[var(--muted)]">
         <div className="flex justify-between">
           <span>Average per issue:</span>
@@ -40,7 +58,28 @@ export function CostEstimateDisplay({
           <span>Per iteration:</span>
           <span>{formatCost(estimate.breakdown.perIteration)}</span>
         </div>
+        {history && (
+          <div className="flex justify-between mt-1" data-testid="cost-estimate-duration">
+            <span>Expected duration:</span>
+            <span>
+              ~{formatDuration(history.durationMs.min)} - {formatDuration(history.durationMs.max)}
+            </span>
+          </div>
+        )}
+        {budget && (
+          <div className="flex justify-between mt-1" data-testid="cost-estimate-budget">
+            <span>Budget remaining ({getBudgetScopeLabel(budget.scope).toLowerCase()} limit):</span>
+            <span className={overBudget ? 'text-yellow-400' : undefined}>
+              {formatCost(budget.remainingUsd)}
+            </span>
+          </div>
+        )}
       </div>
+      {overBudget && (
+        <p className="mt-2 text-xs text-yellow-400">
+          The estimate may exceed the budget; processing stops when a limit is reached.
+        </p>
+      )}
     </div>
   );
 }
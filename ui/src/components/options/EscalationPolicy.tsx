@@ -0,0 +1,48 @@
+'use client';
+
+import type { EscalationStep } from '@/lib/types';
+import { OptionsToggle } from './OptionsToggle';
+
+interface EscalationPolicyProps {
+  /** The run's escalation steps; undefined when escalation is off */
+  value: EscalationStep[] | undefined;
+  /** The preset's steps, restored when escalation is turned back on */
+  presetSteps: EscalationStep[] | undefined;
+  onChange: (value: EscalationStep[] | undefined) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Escalation policy of a run: further attempts, with stronger options, that
+ * the server queues automatically when an issue fails.
+ */
+export function EscalationPolicy({
+  value,
+  presetSteps,
+  onChange,
+  disabled = false,
+}: EscalationPolicyProps) {
+  const steps = value ?? presetSteps;
+  if (!steps?.length) return null;
+
+  return (
+    <div className="space-y-1">
+      <OptionsToggle
+        label="Escalate on failure"
+        description="Automatically retry failed issues with stronger settings"
+        checked={!!value?.length}
+        onChange={(checked) => onChange(checked ? steps : undefined)}
+        disabled={disabled}
+      />
+      <ol className="ml-4 space-y-0.5 text-xs text-[var(--muted)]" data-testid="escalation-steps">
+        {steps.map((step, index) => (
+          <li key={index} className={value?.length ? undefined : 'line-through opacity-60'}>
+            {index + 1}. {step.name}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default EscalationPolicy;
@@ -1,53 +1,85 @@
 'use client';
 
-import type { ModelType, ModelInfo } from '@/lib/types';
-import { MODEL_INFO } from '@/lib/types';
+import type { ModelType } from '@/lib/types';
+import { getModelCostPer1kTokens, MODEL_INFO } from '@/lib/types';
+import { getModelInfo, getModelsByCost, type ModelCatalog } from '@/lib/models';
 
 interface ModelSelectorProps {
   model: ModelType;
   onChange: (model: ModelType) => void;
   suggestedModel?: ModelType;
+  /** Models to choose from; defaults to the built-in catalog */
+  models?: ModelCatalog;
+  /** Whether routing rules pick each issue's model */
+  autoRoute?: boolean;
+  /** Toggle routing; the toggle is hidden without it */
+  onAutoRouteChange?: (enabled: boolean) => void;
+  /** Issues per model when routing, by model ID */
+  routedCounts?: Record<ModelType, number>;
   disabled?: boolean;
 }
 
 /**
- * Selector for choosing between Claude Sonnet and Opus models.
- * Shows cost and capability information for each model.
+ * Format a context window size, e.g. 200000 → "200K".
+ */
+function formatContext(tokens: number): string {
+  return tokens >= 1000000 ? `${tokens / 1000000}M` : `${Math.round(tokens / 1000)}K`;
+}
+
+/**
+ * Selector for choosing a model from the model catalog.
+ * Shows cost and capability information for each model. With automatic
+ * routing the selected model is the fallback for issues no rule matches.
  */
 export function ModelSelector({
   model,
   onChange,
   suggestedModel,
+  models = MODEL_INFO,
+  autoRoute = false,
+  onAutoRouteChange,
+  routedCounts,
   disabled = false,
 }: ModelSelectorProps) {
-  const models: Array<{ type: ModelType; info: ModelInfo }> = [
-    { type: 'sonnet', info: MODEL_INFO.sonnet },
-    { type: 'opus', info: MODEL_INFO.opus },
-  ];
+  const catalog = getModelsByCost(models);
+  const selected = getModelInfo(model, models);
 
   return (
     <div className="space-y-2">
-      <label className="block text-sm font-medium text-[var(--foreground)]">
-        Model
-      </label>
-      <div className="grid grid-cols-2 gap-3">
-        {models.map(({ type, info }) => (
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-[var(--foreground)]">
+          {autoRoute ? 'Model (for issues no routing rule matches)' : 'Model'}
+        </label>
+        {onAutoRouteChange && (
+          <label className="flex items-center gap-2 text-xs text-[var(--muted)] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoRoute}
+              onChange={(e) => onAutoRouteChange(e.target.checked)}
+              disabled={disabled}
+            />
+            Route per issue
+          </label>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {catalog.map((info) => (
           <button
-            key={type}
+            key={info.id}
             type="button"
             disabled={disabled}
-            onClick={() => onChange(type)}
+            onClick={() => onChange(info.id)}
             className={`
               relative flex flex-col items-center justify-center p-4 rounded-lg border-2 transition-all
               ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
               ${
-                model === type
+                model === info.id
                   ? 'border-[var(--primary)] bg-[var(--primary)]/10'
                   : 'border-[var(--border)] hover:border-[var(--muted)] bg-[var(--card)]'
               }
             `}
           >
-            {model === type && (
+            {model === info.id && (
               <span className="absolute top-2 right-2 text-[var(--primary)]">
                 <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                   <path
@@ -58,25 +90,35 @@ export function ModelSelector({
                 </svg>
               </span>
             )}
-            {suggestedModel === type && model !== type && (
+            {suggestedModel === info.id && model !== info.id && !autoRoute && (
               <span className="absolute top-2 left-2 text-xs px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-400">
                 Suggested
               </span>
             )}
+            {autoRoute && routedCounts?.[info.id] ? (
+              <span
+                className="absolute top-2 left-2 text-xs px-1.5 py-0.5 rounded bg-[var(--primary)]/20 text-[var(--primary)]"
+                data-testid={`routed-count-${info.id}`}
+              >
+                {routedCounts[info.id]} issue{routedCounts[info.id] !== 1 ? 's' : ''}
+              </span>
+            ) : null}
             <span className="text-2xl mb-1">{info.icon}</span>
             <span className="font-medium text-[var(--foreground)]">{info.name}</span>
-            <span className="text-xs text-[var(--muted)]">{info.description}</span>
+            <span className="text-xs text-[var(--muted)] text-center">{info.description}</span>
             <span className="text-xs text-[var(--muted)] mt-1">
-              ${info.costPer1kTokens}/1K tokens
+              ${getModelCostPer1kTokens(info).toFixed(4)}/1K tokens · {formatContext(info.contextTokens)} context
             </span>
           </button>
         ))}
       </div>
       {/* Best for hints */}
-      <div className="text-xs text-[var(--muted)] mt-2">
-        <strong>{model === 'sonnet' ? 'Sonnet' : 'Opus'}</strong> is best for:{' '}
-        {MODEL_INFO[model].bestFor.join(', ')}
-      </div>
+      {selected.bestFor.length > 0 && (
+        <div className="text-xs text-[var(--muted)] mt-2">
+          <strong>{selected.name}</strong> is best for:{' '}
+          {selected.bestFor.join(', ')}
+        </div>
+      )}
     </div>
   );
 }
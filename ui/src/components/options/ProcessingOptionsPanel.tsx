@@ -4,11 +4,19 @@ import { useEffect, useMemo } from 'react';
 import { ModeToggle } from './ModeToggle';
 import { ModelSelector } from './ModelSelector';
 import { IterationSlider } from './IterationSlider';
+import { ConcurrencySelector } from './ConcurrencySelector';
+import { BudgetLimitsInput } from './BudgetLimitsInput';
+import { EscalationPolicy } from './EscalationPolicy';
+import { PushModeSelector } from './PushModeSelector';
 import { CostEstimateDisplay } from './CostEstimateDisplay';
 import { PresetSelector } from './PresetSelector';
 import { OptionsToggle } from './OptionsToggle';
 import { useProcessingOptions } from '@/hooks/useProcessingOptions';
-import type { Issue, ProcessingOptions, Severity } from '@/lib/types';
+import { useBudget } from '@/hooks/useBudget';
+import { useRunHistory } from '@/hooks/useRunHistory';
+import { useModelCatalog } from '@/hooks/useModelCatalog';
+import { getBatchBudget } from '@/lib/budget';
+import type { Issue, ModelType, ProcessingOptions, Severity } from '@/lib/types';
 
 interface ProcessingOptionsPanelProps {
   isOpen: boolean;
@@ -27,6 +35,7 @@ export function ProcessingOptionsPanel({
   selectedIssues,
   onStart,
 }: ProcessingOptionsPanelProps) {
+  const { models, rules: routingRules } = useModelCatalog({ enabled: isOpen });
   const {
     options,
     updateOption,
@@ -34,19 +43,37 @@ export function ProcessingOptionsPanel({
     currentPresetId,
     presets,
     getCostEstimate,
+    getIssueModel,
     getValidationWarnings,
-  } = useProcessingOptions();
+  } = useProcessingOptions({ models, routingRules });
+  const { status: dailyBudget, setDailyLimit } = useBudget({ enabled: isOpen });
+  const { runs } = useRunHistory({ enabled: isOpen });
 
   const issueCount = selectedIssues.length;
   const costEstimate = useMemo(
-    () => getCostEstimate(issueCount),
-    [getCostEstimate, issueCount]
+    () => getCostEstimate(selectedIssues, runs),
+    [getCostEstimate, selectedIssues, runs]
+  );
+  const batchBudget = useMemo(
+    () => getBatchBudget(options.budget, issueCount, dailyBudget?.remainingTodayUsd ?? undefined),
+    [options.budget, issueCount, dailyBudget]
   );
   const warnings = useMemo(
     () => getValidationWarnings(selectedIssues),
     [getValidationWarnings, selectedIssues]
   );
 
+  // Issues per model when auto-routing
+  const routedCounts = useMemo(() => {
+    if (!options.autoModel) return undefined;
+    const counts: Record<ModelType, number> = {};
+    selectedIssues.forEach((i) => {
+      const model = getIssueModel(i);
+      counts[model] = (counts[model] || 0) + 1;
+    });
+    return counts;
+  }, [options.autoModel, selectedIssues, getIssueModel]);
+
   // Determine suggested model based on issue severity
   const suggestedModel = useMemo(() => {
     const hasSecurityOrCritical = selectedIssues.some(
@@ -162,6 +189,10 @@ export function ProcessingOptionsPanel({
               model={options.model}
               onChange={(model) => updateOption('model', model)}
               suggestedModel={suggestedModel}
+              models={models}
+              autoRoute={!!options.autoModel}
+              onAutoRouteChange={(enabled) => updateOption('autoModel', enabled)}
+              routedCounts={routedCounts}
             />
 
             {/* Iteration Slider */}
@@ -170,6 +201,30 @@ export function ProcessingOptionsPanel({
               onChange={(value) => updateOption('maxIterations', value)}
             />
 
+            {/* Concurrency */}
+            <ConcurrencySelector
+              value={options.concurrency ?? 1}
+              onChange={(value) => updateOption('concurrency', value)}
+              issueCount={issueCount}
+            />
+
+            {/* Budget limits */}
+            <BudgetLimitsInput
+              value={options.budget}
+              onChange={(value) => updateOption('budget', value)}
+              daily={dailyBudget}
+              onDailyLimitChange={setDailyLimit}
+            />
+
+            {/* Push mode */}
+            <PushModeSelector
+              options={options}
+              onChange={({ autoPush, reviewBeforePush }) => {
+                updateOption('autoPush', autoPush);
+                updateOption('reviewBeforePush', reviewBeforePush);
+              }}
+            />
+
             <hr className="border-[var(--border)]" />
 
             {/* Options toggles */}
@@ -177,12 +232,6 @@ export function ProcessingOptionsPanel({
               <label className="block text-sm font-medium text-[var(--foreground)] mb-2">
                 Options
               </label>
-              <OptionsToggle
-                label="Auto-push commits"
-                description="Automatically push commits to remote after each fix"
-                checked={options.autoPush}
-                onChange={(checked) => updateOption('autoPush', checked)}
-              />
               <OptionsToggle
                 label="CI/CD awareness"
                 description="Monitor CI status after pushing"
@@ -203,12 +252,17 @@ export function ProcessingOptionsPanel({
                 disabled={!options.ciAwareness}
                 indent
               />
+              <EscalationPolicy
+                value={options.escalation}
+                presetSteps={presets.find((preset) => preset.id === currentPresetId)?.escalation}
+                onChange={(value) => updateOption('escalation', value)}
+              />
             </div>
 
             <hr className="border-[var(--border)]" />
 
             {/* Cost Estimate */}
-            <CostEstimateDisplay estimate={costEstimate} issueCount={issueCount} />
+            <CostEstimateDisplay estimate={costEstimate} issueCount={issueCount} budget={batchBudget} />
 
             {/* Warnings */}
             {warnings.length > 0 && (
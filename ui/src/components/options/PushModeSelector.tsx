@@ -0,0 +1,74 @@
+'use client';
+
+import type { ProcessingOptions } from '@/lib/types';
+
+/**
+ * What happens to a successful build run's changes.
+ */
+export type PushMode = 'auto' | 'review' | 'off';
+
+type PushOptions = Pick<ProcessingOptions, 'autoPush' | 'reviewBeforePush'>;
+
+interface PushModeSelectorProps {
+  options: PushOptions;
+  onChange: (options: Required<PushOptions>) => void;
+  disabled?: boolean;
+}
+
+const MODES: Array<{ value: PushMode; label: string; description: string }> = [
+  { value: 'auto', label: 'Auto', description: 'Push commits and open a PR as soon as a run succeeds' },
+  {
+    value: 'review',
+    label: 'Review first',
+    description: 'Hold successful runs for review; approving pushes and opens the PR',
+  },
+  { value: 'off', label: 'Off', description: 'Keep changes on the local branch to push manually' },
+];
+
+/**
+ * Push mode of a set of processing options.
+ */
+export function getPushMode({ autoPush, reviewBeforePush }: PushOptions): PushMode {
+  if (reviewBeforePush) return 'review';
+  return autoPush ? 'auto' : 'off';
+}
+
+/**
+ * Select whether build runs push their changes right away, hold them for
+ * a reviewer's approval, or leave them local.
+ */
+export function PushModeSelector({ options, onChange, disabled = false }: PushModeSelectorProps) {
+  const mode = getPushMode(options);
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-[var(--foreground)]">
+        Push Changes
+      </label>
+      <div className="flex gap-2" role="radiogroup" aria-label="Push changes">
+        {MODES.map((m) => (
+          <button
+            key={m.value}
+            type="button"
+            role="radio"
+            aria-checked={mode === m.value}
+            disabled={disabled}
+            onClick={() => onChange({ autoPush: m.value === 'auto', reviewBeforePush: m.value === 'review' })}
+            className={`
+              flex-1 py-2 rounded-lg border-2 text-sm transition-all
+              ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+              ${
+                mode === m.value
+                  ? 'border-[var(--primary)] bg-[var(--primary)]/10'
+                  : 'border-[var(--border)] hover:border-[var(--muted)] bg-[var(--card)]'
+              }
+            `}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-[var(--muted)]">{MODES.find((m) => m.value === mode)?.description}</p>
+    </div>
+  );
+}
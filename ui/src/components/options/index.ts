@@ -8,5 +8,9 @@ export { PresetSelector } from './PresetSelector';
 export { ModeToggle } from './ModeToggle';
 export { ModelSelector } from './ModelSelector';
 export { IterationSlider } from './IterationSlider';
+export { ConcurrencySelector } from './ConcurrencySelector';
+export { PushModeSelector, getPushMode, type PushMode } from './PushModeSelector';
+export { BudgetLimitsInput } from './BudgetLimitsInput';
 export { CostEstimateDisplay } from './CostEstimateDisplay';
 export { OptionsToggle } from './OptionsToggle';
+export { EscalationPolicy } from './EscalationPolicy';
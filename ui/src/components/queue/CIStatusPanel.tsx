@@ -2,7 +2,8 @@
  * CIStatusPanel Component
  *
  * Displays CI/CD check run status with real-time updates.
- * Shows individual check statuses, overall status, and failure details.
+ * Shows individual check statuses, overall status, and failure details,
+ * and follows auto-fix attempts while they run.
  *
  * @see PRD-07-CICD-AWARENESS.md for specification
  */
@@ -11,10 +12,13 @@
 
 import { useState, useCallback } from 'react';
 import {
+  Activity,
   CICheck,
   CIStatus,
   CIStatusResponse,
   CIFailure,
+  CIFailureDetail,
+  CIFixAttempt,
 } from '@/lib/types';
 import { getCIStatusIcon, getCIStatusColor } from '@/hooks/useCIStatus';
 
@@ -31,6 +35,8 @@ interface CIStatusPanelProps {
   error?: string | null;
   /** Whether currently polling */
   isPolling?: boolean;
+  /** Whether webhooks push updates instead of polling */
+  isLive?: boolean;
   /** GitHub repository owner */
   owner?: string;
   /** GitHub repository name */
@@ -39,6 +45,16 @@ interface CIStatusPanelProps {
   onRefresh?: () => void;
   /** Callback to trigger auto-fix */
   onAutoFix?: () => Promise<boolean>;
+  /** Callback to run a failed check again */
+  onRerun?: (checkId: string) => Promise<boolean>;
+  /** Latest auto-fix attempt */
+  fixAttempt?: CIFixAttempt | null;
+  /** Live activity of the running fix attempt */
+  fixActivities?: Activity[];
+  /** Whether another fix attempt is allowed */
+  canAutoFix?: boolean;
+  /** Fix attempts allowed per PR */
+  maxFixAttempts?: number;
   /** Whether to show the panel header */
   showHeader?: boolean;
   /** Custom class name */
@@ -52,7 +68,8 @@ interface CIStatusPanelProps {
 /**
  * Individual check item display.
  */
-function CheckItem({ check }: { check: CICheck }) {
+function CheckItem({ check, onRerun }: { check: CICheck; onRerun?: (checkId: string) => Promise<boolean> }) {
+  const [isRerunning, setIsRerunning] = useState(false);
   const icon = getCIStatusIcon(check.status);
   const colorClass = getCIStatusColor(check.status);
   const duration = check.completedAt && check.startedAt
@@ -73,6 +90,22 @@ function CheckItem({ check }: { check: CICheck }) {
         {duration && (
           <span className="text-xs text-muted-foreground">{duration}</span>
         )}
+        {onRerun && (check.status === 'failure' || check.status === 'cancelled') && (
+          <button
+            onClick={async () => {
+              setIsRerunning(true);
+              try {
+                await onRerun(check.id);
+              } finally {
+                setIsRerunning(false);
+              }
+            }}
+            disabled={isRerunning}
+            className="text-xs text-blue-500 hover:text-blue-400 disabled:opacity-50"
+          >
+            {isRerunning ? 'Re-running...' : 'Re-run'}
+          </button>
+        )}
         <a
           href={check.detailsUrl}
           target="_blank"
@@ -86,6 +119,51 @@ function CheckItem({ check }: { check: CICheck }) {
   );
 }
 
+// Parsed errors shown per failure
+const MAX_DETAIL_ROWS = 50;
+
+/**
+ * Table of the errors parsed from a failed check's logs.
+ */
+function FailureDetailsTable({ details }: { details: CIFailureDetail[] }) {
+  const shown = details.slice(0, MAX_DETAIL_ROWS);
+
+  return (
+    <table className="mt-2 w-full text-xs" data-testid="ci-failure-details">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 pr-2 font-medium">File</th>
+          <th className="py-1 pr-2 font-medium">Line</th>
+          <th className="py-1 pr-2 font-medium">Rule / Test</th>
+          <th className="py-1 font-medium">Message</th>
+        </tr>
+      </thead>
+      <tbody>
+        {shown.map((detail, index) => (
+          <tr key={index} className="border-t border-red-500/10 align-top">
+            <td className="py-1 pr-2 font-mono text-gray-300 break-all">{detail.file ?? '—'}</td>
+            <td className="py-1 pr-2 font-mono text-gray-300">
+              {detail.line !== undefined ? `${detail.line}${detail.column !== undefined ? `:${detail.column}` : ''}` : '—'}
+            </td>
+            <td className="py-1 pr-2 text-gray-300">
+              {detail.rule ?? detail.test ?? '—'}
+              <span className="ml-1 text-muted-foreground">({detail.parser})</span>
+            </td>
+            <td className="py-1 text-red-300 whitespace-pre-wrap">{detail.message}</td>
+          </tr>
+        ))}
+        {details.length > shown.length && (
+          <tr className="border-t border-red-500/10">
+            <td colSpan={4} className="py-1 text-muted-foreground">
+              {details.length - shown.length} more
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
+
 /**
  * Failure details display.
  */
@@ -116,6 +194,9 @@ function FailureDetails({ failure, owner: _owner, repo: _repo, onShowLogs: _onSh
           </button>
         )}
       </div>
+      {failure.details && failure.details.length > 0 && (
+        <FailureDetailsTable details={failure.details} />
+      )}
       {expanded && failure.logs && (
         <pre className="mt-2 p-2 bg-black/30 rounded text-xs text-gray-300 overflow-x-auto max-h-48 overflow-y-auto">
           {failure.logs}
@@ -125,6 +206,50 @@ function FailureDetails({ failure, owner: _owner, repo: _repo, onShowLogs: _onSh
   );
 }
 
+/**
+ * Progress and outcome of an auto-fix attempt.
+ */
+function FixAttemptStatus({ attempt, activities, maxAttempts }: {
+  attempt: CIFixAttempt;
+  activities: Activity[];
+  maxAttempts?: number;
+}) {
+  const label = `Fix attempt ${attempt.attempt}${maxAttempts ? ` of ${maxAttempts}` : ''}`;
+
+  return (
+    <div className="mt-3 p-3 border border-orange-500/30 rounded-md bg-orange-500/5" data-testid="ci-fix-attempt">
+      {attempt.status === 'running' && (
+        <>
+          <p className="text-sm text-orange-400 flex items-center gap-2">
+            <span className="animate-spin">⏳</span>
+            <span>{label} running on {attempt.branch}...</span>
+          </p>
+          {activities.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+              {activities.slice(-5).map((activity) => (
+                <li key={activity.id} className="truncate">
+                  {activity.tool ? `${activity.tool}: ` : ''}{activity.details ?? activity.type}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+      {attempt.status === 'pushed' && (
+        <p className="text-sm text-green-400">
+          {label} pushed{' '}
+          <code className="bg-white/5 px-1 rounded">{attempt.headSha?.slice(0, 7)}</code>; checking CI on it
+        </p>
+      )}
+      {attempt.status === 'failed' && (
+        <p className="text-sm text-red-400">
+          {label} failed{attempt.error ? `: ${attempt.error}` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
+
 /**
  * Format duration between two dates.
  */
@@ -172,10 +297,16 @@ export function CIStatusPanel({
   isLoading = false,
   error = null,
   isPolling = false,
+  isLive = false,
   owner,
   repo,
   onRefresh,
   onAutoFix,
+  onRerun,
+  fixAttempt = null,
+  fixActivities = [],
+  canAutoFix = true,
+  maxFixAttempts,
   showHeader = true,
   className = '',
 }: CIStatusPanelProps) {
@@ -263,7 +394,7 @@ export function CIStatusPanel({
             {status && <StatusBadge status={status.overallStatus} />}
             {isPolling && (
               <span className="text-xs text-muted-foreground animate-pulse">
-                Polling...
+                {isLive ? 'Live' : 'Polling...'}
               </span>
             )}
           </div>
@@ -284,7 +415,7 @@ export function CIStatusPanel({
                 rel="noopener noreferrer"
                 className="text-xs text-blue-500 hover:text-blue-400"
               >
-                View on GitHub
+                View CI
               </a>
             )}
           </div>
@@ -302,7 +433,7 @@ export function CIStatusPanel({
       {status?.checks && status.checks.length > 0 && (
         <div className="space-y-1 mb-3">
           {status.checks.map((check) => (
-            <CheckItem key={check.id} check={check} />
+            <CheckItem key={check.id} check={check} onRerun={onRerun} />
           ))}
         </div>
       )}
@@ -323,10 +454,10 @@ export function CIStatusPanel({
           ))}
 
           {/* Auto-fix button */}
-          {onAutoFix && (
+          {onAutoFix && (canAutoFix || fixAttempt?.status === 'running') && (
             <button
               onClick={handleAutoFix}
-              disabled={isFixing}
+              disabled={isFixing || !canAutoFix}
               className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 hover:bg-orange-500 disabled:bg-orange-600/50 text-white rounded-md text-sm font-medium transition-colors"
             >
               {isFixing ? (
@@ -343,6 +474,13 @@ export function CIStatusPanel({
             </button>
           )}
 
+          {/* Fix attempts used up */}
+          {onAutoFix && !canAutoFix && fixAttempt?.status !== 'running' && (
+            <p className="mt-3 text-xs text-muted-foreground">
+              No auto-fix attempts left{maxFixAttempts ? ` (${maxFixAttempts} used)` : ''}.
+            </p>
+          )}
+
           {/* Fix error */}
           {fixError && (
             <p className="mt-2 text-xs text-red-400">{fixError}</p>
@@ -350,6 +488,11 @@ export function CIStatusPanel({
         </div>
       )}
 
+      {/* Auto-fix attempt */}
+      {fixAttempt && (
+        <FixAttemptStatus attempt={fixAttempt} activities={fixActivities} maxAttempts={maxFixAttempts} />
+      )}
+
       {/* Success message */}
       {status?.overallStatus === 'success' && (
         <div className="mt-3 p-3 bg-green-500/10 border border-green-500/30 rounded-md">
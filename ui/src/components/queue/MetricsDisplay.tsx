@@ -1,6 +1,7 @@
 'use client';
 
 import { ExecutionMetrics } from '@/lib/types';
+import { getBudgetScopeLabel } from '@/lib/budget';
 
 interface MetricsDisplayProps {
   metrics: ExecutionMetrics | null;
@@ -98,6 +99,21 @@ export function MetricsDisplay({ metrics, isProcessing }: MetricsDisplayProps) {
           </svg>
           <span>Loop {metrics.iteration}/{metrics.maxIterations}</span>
         </div>
+
+        {/* Budget left under the tightest limit; red when it may not cover another iteration */}
+        {metrics.budget && (
+          <div
+            className={`flex items-center gap-2 ${
+              metrics.budget.remainingUsd < metrics.totalCostUsd / Math.max(metrics.iteration, 1)
+                ? 'text-red-400'
+                : 'text-[var(--muted)]'
+            }`}
+            title={`${getBudgetScopeLabel(metrics.budget.scope)} budget remaining`}
+            data-testid="metrics-budget"
+          >
+            <span>Budget left: {formatCost(metrics.budget.remainingUsd)}</span>
+          </div>
+        )}
       </div>
 
       {isProcessing && (
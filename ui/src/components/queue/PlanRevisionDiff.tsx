@@ -0,0 +1,61 @@
+'use client';
+
+import { useMemo } from 'react';
+import { diffLines, getDiffStats, type DiffLine, type DiffRowType } from '@/lib/line-diff';
+
+interface PlanRevisionDiffProps {
+  /** Content of the older revision, shown on the left */
+  before: string;
+  /** Content of the newer revision, shown on the right */
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const SIDE_CLASSES: Record<DiffRowType, { left: string; right: string }> = {
+  unchanged: { left: '', right: '' },
+  added: { left: 'bg-[var(--border)]/30', right: 'bg-green-500/15' },
+  removed: { left: 'bg-red-500/15', right: 'bg-[var(--border)]/30' },
+  changed: { left: 'bg-red-500/15', right: 'bg-green-500/15' },
+};
+
+function DiffCell({ line, className }: { line: DiffLine | null; className: string }) {
+  return (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-10 flex-shrink-0 pr-2 text-right text-[var(--muted)] select-none">{line?.line ?? ''}</span>
+      <span className="flex-1 whitespace-pre-wrap break-words">{line?.text ?? ''}</span>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side line diff of two plan revisions.
+ */
+export function PlanRevisionDiff({ before, after, beforeLabel, afterLabel }: PlanRevisionDiffProps) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const stats = useMemo(() => getDiffStats(rows), [rows]);
+
+  return (
+    <div className="border border-[var(--border)] rounded-lg overflow-hidden text-xs font-mono" data-testid="plan-revision-diff">
+      <div className="grid grid-cols-2 bg-[var(--background)] border-b border-[var(--border)] font-sans">
+        <div className="px-3 py-2 font-medium text-red-400">{beforeLabel}</div>
+        <div className="px-3 py-2 font-medium text-green-400 flex justify-between gap-2">
+          <span>{afterLabel}</span>
+          <span className="text-[var(--muted)] font-normal">
+            +{stats.added} −{stats.removed} ~{stats.changed}
+          </span>
+        </div>
+      </div>
+      {stats.added + stats.removed + stats.changed === 0 ? (
+        <p className="px-3 py-4 text-center text-[var(--muted)] font-sans">No differences</p>
+      ) : (
+        rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2 divide-x divide-[var(--border)]" data-diff={row.type}>
+            <DiffCell line={row.left} className={SIDE_CLASSES[row.type].left} />
+            <DiffCell line={row.right} className={SIDE_CLASSES[row.type].right} />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useMemo } from 'react';
+import { buildPlanGraph } from '@/lib/plan-graph';
+import type { PlanStep } from '@/lib/types';
+
+interface PlanStepGraphProps {
+  steps: PlanStep[];
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 56;
+const ROW_GAP = 16;
+const PADDING = 8;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Dependency graph of a plan's top-level steps. Steps a step depends on
+ * sit in columns to its left; the first unfinished step is highlighted.
+ */
+export function PlanStepGraph({ steps }: PlanStepGraphProps) {
+  const graph = useMemo(() => buildPlanGraph(steps), [steps]);
+
+  if (graph.nodes.length === 0) {
+    return <p className="text-sm text-[var(--muted)]">This plan has no steps to graph.</p>;
+  }
+
+  const rows = Math.max(...graph.nodes.map((node) => node.row)) + 1;
+  const width = graph.levels * NODE_WIDTH + (graph.levels - 1) * COLUMN_GAP + PADDING * 2;
+  const height = rows * NODE_HEIGHT + (rows - 1) * ROW_GAP + PADDING * 2;
+  const position = (node: { level: number; row: number }) => ({
+    x: PADDING + node.level * (NODE_WIDTH + COLUMN_GAP),
+    y: PADDING + node.row * (NODE_HEIGHT + ROW_GAP),
+  });
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const currentId = graph.nodes.find((node) => !node.completed)?.id;
+
+  return (
+    <div className="overflow-x-auto" data-testid="plan-step-graph">
+      <svg width={width} height={height} role="img" aria-label="Plan step dependency graph">
+        <defs>
+          <marker id="plan-graph-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="8" markerHeight="8" orient="auto">
+            <path d="M0,0 L8,4 L0,8 z" fill="var(--muted)" />
+          </marker>
+        </defs>
+
+        {graph.edges.map(({ from, to }) => {
+          const start = position(nodesById.get(from)!);
+          const end = position(nodesById.get(to)!);
+          const x1 = start.x + NODE_WIDTH;
+          const y1 = start.y + NODE_HEIGHT / 2;
+          const x2 = end.x;
+          const y2 = end.y + NODE_HEIGHT / 2;
+          const bend = (x2 - x1) / 2;
+          return (
+            <path
+              key={`${from}-${to}`}
+              d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+              fill="none"
+              stroke="var(--muted)"
+              strokeWidth={1.5}
+              markerEnd="url(#plan-graph-arrow)"
+              data-edge={`${from}->${to}`}
+            />
+          );
+        })}
+
+        {graph.nodes.map((node) => {
+          const { x, y } = position(node);
+          const stroke = node.completed ? '#22c55e' : node.id === currentId ? '#3b82f6' : 'var(--border)';
+          const details = [
+            node.subtasks.total > 0 ? `${node.subtasks.completed}/${node.subtasks.total} sub-tasks` : null,
+            node.estimate?.text ?? null,
+          ].filter(Boolean).join(' · ');
+          return (
+            <g key={node.id} transform={`translate(${x},${y})`} data-step={node.number}>
+              <title>{`${node.number}. ${node.title}`}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} fill="var(--background)" stroke={stroke} strokeWidth={2} />
+              <text x={10} y={22} fontSize={12} fill="var(--foreground)">
+                {node.completed ? '✓ ' : ''}
+                {truncate(`${node.number}. ${node.title}`, 28)}
+              </text>
+              {details && (
+                <text x={10} y={42} fontSize={11} fill="var(--muted)">
+                  {details}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePlanRevisions } from '@/hooks/usePlanRevisions';
+import { parsePlanMarkdown } from '@/lib/plan-parser';
+import type { PlanProgress, PlanReview, PlanReviewStatus, PlanRevision, PlanRevisionSource } from '@/lib/types';
+import { PlanRevisionDiff } from './PlanRevisionDiff';
+import { PlanStepGraph } from './PlanStepGraph';
 
 interface PlanViewerModalProps {
   isOpen: boolean;
@@ -8,11 +13,44 @@ interface PlanViewerModalProps {
   issueId: string;
   issueTitle?: string;
   onExecuteBuild?: () => void;
+  /** Live progress of a build following the approved plan */
+  planProgress?: PlanProgress;
+}
+
+type ReviewAction = 'approve' | 'reject' | 'request_changes';
+
+type PlanView = 'plan' | 'graph' | 'history';
+
+const VIEW_LABELS: Record<PlanView, string> = {
+  plan: 'Plan',
+  graph: 'Graph',
+  history: 'History',
+};
+
+const REVIEW_LABELS: Record<PlanReviewStatus, { label: string; className: string }> = {
+  awaiting_approval: { label: 'Awaiting approval', className: 'bg-purple-500/20 text-purple-400' },
+  approved: { label: 'Approved', className: 'bg-green-500/20 text-green-400' },
+  rejected: { label: 'Rejected', className: 'bg-red-500/20 text-red-400' },
+  changes_requested: { label: 'Changes requested', className: 'bg-yellow-500/20 text-yellow-400' },
+};
+
+const SOURCE_LABELS: Record<PlanRevisionSource, string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  imported: 'Imported',
+};
+
+function describeRevision(revision: PlanRevision): string {
+  return `Revision ${revision.revision} · ${SOURCE_LABELS[revision.source]} by ${revision.author}`;
 }
 
 /**
  * Modal to display the IMPLEMENTATION_PLAN.md content for a plan mode issue.
- * Provides options to view the plan and execute build mode.
+ * A plan awaiting approval can be approved, rejected or sent back with
+ * feedback; an approved plan can be built, and shows the build's progress
+ * through its steps. The graph view shows the steps' dependencies; the
+ * history view lists the plan's revisions and diffs any two of them side
+ * by side.
  */
 export function PlanViewerModal({
   isOpen,
@@ -20,10 +58,20 @@ export function PlanViewerModal({
   issueId,
   issueTitle,
   onExecuteBuild,
+  planProgress,
 }: PlanViewerModalProps) {
   const [planContent, setPlanContent] = useState<string | null>(null);
+  const [review, setReview] = useState<PlanReview | null>(null);
+  const [currentRevision, setCurrentRevision] = useState<number | null>(null);
+  const [view, setView] = useState<PlanView>('plan');
+  // Revision numbers being compared; null picks the two latest
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [compareRevision, setCompareRevision] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState('');
   const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
 
   // Fetch plan content when modal opens
   useEffect(() => {
@@ -32,6 +80,11 @@ export function PlanViewerModal({
     const fetchPlan = async () => {
       setLoading(true);
       setError(null);
+      setReviewError(null);
+      setFeedback('');
+      setView('plan');
+      setBaseRevision(null);
+      setCompareRevision(null);
       try {
         const response = await fetch(`/api/plan/${encodeURIComponent(issueId)}`);
         const data = await response.json();
@@ -42,6 +95,8 @@ export function PlanViewerModal({
         }
 
         setPlanContent(data.content);
+        setCurrentRevision(data.revision?.revision ?? null);
+        setReview(data.review ?? null);
       } catch (err) {
         setError(`Failed to fetch plan: ${err}`);
       } finally {
@@ -52,6 +107,49 @@ export function PlanViewerModal({
     fetchPlan();
   }, [isOpen, issueId]);
 
+  const {
+    revisions,
+    isLoading: revisionsLoading,
+    error: revisionsError,
+  } = usePlanRevisions(issueId, { enabled: isOpen && view === 'history', refreshKey: currentRevision ?? undefined });
+
+  /**
+   * Submit a review decision. Resolves to whether it was accepted.
+   */
+  const submitReview = useCallback(
+    async (action: ReviewAction): Promise<boolean> => {
+      setSubmitting(true);
+      setReviewError(null);
+      try {
+        const response = await fetch(`/api/plan/${encodeURIComponent(issueId)}/review`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, feedback: feedback.trim() || undefined }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setReviewError(data.error || 'Failed to review plan');
+          return false;
+        }
+        setReview(data.review);
+        setFeedback('');
+        return true;
+      } catch (err) {
+        setReviewError(`Failed to review plan: ${err}`);
+        return false;
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [issueId, feedback]
+  );
+
+  const handleApprove = useCallback(async () => {
+    if (!(await submitReview('approve')) || !onExecuteBuild) return;
+    onClose();
+    onExecuteBuild();
+  }, [submitReview, onExecuteBuild, onClose]);
+
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
@@ -68,8 +166,27 @@ export function PlanViewerModal({
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [handleKeyDown]);
 
+  // Once approved, show the approved plan with the build's progress checked off
+  const displayedContent = review?.approvedContent ?? planContent;
+  const steps = useMemo(
+    () => (displayedContent ? parsePlanMarkdown(displayedContent, issueId).steps : []),
+    [displayedContent, issueId]
+  );
+
   if (!isOpen) return null;
 
+  const awaitingApproval = review?.status === 'awaiting_approval';
+  const progress = planProgress ?? review?.progress;
+  // Plans without a review (generated before reviews existed) can be built directly
+  const canBuild = !!onExecuteBuild && !!planContent && (!review || review.status === 'approved');
+
+  const latest = revisions[revisions.length - 1];
+  const compared = revisions.find((r) => r.revision === compareRevision) ?? latest;
+  const base =
+    revisions.find((r) => r.revision === baseRevision) ??
+    revisions.filter((r) => compared && r.revision < compared.revision).pop() ??
+    compared;
+
   return (
     <>
       {/* Backdrop */}
@@ -88,6 +205,14 @@ export function PlanViewerModal({
               <h2 className="text-lg font-semibold flex items-center gap-2">
                 <span className="text-blue-400">📋</span>
                 Implementation Plan
+                {review && (
+                  <span
+                    className={`px-2 py-0.5 text-xs font-medium rounded-full ${REVIEW_LABELS[review.status].className}`}
+                    data-testid="plan-review-status"
+                  >
+                    {REVIEW_LABELS[review.status].label}
+                  </span>
+                )}
               </h2>
               {issueTitle && (
                 <p className="text-sm text-[var(--muted)] mt-0.5 truncate max-w-md">
@@ -95,15 +220,36 @@ export function PlanViewerModal({
                 </p>
               )}
             </div>
-            <button
-              onClick={onClose}
-              className="p-2 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--border)] rounded-lg transition-colors"
-              aria-label="Close"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
+            <div className="flex items-center gap-2">
+              {planContent && (
+                <div className="flex rounded-lg border border-[var(--border)] overflow-hidden text-sm" role="group" aria-label="Plan view">
+                  {(Object.keys(VIEW_LABELS) as PlanView[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-3 py-1.5 transition-colors ${
+                        view === option ? 'bg-[var(--border)]' : 'hover:bg-[var(--border)]/50'
+                      }`}
+                      aria-pressed={view === option}
+                    >
+                      {VIEW_LABELS[option]}
+                      {option === 'history' && currentRevision !== null && (
+                        <span className="ml-1.5 text-xs text-[var(--muted)]">rev {currentRevision}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--border)] rounded-lg transition-colors"
+                aria-label="Close"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
           </div>
 
           {/* Content */}
@@ -129,15 +275,121 @@ export function PlanViewerModal({
               </div>
             )}
 
-            {planContent && !loading && (
+            {review?.feedback && !loading && (
+              <div className="mb-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 text-sm">
+                <span className="font-medium text-yellow-400">Reviewer feedback</span>
+                {review.reviewedBy && <span className="text-[var(--muted)]"> from {review.reviewedBy}</span>}
+                <p className="mt-1 whitespace-pre-wrap">{review.feedback}</p>
+              </div>
+            )}
+
+            {progress && !loading && view !== 'history' && (
+              <div className="mb-4 space-y-1" data-testid="plan-progress">
+                <div className="flex justify-between text-xs text-[var(--muted)]">
+                  <span>
+                    Build progress: {progress.completedSteps} of {progress.totalSteps} steps
+                  </span>
+                  <span>{progress.progress}%</span>
+                </div>
+                <div className="h-2 rounded-full bg-[var(--border)] overflow-hidden">
+                  <div className="h-full bg-green-500 transition-all" style={{ width: `${progress.progress}%` }} />
+                </div>
+                {progress.currentStep && (
+                  <p className="text-xs text-[var(--muted)] truncate">Current step: {progress.currentStep}</p>
+                )}
+              </div>
+            )}
+
+            {view === 'history' && !loading && (
+              <div className="space-y-4" data-testid="plan-history">
+                {revisionsLoading && revisions.length === 0 && (
+                  <p className="text-sm text-[var(--muted)]">Loading revisions...</p>
+                )}
+                {revisionsError && <p className="text-sm text-red-400">{revisionsError}</p>}
+
+                {revisions.length > 0 && (
+                  <ul className="divide-y divide-[var(--border)] border border-[var(--border)] rounded-lg text-sm">
+                    {[...revisions].reverse().map((revision) => (
+                      <li key={revision.revision} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <span>
+                          {describeRevision(revision)}
+                          {revision.model && <span className="text-[var(--muted)]"> · {revision.model}</span>}
+                          {review?.approvedRevision === revision.revision && (
+                            <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-green-500/20 text-green-400">approved</span>
+                          )}
+                        </span>
+                        <time className="text-xs text-[var(--muted)] whitespace-nowrap" dateTime={revision.createdAt}>
+                          {new Date(revision.createdAt).toLocaleString()}
+                        </time>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {base && compared && revisions.length > 1 && (
+                  <>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-[var(--muted)]">Compare</span>
+                      <select
+                        value={base.revision}
+                        onChange={(e) => setBaseRevision(Number(e.target.value))}
+                        className="px-2 py-1 bg-[var(--background)] border border-[var(--border)] rounded"
+                        aria-label="Base revision"
+                      >
+                        {revisions.map((r) => (
+                          <option key={r.revision} value={r.revision}>Revision {r.revision}</option>
+                        ))}
+                      </select>
+                      <span className="text-[var(--muted)]">with</span>
+                      <select
+                        value={compared.revision}
+                        onChange={(e) => setCompareRevision(Number(e.target.value))}
+                        className="px-2 py-1 bg-[var(--background)] border border-[var(--border)] rounded"
+                        aria-label="Compared revision"
+                      >
+                        {revisions.map((r) => (
+                          <option key={r.revision} value={r.revision}>Revision {r.revision}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <PlanRevisionDiff
+                      before={base.content}
+                      after={compared.content}
+                      beforeLabel={describeRevision(base)}
+                      afterLabel={describeRevision(compared)}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+            {view === 'graph' && displayedContent && !loading && <PlanStepGraph steps={steps} />}
+
+            {displayedContent && !loading && view === 'plan' && (
               <div className="prose prose-invert max-w-none">
                 <pre className="bg-[var(--background)] border border-[var(--border)] rounded-lg p-4 overflow-x-auto text-sm whitespace-pre-wrap font-mono">
-                  {planContent}
+                  {displayedContent}
                 </pre>
               </div>
             )}
           </div>
 
+          {/* Review feedback */}
+          {awaitingApproval && planContent && (
+            <div className="flex-shrink-0 px-6 py-3 border-t border-[var(--border)] space-y-2">
+              <textarea
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                placeholder="Feedback on the plan (required to request changes)"
+                rows={2}
+                disabled={submitting}
+                className="w-full px-3 py-2 text-sm bg-[var(--background)] border border-[var(--border)] rounded-lg resize-none focus:outline-none focus:border-[var(--primary)]"
+                aria-label="Review feedback"
+              />
+              {reviewError && <p className="text-xs text-red-400">{reviewError}</p>}
+            </div>
+          )}
+
           {/* Footer */}
           <div className="flex-shrink-0 flex items-center justify-between px-6 py-4 border-t border-[var(--border)] bg-[var(--background)]">
             <span className="text-xs text-[var(--muted)]">
@@ -150,11 +402,38 @@ export function PlanViewerModal({
               >
                 Close
               </button>
-              {onExecuteBuild && planContent && (
+              {awaitingApproval && planContent && (
+                <>
+                  <button
+                    onClick={() => submitReview('reject')}
+                    disabled={submitting}
+                    className="px-4 py-2 text-sm bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => submitReview('request_changes')}
+                    disabled={submitting || !feedback.trim()}
+                    title={feedback.trim() ? undefined : 'Enter feedback first'}
+                    className="px-4 py-2 text-sm bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Request Changes
+                  </button>
+                  <button
+                    onClick={handleApprove}
+                    disabled={submitting}
+                    className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <span>✓</span>
+                    {onExecuteBuild ? 'Approve & Build' : 'Approve'}
+                  </button>
+                </>
+              )}
+              {canBuild && (
                 <button
                   onClick={() => {
                     onClose();
-                    onExecuteBuild();
+                    onExecuteBuild?.();
                   }}
                   className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex items-center gap-2"
                 >
@@ -0,0 +1,62 @@
+'use client';
+
+import type { Activity, ExecutionMetrics, Issue } from '@/lib/types';
+import { ActivityFeed } from './ActivityFeed';
+import { MetricsDisplay } from './MetricsDisplay';
+import { ProviderBadge } from '../common/ProviderBadge';
+
+interface ProcessingLaneProps {
+  /** Lane number, starting at 1 */
+  lane: number;
+  /** Issue running in the lane; undefined while the lane is idle */
+  issueId?: string;
+  issue?: Issue;
+  activities: Activity[];
+  metrics: ExecutionMetrics | null;
+}
+
+/**
+ * One concurrently processed issue: its own activity feed and metrics.
+ */
+export function ProcessingLane({ lane, issueId, issue, activities, metrics }: ProcessingLaneProps) {
+  const isActive = !!issueId;
+
+  return (
+    <div
+      data-testid={`processing-lane-${lane}`}
+      className={`flex flex-col min-h-0 min-w-0 border rounded-lg bg-[var(--card)] ${
+        isActive ? 'border-blue-500/50' : 'border-[var(--border)] opacity-60'
+      }`}
+    >
+      {/* Lane header */}
+      <div className="flex-shrink-0 px-3 py-2 border-b border-[var(--border)] flex items-center gap-2">
+        <span className="text-xs font-mono text-[var(--muted)]">#{lane}</span>
+        {isActive ? (
+          <>
+            <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+            {issue && <ProviderBadge provider={issue.provider} size="sm" />}
+            <span className="text-sm font-medium truncate" title={issue?.title ?? issueId}>
+              {issue?.title ?? issueId}
+            </span>
+          </>
+        ) : (
+          <span className="text-sm text-[var(--muted)]">Idle</span>
+        )}
+      </div>
+
+      {/* Activity feed */}
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {isActive && (
+          <ActivityFeed activities={activities} metrics={metrics} isProcessing={isActive} />
+        )}
+      </div>
+
+      {/* Metrics */}
+      <div className="flex-shrink-0 px-3 py-2 border-t border-[var(--border)]">
+        <MetricsDisplay metrics={metrics} isProcessing={isActive} />
+      </div>
+    </div>
+  );
+}
+
+export default ProcessingLane;
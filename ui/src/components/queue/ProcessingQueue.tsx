@@ -1,10 +1,20 @@
 'use client';
 
 import { useEffect, useCallback, useMemo, useState } from 'react';
-import type { Issue, ProcessingStatus, ProcessingOptions, Activity } from '@/lib/types';
+import type {
+  Issue,
+  ExtendedIssue,
+  ProcessingStatus,
+  ProcessingOptions,
+  Activity,
+  PullRequestState,
+} from '@/lib/types';
+import { getRunningIssueIds } from '@/lib/types';
 import { QueueItem } from './QueueItem';
 import { QueueProgress } from './QueueProgress';
+import { ModelBadge } from '../common/ModelBadge';
 import { useProcessingStream } from '@/hooks';
+import { extractPrUrl } from '@/lib/events';
 
 interface ProcessingQueueProps {
   /** Whether the queue panel is open */
@@ -21,11 +31,11 @@ interface ProcessingQueueProps {
   logs: string[];
   /** Current processing options (mode, model, etc.) */
   processingOptions?: ProcessingOptions;
-  /** Whether the queue is paused (for future use) */
+  /** Whether the server-side queue is paused */
   isPaused?: boolean;
-  /** Callback to toggle pause state (for future use) */
+  /** Callback to toggle pause state */
   onTogglePause?: () => void;
-  /** Callback to cancel a pending item (for future use) */
+  /** Callback to cancel a pending item */
   onCancelItem?: (id: string) => void;
   /** Callback to retry a failed item */
   onRetryItem?: (id: string) => void;
@@ -43,34 +53,11 @@ interface QueueEntry {
   startedAt?: string;
   completedAt?: string;
   prUrl?: string;
+  prState?: PullRequestState;
   error?: string;
   pushFailed?: boolean;
 }
 
-/**
- * Extract PR URL from push activities for a given issue.
- * Looks for activities with type 'push' and status 'success' that contain PR URLs.
- */
-function extractPrUrl(activities: Activity[]): string | undefined {
-  // Find push activities that contain PR URLs (most recent first)
-  const pushActivities = activities
-    .filter(a => a.type === 'push' && a.status === 'success')
-    .reverse();
-
-  for (const activity of pushActivities) {
-    if (activity.details) {
-      // Match various PR URL formats:
-      // "PR created: https://github.com/org/repo/pull/123"
-      // "Branch pushed, PR: https://github.com/org/repo/pull/123"
-      const match = activity.details.match(/https:\/\/github\.com\/[^\s]+\/pull\/\d+/);
-      if (match) {
-        return match[0];
-      }
-    }
-  }
-  return undefined;
-}
-
 /**
  * Check if there was a failed push attempt for a given issue.
  */
@@ -128,12 +115,23 @@ export function ProcessingQueue({
   // Track when processing started for ETA calculation
   const [startedAt, setStartedAt] = useState<string | undefined>();
 
+  // Queued duplicates stream through the canonical issue that processes them.
+  // Keyed by string so polling (new jobs array) doesn't reconnect the stream.
+  const streamKey = useMemo(() => {
+    const ids = new Set(queuedIds);
+    for (const job of processing.jobs ?? []) {
+      if (job.linkedIssueIds?.some(id => ids.has(id))) ids.add(job.issueId);
+    }
+    return Array.from(ids).join(',');
+  }, [queuedIds, processing.jobs]);
+  const streamIds = useMemo(() => (streamKey ? streamKey.split(',') : []), [streamKey]);
+
   // SSE streaming hook - connects to stream when panel is open and processing
   const {
     activities: activitiesMap,
   } = useProcessingStream({
-    issueIds: queuedIds,
-    autoConnect: isOpen && queuedIds.length > 0,
+    issueIds: streamIds,
+    autoConnect: isOpen && streamIds.length > 0,
   });
 
   // Set start time when processing begins
@@ -150,6 +148,7 @@ export function ProcessingQueue({
   // Build queue entries from processing state and issues
   const queueEntries = useMemo((): QueueEntry[] => {
     const entries: QueueEntry[] = [];
+    const runningIds = getRunningIssueIds(processing);
     const issueMap = new Map(issues.map(i => [i.id, i]));
 
     // Get all issue IDs that should be in the queue
@@ -157,25 +156,31 @@ export function ProcessingQueue({
       ...queuedIds,
       ...processing.completed,
       ...processing.failed,
-      ...(processing.currentIssueId ? [processing.currentIssueId] : []),
+      ...runningIds,
     ]);
 
     allIds.forEach(id => {
       const issue = issueMap.get(id);
       if (!issue) return;
 
+      // Duplicates linked to an incident follow the job of its canonical issue
+      const runId = processing.jobs?.find(j => j.linkedIssueIds?.includes(id))?.issueId ?? id;
+
       let status: QueueItemStatus = 'pending';
       if (processing.completed.includes(id)) {
         status = 'completed';
       } else if (processing.failed.includes(id)) {
         status = 'failed';
-      } else if (processing.currentIssueId === id) {
+      } else if (runningIds.includes(runId)) {
         status = 'processing';
       }
 
       // Get activities for this issue to extract PR URL and error info
-      const issueActivities = activitiesMap.get(id) || [];
-      const prUrl = extractPrUrl(issueActivities);
+      const issueActivities = activitiesMap.get(runId) || [];
+      const tracked = issue as ExtendedIssue;
+      const prUrl = extractPrUrl(issueActivities) ?? tracked.prUrl;
+      // The server only knows the state of the PRs it tracks
+      const prState = prUrl === tracked.prUrl ? tracked.prState : undefined;
       const pushFailed = hasPushFailed(issueActivities);
       const errorMessage = status === 'failed'
         ? extractErrorMessage(issueActivities) || 'Processing failed. Check logs for details.'
@@ -186,6 +191,7 @@ export function ProcessingQueue({
         status,
         startedAt: status === 'processing' ? startedAt : undefined,
         prUrl,
+        prState,
         pushFailed,
         error: errorMessage,
       });
@@ -282,24 +288,15 @@ export function ProcessingQueue({
                   {processingOptions.mode === 'plan' ? 'Plan' : 'Build'}
                 </span>
               )}
-              {/* Model Badge (Sonnet/Opus) */}
-              {processingOptions && (
-                <span
-                  className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full ${
-                    processingOptions.model === 'opus'
-                      ? 'bg-purple-500/20 text-purple-400'
-                      : 'bg-yellow-500/20 text-yellow-400'
-                  }`}
-                  title={processingOptions.model === 'opus' ? 'Opus: Most capable' : 'Sonnet: Fast & efficient'}
-                >
-                  {processingOptions.model === 'opus' ? '🧠' : '⚡'}
-                  {processingOptions.model === 'opus' ? 'Opus' : 'Sonnet'}
-                </span>
-              )}
+              {/* Model Badge */}
+              {processingOptions && <ModelBadge options={processingOptions} />}
             </div>
             <div className="flex items-center gap-2">
-              {/* Pause/Resume button (for future API support) */}
-              {onTogglePause && processing.isProcessing && (
+              {isPaused && (
+                <span className="text-xs text-yellow-400">Paused</span>
+              )}
+              {/* Pause/Resume button */}
+              {onTogglePause && (processing.isProcessing || isPaused) && (
                 <button
                   onClick={onTogglePause}
                   className="p-2 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--border)] rounded-lg transition-colors"
@@ -410,6 +407,7 @@ export function ProcessingQueue({
                         issue={entry.issue}
                         status={entry.status}
                         prUrl={entry.prUrl}
+                        prState={entry.prState}
                         pushFailed={entry.pushFailed}
                         onRetryPush={onRetryPush ? () => onRetryPush(entry.issue.id) : undefined}
                       />
@@ -1,13 +1,17 @@
 'use client';
 
 import { useCallback, useMemo, useState, useEffect } from 'react';
-import type { Issue, ProcessingStatus, Activity, ExecutionMetrics, ProcessingOptions } from '@/lib/types';
+import type { Issue, ProcessingStatus, Activity, ExecutionMetrics, PlanProgress, ProcessingOptions } from '@/lib/types';
+import { DEFAULT_CI_CONFIG, getRunningIssueIds } from '@/lib/types';
 import { QueueProgress } from './QueueProgress';
 import { ActivityFeed } from './ActivityFeed';
+import { ProcessingLane } from './ProcessingLane';
 import { MetricsDisplay } from './MetricsDisplay';
 import { PlanViewerModal } from './PlanViewerModal';
 import { CIStatusPanel } from './CIStatusPanel';
+import { DiffViewerModal } from '../diff/DiffViewerModal';
 import { ProviderBadge } from '../common/ProviderBadge';
+import { ModelBadge } from '../common/ModelBadge';
 import { useProcessingStream, useCIStatus } from '@/hooks';
 
 interface ProcessingViewProps {
@@ -25,6 +29,28 @@ interface ProcessingViewProps {
   onExecuteBuild?: (issueIds: string[]) => void;
 }
 
+/**
+ * Place running issues in lanes. Issues keep the lane they started in;
+ * newly started issues take the first free lane.
+ */
+export function assignLanes(
+  previous: (string | null)[],
+  runningIds: string[],
+  laneCount: number
+): (string | null)[] {
+  const lanes = Array.from({ length: laneCount }, (_, i) => {
+    const id = previous[i] ?? null;
+    return id && runningIds.includes(id) ? id : null;
+  });
+  for (const id of runningIds) {
+    if (lanes.includes(id)) continue;
+    const free = lanes.indexOf(null);
+    if (free === -1) lanes.push(id);
+    else lanes[free] = id;
+  }
+  return lanes;
+}
+
 /**
  * Full-screen dedicated view for processing issues.
  * Replaces the cramped sidebar with a spacious layout.
@@ -47,6 +73,7 @@ export function ProcessingView({
   const {
     activities: activitiesMap,
     metrics: metricsMap,
+    planProgress: planProgressMap,
     connectionState,
     error: streamError,
   } = useProcessingStream({
@@ -54,10 +81,24 @@ export function ProcessingView({
     autoConnect: isOpen && queuedIds.length > 0,
   });
 
+  // Issues running right now; with concurrency above 1 each gets a lane
+  const runningIds = getRunningIssueIds(processing);
+  const runningKey = runningIds.join(',');
+  const laneCount = Math.max(processingOptions?.concurrency ?? 1, runningIds.length);
+  const isConcurrent = laneCount > 1;
+  const [lanes, setLanes] = useState<(string | null)[]>([]);
+
+  useEffect(() => {
+    setLanes((prev) => assignLanes(prev, runningKey ? runningKey.split(',') : [], laneCount));
+  }, [runningKey, laneCount]);
+
   // State for plan viewer modal
   const [planViewerOpen, setPlanViewerOpen] = useState(false);
   const [selectedPlanIssueId, setSelectedPlanIssueId] = useState<string | null>(null);
 
+  // Issue whose run changes are being viewed
+  const [diffIssueId, setDiffIssueId] = useState<string | null>(null);
+
   // CI status tracking
   const [ciInfo, setCiInfo] = useState<{
     sha: string;
@@ -71,12 +112,17 @@ export function ProcessingView({
   const {
     status: ciStatus,
     isPolling: ciIsPolling,
+    isLive: ciIsLive,
     isLoading: ciIsLoading,
     error: ciError,
     refresh: ciRefresh,
     triggerAutoFix: ciTriggerAutoFix,
+    rerunCheck: ciRerunCheck,
     startPolling: ciStartPolling,
     stopPolling: _ciStopPolling,
+    fixAttempt: ciFixAttempt,
+    fixActivities: ciFixActivities,
+    canAutoFix: ciCanAutoFix,
   } = useCIStatus({
     owner: ciInfo?.owner ?? '',
     repo: ciInfo?.repo ?? '',
@@ -85,7 +131,7 @@ export function ProcessingView({
       enabled: ciEnabled && !!ciInfo,
       autoFix: processingOptions?.autoFixCi ?? false,
       pollInterval: 30000, // 30 seconds
-      maxRetries: 3,
+      maxRetries: DEFAULT_CI_CONFIG.maxRetries,
     },
     onSuccess: (response) => {
       console.log('CI checks passed:', response);
@@ -101,11 +147,15 @@ export function ProcessingView({
   const isPlanMode = processingOptions?.mode === 'plan';
   const planCompleted = isPlanMode && processing.completed.length > 0 && !processing.isProcessing;
 
-  // Get the first completed issue for plan viewing
-  const firstCompletedIssue = processing.completed.length > 0
-    ? issues.find(i => i.id === processing.completed[0])
+  const selectedPlanIssue = selectedPlanIssueId
+    ? issues.find(i => i.id === selectedPlanIssueId)
     : null;
 
+  const openPlanViewer = useCallback((issueId: string) => {
+    setSelectedPlanIssueId(issueId);
+    setPlanViewerOpen(true);
+  }, []);
+
   // Hooks must be called before any early returns
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -156,8 +206,8 @@ export function ProcessingView({
 
   // Get the current metrics for the processing issue (or aggregate)
   const currentMetrics = useMemo((): ExecutionMetrics | null => {
-    // If there's a current issue being processed, show its metrics
-    if (processing.currentIssueId) {
+    // If there's a single issue being processed, show its metrics
+    if (!isConcurrent && processing.currentIssueId) {
       return metricsMap.get(processing.currentIssueId) || null;
     }
     // Otherwise, aggregate metrics from all issues
@@ -183,7 +233,7 @@ export function ProcessingView({
       totalCostUsd: totalCost,
       totalDurationMs: totalDuration,
     };
-  }, [metricsMap, processing.currentIssueId]);
+  }, [metricsMap, processing.currentIssueId, isConcurrent]);
 
   // Early return after hooks
   if (!isOpen) return null;
@@ -193,7 +243,7 @@ export function ProcessingView({
     const issue = issues.find(i => i.id === id);
     let status: 'pending' | 'processing' | 'completed' | 'failed' = 'pending';
 
-    if (processing.currentIssueId === id) {
+    if (runningIds.includes(id)) {
       status = 'processing';
     } else if (processing.completed.includes(id)) {
       status = 'completed';
@@ -252,30 +302,15 @@ export function ProcessingView({
               {processingOptions.mode === 'plan' ? 'Plan' : 'Build'}
             </span>
           )}
-          {/* Model Badge (Sonnet/Opus) */}
-          {processingOptions && (
-            <span
-              className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full ${
-                processingOptions.model === 'opus'
-                  ? 'bg-purple-500/20 text-purple-400'
-                  : 'bg-yellow-500/20 text-yellow-400'
-              }`}
-              title={processingOptions.model === 'opus' ? 'Opus: Most capable' : 'Sonnet: Fast & efficient'}
-            >
-              {processingOptions.model === 'opus' ? '🧠' : '⚡'}
-              {processingOptions.model === 'opus' ? 'Opus' : 'Sonnet'}
-            </span>
-          )}
+          {/* Model Badge */}
+          {processingOptions && <ModelBadge options={processingOptions} />}
         </div>
         <div className="flex items-center gap-4">
           {/* Plan Mode Actions */}
           {planCompleted && (
             <>
               <button
-                onClick={() => {
-                  setSelectedPlanIssueId(processing.completed[0] || null);
-                  setPlanViewerOpen(true);
-                }}
+                onClick={() => openPlanViewer(processing.completed[0])}
                 className="px-3 py-1.5 text-sm bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors flex items-center gap-2"
               >
                 <span>📋</span>
@@ -315,7 +350,7 @@ export function ProcessingView({
           total={queuedIds.length}
           completed={processing.completed.length}
           failed={processing.failed.length}
-          processing={processing.currentIssueId ? 1 : 0}
+          processing={runningIds.length}
         />
       </div>
 
@@ -339,6 +374,7 @@ export function ProcessingView({
                 issue={issue}
                 status={status}
                 onRetry={onRetryItem}
+                planProgress={planProgressMap.get(id)}
               />
             ))}
 
@@ -367,6 +403,10 @@ export function ProcessingView({
                     issue={issue}
                     status={status}
                     onRetry={onRetryItem}
+                    onViewPlan={isPlanMode ? openPlanViewer : undefined}
+                    onViewChanges={isPlanMode ? undefined : setDiffIssueId}
+                    heldForReview={!!processingOptions?.reviewBeforePush}
+                    planProgress={planProgressMap.get(id)}
                   />
                 ))}
               </div>
@@ -398,7 +438,9 @@ export function ProcessingView({
             <div>
               <h2 className="font-medium text-[var(--foreground)]">Activity Feed</h2>
               <p className="text-xs text-[var(--muted)]">
-                Real-time actions from Claude
+                {isConcurrent
+                  ? `${runningIds.length} of ${laneCount} lanes active, each in its own worktree`
+                  : 'Real-time actions from Claude'}
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -439,22 +481,49 @@ export function ProcessingView({
                 isLoading={ciIsLoading}
                 error={ciError}
                 isPolling={ciIsPolling}
+                isLive={ciIsLive}
                 owner={ciInfo.owner}
                 repo={ciInfo.repo}
                 onRefresh={ciRefresh}
                 onAutoFix={processingOptions?.autoFixCi ? ciTriggerAutoFix : undefined}
+                onRerun={ciRerunCheck}
+                fixAttempt={ciFixAttempt}
+                fixActivities={ciFixActivities}
+                canAutoFix={ciCanAutoFix}
+                maxFixAttempts={DEFAULT_CI_CONFIG.maxRetries}
                 showHeader={true}
               />
             </div>
           )}
 
-          <div className="flex-1 overflow-y-auto">
-            <ActivityFeed
-              activities={allActivities}
-              metrics={currentMetrics}
-              isProcessing={processing.isProcessing}
-            />
-          </div>
+          {isConcurrent ? (
+            <div
+              data-testid="processing-lanes"
+              className={`flex-1 min-h-0 grid gap-3 p-3 ${laneCount > 2 ? 'grid-cols-2 grid-rows-2' : 'grid-cols-2'}`}
+            >
+              {Array.from({ length: laneCount }, (_, index) => {
+                const issueId = lanes[index] ?? undefined;
+                return (
+                  <ProcessingLane
+                    key={index}
+                    lane={index + 1}
+                    issueId={issueId}
+                    issue={issueId ? issues.find(i => i.id === issueId) : undefined}
+                    activities={issueId ? activitiesMap.get(issueId) ?? [] : []}
+                    metrics={issueId ? metricsMap.get(issueId) ?? null : null}
+                  />
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto">
+              <ActivityFeed
+                activities={allActivities}
+                metrics={currentMetrics}
+                isProcessing={processing.isProcessing}
+              />
+            </div>
+          )}
 
           {/* Connection status indicator */}
           {streamError && (
@@ -506,8 +575,16 @@ export function ProcessingView({
           setSelectedPlanIssueId(null);
         }}
         issueId={selectedPlanIssueId || ''}
-        issueTitle={firstCompletedIssue?.title}
-        onExecuteBuild={onExecuteBuild ? () => onExecuteBuild(processing.completed) : undefined}
+        issueTitle={selectedPlanIssue?.title}
+        onExecuteBuild={onExecuteBuild && selectedPlanIssueId ? () => onExecuteBuild([selectedPlanIssueId]) : undefined}
+        planProgress={selectedPlanIssueId ? planProgressMap.get(selectedPlanIssueId) : undefined}
+      />
+
+      <DiffViewerModal
+        isOpen={diffIssueId !== null}
+        onClose={() => setDiffIssueId(null)}
+        issueId={diffIssueId}
+        issueTitle={issues.find((i) => i.id === diffIssueId)?.title}
       />
     </div>
   );
@@ -522,12 +599,24 @@ function QueueItemCard({
   status,
   onRetry,
   onRemove,
+  onViewPlan,
+  onViewChanges,
+  heldForReview = false,
+  planProgress,
 }: {
   id: string;
   issue?: Issue;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   onRetry: (id: string) => void;
   onRemove?: (id: string) => void;
+  /** Open the issue's plan, for completed plan-mode issues */
+  onViewPlan?: (id: string) => void;
+  /** Open the changes a completed build run made */
+  onViewChanges?: (id: string) => void;
+  /** Whether the build run's changes wait for review before being pushed */
+  heldForReview?: boolean;
+  /** Progress of a build following the approved plan */
+  planProgress?: PlanProgress;
 }) {
   const statusStyles = {
     pending: 'border-[var(--border)] bg-[var(--background)]',
@@ -576,7 +665,28 @@ function QueueItemCard({
               </span>
             </div>
           )}
+          {planProgress && (
+            <p className="text-xs text-[var(--muted)] mt-1" data-testid="queue-plan-progress">
+              Plan: {planProgress.completedSteps}/{planProgress.totalSteps} steps
+            </p>
+          )}
         </div>
+        {status === 'completed' && onViewPlan && (
+          <button
+            onClick={() => onViewPlan(id)}
+            className="flex-shrink-0 px-2 py-1 text-xs bg-blue-500/20 text-blue-400 rounded hover:bg-blue-500/30 transition-colors"
+          >
+            Review Plan
+          </button>
+        )}
+        {status === 'completed' && onViewChanges && (
+          <button
+            onClick={() => onViewChanges(id)}
+            className="flex-shrink-0 px-2 py-1 text-xs bg-green-500/20 text-green-400 rounded hover:bg-green-500/30 transition-colors"
+          >
+            {heldForReview ? 'Review Changes' : 'View Changes'}
+          </button>
+        )}
         {status === 'failed' && (
           <button
             onClick={() => onRetry(id)}
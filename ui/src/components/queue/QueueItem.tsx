@@ -1,6 +1,7 @@
 'use client';
 
-import type { Issue } from '@/lib/types';
+import type { Issue, PullRequestState } from '@/lib/types';
+import { PullRequestBadge } from '../common/PullRequestBadge';
 
 type QueueItemStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
@@ -10,6 +11,8 @@ interface QueueItemProps {
   startedAt?: string;
   completedAt?: string;
   prUrl?: string;
+  /** Last known state of the PR at prUrl */
+  prState?: PullRequestState;
   error?: string;
   /** Whether the push failed (processing succeeded but push didn't) */
   pushFailed?: boolean;
@@ -98,6 +101,7 @@ export function QueueItem({
   startedAt,
   completedAt,
   prUrl,
+  prState,
   error,
   pushFailed,
   onCancel,
@@ -139,17 +143,20 @@ export function QueueItem({
 
           {/* PR Link */}
           {prUrl && (
-            <a
-              href={prUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="mt-2 inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
-            >
-              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-              </svg>
-              View PR
-            </a>
+            <div className="mt-2 flex items-center gap-2">
+              <a
+                href={prUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                </svg>
+                View PR
+              </a>
+              {prState && <PullRequestBadge url={prUrl} state={prState} />}
+            </div>
           )}
 
           {/* Push failed warning */}
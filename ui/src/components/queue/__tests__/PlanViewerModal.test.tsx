@@ -0,0 +1,146 @@
+/**
+ * Tests for PlanViewerModal plan review actions
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { PlanViewerModal } from '../PlanViewerModal';
+import type { PlanReview, PlanRevision } from '@/lib/types';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const PLAN = '# Plan\n\n## Steps\n- [ ] Fix the bug\n- [ ] Add a test';
+
+function jsonResponse(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 400, json: async () => body };
+}
+
+function review(overrides: Partial<PlanReview> = {}): PlanReview {
+  return { issueId: 'issue-1', status: 'awaiting_approval', updatedAt: '2024-01-01T00:00:00Z', ...overrides };
+}
+
+function revision(number: number, content: string, overrides: Partial<PlanRevision> = {}): PlanRevision {
+  return {
+    issueId: 'issue-1',
+    revision: number,
+    content,
+    source: 'generated',
+    author: 'meta-ralph',
+    createdAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function renderModal(props: Partial<React.ComponentProps<typeof PlanViewerModal>> = {}) {
+  return render(<PlanViewerModal isOpen onClose={jest.fn()} issueId="issue-1" {...props} />);
+}
+
+describe('PlanViewerModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('approves a plan awaiting approval and starts the build', async () => {
+    const onClose = jest.fn();
+    const onExecuteBuild = jest.fn();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ content: PLAN, review: review() }))
+      .mockResolvedValueOnce(jsonResponse({ review: review({ status: 'approved', approvedContent: PLAN }) }));
+
+    renderModal({ onClose, onExecuteBuild });
+    expect(await screen.findByTestId('plan-review-status')).toHaveTextContent('Awaiting approval');
+
+    fireEvent.click(screen.getByText('Approve & Build'));
+
+    await waitFor(() => expect(onExecuteBuild).toHaveBeenCalled());
+    expect(onClose).toHaveBeenCalled();
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/plan/issue-1/review', expect.objectContaining({ method: 'POST' }));
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ action: 'approve' });
+  });
+
+  it('requires feedback to request changes', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ content: PLAN, review: review() }))
+      .mockResolvedValueOnce(jsonResponse({ review: review({ status: 'changes_requested', feedback: 'Cover the edge case' }) }));
+
+    renderModal();
+    const requestChanges = await screen.findByText('Request Changes');
+    expect(requestChanges).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Review feedback'), { target: { value: 'Cover the edge case' } });
+    fireEvent.click(requestChanges);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('plan-review-status')).toHaveTextContent('Changes requested')
+    );
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({
+      action: 'request_changes',
+      feedback: 'Cover the edge case',
+    });
+    expect(screen.queryByText('Approve')).not.toBeInTheDocument();
+  });
+
+  it('shows review errors', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ content: PLAN, review: review() }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'No plan awaiting approval' }, false));
+
+    renderModal();
+    fireEvent.click(await screen.findByText('Reject'));
+
+    expect(await screen.findByText('No plan awaiting approval')).toBeInTheDocument();
+  });
+
+  it('shows build progress against the approved plan', async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({ content: PLAN, review: review({ status: 'approved', approvedContent: PLAN }) })
+    );
+
+    renderModal({
+      onExecuteBuild: jest.fn(),
+      planProgress: { completedSteps: 1, totalSteps: 2, progress: 50, currentStep: 'Add a test' },
+    });
+
+    expect(await screen.findByTestId('plan-progress')).toHaveTextContent('1 of 2 steps');
+    expect(screen.getByText('Current step: Add a test')).toBeInTheDocument();
+    expect(screen.getByText('Execute Build')).toBeInTheDocument();
+    expect(screen.queryByText('Reject')).not.toBeInTheDocument();
+  });
+
+  it('diffs the latest plan revisions in the history view', async () => {
+    const revised = PLAN.replace('- [ ] Add a test', '- [ ] Add a regression test');
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ content: revised, revision: { revision: 2 }, review: review() }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          revisions: [
+            revision(1, PLAN, { model: 'sonnet' }),
+            revision(2, revised, { source: 'edited', author: 'alice' }),
+          ],
+        })
+      );
+
+    renderModal();
+    fireEvent.click(await screen.findByText('History'));
+
+    const diff = await screen.findByTestId('plan-revision-diff');
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/plan/issue-1/revisions');
+    expect(screen.getAllByText(/Revision 2 · Edited by alice/).length).toBeGreaterThan(0);
+    expect(screen.getByLabelText('Base revision')).toHaveValue('1');
+    expect(diff.querySelector('[data-diff="changed"]')).toHaveTextContent('- [ ] Add a regression test');
+  });
+
+  it('graphs the plan steps and their dependencies', async () => {
+    const plan = '# Plan\n\n## Steps\n- [x] Fix the bug\n- [ ] Add a test (depends on step 1, ~1h)';
+    mockFetch.mockResolvedValueOnce(jsonResponse({ content: plan, review: null }));
+
+    renderModal();
+    fireEvent.click(await screen.findByText('Graph'));
+
+    const graph = screen.getByTestId('plan-step-graph');
+    expect(graph.querySelectorAll('[data-step]')).toHaveLength(2);
+    expect(graph.querySelector('[data-step="2"]')).toHaveTextContent('2. Add a test');
+    expect(graph.querySelectorAll('[data-edge]')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Tests for ProcessingView lane assignment
+ */
+
+import { assignLanes } from '../ProcessingView';
+
+describe('assignLanes', () => {
+  it('fills free lanes in order', () => {
+    expect(assignLanes([], ['a', 'b'], 3)).toEqual(['a', 'b', null]);
+  });
+
+  it('keeps running issues in their lane', () => {
+    expect(assignLanes(['a', 'b', 'c'], ['c', 'd'], 3)).toEqual(['d', null, 'c']);
+  });
+
+  it('clears lanes when nothing is running', () => {
+    expect(assignLanes(['a', null], [], 2)).toEqual([null, null]);
+  });
+});
@@ -6,4 +6,7 @@ export { ActivityFeed } from './ActivityFeed';
 export { MetricsDisplay } from './MetricsDisplay';
 export { ProcessingIndicator } from './ProcessingIndicator';
 export { PlanViewerModal } from './PlanViewerModal';
+export { PlanRevisionDiff } from './PlanRevisionDiff';
+export { PlanStepGraph } from './PlanStepGraph';
 export { CIStatusPanel } from './CIStatusPanel';
+export { ProcessingLane } from './ProcessingLane';
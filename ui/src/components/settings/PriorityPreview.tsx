@@ -0,0 +1,131 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ProviderBadge } from '@/components/common/ProviderBadge';
+import { getRuleBasePriority, scoreIssue, type PriorityRule } from '@/lib/priority-rules';
+import type { Issue } from '@/lib/types';
+
+interface PriorityPreviewProps {
+  /** Issues as currently served (with the saved rules applied) */
+  issues: Issue[];
+  /** Rules being edited */
+  rules: PriorityRule[];
+  /** Number of top-ranked issues to show */
+  limit?: number;
+}
+
+interface PreviewRow {
+  issue: Issue;
+  currentPriority: number;
+  previewPriority: number;
+  currentRank: number;
+  previewRank: number;
+}
+
+/**
+ * Rank issues by priority, highest first (matches the default IssueTable sort).
+ */
+function rankByPriority(entries: { id: string; priority: number }[]): Map<string, number> {
+  const sorted = [...entries].sort((a, b) => b.priority - a.priority);
+  return new Map(sorted.map((entry, index) => [entry.id, index + 1]));
+}
+
+/**
+ * Build preview rows: each issue's current priority and rank next to the
+ * priority and rank it would get with the edited rules.
+ */
+export function buildPriorityPreview(issues: Issue[], rules: PriorityRule[]): PreviewRow[] {
+  const scored = issues.map((issue) => {
+    const base = getRuleBasePriority(issue);
+    return {
+      issue,
+      currentPriority: issue.priority,
+      // Manually overridden issues keep their priority
+      previewPriority: base === null ? issue.priority : scoreIssue(issue, rules, base).score,
+    };
+  });
+
+  const currentRanks = rankByPriority(scored.map((s) => ({ id: s.issue.id, priority: s.currentPriority })));
+  const previewRanks = rankByPriority(scored.map((s) => ({ id: s.issue.id, priority: s.previewPriority })));
+
+  return scored
+    .map((s) => ({
+      ...s,
+      currentRank: currentRanks.get(s.issue.id)!,
+      previewRank: previewRanks.get(s.issue.id)!,
+    }))
+    .sort((a, b) => a.previewRank - b.previewRank);
+}
+
+function RankChange({ from, to }: { from: number; to: number }) {
+  if (from === to) {
+    return <span className="text-[var(--muted)]">—</span>;
+  }
+  const up = to < from;
+  return (
+    <span className={up ? 'text-green-400' : 'text-red-400'}>
+      {up ? '▲' : '▼'} {Math.abs(from - to)}
+    </span>
+  );
+}
+
+/**
+ * Live preview of how the issue ranking changes with the edited rules.
+ */
+export function PriorityPreview({ issues, rules, limit = 25 }: PriorityPreviewProps) {
+  const rows = useMemo(() => buildPriorityPreview(issues, rules), [issues, rules]);
+  const changed = rows.filter((row) => row.previewPriority !== row.currentPriority).length;
+
+  if (issues.length === 0) {
+    return (
+      <p className="text-sm text-[var(--muted)]">No issues loaded to preview.</p>
+    );
+  }
+
+  return (
+    <div data-testid="priority-preview">
+      <p className="text-sm text-[var(--muted)] mb-2">
+        {changed} of {issues.length} issue{issues.length === 1 ? '' : 's'} change priority
+      </p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--border)] text-left text-[var(--muted)]">
+            <th className="p-2 w-12">#</th>
+            <th className="p-2 w-16">Move</th>
+            <th className="p-2">Provider</th>
+            <th className="p-2">Priority</th>
+            <th className="p-2">Title</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, limit).map((row) => (
+            <tr key={row.issue.id} className="border-b border-[var(--border)]">
+              <td className="p-2 text-[var(--muted)]">{row.previewRank}</td>
+              <td className="p-2">
+                <RankChange from={row.currentRank} to={row.previewRank} />
+              </td>
+              <td className="p-2">
+                <ProviderBadge provider={row.issue.provider} />
+              </td>
+              <td className="p-2 font-mono">
+                {row.previewPriority !== row.currentPriority ? (
+                  <>
+                    <span className="text-[var(--muted)] line-through mr-1">{row.currentPriority}</span>
+                    <span className="font-bold">{row.previewPriority}</span>
+                  </>
+                ) : (
+                  row.currentPriority
+                )}
+              </td>
+              <td className="p-2 max-w-md truncate" title={row.issue.title}>
+                {row.issue.title}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default PriorityPreview;
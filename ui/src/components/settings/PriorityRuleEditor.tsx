@@ -0,0 +1,309 @@
+'use client';
+
+import { useCallback } from 'react';
+import type {
+  MetadataCondition,
+  MetadataOperator,
+  PriorityRule,
+  PriorityRuleConditions,
+} from '@/lib/priority-rules';
+import type { Severity } from '@/lib/types';
+
+interface PriorityRuleEditorProps {
+  rule: PriorityRule;
+  /** Position in the rule list (rules apply in order) */
+  index: number;
+  /** Total number of rules, to disable moving past the ends */
+  total: number;
+  /** Number of issues the rule currently matches */
+  matchCount?: number;
+  onChange: (id: string, updates: Partial<Omit<PriorityRule, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+}
+
+const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+const OPERATORS: { value: MetadataOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'exists', label: 'exists' },
+  { value: 'gt', label: '>' },
+  { value: 'lt', label: '<' },
+];
+
+const inputClass =
+  'w-full px-2 py-1 text-sm bg-[var(--input)] text-[var(--foreground)] border border-[var(--border)] rounded-md focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-transparent';
+const labelClass = 'block text-xs font-medium text-[var(--muted)] mb-1';
+
+/**
+ * Split a comma-separated input into values, or undefined when empty.
+ */
+function parseList(value: string): string[] | undefined {
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseNumber(value: string): number | undefined {
+  return value === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+}
+
+/**
+ * Editor for a single priority scoring rule: conditions, effect and order.
+ */
+export function PriorityRuleEditor({
+  rule,
+  index,
+  total,
+  matchCount,
+  onChange,
+  onRemove,
+  onMove,
+}: PriorityRuleEditorProps) {
+  const { conditions } = rule;
+
+  const setConditions = useCallback(
+    (updates: Partial<PriorityRuleConditions>) => {
+      onChange(rule.id, { conditions: { ...conditions, ...updates } });
+    },
+    [onChange, rule.id, conditions]
+  );
+
+  const toggleSeverity = useCallback(
+    (severity: Severity) => {
+      const current = conditions.severities ?? [];
+      const next = current.includes(severity)
+        ? current.filter((s) => s !== severity)
+        : [...current, severity];
+      setConditions({ severities: next.length > 0 ? next : undefined });
+    },
+    [conditions.severities, setConditions]
+  );
+
+  const metadata = conditions.metadata ?? [];
+  const updateMetadata = (position: number, updates: Partial<MetadataCondition>) => {
+    setConditions({
+      metadata: metadata.map((condition, i) => (i === position ? { ...condition, ...updates } : condition)),
+    });
+  };
+
+  return (
+    <div
+      data-testid={`priority-rule-${rule.id}`}
+      className={`p-4 bg-[var(--card)] border border-[var(--border)] rounded-lg space-y-3 ${
+        rule.enabled ? '' : 'opacity-60'
+      }`}
+    >
+      {/* Header: order, name, enabled, actions */}
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-mono text-[var(--muted)] w-6">#{index + 1}</span>
+        <input
+          type="text"
+          aria-label="Rule name"
+          value={rule.name}
+          onChange={(e) => onChange(rule.id, { name: e.target.value })}
+          className={`${inputClass} flex-1 font-medium`}
+        />
+        <label className="flex items-center gap-1 text-sm text-[var(--foreground)]">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={(e) => onChange(rule.id, { enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+        {matchCount !== undefined && (
+          <span className="text-xs text-[var(--muted)] whitespace-nowrap">
+            {matchCount} match{matchCount === 1 ? '' : 'es'}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => onMove(rule.id, -1)}
+          disabled={index === 0}
+          aria-label="Move rule up"
+          className="px-2 py-1 text-sm text-[var(--muted)] hover:text-[var(--foreground)] disabled:opacity-30"
+        >
+          ↑
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(rule.id, 1)}
+          disabled={index === total - 1}
+          aria-label="Move rule down"
+          className="px-2 py-1 text-sm text-[var(--muted)] hover:text-[var(--foreground)] disabled:opacity-30"
+        >
+          ↓
+        </button>
+        <button
+          type="button"
+          onClick={() => onRemove(rule.id)}
+          aria-label="Delete rule"
+          className="px-2 py-1 text-sm text-[var(--danger)] hover:opacity-80"
+        >
+          Delete
+        </button>
+      </div>
+
+      {/* Conditions */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Providers (comma-separated)</label>
+          <input
+            // Re-mount when the rule is reset so the uncontrolled value follows
+            key={conditions.providers?.join(',')}
+            type="text"
+            defaultValue={conditions.providers?.join(', ') ?? ''}
+            onBlur={(e) => setConditions({ providers: parseList(e.target.value) })}
+            placeholder="any"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Location glob</label>
+          <input
+            type="text"
+            value={conditions.location ?? ''}
+            onChange={(e) => setConditions({ location: e.target.value || undefined })}
+            placeholder="e.g. src/payments/**"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Tags (any of)</label>
+          <input
+            key={conditions.tags?.join(',')}
+            type="text"
+            defaultValue={conditions.tags?.join(', ') ?? ''}
+            onBlur={(e) => setConditions({ tags: parseList(e.target.value) })}
+            placeholder="any"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Severity</label>
+          <div className="flex flex-wrap gap-1">
+            {SEVERITIES.map((severity) => {
+              const active = conditions.severities?.includes(severity) ?? false;
+              return (
+                <button
+                  key={severity}
+                  type="button"
+                  onClick={() => toggleSeverity(severity)}
+                  aria-pressed={active}
+                  className={`px-2 py-0.5 text-xs rounded ${
+                    active ? `badge-${severity.toLowerCase()}` : 'border border-[var(--border)] text-[var(--muted)]'
+                  }`}
+                >
+                  {severity}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label className={labelClass}>Min count</label>
+            <input
+              type="number"
+              min={0}
+              value={conditions.minCount ?? ''}
+              onChange={(e) => setConditions({ minCount: parseNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1">
+            <label className={labelClass}>Max count</label>
+            <input
+              type="number"
+              min={0}
+              value={conditions.maxCount ?? ''}
+              onChange={(e) => setConditions({ maxCount: parseNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label className={labelClass}>Weight (×)</label>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={rule.weight}
+              onChange={(e) => onChange(rule.id, { weight: parseNumber(e.target.value) ?? 1 })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1">
+            <label className={labelClass}>Boost (+)</label>
+            <input
+              type="number"
+              step={1}
+              value={rule.boost}
+              onChange={(e) => onChange(rule.id, { boost: parseNumber(e.target.value) ?? 0 })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Metadata conditions */}
+      <div>
+        <label className={labelClass}>Metadata fields</label>
+        <div className="space-y-2">
+          {metadata.map((condition, position) => (
+            <div key={position} className="flex gap-2 items-center">
+              <input
+                type="text"
+                aria-label="Metadata field"
+                value={condition.field}
+                onChange={(e) => updateMetadata(position, { field: e.target.value })}
+                placeholder="field.path"
+                className={`${inputClass} flex-1 font-mono`}
+              />
+              <select
+                aria-label="Metadata operator"
+                value={condition.operator}
+                onChange={(e) => updateMetadata(position, { operator: e.target.value as MetadataOperator })}
+                className={`${inputClass} w-28`}
+              >
+                {OPERATORS.map((op) => (
+                  <option key={op.value} value={op.value}>{op.label}</option>
+                ))}
+              </select>
+              {condition.operator !== 'exists' && (
+                <input
+                  type="text"
+                  aria-label="Metadata value"
+                  value={condition.value ?? ''}
+                  onChange={(e) => updateMetadata(position, { value: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => {
+                  const next = metadata.filter((_, i) => i !== position);
+                  setConditions({ metadata: next.length > 0 ? next : undefined });
+                }}
+                aria-label="Remove metadata condition"
+                className="px-2 text-[var(--muted)] hover:text-[var(--danger)]"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setConditions({ metadata: [...metadata, { field: '', operator: 'equals', value: '' }] })}
+            className="text-xs text-[var(--primary)] hover:text-[var(--primary-hover)]"
+          >
+            + Add metadata condition
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PriorityRuleEditor;
@@ -0,0 +1,10 @@
+/**
+ * Settings components.
+ *
+ * Provides components for:
+ * - Editing priority scoring rules
+ * - Previewing their effect on the issue ranking
+ */
+
+export { PriorityRuleEditor } from './PriorityRuleEditor';
+export { PriorityPreview, buildPriorityPreview } from './PriorityPreview';
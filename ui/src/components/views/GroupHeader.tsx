@@ -48,6 +48,9 @@ function getGroupIcon(groupBy: GroupBy, label: string): string {
     case 'location':
       // Folder icon representation
       return label[0] || '?';
+    case 'incident':
+      // Linked duplicates
+      return '#';
     default:
       return label[0] || '?';
   }
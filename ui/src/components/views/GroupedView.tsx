@@ -299,6 +299,7 @@ export function GroupedView({
                         hideProvider={groupBy === 'provider'}
                         hideSeverity={groupBy === 'severity'}
                         showRepoColumn={showRepoColumn}
+                        canonical={group.canonicalId === issue.id}
                       />
                     ))}
                   </tbody>
@@ -58,6 +58,12 @@ const GROUP_OPTIONS: GroupOption[] = [
     icon: 'L',
     description: 'Group by file directory',
   },
+  {
+    value: 'incident',
+    label: 'Incident',
+    icon: 'I',
+    description: 'Group likely duplicates across providers',
+  },
 ];
 
 /**
@@ -15,6 +15,7 @@ import { useFilters } from '@/hooks/useFilters';
 import { useGrouping, type GroupedIssues } from '@/hooks/useGrouping';
 import type {
   Issue,
+  ExtendedIssue,
   ProcessingStatus,
   FilterState,
   SortState,
@@ -23,6 +24,8 @@ import type {
   IssueStatus,
   GroupBy,
   ProcessingOptions,
+  JobQueueState,
+  ProviderFetchStatus,
 } from '@/lib/types';
 
 // ============================================================================
@@ -36,8 +39,11 @@ export interface AppContextType {
   loading: boolean;
   error: string | null;
   setError: (error: string | null) => void;
-  fetchIssues: () => Promise<void>;
+  /** Fetch issues; refresh bypasses the server-side issue cache */
+  fetchIssues: (refresh?: boolean) => Promise<void>;
   availableProviders: string[];
+  /** Fetch status per provider from the last /api/issues response */
+  providerStatuses: ProviderFetchStatus[];
 
   // Selection state
   selectedIds: Set<string>;
@@ -55,6 +61,8 @@ export interface AppContextType {
   processing: ProcessingStatus;
   processIssues: (ids: string[], options?: ProcessingOptions) => Promise<void>;
   processSingleIssue: (issueId: string, options?: ProcessingOptions) => Promise<void>;
+  toggleQueuePause: () => Promise<void>;
+  cancelIssue: (issueId: string) => Promise<void>;
 
   // Sort state (from useSort)
   sort: SortState;
@@ -80,6 +88,8 @@ export interface AppContextType {
   toggleProvider: (provider: string) => void;
   toggleSeverity: (severity: Severity) => void;
   toggleStatus: (status: IssueStatus) => void;
+  toggleTag: (tag: string) => void;
+  availableTags: string[];
   setPriorityRange: (min: number, max: number) => void;
   filterIssues: (issues: Issue[]) => Issue[];
   hasActiveFilters: boolean;
@@ -101,6 +111,7 @@ export interface AppContextType {
 const defaultProcessingStatus: ProcessingStatus = {
   isProcessing: false,
   currentIssueId: null,
+  runningIssueIds: [],
   logs: [],
   completed: [],
   failed: [],
@@ -125,6 +136,7 @@ export function AppProvider({ children }: AppProviderProps) {
   const [issues, setIssues] = useState<Issue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [providerStatuses, setProviderStatuses] = useState<ProviderFetchStatus[]>([]);
 
   // Selection state
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -163,6 +175,7 @@ export function AppProvider({ children }: AppProviderProps) {
     toggleProvider,
     toggleSeverity,
     toggleStatus,
+    toggleTag,
     setPriorityRange,
     filterIssues,
     hasActiveFilters,
@@ -188,6 +201,12 @@ export function AppProvider({ children }: AppProviderProps) {
     [issues]
   );
 
+  // Derived state: tags applied server-side (see ExtendedIssue)
+  const availableTags = useMemo(
+    () => [...new Set(issues.flatMap((i) => (i as Partial<ExtendedIssue>).tags ?? []))].sort(),
+    [issues]
+  );
+
   // Derived state: processed issues (filtered, searched, sorted)
   const processedIssues = useMemo(() => {
     let result = issues;
@@ -204,17 +223,18 @@ export function AppProvider({ children }: AppProviderProps) {
   );
 
   // Fetch issues from API
-  const fetchIssues = useCallback(async () => {
+  const fetchIssues = useCallback(async (refresh = false) => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch('/api/issues');
+      const response = await fetch(refresh ? '/api/issues?refresh=true' : '/api/issues');
       if (!response.ok) {
         throw new Error(`Failed to fetch issues: ${response.statusText}`);
       }
       const data = await response.json();
       setIssues(data.issues || []);
       setProcessing(data.processing || defaultProcessingStatus);
+      setProviderStatuses(data.providers || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
@@ -321,6 +341,62 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, []);
 
+  // Merge a server queue snapshot into the processing state
+  const applyQueueState = useCallback((state: JobQueueState) => {
+    setProcessing((prev) => ({
+      ...prev,
+      isPaused: state.isPaused,
+      jobs: state.jobs,
+    }));
+  }, []);
+
+  // Pause or resume the server-side job queue
+  const toggleQueuePause = useCallback(async () => {
+    try {
+      const response = await fetch('/api/queue', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paused: !processing.isPaused }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update queue');
+      }
+
+      applyQueueState(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update queue');
+    }
+  }, [processing.isPaused, applyQueueState]);
+
+  // Cancel the queued or running job for an issue
+  const cancelIssue = useCallback(async (issueId: string) => {
+    const job = processing.jobs?.find(
+      (j) => j.issueId === issueId && (j.status === 'queued' || j.status === 'running')
+    );
+    if (!job) return;
+
+    try {
+      const response = await fetch(`/api/issues/${encodeURIComponent(issueId)}/process`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel processing');
+      }
+
+      const cancelled = await response.json();
+      setProcessing((prev) => ({
+        ...prev,
+        jobs: prev.jobs?.map((j) => (j.id === cancelled.id ? cancelled : j)),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel processing');
+    }
+  }, [processing.jobs]);
+
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo<AppContextType>(() => ({
     // Issues data
@@ -331,6 +407,7 @@ export function AppProvider({ children }: AppProviderProps) {
     setError,
     fetchIssues,
     availableProviders,
+    providerStatuses,
 
     // Selection state
     selectedIds,
@@ -348,6 +425,8 @@ export function AppProvider({ children }: AppProviderProps) {
     processing,
     processIssues,
     processSingleIssue,
+    toggleQueuePause,
+    cancelIssue,
 
     // Sort state
     sort,
@@ -373,6 +452,8 @@ export function AppProvider({ children }: AppProviderProps) {
     toggleProvider,
     toggleSeverity,
     toggleStatus,
+    toggleTag,
+    availableTags,
     setPriorityRange,
     filterIssues,
     hasActiveFilters,
@@ -396,6 +477,7 @@ export function AppProvider({ children }: AppProviderProps) {
     error,
     fetchIssues,
     availableProviders,
+    providerStatuses,
     selectedIds,
     handleToggle,
     handleSelectAll,
@@ -407,6 +489,8 @@ export function AppProvider({ children }: AppProviderProps) {
     processing,
     processIssues,
     processSingleIssue,
+    toggleQueuePause,
+    cancelIssue,
     sort,
     toggleSort,
     sortIssues,
@@ -426,6 +510,8 @@ export function AppProvider({ children }: AppProviderProps) {
     toggleProvider,
     toggleSeverity,
     toggleStatus,
+    toggleTag,
+    availableTags,
     setPriorityRange,
     filterIssues,
     hasActiveFilters,
@@ -502,8 +588,8 @@ export function useAppDetailPanel() {
  * Hook for accessing only processing state.
  */
 export function useAppProcessing() {
-  const { processing, processIssues, processSingleIssue } = useApp();
-  return { processing, processIssues, processSingleIssue };
+  const { processing, processIssues, processSingleIssue, toggleQueuePause, cancelIssue } = useApp();
+  return { processing, processIssues, processSingleIssue, toggleQueuePause, cancelIssue };
 }
 
 /**
@@ -555,6 +641,8 @@ export function useAppFilters() {
     toggleProvider,
     toggleSeverity,
     toggleStatus,
+    toggleTag,
+    availableTags,
     setPriorityRange,
     filterIssues,
     hasActiveFilters,
@@ -567,6 +655,8 @@ export function useAppFilters() {
     toggleProvider,
     toggleSeverity,
     toggleStatus,
+    toggleTag,
+    availableTags,
     setPriorityRange,
     filterIssues,
     hasActiveFilters,
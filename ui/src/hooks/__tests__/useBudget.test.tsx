@@ -0,0 +1,68 @@
+/**
+ * Tests for useBudget hook
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useBudget } from '../useBudget';
+import type { BudgetStatus } from '@/lib/budget';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const status: BudgetStatus = { dailyLimitUsd: 10, spentTodayUsd: 4, remainingTodayUsd: 6 };
+
+function jsonResponse(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 400, statusText: ok ? 'OK' : 'Bad Request', json: async () => body };
+}
+
+describe('useBudget', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("loads the daily limit and today's spend", async () => {
+    mockFetch.mockResolvedValue(jsonResponse(status));
+
+    const { result } = renderHook(() => useBudget());
+
+    await waitFor(() => expect(result.current.status).toEqual(status));
+    expect(mockFetch).toHaveBeenCalledWith('/api/settings/budget');
+  });
+
+  it('does not fetch while disabled', () => {
+    renderHook(() => useBudget({ enabled: false }));
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('saves a new daily limit', async () => {
+    const updated = { ...status, dailyLimitUsd: 20, remainingTodayUsd: 16 };
+    mockFetch.mockResolvedValue(jsonResponse(updated));
+    const { result } = renderHook(() => useBudget({ enabled: false }));
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.setDailyLimit(20);
+    });
+
+    expect(saved).toBe(true);
+    expect(result.current.status).toEqual(updated);
+    expect(mockFetch).toHaveBeenCalledWith('/api/settings/budget', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ dailyLimitUsd: 20 }),
+    }));
+  });
+
+  it('reports a rejected limit', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'Budget limit must be a positive number of USD' }, false));
+    const { result } = renderHook(() => useBudget({ enabled: false }));
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.setDailyLimit(-1);
+    });
+
+    expect(saved).toBe(false);
+    expect(result.current.error).toBe('Budget limit must be a positive number of USD');
+  });
+});
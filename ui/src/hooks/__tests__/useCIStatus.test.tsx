@@ -6,12 +6,22 @@
 
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { useCIStatus, getCIStatusIcon, getCIStatusColor } from '../useCIStatus';
-import type { CIStatusResponse } from '@/lib/types';
+import type { CIFixAttempt, CIStatusResponse } from '@/lib/types';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
 global.fetch = mockFetch;
 
+// Fix attempts are followed through the processing stream
+const mockStream = {
+  activities: new Map(),
+  completedIssues: new Set<string>(),
+  failedIssues: new Map<string, string>(),
+};
+jest.mock('../useProcessingStream', () => ({
+  useProcessingStream: jest.fn(() => mockStream),
+}));
+
 describe('useCIStatus', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -363,6 +373,197 @@ describe('useCIStatus', () => {
       expect(result.current.error).toContain('Auto-fix failed');
     });
   });
+
+  describe('webhook updates', () => {
+    class MockEventSource {
+      static latest: MockEventSource | null = null;
+      url: string;
+      onmessage: ((event: MessageEvent) => void) | null = null;
+      onerror: ((event: Event) => void) | null = null;
+      closed = false;
+
+      constructor(url: string) {
+        this.url = url;
+        MockEventSource.latest = this;
+      }
+
+      close() {
+        this.closed = true;
+      }
+
+      push(data: object) {
+        this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data) }));
+      }
+    }
+
+    const runningResponse: CIStatusResponse = { ...mockSuccessResponse, overallStatus: 'running' };
+
+    beforeEach(() => {
+      MockEventSource.latest = null;
+      // @ts-expect-error - mocking global
+      global.EventSource = MockEventSource;
+    });
+
+    afterEach(() => {
+      // @ts-expect-error - cleaning up mock
+      delete global.EventSource;
+    });
+
+    async function startFollowing() {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => runningResponse });
+      const hook = renderHook(() => useCIStatus(defaultOptions));
+      await act(async () => {
+        hook.result.current.startPolling();
+      });
+      return hook;
+    }
+
+    it('should follow the commit over SSE while polling', async () => {
+      const { result } = await startFollowing();
+
+      expect(MockEventSource.latest?.url).toBe('/api/ci/stream?sha=abc1234&owner=test-owner&repo=test-repo');
+
+      act(() => {
+        MockEventSource.latest!.push({ status: runningResponse, webhooks: true });
+      });
+      expect(result.current.isLive).toBe(true);
+
+      act(() => {
+        MockEventSource.latest!.push({ status: mockSuccessResponse, webhooks: true });
+      });
+
+      // Following ends with the checks
+      expect(result.current.status?.overallStatus).toBe('success');
+      expect(result.current.isPolling).toBe(false);
+      expect(result.current.isLive).toBe(false);
+    });
+
+    it('should only poll while webhooks are not delivering', async () => {
+      const { result } = await startFollowing();
+      act(() => {
+        MockEventSource.latest!.push({ status: null, webhooks: true });
+      });
+      const calls = mockFetch.mock.calls.length;
+
+      await act(async () => {
+        jest.advanceTimersByTime(15000);
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(calls);
+
+      act(() => {
+        MockEventSource.latest!.onerror?.(new Event('error'));
+      });
+      expect(result.current.isLive).toBe(false);
+
+      await act(async () => {
+        jest.advanceTimersByTime(5000);
+      });
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(calls);
+    });
+
+    it('should close the stream when polling stops', async () => {
+      const { result } = await startFollowing();
+      const source = MockEventSource.latest!;
+
+      act(() => {
+        result.current.stopPolling();
+      });
+
+      expect(source.closed).toBe(true);
+    });
+  });
+
+  describe('fix attempts', () => {
+    const attempt: CIFixAttempt = {
+      id: 'ci-fix-1',
+      issueId: 'issue-1',
+      jobId: 'job-1',
+      owner: 'test-owner',
+      repo: 'test-repo',
+      prUrl: 'https://github.com/test-owner/test-repo/pull/1',
+      branch: 'fix/issue-1',
+      sha: 'abc1234',
+      failures: mockFailureResponse.failures,
+      attempt: 1,
+      status: 'running',
+      createdAt: '2026-01-26T10:06:00Z',
+      updatedAt: '2026-01-26T10:06:00Z',
+    };
+
+    beforeEach(() => {
+      mockStream.completedIssues = new Set();
+    });
+
+    async function startFix(options = defaultOptions) {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => mockFailureResponse });
+      const hook = renderHook(() => useCIStatus(options));
+      await act(async () => {
+        await hook.result.current.refresh();
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, fixAttemptId: attempt.id, attempt }),
+      });
+      await act(async () => {
+        await hook.result.current.triggerAutoFix();
+      });
+      return hook;
+    }
+
+    it('should follow the running attempt and block further fixes', async () => {
+      const { result } = await startFix();
+
+      expect(result.current.fixAttempt).toEqual(attempt);
+      expect(result.current.canAutoFix).toBe(false);
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body).toMatchObject({ sha: 'abc1234' });
+      expect(body).not.toHaveProperty('maxRetries');
+    });
+
+    it('should poll CI on the commit a fix pushed', async () => {
+      const { result, rerender } = await startFix();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ attempt: { ...attempt, status: 'pushed', headSha: 'def5678' } }),
+      });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ ...mockSuccessResponse, sha: 'def5678' }),
+      });
+      mockStream.completedIssues = new Set([attempt.id]);
+      rerender();
+
+      await waitFor(() => {
+        expect(result.current.status?.sha).toBe('def5678');
+      });
+      expect(mockFetch).toHaveBeenCalledWith(`/api/ci/fix?id=${attempt.id}`);
+      expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('sha=def5678'));
+      expect(result.current.currentSha).toBe('def5678');
+      expect(result.current.fixAttempt?.status).toBe('pushed');
+      expect(result.current.canAutoFix).toBe(true);
+    });
+
+    it('should stop offering fixes once maxRetries attempts were made', async () => {
+      const { result, rerender } = await startFix({
+        ...defaultOptions,
+        config: { ...defaultOptions.config, maxRetries: 1 },
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ attempt: { ...attempt, status: 'failed', error: 'The fix run failed' } }),
+      });
+      mockStream.completedIssues = new Set([attempt.id]);
+      rerender();
+
+      await waitFor(() => {
+        expect(result.current.fixAttempt?.status).toBe('failed');
+      });
+      expect(result.current.canAutoFix).toBe(false);
+    });
+  });
 });
 
 describe('getCIStatusIcon', () => {
@@ -1,6 +1,6 @@
 import { renderHook, act } from '@testing-library/react';
 import { useFilters } from '../useFilters';
-import type { Issue, Severity } from '@/lib/types';
+import type { ExtendedIssue, Issue, Severity } from '@/lib/types';
 import { DEFAULT_FILTER_STATE } from '@/lib/types';
 
 // Mock localStorage
@@ -502,6 +502,26 @@ describe('useFilters', () => {
       expect(filtered.map((i) => i.severity)).toEqual(['CRITICAL', 'HIGH']);
     });
 
+    it('should filter by server-side status and tags', () => {
+      const { result } = renderHook(() => useFilters());
+
+      const issues = [
+        { ...createMockIssue({ id: '1' }), status: 'ignored', tags: ['flaky'] },
+        { ...createMockIssue({ id: '2' }), status: 'pending', tags: ['flaky', 'auth'] },
+        { ...createMockIssue({ id: '3' }), status: 'pending', tags: [] },
+      ] as ExtendedIssue[];
+
+      act(() => {
+        result.current.toggleStatus('pending');
+      });
+      expect(result.current.filterIssues(issues).map((i) => i.id)).toEqual(['2', '3']);
+
+      act(() => {
+        result.current.toggleTag('flaky');
+      });
+      expect(result.current.filterIssues(issues).map((i) => i.id)).toEqual(['2']);
+    });
+
     it('should filter by priority range', () => {
       const { result } = renderHook(() => useFilters());
 
@@ -147,6 +147,12 @@ describe('useGrouping', () => {
       });
       expect(result.current.groupBy).toBe('location');
 
+      // Cycle to incident
+      act(() => {
+        result.current.cycleGroupBy();
+      });
+      expect(result.current.groupBy).toBe('incident');
+
       // Cycle back to null
       act(() => {
         result.current.cycleGroupBy();
@@ -310,6 +316,34 @@ describe('useGrouping', () => {
       expect(apiGroup).toBeDefined();
       expect(apiGroup?.count).toBe(1);
     });
+
+    it('groups likely duplicates into incidents', () => {
+      const { result } = renderHook(() => useGrouping());
+
+      act(() => {
+        result.current.setGroupBy('incident');
+      });
+
+      const duplicate: Issue = {
+        ...mockIssues[0],
+        id: 'dup',
+        provider: 'linear',
+        priority: 10,
+        description: 'Reported in https://example.com/1',
+        permalink: 'https://example.com/dup',
+      };
+      const groups = result.current.groupIssues([...mockIssues, duplicate]);
+
+      expect(groups[0]).toMatchObject({
+        key: 'incident:zeropath:1',
+        label: 'XSS Vulnerability',
+        count: 2,
+        canonicalId: '1',
+      });
+      expect(groups[0].issues.map((i) => i.id)).toEqual(['1', 'dup']);
+      expect(groups[1].key).toBe('uncorrelated');
+      expect(groups[1].count).toBe(mockIssues.length - 1);
+    });
   });
 
   describe('state persistence', () => {
@@ -139,6 +139,48 @@ describe('useHistory', () => {
       expect(result.current.entries[0].error).toBe('Processing timeout');
     });
 
+    it('should record the escalation attempt', () => {
+      const { result } = renderHook(() => useHistory());
+
+      act(() => {
+        result.current.recordFailure(mockIssue, 'Processing failed', {
+          jobId: 'job-2',
+          escalationLevel: 1,
+          escalationStep: 'Opus',
+          escalatedFromJobId: 'job-1',
+        });
+      });
+
+      expect(result.current.entries[0]).toMatchObject({
+        jobId: 'job-2',
+        escalationLevel: 1,
+        escalationStep: 'Opus',
+        escalatedFromJobId: 'job-1',
+      });
+    });
+
+    it('should skip a job attempt already recorded for the issue', () => {
+      localStorageMock._setStore({
+        'meta-ralph-processing-history': JSON.stringify([
+          { id: 'history-1', issueId: mockIssue.id, status: 'failed', jobId: 'job-1', jobAttempts: 1 },
+        ]),
+      });
+      const { result } = renderHook(() => useHistory());
+
+      act(() => {
+        // Seen again after a reload
+        result.current.recordFailure(mockIssue, 'Processing failed', { jobId: 'job-1', jobAttempts: 1 });
+        result.current.recordFailure({ ...mockIssue, id: 'linked-issue' }, 'Processing failed', { jobId: 'job-1', jobAttempts: 1 });
+        result.current.recordFailure(mockIssue, 'Processing failed', { jobId: 'job-1', jobAttempts: 2 });
+      });
+
+      expect(result.current.entries.map((e) => [e.issueId, e.jobAttempts])).toEqual([
+        [mockIssue.id, 2],
+        ['linked-issue', 1],
+        [mockIssue.id, 1],
+      ]);
+    });
+
     it('should use default error message when none provided', () => {
       const { result } = renderHook(() => useHistory());
 
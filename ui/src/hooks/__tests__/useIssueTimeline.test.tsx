@@ -0,0 +1,67 @@
+/**
+ * Tests for useIssueTimeline hook
+ */
+
+import { renderHook, waitFor } from '@testing-library/react';
+import { useIssueTimeline } from '../useIssueTimeline';
+import type { IssueTimeline } from '@/lib/types';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const timeline: IssueTimeline = {
+  issueId: 'issue-1',
+  status: 'processing',
+  events: [
+    { id: 'evt-1', issueId: 'issue-1', from: null, to: 'pending', actor: 'ui', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'evt-2', issueId: 'issue-1', from: 'pending', to: 'processing', actor: 'queue', timestamp: '2024-01-01T00:01:00Z' },
+  ],
+};
+
+function jsonResponse(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 500, statusText: ok ? 'OK' : 'Server Error', json: async () => body };
+}
+
+describe('useIssueTimeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('loads the timeline of the issue', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(timeline));
+
+    const { result } = renderHook(() => useIssueTimeline('issue-1'));
+
+    await waitFor(() => expect(result.current.timeline).toEqual(timeline));
+    expect(mockFetch).toHaveBeenCalledWith('/api/issues/issue-1/timeline');
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('does not fetch while disabled', () => {
+    renderHook(() => useIssueTimeline('issue-1', { enabled: false }));
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('re-fetches when the refresh key changes', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(timeline));
+
+    const { result, rerender } = renderHook(
+      ({ status }) => useIssueTimeline('issue-1', { refreshKey: status }),
+      { initialProps: { status: 'pending' } }
+    );
+    await waitFor(() => expect(result.current.timeline).not.toBeNull());
+
+    rerender({ status: 'processing' });
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+  });
+
+  it('reports failed requests', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}, false));
+
+    const { result } = renderHook(() => useIssueTimeline('issue-1'));
+
+    await waitFor(() => expect(result.current.error).toBe('Failed to load timeline: Server Error'));
+  });
+});
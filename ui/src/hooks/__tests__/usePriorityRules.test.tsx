@@ -0,0 +1,106 @@
+/**
+ * Tests for usePriorityRules hook
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { usePriorityRules } from '../usePriorityRules';
+import type { PriorityRule } from '@/lib/priority-rules';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+const savedRule: PriorityRule = {
+  id: 'rule-1',
+  name: 'Boost payments',
+  enabled: true,
+  conditions: { location: 'src/payments/**' },
+  weight: 1,
+  boost: 20,
+};
+
+function jsonResponse(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 400, statusText: ok ? 'OK' : 'Bad Request', json: async () => body };
+}
+
+describe('usePriorityRules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetch.mockResolvedValueOnce(jsonResponse({ rules: [savedRule] }));
+  });
+
+  it('loads the saved rules', async () => {
+    const { result } = renderHook(() => usePriorityRules());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/settings/priority-rules');
+    expect(result.current.rules).toEqual([savedRule]);
+    expect(result.current.isDirty).toBe(false);
+  });
+
+  it('tracks local edits until they are discarded', async () => {
+    const { result } = renderHook(() => usePriorityRules());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() => {
+      result.current.updateRule('rule-1', { boost: 5 });
+    });
+    act(() => {
+      result.current.addRule();
+    });
+
+    expect(result.current.rules).toHaveLength(2);
+    expect(result.current.rules[0].boost).toBe(5);
+    expect(result.current.isDirty).toBe(true);
+
+    act(() => {
+      result.current.moveRule(result.current.rules[1].id, -1);
+    });
+    expect(result.current.rules[1].id).toBe('rule-1');
+
+    act(() => {
+      result.current.resetRules();
+    });
+    expect(result.current.rules).toEqual([savedRule]);
+  });
+
+  it('saves the edited rules', async () => {
+    const { result } = renderHook(() => usePriorityRules());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() => {
+      result.current.removeRule('rule-1');
+    });
+    mockFetch.mockResolvedValueOnce(jsonResponse({ rules: [] }));
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.saveRules();
+    });
+
+    expect(saved).toBe(true);
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/settings/priority-rules', expect.objectContaining({
+      method: 'PUT',
+      body: JSON.stringify({ rules: [] }),
+    }));
+    expect(result.current.isDirty).toBe(false);
+  });
+
+  it('surfaces validation errors from a rejected save', async () => {
+    const { result } = renderHook(() => usePriorityRules());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const errors = [{ path: 'rules[0].weight', message: 'must be a non-negative number' }];
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Invalid priority rules', errors }, false));
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.saveRules();
+    });
+
+    expect(saved).toBe(false);
+    expect(result.current.error).toBe('Invalid priority rules');
+    expect(result.current.validationErrors).toEqual(errors);
+  });
+});
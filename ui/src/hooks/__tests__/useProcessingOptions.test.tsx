@@ -1,7 +1,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { useProcessingOptions } from '../useProcessingOptions';
-import type { Issue, ProcessingOptions, Severity } from '@/lib/types';
-import { DEFAULT_PROCESSING_OPTIONS, DEFAULT_PRESETS } from '@/lib/types';
+import type { Issue, ProcessingOptions, RunRecord, Severity } from '@/lib/types';
+import { DEFAULT_PROCESSING_OPTIONS, DEFAULT_PRESETS, MODEL_INFO, estimateCost } from '@/lib/types';
 
 // Mock localStorage
 const mockLocalStorage = (() => {
@@ -241,7 +241,7 @@ describe('useProcessingOptions', () => {
         result.current.applyPreset('quick-fix');
       });
 
-      expect(result.current.options).toEqual(quickFix.options);
+      expect(result.current.options).toEqual({ ...quickFix.options, escalation: quickFix.escalation });
     });
 
     it('should apply careful-fix preset', () => {
@@ -252,7 +252,7 @@ describe('useProcessingOptions', () => {
         result.current.applyPreset('careful-fix');
       });
 
-      expect(result.current.options).toEqual(carefulFix.options);
+      expect(result.current.options).toEqual({ ...carefulFix.options, escalation: carefulFix.escalation });
     });
 
     it('should apply complex-issue preset', () => {
@@ -287,6 +287,51 @@ describe('useProcessingOptions', () => {
 
       expect(result.current.options).toEqual(originalOptions);
     });
+
+    it('should keep the chosen concurrency', () => {
+      const { result } = renderHook(() => useProcessingOptions());
+
+      act(() => {
+        result.current.updateOption('concurrency', 3);
+      });
+      act(() => {
+        result.current.applyPreset('complex-issue');
+      });
+
+      expect(result.current.options.model).toBe('opus');
+      expect(result.current.options.concurrency).toBe(3);
+      expect(result.current.currentPresetId).toBe('complex-issue');
+    });
+
+    it('should replace the escalation policy', () => {
+      const { result } = renderHook(() => useProcessingOptions());
+
+      act(() => {
+        result.current.applyPreset('quick-fix');
+      });
+      expect(result.current.options.escalation?.map((step) => step.options.model ?? step.options.mode)).toEqual([
+        'opus',
+        'plan',
+      ]);
+
+      act(() => {
+        result.current.applyPreset('complex-issue');
+      });
+      expect(result.current.options.escalation).toBeUndefined();
+    });
+
+    it('should keep the budget limits', () => {
+      const { result } = renderHook(() => useProcessingOptions());
+
+      act(() => {
+        result.current.updateOption('budget', { perIssueUsd: 2 });
+      });
+      act(() => {
+        result.current.applyPreset('quick-fix');
+      });
+
+      expect(result.current.options.budget).toEqual({ perIssueUsd: 2 });
+    });
   });
 
   describe('currentPresetId', () => {
@@ -299,7 +344,7 @@ describe('useProcessingOptions', () => {
       });
 
       expect(result.current.currentPresetId).toBe('quick-fix');
-      expect(result.current.options).toEqual(quickFix.options);
+      expect(result.current.options).toEqual({ ...quickFix.options, escalation: quickFix.escalation });
     });
 
     it('should return null for custom options', () => {
@@ -378,6 +423,51 @@ describe('useProcessingOptions', () => {
 
       expect(estimateWith15.max).toBeGreaterThan(estimateWith5.max);
     });
+
+    it('should learn from past runs when given issues and history', () => {
+      const { result } = renderHook(() => useProcessingOptions());
+      const runs: RunRecord[] = [1, 2, 3].map((costUsd, i) => ({
+        id: `run-${i}`,
+        issueId: `past-${i}`,
+        provider: 'sentry',
+        severity: 'HIGH',
+        model: 'sonnet',
+        mode: 'build',
+        status: 'completed',
+        costUsd,
+        iterations: 2,
+        maxIterations: 10,
+        durationMs: 60000,
+        completedAt: '2026-01-01T00:00:00Z',
+      }));
+
+      const estimate = result.current.getCostEstimate([{ provider: 'sentry', severity: 'HIGH' }], runs);
+
+      expect(estimate.average).toBeCloseTo(2);
+      expect(estimate.history?.sampleSize).toBe(3);
+      expect(result.current.getCostEstimate([{ provider: 'sentry', severity: 'HIGH' }], []).history).toBeUndefined();
+    });
+
+    it('should estimate each routed model separately when auto-routing', () => {
+      const { result } = renderHook(() => useProcessingOptions());
+      const issues = [
+        { provider: 'zeropath', severity: 'CRITICAL' as const },
+        { provider: 'codecov', severity: 'LOW' as const },
+      ];
+      const opus = estimateCost({ ...result.current.options, model: 'opus' }, 1);
+
+      act(() => {
+        result.current.updateOption('autoModel', true);
+      });
+
+      expect(result.current.getIssueModel(issues[0])).toBe('opus');
+      expect(result.current.getIssueModel(issues[1])).toBe('haiku');
+      const estimate = result.current.getCostEstimate(issues);
+      // Opus for the Zeropath finding plus Haiku for the coverage gap
+      expect(estimate.average).toBeGreaterThan(opus.average);
+      expect(estimate.average).toBeLessThan(opus.average * 2);
+      expect(estimate.breakdown.perIssue).toBeCloseTo(estimate.average / 2);
+    });
   });
 
   describe('getValidationWarnings', () => {
@@ -485,5 +575,12 @@ describe('useProcessingOptions', () => {
       expect(result.current.modelInfo.sonnet.name).toBe('Claude Sonnet');
       expect(result.current.modelInfo.opus.name).toBe('Claude Opus');
     });
+
+    it('should use the given model catalog', () => {
+      const models = { custom: { ...MODEL_INFO.sonnet, id: 'custom', name: 'Custom' } };
+      const { result } = renderHook(() => useProcessingOptions({ models }));
+
+      expect(result.current.modelInfo).toBe(models);
+    });
   });
 });
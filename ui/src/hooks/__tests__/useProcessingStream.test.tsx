@@ -321,6 +321,37 @@ describe('useProcessingStream', () => {
       expect(metrics.costUsd).toBe(0.005);
     });
 
+    it('should handle plan progress events', async () => {
+      const { result } = renderHook(() =>
+        useProcessingStream({ issueIds: ['issue-1'], autoConnect: false })
+      );
+
+      act(() => {
+        result.current.connect();
+      });
+
+      const eventSource = MockEventSource.getLatest()!;
+
+      act(() => {
+        eventSource.triggerOpen();
+      });
+
+      act(() => {
+        eventSource.simulateMessage(JSON.stringify({
+          issueId: 'issue-1',
+          type: 'plan_progress',
+          payload: { completedSteps: 1, totalSteps: 4, progress: 25, currentStep: 'Add tests' },
+        }));
+      });
+
+      expect(result.current.planProgress.get('issue-1')).toEqual({
+        completedSteps: 1,
+        totalSteps: 4,
+        progress: 25,
+        currentStep: 'Add tests',
+      });
+    });
+
     it('should handle complete events', async () => {
       const { result } = renderHook(() =>
         useProcessingStream({ issueIds: ['issue-1'], autoConnect: false })
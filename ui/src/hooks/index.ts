@@ -11,8 +11,15 @@ export { useKeyboardShortcuts, type KeyboardShortcutsOptions } from './useKeyboa
 export { useGrouping, type GroupedIssues } from './useGrouping';
 export { useVirtualList, usePageSize, PAGE_SIZES, type PageSize } from './useVirtualList';
 export { useSavedViews, type UseSavedViewsOptions, type UseSavedViewsReturn } from './useSavedViews';
-export { useHistory, type HistoryFilter, type UseHistoryOptions, type UseHistoryReturn } from './useHistory';
-export { useTags } from './useTags';
+export {
+  useHistory,
+  type HistoryAttempt,
+  type HistoryFilter,
+  type UseHistoryOptions,
+  type UseHistoryReturn,
+} from './useHistory';
+export { useTags, getTagColor, type UseTagsOptions } from './useTags';
+export { useBulkActions, type UseBulkActionsOptions, type UseBulkActionsReturn } from './useBulkActions';
 
 // Processing stream hooks (PRD-03)
 export {
@@ -41,3 +48,39 @@ export {
   type UseCIStatusOptions,
   type UseCIStatusReturn,
 } from './useCIStatus';
+
+// Priority scoring rules
+export { usePriorityRules, type UsePriorityRulesReturn } from './usePriorityRules';
+
+// Issue lifecycle
+export {
+  useIssueTimeline,
+  type UseIssueTimelineOptions,
+  type UseIssueTimelineReturn,
+} from './useIssueTimeline';
+
+// Cost budgets
+export { useBudget, type UseBudgetOptions, type UseBudgetReturn } from './useBudget';
+
+// Run history (cost and duration estimates)
+export { useRunHistory, type UseRunHistoryOptions, type UseRunHistoryReturn } from './useRunHistory';
+
+// Model catalog and routing
+export { useModelCatalog, type UseModelCatalogOptions, type UseModelCatalogReturn } from './useModelCatalog';
+
+// Plan revision history
+export { usePlanRevisions, type UsePlanRevisionsOptions, type UsePlanRevisionsReturn } from './usePlanRevisions';
+
+// Run diffs
+export { useIssueDiff, type UseIssueDiffOptions, type UseIssueDiffReturn } from './useIssueDiff';
+
+// Review of held build runs
+export {
+  useChangeReview,
+  type ChangeReviewAction,
+  type UseChangeReviewOptions,
+  type UseChangeReviewReturn,
+} from './useChangeReview';
+
+// Tracked pull requests
+export { usePullRequests, type UsePullRequestsOptions, type UsePullRequestsReturn } from './usePullRequests';
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { BudgetStatus } from '@/lib/budget';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseBudgetOptions {
+  /** Skip fetching (e.g. while the options panel is closed) */
+  enabled?: boolean;
+}
+
+export interface UseBudgetReturn {
+  /** Daily limit and today's spend, or null until loaded */
+  status: BudgetStatus | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Set the daily limit shared by all runs; null removes it */
+  setDailyLimit: (limitUsd: number | null) => Promise<boolean>;
+  /** Re-fetch today's spend */
+  refresh: () => Promise<void>;
+}
+
+const BUDGET_URL = '/api/settings/budget';
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load and edit the server-wide daily budget from `/api/settings/budget`.
+ */
+export function useBudget({ enabled = true }: UseBudgetOptions = {}): UseBudgetReturn {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(BUDGET_URL);
+      if (!response.ok) {
+        throw new Error(`Failed to load budget: ${response.statusText}`);
+      }
+      setStatus(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  const setDailyLimit = useCallback(async (limitUsd: number | null) => {
+    setError(null);
+    try {
+      const response = await fetch(BUDGET_URL, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dailyLimitUsd: limitUsd }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setStatus(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  }, []);
+
+  return { status, isLoading, error, setDailyLimit, refresh };
+}
+
+export default useBudget;
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { BulkActionRequest, BulkActionResponse } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseBulkActionsOptions {
+  /** Called after an action succeeds, e.g. to re-fetch the triaged issues */
+  onChange?: () => void | Promise<void>;
+}
+
+export interface UseBulkActionsReturn {
+  /** Run any bulk action; resolves to the response, or null if it failed */
+  run: (
+    action: BulkActionRequest['action'],
+    ids: string[],
+    payload?: BulkActionRequest['payload']
+  ) => Promise<BulkActionResponse | null>;
+  addTags: (ids: string[], tags: string[]) => Promise<boolean>;
+  removeTags: (ids: string[], tags: string[]) => Promise<boolean>;
+  ignore: (ids: string[]) => Promise<boolean>;
+  restore: (ids: string[]) => Promise<boolean>;
+  /** Override the priority of issues; null clears the override */
+  setPriority: (ids: string[], priority: number | null) => Promise<boolean>;
+  isPending: boolean;
+  /** Why the last action was refused */
+  error: string | null;
+}
+
+const BULK_URL = '/api/issues/bulk';
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Apply triage and other bulk actions through `POST /api/issues/bulk`.
+ *
+ * Triage state lives on the server and comes back merged into
+ * `GET /api/issues`, so changes are shared by everyone using the instance.
+ */
+export function useBulkActions({ onChange }: UseBulkActionsOptions = {}): UseBulkActionsReturn {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(
+    async (
+      action: BulkActionRequest['action'],
+      ids: string[],
+      payload?: BulkActionRequest['payload']
+    ): Promise<BulkActionResponse | null> => {
+      if (ids.length === 0) return null;
+      setIsPending(true);
+      setError(null);
+      try {
+        const response = await fetch(BULK_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, ids, payload }),
+        });
+        const data = (await response.json()) as BulkActionResponse;
+        if (!response.ok || !data.success) {
+          setError(data.message || `Bulk ${action} failed`);
+          return null;
+        }
+        await onChange?.();
+        return data;
+      } catch (err) {
+        setError(`Bulk ${action} failed: ${err}`);
+        return null;
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [onChange]
+  );
+
+  const addTags = useCallback(
+    async (ids: string[], tags: string[]) => (await run('tag', ids, { tags })) !== null,
+    [run]
+  );
+
+  const removeTags = useCallback(
+    async (ids: string[], tags: string[]) => (await run('untag', ids, { tags })) !== null,
+    [run]
+  );
+
+  const ignore = useCallback(async (ids: string[]) => (await run('ignore', ids)) !== null, [run]);
+
+  const restore = useCallback(async (ids: string[]) => (await run('restore', ids)) !== null, [run]);
+
+  const setPriority = useCallback(
+    async (ids: string[], priority: number | null) => (await run('priority', ids, { priority })) !== null,
+    [run]
+  );
+
+  return { run, addTags, removeTags, ignore, restore, setPriority, isPending, error };
+}
+
+export default useBulkActions;
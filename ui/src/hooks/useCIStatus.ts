@@ -1,20 +1,31 @@
 /**
  * useCIStatus Hook
  *
- * Polls GitHub API for CI check run status after push operations.
+ * Follows CI check run status after push operations: updates are pushed over
+ * SSE (GET /api/ci/stream) while GitHub webhooks deliver them, and the
+ * status is polled as a fallback while they don't.
  * Supports auto-retry, status tracking, and callbacks for CI completion/failure.
  *
+ * Auto-fix queues a fix run on the PR (POST /api/ci/fix) and follows its
+ * stream. Once the fix is pushed, polling continues on the pushed commit;
+ * with `autoFix` a new failure there triggers the next attempt, up to
+ * `maxRetries` attempts.
+ *
  * @see PRD-07-CICD-AWARENESS.md for specification
  */
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+  Activity,
   CIStatus,
   CIStatusResponse,
+  CIStatusStreamEvent,
   CIFailure,
+  CIFixAttempt,
   CIConfig,
   DEFAULT_CI_CONFIG,
 } from '@/lib/types';
+import { useProcessingStream } from './useProcessingStream';
 
 // ============================================================================
 // Types
@@ -44,6 +55,8 @@ export interface UseCIStatusReturn {
   status: CIStatusResponse | null;
   /** Whether currently polling */
   isPolling: boolean;
+  /** Whether webhooks push updates, so polling is paused */
+  isLive: boolean;
   /** Loading state for initial fetch */
   isLoading: boolean;
   /** Error message if fetch failed */
@@ -60,6 +73,16 @@ export interface UseCIStatusReturn {
   refresh: () => Promise<void>;
   /** Trigger auto-fix for failures */
   triggerAutoFix: () => Promise<boolean>;
+  /** Run a check again and follow the commit until it finishes */
+  rerunCheck: (checkId: string) => Promise<boolean>;
+  /** Latest fix attempt, followed while it runs */
+  fixAttempt: CIFixAttempt | null;
+  /** Live activity of the running fix attempt */
+  fixActivities: Activity[];
+  /** Whether another fix attempt is allowed (none running, `maxRetries` not used up) */
+  canAutoFix: boolean;
+  /** Commit being checked: `sha`, or the commit a fix pushed since */
+  currentSha: string;
 }
 
 // ============================================================================
@@ -86,25 +109,34 @@ export function useCIStatus({
   const [status, setStatus] = useState<CIStatusResponse | null>(null);
   const [isPolling, setIsPolling] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLive, setIsLive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fixAttempt, setFixAttempt] = useState<CIFixAttempt | null>(null);
+  // Commit a fix pushed, checked instead of `sha`
+  const [fixedSha, setFixedSha] = useState<string | null>(null);
+  const currentSha = fixedSha ?? sha;
+  // Bumped to follow the commit again after a re-run
+  const [restartKey, setRestartKey] = useState(0);
 
   // Refs for polling management
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const retryCount = useRef(0);
   const isPollingRef = useRef(false);
+  const isLiveRef = useRef(false);
   const previousOverallStatus = useRef<CIStatus | null>(null);
 
   /**
    * Fetch CI status from API.
    */
   const fetchStatus = useCallback(async (): Promise<CIStatusResponse | null> => {
-    if (!sha || !owner || !repo) {
+    if (!currentSha || !owner || !repo) {
       return null;
     }
 
     try {
+      const providerParam = config.provider ? `&provider=${encodeURIComponent(config.provider)}` : '';
       const response = await fetch(
-        `/api/ci/status?sha=${encodeURIComponent(sha)}&owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}`
+        `/api/ci/status?sha=${encodeURIComponent(currentSha)}&owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}${providerParam}`
       );
 
       if (!response.ok) {
@@ -124,7 +156,7 @@ export function useCIStatus({
       const message = e instanceof Error ? e.message : String(e);
       throw new Error(`Failed to fetch CI status: ${message}`);
     }
-  }, [sha, owner, repo, prUrl]);
+  }, [currentSha, owner, repo, prUrl, config.provider]);
 
   /**
    * Process status update and trigger callbacks.
@@ -213,10 +245,53 @@ export function useCIStatus({
         return;
       }
 
+      // Webhooks push updates instead
+      if (isLiveRef.current) {
+        return;
+      }
+
       refresh();
     }, config.pollInterval);
   }, [config.enabled, config.pollInterval, refresh, status?.overallStatus, stopPolling]);
 
+  // Take pushed updates while following the commit
+  const processStatusUpdateRef = useRef(processStatusUpdate);
+  processStatusUpdateRef.current = processStatusUpdate;
+  useEffect(() => {
+    if (!isPolling || !currentSha || !owner || !repo || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const source = new EventSource(
+      `/api/ci/stream?sha=${encodeURIComponent(currentSha)}&owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}`
+    );
+    source.onmessage = (event) => {
+      try {
+        const data: CIStatusStreamEvent = JSON.parse(event.data);
+        isLiveRef.current = data.webhooks;
+        setIsLive(data.webhooks);
+        if (data.status?.sha === currentSha) {
+          processStatusUpdateRef.current(data.status);
+        }
+      } catch (e) {
+        console.error('Failed to parse CI status event:', e);
+      }
+    };
+    // The browser reconnects by itself; poll meanwhile
+    source.onerror = () => {
+      isLiveRef.current = false;
+      setIsLive(false);
+    };
+
+    return () => {
+      source.close();
+      isLiveRef.current = false;
+      setIsLive(false);
+    };
+  }, [isPolling, currentSha, owner, repo]);
+
+  const canAutoFix = fixAttempt?.status !== 'running' && (fixAttempt?.attempt ?? 0) < config.maxRetries;
+
   /**
    * Trigger auto-fix for CI failures.
    */
@@ -234,7 +309,7 @@ export function useCIStatus({
         body: JSON.stringify({
           owner,
           repo,
-          sha,
+          sha: currentSha,
           failures: status.failures,
         }),
       });
@@ -244,13 +319,114 @@ export function useCIStatus({
         throw new Error(errorData.error || `HTTP ${response.status}`);
       }
 
+      const data = await response.json();
+      if (data.attempt) {
+        setFixAttempt(data.attempt);
+      }
       return true;
     } catch (e) {
       const message = e instanceof Error ? e.message : String(e);
       setError(`Auto-fix failed: ${message}`);
       return false;
     }
-  }, [owner, repo, sha, status?.failures]);
+  }, [owner, repo, currentSha, status?.failures]);
+
+  /**
+   * Run a check again. Polling restarts, as the commit's status is no
+   * longer final.
+   */
+  const rerunCheck = useCallback(async (checkId: string): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/ci/rerun', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ checkId, owner, repo, provider: config.provider }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      previousOverallStatus.current = null;
+      setStatus(null);
+      stopPolling();
+      setRestartKey((key) => key + 1);
+      return true;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(`Re-run failed: ${message}`);
+      return false;
+    }
+  }, [owner, repo, config.provider, stopPolling]);
+
+  // Follow the running fix attempt's stream
+  const fixStreamIds = useMemo(
+    () => (fixAttempt?.status === 'running' ? [fixAttempt.id] : []),
+    [fixAttempt?.id, fixAttempt?.status]
+  );
+  const {
+    activities: fixActivityMap,
+    completedIssues: fixCompleted,
+    failedIssues: fixFailed,
+  } = useProcessingStream({ issueIds: fixStreamIds });
+  const fixActivities = useMemo(
+    () => (fixAttempt ? fixActivityMap.get(fixAttempt.id) ?? [] : []),
+    [fixAttempt, fixActivityMap]
+  );
+
+  // Once the fix run ends, load its outcome; a pushed fix is checked next
+  const fixEnded = !!fixAttempt && (fixCompleted.has(fixAttempt.id) || fixFailed.has(fixAttempt.id));
+  useEffect(() => {
+    if (!fixEnded || fixAttempt?.status !== 'running') return;
+    let cancelled = false;
+    fetch(`/api/ci/fix?id=${encodeURIComponent(fixAttempt.id)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { attempt: CIFixAttempt } | null) => {
+        if (cancelled || !data) return;
+        setFixAttempt(data.attempt);
+        if (data.attempt.status === 'pushed' && data.attempt.headSha) {
+          previousOverallStatus.current = null;
+          setStatus(null);
+          setFixedSha(data.attempt.headSha);
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) setError(`Failed to load CI fix attempt: ${e instanceof Error ? e.message : String(e)}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fixEnded, fixAttempt?.id, fixAttempt?.status]);
+
+  // Re-poll CI on the commit a fix pushed, or after a re-run. startPolling
+  // changes with every status update, so it's read through a ref.
+  const startPollingRef = useRef(startPolling);
+  startPollingRef.current = startPolling;
+  useEffect(() => {
+    if (fixedSha || restartKey > 0) startPollingRef.current();
+  }, [fixedSha, restartKey]);
+
+  // With autoFix, a failure on the pushed fix triggers the next attempt
+  useEffect(() => {
+    if (
+      config.autoFix &&
+      canAutoFix &&
+      fixAttempt?.status === 'pushed' &&
+      status?.sha === fixAttempt.headSha &&
+      status?.overallStatus === 'failure'
+    ) {
+      void triggerAutoFix();
+    }
+  }, [config.autoFix, canAutoFix, fixAttempt, status, triggerAutoFix]);
+
+  // A different commit starts over
+  useEffect(() => {
+    setFixAttempt(null);
+    setFixedSha(null);
+  }, [owner, repo, sha]);
 
   // Stop polling on terminal status
   useEffect(() => {
@@ -277,6 +453,7 @@ export function useCIStatus({
   return {
     status,
     isPolling,
+    isLive,
     isLoading,
     error,
     overallStatus,
@@ -285,6 +462,11 @@ export function useCIStatus({
     stopPolling,
     refresh,
     triggerAutoFix,
+    rerunCheck,
+    fixAttempt,
+    fixActivities,
+    canAutoFix,
+    currentSha,
   };
 }
 
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChangeReview } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChangeReviewAction = 'approve' | 'request_iteration' | 'discard';
+
+export interface UseChangeReviewOptions {
+  /** Skip fetching (e.g. while the review isn't visible) */
+  enabled?: boolean;
+  /** Re-fetch whenever this value changes, e.g. the issue's current status */
+  refreshKey?: string;
+}
+
+export interface UseChangeReviewReturn {
+  /** Review of the issue's held changes; null when it has none */
+  review: ChangeReview | null;
+  isLoading: boolean;
+  error: string | null;
+  isSubmitting: boolean;
+  /** Why the last decision was refused */
+  submitError: string | null;
+  /** Submit a decision; resolves to whether it was accepted */
+  submit: (action: ChangeReviewAction, comment?: string) => Promise<boolean>;
+  /** Re-fetch the review */
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load and decide the review of the issue's held changes through
+ * `/api/issues/:id/review`.
+ */
+export function useChangeReview(
+  issueId: string | null,
+  { enabled = true, refreshKey }: UseChangeReviewOptions = {}
+): UseChangeReviewReturn {
+  const [review, setReview] = useState<ChangeReview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!issueId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/issues/${encodeURIComponent(issueId)}/review`);
+      if (!response.ok) {
+        throw new Error(`Failed to load review: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setReview(data.review ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [issueId]);
+
+  const submit = useCallback(
+    async (action: ChangeReviewAction, comment?: string): Promise<boolean> => {
+      if (!issueId) return false;
+      setIsSubmitting(true);
+      setSubmitError(null);
+      try {
+        const response = await fetch(`/api/issues/${encodeURIComponent(issueId)}/review`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, comment: comment?.trim() || undefined }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          setSubmitError(data.details || data.error || 'Failed to review changes');
+          return false;
+        }
+        setReview(data.review);
+        return true;
+      } catch (err) {
+        setSubmitError(`Failed to review changes: ${err}`);
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [issueId]
+  );
+
+  // Drop the previous issue's review when switching issues
+  useEffect(() => {
+    setReview(null);
+    setSubmitError(null);
+  }, [issueId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh, refreshKey]);
+
+  return { review, isLoading, error, isSubmitting, submitError, submit, refresh };
+}
+
+export default useChangeReview;
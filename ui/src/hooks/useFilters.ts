@@ -2,7 +2,7 @@
 
 import { useCallback, useEffect, useMemo } from 'react';
 import { useLocalStorage } from './useLocalStorage';
-import type { FilterState, Issue, Severity, IssueStatus } from '@/lib/types';
+import type { ExtendedIssue, FilterState, Issue, Severity, IssueStatus } from '@/lib/types';
 import { DEFAULT_FILTER_STATE } from '@/lib/types';
 
 interface UseFiltersOptions {
@@ -245,6 +245,15 @@ export function useFilters(options: UseFiltersOptions = {}) {
         return false;
       }
 
+      // Status and tag filters apply to server-side triage state (ExtendedIssue)
+      const { status, tags, firstSeen, lastSeen } = issue as Partial<ExtendedIssue>;
+      if (filters.status.length > 0 && status && !filters.status.includes(status)) {
+        return false;
+      }
+      if (filters.tags.length > 0 && !(tags ?? []).some((tag) => filters.tags.includes(tag))) {
+        return false;
+      }
+
       // Priority range filter
       if (issue.priority < filters.priorityRange[0] || issue.priority > filters.priorityRange[1]) {
         return false;
@@ -258,9 +267,13 @@ export function useFilters(options: UseFiltersOptions = {}) {
         return false;
       }
 
-      // Date range filter (uses metadata.firstSeen or metadata.lastSeen)
+      // Date range filter (uses provider metadata, then the server's snapshot sightings)
       if (filters.dateRange.start !== null || filters.dateRange.end !== null) {
-        const issueDate = (issue.metadata?.firstSeen as string) || (issue.metadata?.lastSeen as string);
+        const issueDate =
+          (issue.metadata?.firstSeen as string) ||
+          (issue.metadata?.lastSeen as string) ||
+          firstSeen ||
+          lastSeen;
         if (issueDate) {
           if (filters.dateRange.start && issueDate < filters.dateRange.start) {
             return false;
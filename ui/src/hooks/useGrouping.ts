@@ -2,11 +2,13 @@
  * Hook for managing issue grouping state.
  *
  * Provides state management for grouping issues by different fields
- * (provider, severity, date, location) with collapsed group tracking.
+ * (provider, severity, date, location) or by correlated incident, with
+ * collapsed group tracking.
  */
 
 import { useCallback, useMemo } from 'react';
 import { useLocalStorage } from './useLocalStorage';
+import { correlateIssues } from '@/lib/correlation';
 import type { Issue, GroupBy, Severity } from '@/lib/types';
 import { SEVERITY_ORDER } from '@/lib/types';
 
@@ -15,6 +17,8 @@ export interface GroupedIssues {
   label: string;
   issues: Issue[];
   count: number;
+  /** Issue processed on behalf of the group (incident groups only) */
+  canonicalId?: string;
 }
 
 interface UseGroupingOptions {
@@ -53,7 +57,40 @@ interface UseGroupingReturn {
   collapsedCount: number;
 }
 
-const GROUP_BY_OPTIONS: GroupBy[] = [null, 'provider', 'severity', 'date', 'location'];
+const GROUP_BY_OPTIONS: GroupBy[] = [null, 'provider', 'severity', 'date', 'location', 'incident'];
+
+// Group key for issues without duplicates when grouping by incident
+const UNCORRELATED_GROUP_KEY = 'uncorrelated';
+
+/**
+ * Group issues into incidents of likely duplicates, largest first, followed
+ * by a single group of issues without duplicates.
+ */
+function groupByIncident(issues: Issue[]): GroupedIssues[] {
+  const incidents = correlateIssues(issues);
+  const correlated = new Set(incidents.flatMap((incident) => incident.issues.map((issue) => issue.id)));
+
+  const groups: GroupedIssues[] = incidents
+    .sort((a, b) => b.issues.length - a.issues.length)
+    .map((incident) => ({
+      key: incident.id,
+      label: incident.canonical.title,
+      issues: incident.issues,
+      count: incident.issues.length,
+      canonicalId: incident.canonical.id,
+    }));
+
+  const uncorrelated = issues.filter((issue) => !correlated.has(issue.id));
+  if (uncorrelated.length > 0) {
+    groups.push({
+      key: UNCORRELATED_GROUP_KEY,
+      label: 'No duplicates',
+      issues: uncorrelated,
+      count: uncorrelated.length,
+    });
+  }
+  return groups;
+}
 
 /**
  * Get a display label for a group key.
@@ -199,6 +236,10 @@ export function useGrouping(options: UseGroupingOptions = {}): UseGroupingReturn
       }];
     }
 
+    if (groupBy === 'incident') {
+      return groupByIncident(issues);
+    }
+
     // Group issues by the specified field
     const groups = new Map<string, Issue[]>();
 
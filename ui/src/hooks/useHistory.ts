@@ -14,6 +14,15 @@ export interface HistoryFilter {
   search?: string;
 }
 
+/**
+ * Server-side attempt an entry records, linking escalated attempts to the
+ * failed attempts they followed.
+ */
+export type HistoryAttempt = Pick<
+  HistoryEntry,
+  'jobId' | 'jobAttempts' | 'escalationLevel' | 'escalationStep' | 'escalatedFromJobId'
+>;
+
 export interface UseHistoryOptions {
   maxEntries?: number;
 }
@@ -29,12 +38,12 @@ export interface UseHistoryReturn {
   setFilter: (filter: HistoryFilter) => void;
   /** Clear all filters */
   clearFilter: () => void;
-  /** Add a new history entry */
+  /** Add a new history entry, unless its job attempt is already recorded for the issue */
   addEntry: (entry: Omit<HistoryEntry, 'id'>) => HistoryEntry;
   /** Add entry from issue completion */
-  recordCompletion: (issue: Issue, prUrl?: string) => HistoryEntry;
+  recordCompletion: (issue: Issue, prUrl?: string, attempt?: HistoryAttempt) => HistoryEntry;
   /** Add entry from issue failure */
-  recordFailure: (issue: Issue, error?: string) => HistoryEntry;
+  recordFailure: (issue: Issue, error?: string, attempt?: HistoryAttempt) => HistoryEntry;
   /** Remove a history entry by ID */
   removeEntry: (id: string) => void;
   /** Clear all history */
@@ -84,6 +93,13 @@ function saveToStorage(entries: HistoryEntry[]): void {
   }
 }
 
+function isRecordedAttempt(entries: HistoryEntry[], entry: Omit<HistoryEntry, 'id'>): boolean {
+  if (!entry.jobId) return false;
+  return entries.some(
+    (e) => e.jobId === entry.jobId && e.jobAttempts === entry.jobAttempts && e.issueId === entry.issueId
+  );
+}
+
 function applyFilter(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
   return entries.filter((entry) => {
     // Status filter
@@ -154,6 +170,8 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
     };
 
     setEntries((prev) => {
+      // Finished jobs are seen again after a reload or in another tab
+      if (isRecordedAttempt(prev, newEntry)) return prev;
       // Add to beginning (most recent first) and limit size
       const updated = [newEntry, ...prev].slice(0, maxEntries);
       return updated;
@@ -162,7 +180,7 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
     return newEntry;
   }, [maxEntries]);
 
-  const recordCompletion = useCallback((issue: Issue, prUrl?: string): HistoryEntry => {
+  const recordCompletion = useCallback((issue: Issue, prUrl?: string, attempt?: HistoryAttempt): HistoryEntry => {
     const now = new Date().toISOString();
     return addEntry({
       issueId: issue.id,
@@ -174,10 +192,11 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
       completedAt: now,
       duration: 0, // Will be updated if we track actual duration
       prUrl,
+      ...attempt,
     });
   }, [addEntry]);
 
-  const recordFailure = useCallback((issue: Issue, error?: string): HistoryEntry => {
+  const recordFailure = useCallback((issue: Issue, error?: string, attempt?: HistoryAttempt): HistoryEntry => {
     const now = new Date().toISOString();
     return addEntry({
       issueId: issue.id,
@@ -189,6 +208,7 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
       completedAt: now,
       duration: 0,
       error: error || 'Processing failed',
+      ...attempt,
     });
   }, [addEntry]);
 
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { IssueDiff } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseIssueDiffOptions {
+  /** Skip fetching (e.g. while the diff isn't visible) */
+  enabled?: boolean;
+  /** Re-fetch whenever this value changes, e.g. the issue's current status */
+  refreshKey?: string;
+}
+
+export interface UseIssueDiffReturn {
+  /** Changes of the issue's latest build run, or null until loaded */
+  diff: IssueDiff | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Re-fetch the diff */
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load what the issue's latest build run changed from
+ * `GET /api/issues/:id/diff`.
+ */
+export function useIssueDiff(
+  issueId: string | null,
+  { enabled = true, refreshKey }: UseIssueDiffOptions = {}
+): UseIssueDiffReturn {
+  const [diff, setDiff] = useState<IssueDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!issueId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/issues/${encodeURIComponent(issueId)}/diff`);
+      const data = await response.json();
+      if (!response.ok) {
+        // The server explains why there's nothing to show, e.g. no build run yet
+        throw new Error(data.error || `Failed to load changes: ${response.statusText}`);
+      }
+      setDiff(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [issueId]);
+
+  // Drop the previous issue's diff when switching issues
+  useEffect(() => {
+    setDiff(null);
+  }, [issueId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh, refreshKey]);
+
+  return { diff, isLoading, error, refresh };
+}
+
+export default useIssueDiff;
@@ -0,0 +1,71 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { IssueTimeline } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseIssueTimelineOptions {
+  /** Skip fetching (e.g. while the timeline isn't visible) */
+  enabled?: boolean;
+  /** Re-fetch whenever this value changes, e.g. the issue's current status */
+  refreshKey?: string;
+}
+
+export interface UseIssueTimelineReturn {
+  /** Lifecycle of the issue, or null until loaded */
+  timeline: IssueTimeline | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Re-fetch the timeline */
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load the status change history of an issue from
+ * `GET /api/issues/:id/timeline`.
+ */
+export function useIssueTimeline(
+  issueId: string | null,
+  { enabled = true, refreshKey }: UseIssueTimelineOptions = {}
+): UseIssueTimelineReturn {
+  const [timeline, setTimeline] = useState<IssueTimeline | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!issueId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/issues/${encodeURIComponent(issueId)}/timeline`);
+      if (!response.ok) {
+        throw new Error(`Failed to load timeline: ${response.statusText}`);
+      }
+      setTimeline(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [issueId]);
+
+  // Drop the previous issue's timeline when switching issues
+  useEffect(() => {
+    setTimeline(null);
+  }, [issueId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh, refreshKey]);
+
+  return { timeline, isLoading, error, refresh };
+}
+
+export default useIssueTimeline;
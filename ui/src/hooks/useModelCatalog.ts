@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_MODEL_ROUTING_RULES, type ModelCatalog, type ModelRoutingRule } from '@/lib/models';
+import { MODEL_INFO } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseModelCatalogOptions {
+  /** Skip fetching (e.g. while the options panel is closed) */
+  enabled?: boolean;
+}
+
+export interface UseModelCatalogReturn {
+  /** Available models; the built-ins until the config has loaded */
+  models: ModelCatalog;
+  /** Rules that pick a model per issue */
+  rules: ModelRoutingRule[];
+  isLoading: boolean;
+  error: string | null;
+  /** Re-fetch the catalog */
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load the model catalog and routing rules (`GET /api/settings/models`).
+ */
+export function useModelCatalog({ enabled = true }: UseModelCatalogOptions = {}): UseModelCatalogReturn {
+  const [models, setModels] = useState<ModelCatalog>(MODEL_INFO);
+  const [rules, setRules] = useState<ModelRoutingRule[]>(DEFAULT_MODEL_ROUTING_RULES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings/models');
+      if (!response.ok) {
+        throw new Error(`Failed to load models: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setModels(data.models || MODEL_INFO);
+      setRules(data.rules || DEFAULT_MODEL_ROUTING_RULES);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return { models, rules, isLoading, error, refresh };
+}
+
+export default useModelCatalog;
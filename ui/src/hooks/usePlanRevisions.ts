@@ -0,0 +1,72 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PlanRevision } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsePlanRevisionsOptions {
+  /** Skip fetching (e.g. while the history isn't visible) */
+  enabled?: boolean;
+  /** Re-fetch whenever this value changes, e.g. the current revision */
+  refreshKey?: string | number;
+}
+
+export interface UsePlanRevisionsReturn {
+  /** Revisions of the issue's plan, oldest first */
+  revisions: PlanRevision[];
+  isLoading: boolean;
+  error: string | null;
+  /** Re-fetch the revisions */
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load the revision history of an issue's plan from
+ * `GET /api/plan/:issueId/revisions`.
+ */
+export function usePlanRevisions(
+  issueId: string | null,
+  { enabled = true, refreshKey }: UsePlanRevisionsOptions = {}
+): UsePlanRevisionsReturn {
+  const [revisions, setRevisions] = useState<PlanRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!issueId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/plan/${encodeURIComponent(issueId)}/revisions`);
+      if (!response.ok) {
+        throw new Error(`Failed to load plan revisions: ${response.statusText}`);
+      }
+      const data = (await response.json()) as { revisions: PlanRevision[] };
+      setRevisions(data.revisions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [issueId]);
+
+  // Drop the previous issue's revisions when switching issues
+  useEffect(() => {
+    setRevisions([]);
+  }, [issueId]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh, refreshKey]);
+
+  return { revisions, isLoading, error, refresh };
+}
+
+export default usePlanRevisions;
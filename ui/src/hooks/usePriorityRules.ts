@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  createPriorityRule,
+  type PriorityRule,
+  type RuleValidationError,
+} from '@/lib/priority-rules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsePriorityRulesReturn {
+  /** Rules as saved on the server */
+  savedRules: PriorityRule[];
+  /** Rules being edited (previewed before saving) */
+  rules: PriorityRule[];
+  /** Add a new rule at the end */
+  addRule: () => PriorityRule;
+  /** Update fields of a rule */
+  updateRule: (id: string, updates: Partial<Omit<PriorityRule, 'id'>>) => void;
+  /** Remove a rule */
+  removeRule: (id: string) => void;
+  /** Move a rule up (-1) or down (1); rules apply in order */
+  moveRule: (id: string, offset: -1 | 1) => void;
+  /** Discard unsaved edits */
+  resetRules: () => void;
+  /** Save the edited rules; returns whether the server accepted them */
+  saveRules: () => Promise<boolean>;
+  /** Whether the edited rules differ from the saved ones */
+  isDirty: boolean;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Field errors from the last rejected save */
+  validationErrors: RuleValidationError[];
+}
+
+const RULES_URL = '/api/settings/priority-rules';
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load, edit and save the server-side priority scoring rules.
+ *
+ * Edits stay local until saved, so the settings page can preview their
+ * effect on the ranking first.
+ */
+export function usePriorityRules(): UsePriorityRulesReturn {
+  const [savedRules, setSavedRules] = useState<PriorityRule[]>([]);
+  const [rules, setRules] = useState<PriorityRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<RuleValidationError[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(RULES_URL);
+        if (!response.ok) {
+          throw new Error(`Failed to load priority rules: ${response.statusText}`);
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          setSavedRules(data.rules || []);
+          setRules(data.rules || []);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const addRule = useCallback(() => {
+    const rule = createPriorityRule();
+    setRules((prev) => [...prev, rule]);
+    return rule;
+  }, []);
+
+  const updateRule = useCallback((id: string, updates: Partial<Omit<PriorityRule, 'id'>>) => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules((prev) => prev.filter((rule) => rule.id !== id));
+  }, []);
+
+  const moveRule = useCallback((id: string, offset: -1 | 1) => {
+    setRules((prev) => {
+      const index = prev.findIndex((rule) => rule.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const resetRules = useCallback(() => {
+    setRules(savedRules);
+    setValidationErrors([]);
+  }, [savedRules]);
+
+  const saveRules = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    setValidationErrors([]);
+    try {
+      const response = await fetch(RULES_URL, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setValidationErrors(data.errors || []);
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setSavedRules(data.rules);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [rules]);
+
+  const isDirty = useMemo(
+    () => JSON.stringify(rules) !== JSON.stringify(savedRules),
+    [rules, savedRules]
+  );
+
+  return {
+    savedRules,
+    rules,
+    addRule,
+    updateRule,
+    removeRule,
+    moveRule,
+    resetRules,
+    saveRules,
+    isDirty,
+    isLoading,
+    isSaving,
+    error,
+    validationErrors,
+  };
+}
+
+export default usePriorityRules;
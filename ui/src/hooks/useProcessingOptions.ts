@@ -7,6 +7,8 @@ import type {
   ProcessingPreset,
   CostEstimate,
   Issue,
+  ModelType,
+  RunRecord,
 } from '@/lib/types';
 import {
   DEFAULT_PROCESSING_OPTIONS,
@@ -14,6 +16,8 @@ import {
   estimateCost,
   MODEL_INFO,
 } from '@/lib/types';
+import { combineEstimates, estimateProcessing, type EstimateIssue } from '@/lib/estimates';
+import { DEFAULT_MODEL_ROUTING_RULES, routeModel, type ModelCatalog, type ModelRoutingRule } from '@/lib/models';
 
 /**
  * Options for the useProcessingOptions hook.
@@ -23,6 +27,10 @@ export interface UseProcessingOptionsOptions {
   defaultOptions?: ProcessingOptions;
   /** localStorage key for persisting options */
   storageKey?: string;
+  /** Model catalog (from useModelCatalog); defaults to the built-in models */
+  models?: ModelCatalog;
+  /** Rules that pick each issue's model when `autoModel` is on */
+  routingRules?: ModelRoutingRule[];
 }
 
 /**
@@ -46,12 +54,17 @@ export interface UseProcessingOptionsReturn {
   currentPresetId: string | null;
   /** Available presets */
   presets: ProcessingPreset[];
-  /** Estimate cost for given issues */
-  getCostEstimate: (issueCount: number) => CostEstimate;
+  /**
+   * Estimate cost for given issues: learned from past runs when given the
+   * issues and run history, otherwise from the fixed formula
+   */
+  getCostEstimate: (issues: number | EstimateIssue[], runs?: RunRecord[]) => CostEstimate;
+  /** Model an issue will be processed with: routed when `autoModel` is on */
+  getIssueModel: (issue: EstimateIssue) => ModelType;
   /** Get validation warnings for current options and selected issues */
   getValidationWarnings: (selectedIssues: Issue[]) => string[];
-  /** Model information for UI display */
-  modelInfo: typeof MODEL_INFO;
+  /** Model catalog for UI display */
+  modelInfo: ModelCatalog;
 }
 
 /**
@@ -64,6 +77,8 @@ export function useProcessingOptions(
   const {
     defaultOptions = DEFAULT_PROCESSING_OPTIONS,
     storageKey = 'meta-ralph-processing-options',
+    models = MODEL_INFO,
+    routingRules = DEFAULT_MODEL_ROUTING_RULES,
   } = hookOptions;
 
   const [options, setOptionsStorage] = useLocalStorage<ProcessingOptions>(
@@ -102,13 +117,20 @@ export function useProcessingOptions(
   }, [setOptionsStorage, defaultOptions]);
 
   /**
-   * Apply a preset by ID.
+   * Apply a preset by ID, with its escalation policy. Presets don't set
+   * concurrency, budget limits or model routing, so those are kept.
    */
   const applyPreset = useCallback(
     (presetId: string) => {
       const preset = DEFAULT_PRESETS.find((p) => p.id === presetId);
       if (preset) {
-        setOptionsStorage(preset.options);
+        setOptionsStorage(({ concurrency, budget, autoModel }) => ({
+          ...preset.options,
+          escalation: preset.escalation,
+          ...(concurrency !== undefined && { concurrency }),
+          ...(budget !== undefined && { budget }),
+          ...(autoModel !== undefined && { autoModel }),
+        }));
       }
     },
     [setOptionsStorage]
@@ -125,6 +147,7 @@ export function useProcessingOptions(
         options.model === presetOptions.model &&
         options.maxIterations === presetOptions.maxIterations &&
         options.autoPush === presetOptions.autoPush &&
+        !!options.reviewBeforePush === !!presetOptions.reviewBeforePush &&
         options.ciAwareness === presetOptions.ciAwareness &&
         options.autoFixCi === presetOptions.autoFixCi
       ) {
@@ -135,13 +158,45 @@ export function useProcessingOptions(
   }, [options]);
 
   /**
-   * Calculate cost estimate for given number of issues.
+   * Model for an issue: the routing rules' pick when auto-routing,
+   * otherwise the selected model.
+   */
+  const getIssueModel = useCallback(
+    (issue: EstimateIssue): ModelType =>
+      options.autoModel ? routeModel(issue, routingRules, models, options.model) : options.model,
+    [options.autoModel, options.model, routingRules, models]
+  );
+
+  /**
+   * Calculate cost estimate for given issues (or number of issues).
+   * With auto-routing each model's issues are estimated separately.
    */
   const getCostEstimate = useCallback(
-    (issueCount: number): CostEstimate => {
-      return estimateCost(options, issueCount);
+    (issues: number | EstimateIssue[], runs: RunRecord[] = []): CostEstimate => {
+      if (typeof issues === 'number') {
+        return estimateCost(options, issues, undefined, models);
+      }
+      if (!options.autoModel) {
+        return estimateProcessing(options, issues, runs, models);
+      }
+
+      const byModel = new Map<ModelType, EstimateIssue[]>();
+      for (const issue of issues) {
+        const model = getIssueModel(issue);
+        byModel.set(model, [...(byModel.get(model) ?? []), issue]);
+      }
+      if (byModel.size <= 1) {
+        const [model = options.model] = byModel.keys();
+        return estimateProcessing({ ...options, model }, issues, runs, models);
+      }
+      return combineEstimates(
+        Array.from(byModel, ([model, group]) => ({
+          estimate: estimateProcessing({ ...options, model }, group, runs, models),
+          issueCount: group.length,
+        }))
+      );
     },
-    [options]
+    [options, models, getIssueModel]
   );
 
   /**
@@ -151,18 +206,19 @@ export function useProcessingOptions(
     (selectedIssues: Issue[]): string[] => {
       const warnings: string[] = [];
       const issueCount = selectedIssues.length;
+      const opusIssues = selectedIssues.filter((i) => getIssueModel(i) === 'opus');
 
       // Warning: Using Opus on many issues
-      if (options.model === 'opus' && issueCount > 5) {
-        const estimate = estimateCost(options, issueCount);
+      if (opusIssues.length > 5) {
+        const estimate = estimateCost({ ...options, model: 'opus' }, opusIssues.length, undefined, models);
         warnings.push(
-          `Using Opus for ${issueCount} issues may cost ~$${estimate.average.toFixed(2)}`
+          `Using Opus for ${opusIssues.length} issues may cost ~$${estimate.average.toFixed(2)}`
         );
       }
 
       // Warning: Using Opus on simple issues (LOW/INFO severity)
-      if (options.model === 'opus') {
-        const simpleIssues = selectedIssues.filter(
+      if (opusIssues.length > 0) {
+        const simpleIssues = opusIssues.filter(
           (i) => i.severity === 'LOW' || i.severity === 'INFO'
         );
         if (simpleIssues.length > 0) {
@@ -193,7 +249,7 @@ export function useProcessingOptions(
 
       return warnings;
     },
-    [options]
+    [options, models, getIssueModel]
   );
 
   return {
@@ -205,7 +261,8 @@ export function useProcessingOptions(
     currentPresetId,
     presets: DEFAULT_PRESETS,
     getCostEstimate,
+    getIssueModel,
     getValidationWarnings,
-    modelInfo: MODEL_INFO,
+    modelInfo: models,
   };
 }
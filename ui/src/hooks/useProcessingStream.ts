@@ -12,6 +12,7 @@ import {
   StreamEvent,
   Activity,
   ExecutionMetrics,
+  PlanProgress,
   StreamConnectionState,
 } from '@/lib/types';
 import { parseSSE } from '@/lib/events';
@@ -40,6 +41,8 @@ export interface UseProcessingStreamReturn {
   activities: Map<string, Activity[]>;
   /** Current metrics by issue ID */
   metrics: Map<string, ExecutionMetrics>;
+  /** Progress against the approved plan by issue ID, for builds that follow one */
+  planProgress: Map<string, PlanProgress>;
   /** Error message if connection failed */
   error: string | null;
   /** Completed issue IDs */
@@ -72,6 +75,7 @@ export function useProcessingStream({
   // Event data
   const [activities, setActivities] = useState<Map<string, Activity[]>>(new Map());
   const [metrics, setMetrics] = useState<Map<string, ExecutionMetrics>>(new Map());
+  const [planProgress, setPlanProgress] = useState<Map<string, PlanProgress>>(new Map());
   const [completedIssues, setCompletedIssues] = useState<Set<string>>(new Set());
   const [failedIssues, setFailedIssues] = useState<Map<string, string>>(new Map());
 
@@ -168,6 +172,14 @@ export function useProcessingStream({
           });
           break;
 
+        case 'plan_progress':
+          setPlanProgress((prev) => {
+            const next = new Map(prev);
+            next.set(issueId, payload as PlanProgress);
+            return next;
+          });
+          break;
+
         case 'complete':
           setCompletedIssues((prev) => {
             const next = new Set(prev);
@@ -184,7 +196,9 @@ export function useProcessingStream({
           });
           break;
 
+        // budget_exceeded: stopped for going over a spend limit, with the message in `error`
         case 'error':
+        case 'budget_exceeded':
           setFailedIssues((prev) => {
             const next = new Map(prev);
             next.set(issueId, (payload as { error: string }).error);
@@ -293,6 +307,7 @@ export function useProcessingStream({
   const clear = useCallback(() => {
     setActivities(new Map());
     setMetrics(new Map());
+    setPlanProgress(new Map());
     setCompletedIssues(new Set());
     setFailedIssues(new Map());
     pendingActivities.current.clear();
@@ -320,6 +335,7 @@ export function useProcessingStream({
     connectionState,
     activities,
     metrics,
+    planProgress,
     error,
     completedIssues,
     failedIssues,
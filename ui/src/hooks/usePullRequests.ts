@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TrackedPullRequest } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsePullRequestsOptions {
+  /** Skip fetching (e.g. while the history panel is closed) */
+  enabled?: boolean;
+  /** Re-fetch whenever this value changes, e.g. the number of finished runs */
+  refreshKey?: string | number;
+}
+
+export interface UsePullRequestsReturn {
+  /** PRs tracked on the server, newest first */
+  pullRequests: TrackedPullRequest[];
+  isLoading: boolean;
+  error: string | null;
+  /** Re-fetch the PRs; with `poll` the server fetches their state first */
+  refresh: (poll?: boolean) => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load the PRs build runs opened, with the state the server's PR poller
+ * last saw (`GET /api/pull-requests`).
+ */
+export function usePullRequests({ enabled = true, refreshKey }: UsePullRequestsOptions = {}): UsePullRequestsReturn {
+  const [pullRequests, setPullRequests] = useState<TrackedPullRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async (poll = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/pull-requests${poll ? '?refresh=true' : ''}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load pull requests: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setPullRequests(data.pullRequests || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh, refreshKey]);
+
+  return { pullRequests, isLoading, error, refresh };
+}
+
+export default usePullRequests;
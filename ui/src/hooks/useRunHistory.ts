@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RunRecord } from '@/lib/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseRunHistoryOptions {
+  /** Skip fetching (e.g. while the options panel is closed) */
+  enabled?: boolean;
+}
+
+export interface UseRunHistoryReturn {
+  /** Recorded runs, oldest first */
+  runs: RunRecord[];
+  isLoading: boolean;
+  error: string | null;
+  /** Re-fetch the runs */
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Hook Implementation
+// ============================================================================
+
+/**
+ * Load the server-side run history (`GET /api/runs`) that cost and
+ * duration estimates are learned from.
+ */
+export function useRunHistory({ enabled = true }: UseRunHistoryOptions = {}): UseRunHistoryReturn {
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/runs');
+      if (!response.ok) {
+        throw new Error(`Failed to load run history: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setRuns(data.runs || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return { runs, isLoading, error, refresh };
+}
+
+export default useRunHistory;
@@ -82,6 +82,7 @@ export function useSort(storageKey: string = 'meta-ralph-sort') {
     sorted.sort((a, b) => {
       switch (sort.field) {
         case 'priority':
+          // Already includes triage overrides and priority rules (applied by /api/issues)
           return (a.priority - b.priority) * multiplier;
         case 'severity':
           return (SEVERITY_SORT_ORDER[a.severity] - SEVERITY_SORT_ORDER[b.severity]) * multiplier;
@@ -1,93 +1,65 @@
 'use client';
 
 import { useCallback, useMemo } from 'react';
-import { useLocalStorage } from './useLocalStorage';
-import type { Tag } from '@/lib/types';
+import { useBulkActions } from './useBulkActions';
+import type { ExtendedIssue, Issue, Tag } from '@/lib/types';
 import { TAG_COLORS } from '@/lib/types';
 
-const STORAGE_KEY = 'meta-ralph-tags';
-const ISSUE_TAGS_KEY = 'meta-ralph-issue-tags';
-
 interface IssueTagsMap {
-  [issueId: string]: string[]; // Array of tag IDs
+  [issueId: string]: string[]; // Tag names
+}
+
+export interface UseTagsOptions {
+  /** Issues as returned by /api/issues, with server-side tags merged in */
+  issues: Issue[];
+  /** Called after tags change, e.g. to re-fetch the issues */
+  onChange?: () => void | Promise<void>;
+}
+
+/**
+ * Pick a stable color for a tag name, so every client shows it the same.
+ */
+export function getTagColor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
 }
 
 /**
- * Hook for managing tags and issue-tag associations.
+ * Hook for reading and changing issue tags.
+ *
+ * Tags are stored server-side (see triage-store.ts) and read from the
+ * issues' `tags`; changes go through `POST /api/issues/bulk`. A tag is
+ * identified by its name.
  *
- * @returns Object with tag state and management functions
+ * @returns Object with tag state and tagging functions
  *
  * @example
- * const { tags, createTag, deleteTag, getIssueTags, addTagToIssue } = useTags();
+ * const { tags, getIssueTags, addTagToIssue } = useTags({ issues, onChange: fetchIssues });
  */
-export function useTags() {
-  const [tags, setTags] = useLocalStorage<Tag[]>(STORAGE_KEY, []);
-  const [issueTags, setIssueTags] = useLocalStorage<IssueTagsMap>(ISSUE_TAGS_KEY, {});
-
-  /**
-   * Generate a unique ID for a tag.
-   */
-  const generateId = useCallback(() => {
-    return `tag_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
-  }, []);
-
-  /**
-   * Get a random color from the predefined colors.
-   */
-  const getRandomColor = useCallback(() => {
-    return TAG_COLORS[Math.floor(Math.random() * TAG_COLORS.length)];
-  }, []);
-
-  /**
-   * Create a new tag.
-   */
-  const createTag = useCallback((name: string, color?: string): Tag => {
-    const newTag: Tag = {
-      id: generateId(),
-      name: name.trim(),
-      color: color || getRandomColor(),
-    };
-
-    setTags((prev) => [...prev, newTag]);
-    return newTag;
-  }, [generateId, getRandomColor, setTags]);
-
-  /**
-   * Update an existing tag.
-   */
-  const updateTag = useCallback((id: string, updates: Partial<Omit<Tag, 'id'>>) => {
-    setTags((prev) =>
-      prev.map((tag) =>
-        tag.id === id ? { ...tag, ...updates } : tag
-      )
-    );
-  }, [setTags]);
-
-  /**
-   * Delete a tag and remove it from all issues.
-   */
-  const deleteTag = useCallback((id: string) => {
-    setTags((prev) => prev.filter((tag) => tag.id !== id));
-
-    // Remove tag from all issues
-    setIssueTags((prev) => {
-      const updated: IssueTagsMap = {};
-      for (const [issueId, tagIds] of Object.entries(prev)) {
-        const filtered = tagIds.filter((tagId) => tagId !== id);
-        if (filtered.length > 0) {
-          updated[issueId] = filtered;
-        }
+export function useTags({ issues, onChange }: UseTagsOptions) {
+  const { addTags, removeTags, isPending, error } = useBulkActions({ onChange });
+
+  const issueTags = useMemo(() => {
+    const map: IssueTagsMap = {};
+    for (const issue of issues) {
+      const tags = (issue as Partial<ExtendedIssue>).tags ?? [];
+      if (tags.length > 0) {
+        map[issue.id] = [...new Set([...(map[issue.id] ?? []), ...tags])];
       }
-      return updated;
-    });
-  }, [setTags, setIssueTags]);
+    }
+    return map;
+  }, [issues]);
 
-  /**
-   * Get a tag by ID.
-   */
-  const getTag = useCallback((id: string): Tag | undefined => {
-    return tags.find((tag) => tag.id === id);
-  }, [tags]);
+  const tags = useMemo<Tag[]>(
+    () =>
+      [...new Set(Object.values(issueTags).flat())]
+        .sort()
+        .map((name) => ({ id: name, name, color: getTagColor(name) })),
+    [issueTags]
+  );
 
   /**
    * Get a tag by name (case-insensitive).
@@ -104,129 +76,63 @@ export function useTags() {
     return getTagByName(name) !== undefined;
   }, [getTagByName]);
 
-  /**
-   * Get or create a tag by name.
-   */
-  const getOrCreateTag = useCallback((name: string, color?: string): Tag => {
-    const existing = getTagByName(name);
-    if (existing) {
-      return existing;
-    }
-    return createTag(name, color);
-  }, [getTagByName, createTag]);
-
   /**
    * Get tags for a specific issue.
    */
   const getIssueTags = useCallback((issueId: string): Tag[] => {
-    const tagIds = issueTags[issueId] || [];
-    return tagIds
-      .map((id) => tags.find((t) => t.id === id))
-      .filter((t): t is Tag => t !== undefined);
-  }, [issueTags, tags]);
+    return (issueTags[issueId] || []).map((name) => ({ id: name, name, color: getTagColor(name) }));
+  }, [issueTags]);
 
   /**
-   * Get tag IDs for a specific issue.
+   * Check if an issue has a specific tag.
    */
-  const getIssueTagIds = useCallback((issueId: string): string[] => {
-    return issueTags[issueId] || [];
+  const issueHasTag = useCallback((issueId: string, tagName: string): boolean => {
+    return (issueTags[issueId] || []).includes(tagName);
   }, [issueTags]);
 
   /**
    * Add a tag to an issue.
    */
-  const addTagToIssue = useCallback((issueId: string, tagId: string) => {
-    setIssueTags((prev) => {
-      const currentTags = prev[issueId] || [];
-      if (currentTags.includes(tagId)) {
-        return prev; // Already has this tag
-      }
-      return {
-        ...prev,
-        [issueId]: [...currentTags, tagId],
-      };
-    });
-  }, [setIssueTags]);
+  const addTagToIssue = useCallback((issueId: string, tagName: string) => {
+    return addTags([issueId], [tagName.trim()]);
+  }, [addTags]);
 
   /**
    * Remove a tag from an issue.
    */
-  const removeTagFromIssue = useCallback((issueId: string, tagId: string) => {
-    setIssueTags((prev) => {
-      const currentTags = prev[issueId] || [];
-      const filtered = currentTags.filter((id) => id !== tagId);
-      if (filtered.length === 0) {
-        const { [issueId]: _, ...rest } = prev;
-        return rest;
-      }
-      return {
-        ...prev,
-        [issueId]: filtered,
-      };
-    });
-  }, [setIssueTags]);
+  const removeTagFromIssue = useCallback((issueId: string, tagName: string) => {
+    return removeTags([issueId], [tagName]);
+  }, [removeTags]);
 
   /**
    * Toggle a tag on an issue.
    */
-  const toggleTagOnIssue = useCallback((issueId: string, tagId: string) => {
-    const currentTags = issueTags[issueId] || [];
-    if (currentTags.includes(tagId)) {
-      removeTagFromIssue(issueId, tagId);
-    } else {
-      addTagToIssue(issueId, tagId);
-    }
-  }, [issueTags, addTagToIssue, removeTagFromIssue]);
-
-  /**
-   * Check if an issue has a specific tag.
-   */
-  const issueHasTag = useCallback((issueId: string, tagId: string): boolean => {
-    const currentTags = issueTags[issueId] || [];
-    return currentTags.includes(tagId);
-  }, [issueTags]);
+  const toggleTagOnIssue = useCallback((issueId: string, tagName: string) => {
+    return issueHasTag(issueId, tagName)
+      ? removeTagFromIssue(issueId, tagName)
+      : addTagToIssue(issueId, tagName);
+  }, [issueHasTag, addTagToIssue, removeTagFromIssue]);
 
   /**
    * Add multiple tags to multiple issues (bulk operation).
    */
-  const bulkAddTags = useCallback((issueIds: string[], tagIds: string[]) => {
-    setIssueTags((prev) => {
-      const updated = { ...prev };
-      for (const issueId of issueIds) {
-        const currentTags = updated[issueId] || [];
-        const newTags = [...new Set([...currentTags, ...tagIds])];
-        updated[issueId] = newTags;
-      }
-      return updated;
-    });
-  }, [setIssueTags]);
+  const bulkAddTags = useCallback((issueIds: string[], tagNames: string[]) => {
+    return addTags(issueIds, tagNames.map((name) => name.trim()).filter(Boolean));
+  }, [addTags]);
 
   /**
    * Remove multiple tags from multiple issues (bulk operation).
    */
-  const bulkRemoveTags = useCallback((issueIds: string[], tagIds: string[]) => {
-    setIssueTags((prev) => {
-      const updated: IssueTagsMap = {};
-      for (const [issueId, currentTags] of Object.entries(prev)) {
-        if (issueIds.includes(issueId)) {
-          const filtered = currentTags.filter((id) => !tagIds.includes(id));
-          if (filtered.length > 0) {
-            updated[issueId] = filtered;
-          }
-        } else {
-          updated[issueId] = currentTags;
-        }
-      }
-      return updated;
-    });
-  }, [setIssueTags]);
+  const bulkRemoveTags = useCallback((issueIds: string[], tagNames: string[]) => {
+    return removeTags(issueIds, tagNames);
+  }, [removeTags]);
 
   /**
    * Get all issues that have a specific tag.
    */
-  const getIssuesByTag = useCallback((tagId: string): string[] => {
+  const getIssuesByTag = useCallback((tagName: string): string[] => {
     return Object.entries(issueTags)
-      .filter(([, tagIds]) => tagIds.includes(tagId))
+      .filter(([, names]) => names.includes(tagName))
       .map(([issueId]) => issueId);
   }, [issueTags]);
 
@@ -235,18 +141,13 @@ export function useTags() {
    */
   const tagUsageCounts = useMemo(() => {
     const counts: Record<string, number> = {};
-    for (const tag of tags) {
-      counts[tag.id] = 0;
-    }
-    for (const tagIds of Object.values(issueTags)) {
-      for (const tagId of tagIds) {
-        if (counts[tagId] !== undefined) {
-          counts[tagId]++;
-        }
+    for (const names of Object.values(issueTags)) {
+      for (const name of names) {
+        counts[name] = (counts[name] ?? 0) + 1;
       }
     }
     return counts;
-  }, [tags, issueTags]);
+  }, [issueTags]);
 
   /**
    * Search tags by name.
@@ -259,80 +160,19 @@ export function useTags() {
     return tags.filter((tag) => tag.name.toLowerCase().includes(normalizedQuery));
   }, [tags]);
 
-  /**
-   * Export tags as JSON string.
-   */
-  const exportTags = useCallback((): string => {
-    return JSON.stringify({ tags, issueTags }, null, 2);
-  }, [tags, issueTags]);
-
-  /**
-   * Import tags from JSON string.
-   */
-  const importTags = useCallback((jsonString: string): number => {
-    try {
-      const data = JSON.parse(jsonString);
-      if (!data.tags || !Array.isArray(data.tags)) {
-        throw new Error('Invalid tags format');
-      }
-
-      // Generate new IDs for imported tags and update issue associations
-      const idMapping: Record<string, string> = {};
-      const newTags = data.tags.map((tag: Tag) => {
-        const newId = generateId();
-        idMapping[tag.id] = newId;
-        return { ...tag, id: newId };
-      });
-
-      // Update issue tags with new IDs
-      const newIssueTags: IssueTagsMap = {};
-      if (data.issueTags && typeof data.issueTags === 'object') {
-        for (const [issueId, tagIds] of Object.entries(data.issueTags)) {
-          if (Array.isArray(tagIds)) {
-            const mappedIds = tagIds
-              .map((id) => idMapping[id as string])
-              .filter((id): id is string => id !== undefined);
-            if (mappedIds.length > 0) {
-              newIssueTags[issueId] = mappedIds;
-            }
-          }
-        }
-      }
-
-      setTags((prev) => [...prev, ...newTags]);
-      setIssueTags((prev) => ({ ...prev, ...newIssueTags }));
-
-      return newTags.length;
-    } catch {
-      throw new Error('Failed to parse tags JSON');
-    }
-  }, [generateId, setTags, setIssueTags]);
-
-  /**
-   * Clear all tags and associations.
-   */
-  const clearAll = useCallback(() => {
-    setTags([]);
-    setIssueTags({});
-  }, [setTags, setIssueTags]);
-
   return {
     // State
     tags,
     issueTags,
+    isPending,
+    error,
 
-    // Tag CRUD
-    createTag,
-    updateTag,
-    deleteTag,
-    getTag,
+    // Lookups
     getTagByName,
     tagExists,
-    getOrCreateTag,
 
     // Issue-Tag associations
     getIssueTags,
-    getIssueTagIds,
     addTagToIssue,
     removeTagFromIssue,
     toggleTagOnIssue,
@@ -346,10 +186,5 @@ export function useTags() {
     getIssuesByTag,
     tagUsageCounts,
     searchTags,
-
-    // Import/Export
-    exportTags,
-    importTags,
-    clearAll,
   };
 }
@@ -0,0 +1,62 @@
+/**
+ * Tests for run branch diffs, against a throwaway repository.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getBranchDiff } from '../branch-diff';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-C', cwd, '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+    encoding: 'utf-8',
+  }).trim();
+}
+
+describe('getBranchDiff', () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-diff-'));
+    git(repo, 'init', '-q', '-b', 'main');
+    fs.writeFileSync(path.join(repo, 'app.ts'), 'const a = 1;\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'init');
+
+    git(repo, 'checkout', '-q', '-b', 'fix/issue-1');
+    fs.writeFileSync(path.join(repo, 'app.ts'), 'const a = 2;\n');
+    fs.writeFileSync(path.join(repo, 'test.ts'), 'test();\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'fix');
+    git(repo, 'checkout', '-q', 'main');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('diffs the branch against its base', async () => {
+    const diff = await getBranchDiff(repo, 'issue-1', { branch: 'fix/issue-1', baseBranch: 'main' });
+
+    expect(diff).toMatchObject({ issueId: 'issue-1', branch: 'fix/issue-1', additions: 2, deletions: 1 });
+    expect(diff?.files.map((f) => [f.path, f.status])).toEqual([
+      ['app.ts', 'modified'],
+      ['test.ts', 'added'],
+    ]);
+    expect(diff?.diff).toContain('+const a = 2;');
+  });
+
+  it('ignores commits made to the base branch since the run', async () => {
+    fs.writeFileSync(path.join(repo, 'other.ts'), 'other();\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'unrelated');
+
+    const diff = await getBranchDiff(repo, 'issue-1', { branch: 'fix/issue-1', baseBranch: 'main' });
+    expect(diff?.files.map((f) => f.path)).toEqual(['app.ts', 'test.ts']);
+  });
+
+  it('returns null when a branch is missing', async () => {
+    expect(await getBranchDiff(repo, 'issue-1', { branch: 'gone', baseBranch: 'main' })).toBeNull();
+  });
+});
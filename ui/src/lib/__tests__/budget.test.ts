@@ -0,0 +1,111 @@
+/**
+ * Tests for budget limit checks and the server-side budget store.
+ */
+
+import {
+  findBudgetViolation,
+  getBatchBudget,
+  getRemainingBudget,
+  validateBudgetLimit,
+} from '../budget';
+import { BudgetStore } from '../budget-store';
+
+const noSpend = { issueUsd: 0, batchUsd: 0, dayUsd: 0 };
+
+describe('findBudgetViolation', () => {
+  it('returns null without limits or under them', () => {
+    expect(findBudgetViolation({}, { issueUsd: 5, batchUsd: 5, dayUsd: 5 })).toBeNull();
+    expect(findBudgetViolation({ perIssueUsd: 1, perDayUsd: 10 }, { ...noSpend, issueUsd: 0.5 })).toBeNull();
+  });
+
+  it('reports the narrowest limit that was reached', () => {
+    const violation = findBudgetViolation(
+      { perIssueUsd: 1, perBatchUsd: 2, perDayUsd: 3 },
+      { issueUsd: 1.5, batchUsd: 2.5, dayUsd: 2.5 }
+    );
+    expect(violation).toEqual({
+      scope: 'issue',
+      limitUsd: 1,
+      spentUsd: 1.5,
+      error: 'Per-issue budget of $1.00 exceeded (spent $1.50)',
+    });
+  });
+
+  it('checks the daily limit against spend across runs', () => {
+    expect(findBudgetViolation({ perDayUsd: 5 }, { ...noSpend, dayUsd: 5 })?.scope).toBe('day');
+  });
+});
+
+describe('getRemainingBudget', () => {
+  it('returns the tightest remaining limit', () => {
+    expect(
+      getRemainingBudget({ perIssueUsd: 2, perBatchUsd: 5 }, { issueUsd: 0.5, batchUsd: 4, dayUsd: 0 })
+    ).toEqual({ scope: 'batch', remainingUsd: 1 });
+  });
+
+  it('returns null when no limit applies', () => {
+    expect(getRemainingBudget({}, noSpend)).toBeNull();
+  });
+});
+
+describe('getBatchBudget', () => {
+  it('scales the per-issue limit by the number of issues', () => {
+    expect(getBatchBudget({ perIssueUsd: 2 }, 3)).toEqual({ scope: 'issue', remainingUsd: 6 });
+    expect(getBatchBudget({ perIssueUsd: 2 }, 3, 4)).toEqual({ scope: 'day', remainingUsd: 4 });
+  });
+});
+
+describe('validateBudgetLimit', () => {
+  it('accepts positive amounts and no limit', () => {
+    expect(validateBudgetLimit(2.5)).toBeNull();
+    expect(validateBudgetLimit(undefined)).toBeNull();
+    expect(validateBudgetLimit(null)).toBeNull();
+  });
+
+  it('rejects zero, negative and non-numeric limits', () => {
+    expect(validateBudgetLimit(0)).not.toBeNull();
+    expect(validateBudgetLimit(-1)).not.toBeNull();
+    expect(validateBudgetLimit('5')).not.toBeNull();
+  });
+});
+
+describe('BudgetStore', () => {
+  it('counts spend per UTC day and per batch', () => {
+    const store = new BudgetStore(null);
+    const today = new Date('2026-03-02T10:00:00Z');
+    const yesterday = new Date('2026-03-01T23:00:00Z');
+
+    store.recordSpend(1, 'batch-a', { now: yesterday });
+    store.recordSpend(0.5, 'batch-a', { now: today });
+    store.recordSpend(0.25, 'batch-b', { now: today });
+
+    expect(store.getSpentToday(today)).toBe(0.75);
+    expect(store.getBatchSpend('batch-a')).toBe(1.5);
+    expect(store.getBatchSpend('batch-b')).toBe(0.25);
+  });
+
+  it('adds up an issue\'s spend across the attempts of its batch', () => {
+    const store = new BudgetStore(null);
+
+    store.recordSpend(1, 'batch-a', { issueId: '1' });
+    store.recordSpend(0.5, 'batch-a', { issueId: '1' });
+    store.recordSpend(0.25, 'batch-a', { issueId: '2' });
+    store.recordSpend(2, 'batch-b', { issueId: '1' });
+
+    expect(store.getIssueSpend('batch-a', '1')).toBe(1.5);
+    expect(store.getIssueSpend('batch-a', '2')).toBe(0.25);
+    expect(store.getIssueSpend('batch-b', '1')).toBe(2);
+    expect(store.getBatchSpend('batch-a')).toBe(1.75);
+  });
+
+  it('reports what is left of the daily limit', () => {
+    const store = new BudgetStore(null);
+    const now = new Date('2026-03-02T10:00:00Z');
+
+    expect(store.getStatus(now)).toEqual({ dailyLimitUsd: null, spentTodayUsd: 0, remainingTodayUsd: null });
+
+    store.setDailyLimit(2);
+    store.recordSpend(2.5, 'batch-a', { now });
+    expect(store.getStatus(now)).toEqual({ dailyLimitUsd: 2, spentTodayUsd: 2.5, remainingTodayUsd: 0 });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for the change review store.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeReviewStore, type ChangeSubmission } from '../change-review-store';
+
+const SUBMISSION: ChangeSubmission = {
+  jobId: 'job-1',
+  branch: { branch: 'fix/a', baseBranch: 'main' },
+  summary: {
+    iterations: 2,
+    costUsd: 0.5,
+    durationMs: 60000,
+    toolCalls: { Edit: 3 },
+    filesEdited: ['src/a.ts'],
+    commands: ['npm test'],
+    errors: [],
+  },
+  testResults: { command: 'npm test', exitCode: 0, output: 'ok' },
+};
+
+describe('ChangeReviewStore', () => {
+  it('puts a run up for review with its snapshot', () => {
+    const store = new ChangeReviewStore(null);
+
+    const review = store.submit('a', SUBMISSION);
+
+    expect(review).toMatchObject({
+      issueId: 'a',
+      status: 'ready_for_review',
+      jobId: 'job-1',
+      branch: 'fix/a',
+      baseBranch: 'main',
+      summary: SUBMISSION.summary,
+      testResults: SUBMISSION.testResults,
+    });
+  });
+
+  it('keeps the snapshot when a decision is recorded', () => {
+    const store = new ChangeReviewStore(null);
+
+    store.submit('a', SUBMISSION);
+    const review = store.decide('a', { status: 'approved', actor: 'alice', prUrl: 'https://github.com/o/r/pull/1' });
+
+    expect(review).toMatchObject({
+      status: 'approved',
+      branch: 'fix/a',
+      summary: SUBMISSION.summary,
+      reviewedBy: 'alice',
+      prUrl: 'https://github.com/o/r/pull/1',
+    });
+  });
+
+  it('returns null when deciding on an issue without a review', () => {
+    const store = new ChangeReviewStore(null);
+
+    expect(store.decide('a', { status: 'discarded', actor: 'alice' })).toBeNull();
+  });
+
+  it('starts a new review when a new run is submitted', () => {
+    const store = new ChangeReviewStore(null);
+
+    store.submit('a', SUBMISSION);
+    store.decide('a', { status: 'iteration_requested', actor: 'alice', comment: 'Add a test' });
+    const review = store.submit('a', { ...SUBMISSION, jobId: 'job-2' });
+
+    expect(review.status).toBe('ready_for_review');
+    expect(review.jobId).toBe('job-2');
+    expect(review.comment).toBeUndefined();
+    expect(review.reviewedBy).toBeUndefined();
+  });
+
+  it('persists reviews across instances', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'change-reviews-'));
+    const file = path.join(dir, 'change-reviews.json');
+    try {
+      new ChangeReviewStore(file).submit('a', SUBMISSION);
+      expect(new ChangeReviewStore(file).get('a')?.status).toBe('ready_for_review');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
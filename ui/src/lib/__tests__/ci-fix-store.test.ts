@@ -0,0 +1,69 @@
+/**
+ * Tests for the CI fix store.
+ */
+
+import { CIFixStore, type CIFixRequest } from '../ci-fix-store';
+
+const REQUEST: CIFixRequest = {
+  issueId: 'a',
+  owner: 'acme',
+  repo: 'app',
+  prUrl: 'https://github.com/acme/app/pull/7',
+  branch: 'fix/a',
+  sha: 'abc1234',
+  failures: [{ checkName: 'test', error: 'Tests failed' }],
+};
+
+describe('CIFixStore', () => {
+  it('numbers attempts per PR', () => {
+    const store = new CIFixStore(null);
+
+    const first = store.create(REQUEST);
+    const second = store.create({ ...REQUEST, sha: 'def5678' });
+    const other = store.create({ ...REQUEST, prUrl: 'https://github.com/acme/app/pull/8' });
+
+    expect(first).toMatchObject({ attempt: 1, status: 'running' });
+    expect(second.attempt).toBe(2);
+    expect(other.attempt).toBe(1);
+    expect(store.listForPullRequest(REQUEST.prUrl).map((a) => a.id)).toEqual([first.id, second.id]);
+  });
+
+  it('links an attempt to its job', () => {
+    const store = new CIFixStore(null);
+    const attempt = store.create(REQUEST);
+
+    expect(store.assignJob(attempt.id, 'job-1')?.jobId).toBe('job-1');
+    expect(store.assignJob('missing', 'job-1')).toBeNull();
+  });
+
+  it('marks an attempt pushed once the branch moved', () => {
+    const store = new CIFixStore(null);
+    const attempt = store.create(REQUEST);
+
+    const finished = store.finish(attempt.id, { success: true, headSha: 'def5678' });
+
+    expect(finished).toMatchObject({ status: 'pushed', headSha: 'def5678' });
+    expect(finished?.error).toBeUndefined();
+  });
+
+  it('fails an attempt that pushed nothing', () => {
+    const store = new CIFixStore(null);
+    const attempt = store.create(REQUEST);
+
+    expect(store.finish(attempt.id, { success: true, headSha: 'abc1234' })).toMatchObject({
+      status: 'failed',
+      error: 'The fix run pushed no new commits to the PR',
+    });
+  });
+
+  it('keeps the run error of a failed attempt', () => {
+    const store = new CIFixStore(null);
+    const attempt = store.create(REQUEST);
+
+    expect(store.finish(attempt.id, { success: false, error: 'Budget exceeded' })).toMatchObject({
+      status: 'failed',
+      error: 'Budget exceeded',
+    });
+    expect(store.finish('missing', { success: false })).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for the CI fix context.
+ */
+
+import { formatCIFailureContext } from '../ci-fix';
+import type { CIFailureDetail } from '../types';
+
+const COMMIT = { owner: 'acme', repo: 'app', sha: 'abc1234' };
+
+describe('formatCIFailureContext', () => {
+  it('lists parsed errors one per line', () => {
+    const context = formatCIFailureContext(COMMIT, [
+      {
+        checkName: 'lint-and-test',
+        error: '2 error(s) found in the logs',
+        logs: 'x'.repeat(10_000),
+        details: [
+          { parser: 'tsc', file: 'src/a.ts', line: 4, column: 2, rule: 'TS2322', message: 'Type mismatch' },
+          { parser: 'jest', file: 'src/a.test.ts', line: 9, test: 'a › works', message: 'expected 1' },
+        ],
+      },
+    ]);
+
+    expect(context).toContain('CI/CD Pipeline Failures for acme/app at commit abc1234:');
+    expect(context).toContain('1. lint-and-test: 2 error(s) found in the logs');
+    expect(context).toContain('   - src/a.ts:4:2 [TS2322] Type mismatch');
+    expect(context).toContain('   - src/a.test.ts:9 "a › works" expected 1');
+    expect(context).not.toContain('Logs:');
+  });
+
+  it('counts parsed errors beyond the limit', () => {
+    const details: CIFailureDetail[] = Array.from({ length: 35 }, (_, i) => ({
+      parser: 'eslint',
+      file: `src/f${i}.ts`,
+      line: 1,
+      message: 'Unexpected any',
+    }));
+
+    const context = formatCIFailureContext(COMMIT, [{ checkName: 'lint', error: 'Lint failed', details }]);
+
+    expect(context).toContain('src/f29.ts:1');
+    expect(context).not.toContain('src/f30.ts');
+    expect(context).toContain('(5 more)');
+  });
+
+  it('falls back to the end of the log', () => {
+    const context = formatCIFailureContext(COMMIT, [
+      { checkName: 'build', error: 'Build failed', logs: 'a'.repeat(3000) + 'FATAL: out of memory' },
+    ]);
+
+    expect(context).toContain('Logs:');
+    expect(context).toContain('FATAL: out of memory');
+    expect(context).not.toContain('a'.repeat(2001));
+  });
+});
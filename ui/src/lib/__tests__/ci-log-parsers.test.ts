@@ -0,0 +1,159 @@
+/**
+ * Tests for the CI log parsers.
+ */
+
+import { getCILogParserNames, parseCILog, registerCILogParser } from '../ci-log-parsers';
+
+describe('parseCILog', () => {
+  it('parses tsc errors in both formats', () => {
+    const log = [
+      '2026-01-26T10:00:01.1234567Z > tsc --noEmit',
+      "2026-01-26T10:00:05.1234567Z src/auth.ts(42,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "\u001b[96msrc/api.ts\u001b[0m:\u001b[93m3\u001b[0m:\u001b[93m10\u001b[0m - \u001b[91merror\u001b[0m\u001b[90m TS2307: \u001b[0mCannot find module './db'.",
+      '##[error]Process completed with exit code 2.',
+    ].join('\n');
+
+    expect(parseCILog(log)).toEqual([
+      {
+        parser: 'tsc',
+        file: 'src/auth.ts',
+        line: 42,
+        column: 7,
+        rule: 'TS2322',
+        message: "Type 'string' is not assignable to type 'number'.",
+      },
+      {
+        parser: 'tsc',
+        file: 'src/api.ts',
+        line: 3,
+        column: 10,
+        rule: 'TS2307',
+        message: "Cannot find module './db'.",
+      },
+    ]);
+  });
+
+  it('parses eslint stylish output, errors only', () => {
+    const log = [
+      '/home/runner/work/app/app/src/components/Button.tsx',
+      "  12:5   error    'x' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+      '  20:1   warning  Unexpected console statement             no-console',
+      '',
+      '/home/runner/work/app/app/src/lib/util.ts',
+      '  3:10  error  Missing return type  @typescript-eslint/explicit-function-return-type',
+      '',
+      '✖ 3 problems (2 errors, 1 warning)',
+    ].join('\n');
+
+    expect(parseCILog(log)).toEqual([
+      {
+        parser: 'eslint',
+        file: 'src/components/Button.tsx',
+        line: 12,
+        column: 5,
+        rule: '@typescript-eslint/no-unused-vars',
+        message: "'x' is assigned a value but never used",
+      },
+      {
+        parser: 'eslint',
+        file: 'src/lib/util.ts',
+        line: 3,
+        column: 10,
+        rule: '@typescript-eslint/explicit-function-return-type',
+        message: 'Missing return type',
+      },
+    ]);
+  });
+
+  it('parses jest failures with their location', () => {
+    const log = [
+      'FAIL src/lib/__tests__/math.test.ts',
+      '  ● math › adds numbers',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      '    Expected: 3',
+      '    Received: 4',
+      '',
+      '      at Object.<anonymous> (/home/runner/work/app/app/src/lib/__tests__/math.test.ts:8:19)',
+      '',
+      '  ● Console',
+      '',
+      '    console.log',
+      '      hello',
+      '',
+      'Tests:       1 failed, 4 passed, 5 total',
+    ].join('\n');
+
+    expect(parseCILog(log)).toEqual([
+      {
+        parser: 'jest',
+        file: 'src/lib/__tests__/math.test.ts',
+        line: 8,
+        column: 19,
+        test: 'math › adds numbers',
+        message: 'expect(received).toBe(expected) // Object.is equality',
+      },
+    ]);
+  });
+
+  it('parses the pytest short summary', () => {
+    const log = [
+      '    def test_total():',
+      '>       assert total([1, 2]) == 4',
+      'E       assert 3 == 4',
+      '',
+      'tests/test_cart.py:14: AssertionError',
+      '=========================== short test summary info ============================',
+      'FAILED tests/test_cart.py::TestCart::test_total - assert 3 == 4',
+      'ERROR tests/test_db.py - ModuleNotFoundError: No module named psycopg',
+      '========================= 1 failed, 1 error in 0.12s =========================',
+    ].join('\n');
+
+    expect(parseCILog(log)).toEqual([
+      {
+        parser: 'pytest',
+        file: 'tests/test_cart.py',
+        line: 14,
+        test: 'TestCart › test_total',
+        message: 'assert 3 == 4',
+      },
+      {
+        parser: 'pytest',
+        file: 'tests/test_db.py',
+        line: undefined,
+        test: undefined,
+        message: 'ModuleNotFoundError: No module named psycopg',
+      },
+    ]);
+  });
+
+  it('reports repeated errors once', () => {
+    const line = 'src/a.ts(1,1): error TS1005: ";" expected.';
+
+    expect(parseCILog(`${line}\n${line}`)).toHaveLength(1);
+  });
+
+  it('returns nothing for logs without known tool output', () => {
+    expect(parseCILog('Run make build\n##[error]Process completed with exit code 1.')).toEqual([]);
+  });
+});
+
+describe('registerCILogParser', () => {
+  it('runs registered parsers alongside the built-in ones', () => {
+    registerCILogParser({
+      name: 'go-vet',
+      detect: (log) => log.includes('vet:'),
+      parse: (lines) =>
+        lines.flatMap((line) => {
+          const match = /^vet: (\S+):(\d+):\d+: (.+)$/.exec(line);
+          return match ? [{ parser: 'go-vet', file: match[1], line: Number(match[2]), message: match[3] }] : [];
+        }),
+    });
+
+    expect(getCILogParserNames()).toEqual(['tsc', 'eslint', 'jest', 'pytest', 'go-vet']);
+    expect(parseCILog('vet: main.go:3:2: unreachable code')).toEqual([
+      { parser: 'go-vet', file: 'main.go', line: 3, message: 'unreachable code' },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the GitLab CI provider.
+ */
+
+import { gitlabCIProvider, mapGitLabStatus, type GitLabJob } from '../ci-provider-gitlab';
+
+const REPOSITORY = { owner: 'acme/platform', repo: 'app' };
+const PROJECT = 'https://gitlab.com/api/v4/projects/acme%2Fplatform%2Fapp';
+
+function job(overrides: Partial<GitLabJob>): GitLabJob {
+  return {
+    id: 1,
+    name: 'lint',
+    stage: 'test',
+    status: 'success',
+    allow_failure: false,
+    created_at: '2026-01-26T10:00:00Z',
+    started_at: '2026-01-26T10:00:05Z',
+    finished_at: '2026-01-26T10:01:00Z',
+    web_url: 'https://gitlab.com/acme/platform/app/-/jobs/1',
+    ...overrides,
+  };
+}
+
+function respond(body: unknown, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    text: async () => String(body),
+  } as Response;
+}
+
+describe('mapGitLabStatus', () => {
+  it('maps job statuses', () => {
+    expect(mapGitLabStatus({ status: 'created', allow_failure: false })).toBe('pending');
+    expect(mapGitLabStatus({ status: 'running', allow_failure: false })).toBe('running');
+    expect(mapGitLabStatus({ status: 'failed', allow_failure: false })).toBe('failure');
+    expect(mapGitLabStatus({ status: 'failed', allow_failure: true })).toBe('success');
+    expect(mapGitLabStatus({ status: 'canceled', allow_failure: false })).toBe('cancelled');
+    expect(mapGitLabStatus({ status: 'manual', allow_failure: false })).toBe('skipped');
+  });
+});
+
+describe('gitlabCIProvider', () => {
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    global.fetch = mockFetch;
+  });
+
+  it('reads the latest pipeline of a commit and parses failed job traces', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.startsWith(`${PROJECT}/pipelines?sha=abc1234`)) {
+        return respond([{ id: 7, sha: 'abc1234', status: 'failed', web_url: 'https://gitlab.com/acme/platform/app/-/pipelines/7' }]);
+      }
+      if (url.startsWith(`${PROJECT}/pipelines/7/jobs`)) {
+        return respond([job({ id: 1 }), job({ id: 2, name: 'typecheck', status: 'failed', failure_reason: 'script_failure' })]);
+      }
+      if (url === `${PROJECT}/jobs/2/trace`) {
+        return respond('src/a.ts(1,2): error TS2304: Cannot find name \'x\'.');
+      }
+      return respond({ message: 'Not found' }, 404);
+    });
+
+    const result = await gitlabCIProvider.getStatus(REPOSITORY, 'abc1234');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.prUrl).toBe('https://gitlab.com/acme/platform/app/-/pipelines/7');
+    expect(result.data.overallStatus).toBe('failure');
+    expect(result.data.checks.map((c) => [c.id, c.name, c.status])).toEqual([
+      ['1', 'lint', 'success'],
+      ['2', 'typecheck', 'failure'],
+    ]);
+    expect(result.data.failures).toEqual([
+      expect.objectContaining({
+        checkName: 'typecheck',
+        error: '1 error(s) found in the logs',
+        details: [expect.objectContaining({ file: 'src/a.ts', rule: 'TS2304' })],
+      }),
+    ]);
+  });
+
+  it('reports a commit without a pipeline as pending', async () => {
+    mockFetch.mockResolvedValue(respond([]));
+
+    const result = await gitlabCIProvider.getStatus(REPOSITORY, 'def5678');
+
+    expect(result.ok && result.data.overallStatus).toBe('pending');
+    expect(result.ok && result.data.checks).toEqual([]);
+  });
+
+  it('reports unknown projects', async () => {
+    mockFetch.mockResolvedValue(respond({ message: '404 Project Not Found' }, 404));
+
+    expect(await gitlabCIProvider.getStatus(REPOSITORY, 'abc1234')).toEqual({
+      ok: false,
+      status: 404,
+      error: 'Project acme/platform/app not found',
+    });
+  });
+
+  it('retries a job as a new job', async () => {
+    mockFetch.mockResolvedValue(respond(job({ id: 9 })));
+
+    expect(await gitlabCIProvider.rerun(REPOSITORY, '2')).toEqual({ ok: true, data: { checkId: '9' } });
+    expect(mockFetch).toHaveBeenCalledWith(`${PROJECT}/jobs/2/retry`, expect.objectContaining({ method: 'POST' }));
+  });
+});
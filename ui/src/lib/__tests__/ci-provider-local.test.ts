@@ -0,0 +1,145 @@
+/**
+ * Tests for the local CI provider.
+ *
+ * A fake command runner and checkout stand in for the shell and git.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalCIProvider, runShellCommand, type CommandResult, type LocalCheckConfig } from '../ci-provider-local';
+
+const REPOSITORY = { owner: 'acme', repo: 'app' };
+const CHECKS: LocalCheckConfig[] = [
+  { name: 'typecheck', command: 'npx tsc --noEmit' },
+  { name: 'test', command: 'npm test', timeoutSeconds: 5 },
+];
+
+function setup(results: Record<string, CommandResult>, checks = CHECKS) {
+  const runCommand = jest.fn(async (command: string) => results[command]);
+  const cleanup = jest.fn(async () => {});
+  const checkout = jest.fn(async (sha: string) => ({ cwd: `/tmp/ci-${sha}`, cleanup }));
+  const provider = new LocalCIProvider({ loadChecks: () => checks, runCommand, checkout });
+  return { provider, runCommand, checkout, cleanup };
+}
+
+const PASS: CommandResult = { exitCode: 0, output: 'ok', timedOut: false };
+const TSC_FAIL: CommandResult = {
+  exitCode: 2,
+  output: "src/a.ts(3,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+  timedOut: false,
+};
+
+describe('LocalCIProvider', () => {
+  it('starts the checks of a commit when first asked for its status', async () => {
+    const { provider, runCommand, checkout, cleanup } = setup({ 'npx tsc --noEmit': PASS, 'npm test': PASS });
+
+    const first = await provider.getStatus(REPOSITORY, 'abc1234');
+    expect(first.ok && first.data.overallStatus).toBe('pending');
+
+    await provider.idle();
+    const done = await provider.getStatus(REPOSITORY, 'abc1234');
+
+    expect(done.ok && done.data.overallStatus).toBe('success');
+    expect(checkout).toHaveBeenCalledTimes(1);
+    expect(runCommand).toHaveBeenNthCalledWith(1, 'npx tsc --noEmit', '/tmp/ci-abc1234', 600_000);
+    expect(runCommand).toHaveBeenNthCalledWith(2, 'npm test', '/tmp/ci-abc1234', 5_000);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports failed checks with the errors in their output', async () => {
+    const { provider } = setup({ 'npx tsc --noEmit': TSC_FAIL, 'npm test': { ...PASS, exitCode: 1, timedOut: true } });
+
+    await provider.getStatus(REPOSITORY, 'abc1234');
+    await provider.idle();
+    const result = await provider.listFailures(REPOSITORY, 'abc1234');
+
+    expect(result.ok && result.data).toEqual([
+      expect.objectContaining({
+        checkName: 'typecheck',
+        error: '`npx tsc --noEmit` exited with code 2',
+        details: [expect.objectContaining({ parser: 'tsc', file: 'src/a.ts', line: 3, rule: 'TS2322' })],
+      }),
+      expect.objectContaining({ checkName: 'test', error: '`npm test` timed out after 5s' }),
+    ]);
+  });
+
+  it('fails the checks when the commit cannot be checked out', async () => {
+    const { provider, runCommand } = setup({});
+    jest.spyOn(provider as unknown as { checkout: () => Promise<never> }, 'checkout').mockRejectedValue(
+      new Error('fatal: invalid reference: abc1234')
+    );
+
+    await provider.getStatus(REPOSITORY, 'abc1234');
+    await provider.idle();
+    const logs = await provider.fetchLogs(REPOSITORY, 'abc1234:0');
+
+    expect(runCommand).not.toHaveBeenCalled();
+    expect(logs.ok && logs.data.logs).toBe('fatal: invalid reference: abc1234');
+  });
+
+  it('re-runs a finished check', async () => {
+    const results: Record<string, CommandResult> = { 'npx tsc --noEmit': TSC_FAIL, 'npm test': PASS };
+    const { provider, runCommand } = setup(results);
+    await provider.getStatus(REPOSITORY, 'abc1234');
+    await provider.idle();
+
+    results['npx tsc --noEmit'] = PASS;
+    const rerun = await provider.rerun(REPOSITORY, 'abc1234:0');
+    await provider.idle();
+    const status = await provider.getStatus(REPOSITORY, 'abc1234');
+
+    expect(rerun).toEqual({ ok: true, data: { checkId: 'abc1234:0' } });
+    expect(runCommand).toHaveBeenCalledTimes(3);
+    expect(status.ok && status.data.overallStatus).toBe('success');
+    expect(await provider.rerun(REPOSITORY, 'abc1234:9')).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('rejects anything but a commit SHA without running checks', async () => {
+    const { provider, checkout } = setup({});
+
+    for (const sha of ['--upload-pack=touch /tmp/x', 'a/../../../x', 'main']) {
+      expect(await provider.getStatus(REPOSITORY, sha)).toMatchObject({ ok: false, status: 400 });
+    }
+    await provider.idle();
+    expect(checkout).not.toHaveBeenCalled();
+  });
+
+  it('reports missing configuration', async () => {
+    const { provider } = setup({}, []);
+
+    expect(await provider.getStatus(REPOSITORY, 'abc1234')).toMatchObject({
+      ok: false,
+      status: 500,
+      error: expect.stringContaining('No local CI checks configured'),
+    });
+  });
+});
+
+describe('runShellCommand', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-local-ci-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('collects the output and exit code of a command', async () => {
+    expect(await runShellCommand('echo out; echo err >&2; exit 3', dir, 10_000)).toEqual({
+      exitCode: 3,
+      output: 'out\nerr\n',
+      timedOut: false,
+    });
+  });
+
+  it('stops the processes a command started when it times out', async () => {
+    const result = await runShellCommand('(sleep 1; touch late) & wait', dir, 200);
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+
+    expect(result.timedOut).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'late'))).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the CI status cache.
+ */
+
+import { CIStatusCache } from '../ci-status-cache';
+import type { GitHubCheckRun } from '../ci-status';
+import type { CIStatusResponse } from '../types';
+
+function run(overrides: Partial<GitHubCheckRun> = {}): GitHubCheckRun {
+  return {
+    id: 1,
+    name: 'test',
+    head_sha: 'abc1234',
+    status: 'in_progress',
+    conclusion: null,
+    started_at: '2026-01-26T10:00:00Z',
+    completed_at: null,
+    html_url: 'https://github.com/acme/app/runs/1',
+    output: { title: null, summary: null, text: null },
+    ...overrides,
+  };
+}
+
+function status(overrides: Partial<CIStatusResponse> = {}): CIStatusResponse {
+  return {
+    prUrl: 'https://github.com/acme/app/commit/abc1234',
+    sha: 'abc1234',
+    checks: [],
+    overallStatus: 'running',
+    failures: [],
+    lastUpdated: '2026-01-26T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('CIStatusCache', () => {
+  it('only takes webhook runs for watched commits', () => {
+    const cache = new CIStatusCache();
+
+    expect(cache.upsertRun('acme', 'app', run())).toBeNull();
+
+    cache.setRuns('acme', 'app', 'abc1234', []);
+    expect(cache.upsertRun('Acme', 'App', run())).toEqual([run()]);
+  });
+
+  it('does not move a completed run back', () => {
+    const cache = new CIStatusCache();
+    cache.setRuns('acme', 'app', 'abc1234', []);
+
+    const completed = run({ status: 'completed', conclusion: 'failure' });
+    cache.upsertRun('acme', 'app', completed);
+    const runs = cache.upsertRun('acme', 'app', run({ status: 'in_progress' }));
+
+    expect(runs).toEqual([completed]);
+  });
+
+  it('pushes stored statuses to subscribers', () => {
+    const cache = new CIStatusCache();
+    const listener = jest.fn();
+    const runs = cache.setRuns('acme', 'app', 'abc1234', [run()]);
+    const unsubscribe = cache.subscribe('acme', 'app', 'abc1234', listener);
+
+    expect(cache.setStatus('acme', 'app', status(), runs)).toBe(true);
+    unsubscribe();
+    cache.setStatus('acme', 'app', status({ overallStatus: 'success' }), runs);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(status());
+    expect(cache.get('acme', 'app', 'abc1234')?.status?.overallStatus).toBe('success');
+  });
+
+  it('drops statuses built from runs replaced meanwhile', () => {
+    const cache = new CIStatusCache();
+    const stale = cache.setRuns('acme', 'app', 'abc1234', []);
+    cache.upsertRun('acme', 'app', run());
+
+    expect(cache.setStatus('acme', 'app', status(), stale)).toBe(false);
+    expect(cache.get('acme', 'app', 'abc1234')?.status).toBeNull();
+  });
+
+  it('trusts webhooks for a while after the last one', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-01-26T10:00:00Z'));
+    try {
+      const cache = new CIStatusCache();
+      expect(cache.receivesWebhooks('acme', 'app')).toBe(false);
+
+      cache.markWebhook('acme', 'app');
+      expect(cache.receivesWebhooks('ACME', 'app')).toBe(true);
+
+      jest.setSystemTime(new Date('2026-01-26T11:00:00Z'));
+      expect(cache.receivesWebhooks('acme', 'app')).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for issue correlation (duplicate clustering into incidents).
+ */
+
+import { correlateIssues, normalizePath, planIncidentRuns, tokenizeTitle } from '../correlation';
+import type { Issue } from '../types';
+
+function makeIssue(overrides: Partial<Issue> & Pick<Issue, 'id'>): Issue {
+  return {
+    provider: 'sentry',
+    title: `Issue ${overrides.id}`,
+    description: '',
+    location: '',
+    severity: 'HIGH',
+    raw_severity: 'high',
+    count: 1,
+    priority: 50,
+    permalink: `https://example.com/issues/${overrides.id}`,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('normalizePath', () => {
+  it('strips line numbers, leading ./ and case', () => {
+    expect(normalizePath('./src/App.tsx:12:4')).toBe('src/app.tsx');
+    expect(normalizePath('/src/app.tsx')).toBe('src/app.tsx');
+  });
+});
+
+describe('tokenizeTitle', () => {
+  it('drops numbers, hex IDs and quoted values', () => {
+    expect([...tokenizeTitle("TypeError: Cannot read 'user' of undefined (id 4f3a9b2c1d)")]).toEqual([
+      'typeerror',
+      'cannot',
+      'read',
+      'undefined',
+    ]);
+  });
+});
+
+describe('correlateIssues', () => {
+  it('clusters an issue with another that links to its permalink', () => {
+    const sentry = makeIssue({ id: 's1', title: 'Crash on checkout' });
+    const linear = makeIssue({
+      id: 'l1',
+      provider: 'linear',
+      title: 'Checkout is broken for some users',
+      description: 'See https://example.com/issues/s1 for the stack trace',
+    });
+
+    const [incident] = correlateIssues([sentry, linear]);
+
+    expect(incident.issues.map((i) => i.id).sort()).toEqual(['l1', 's1']);
+    expect(incident.reasons).toEqual(['permalink']);
+  });
+
+  it('does not treat a permalink prefix as a reference', () => {
+    const a = makeIssue({ id: '1', title: 'First problem' });
+    const b = makeIssue({ id: '2', title: 'Second thing', description: 'Related: https://example.com/issues/12' });
+
+    expect(correlateIssues([a, b])).toEqual([]);
+  });
+
+  it('clusters similar titles at the same location', () => {
+    const a = makeIssue({
+      id: 'z1',
+      provider: 'zeropath',
+      title: 'SQL injection in user search',
+      location: 'src/api/users.ts:42',
+    });
+    const b = makeIssue({ id: 's1', title: 'SQL injection user search query', location: './src/api/users.ts' });
+
+    const [incident] = correlateIssues([a, b]);
+
+    expect(incident.reasons).toEqual(expect.arrayContaining(['title', 'location']));
+  });
+
+  it('clusters issues whose stack traces hit the same files', () => {
+    const a = makeIssue({
+      id: 's1',
+      title: 'TypeError in checkout',
+      metadata: { stacktrace: 'at pay (src/checkout/pay.ts:10)\nat submit (src/checkout/form.tsx:22)' },
+    });
+    const b = makeIssue({
+      id: 'z1',
+      provider: 'zeropath',
+      title: 'Unchecked null dereference',
+      location: 'src/checkout/pay.ts',
+      metadata: { frames: [{ filename: 'src/checkout/pay.ts' }, { filename: 'src/checkout/form.tsx' }] },
+    });
+
+    const [incident] = correlateIssues([a, b]);
+
+    expect(incident.reasons).toEqual(expect.arrayContaining(['location', 'stacktrace']));
+  });
+
+  it('keeps unrelated issues in the same file apart', () => {
+    const a = makeIssue({ id: '1', title: 'XSS in comment rendering', location: 'src/app.tsx' });
+    const b = makeIssue({ id: '2', title: 'Low test coverage', location: 'src/app.tsx' });
+
+    expect(correlateIssues([a, b])).toEqual([]);
+  });
+
+  it('keeps issues with the same title in different files apart', () => {
+    const a = makeIssue({ id: '1', title: "TypeError: Cannot read properties of undefined (reading 'map')", location: 'src/a.ts' });
+    const b = makeIssue({ id: '2', title: "TypeError: Cannot read properties of undefined (reading 'user')", location: 'src/b.ts' });
+    const c = makeIssue({ id: 'z1', provider: 'zeropath', title: 'SQL Injection', location: 'src/api/users.ts' });
+    const d = makeIssue({ id: 'z2', provider: 'zeropath', title: 'SQL Injection', location: 'src/api/orders.ts' });
+
+    expect(correlateIssues([a, b, c, d])).toEqual([]);
+    expect(planIncidentRuns(['1', '2', 'z1', 'z2'], [a, b, c, d]).issueIds).toEqual(['1', '2', 'z1', 'z2']);
+  });
+
+  it('ignores shared library frames', () => {
+    const stack = 'at render (node_modules/react-dom/index.js:1)';
+    const a = makeIssue({ id: '1', title: 'Render loop', metadata: { stacktrace: stack } });
+    const b = makeIssue({ id: '2', title: 'Missing key prop', metadata: { stacktrace: stack } });
+
+    expect(correlateIssues([a, b])).toEqual([]);
+  });
+
+  it('merges transitively and picks the highest priority issue as canonical', () => {
+    const a = makeIssue({ id: 'a', priority: 40, title: 'Payment timeout in checkout' });
+    const b = makeIssue({ id: 'b', priority: 90, description: 'Duplicate of https://example.com/issues/a' });
+    const c = makeIssue({ id: 'c', priority: 60, description: 'Same as https://example.com/issues/b' });
+
+    const incidents = correlateIssues([a, b, c]);
+
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].canonical.id).toBe('b');
+    expect(incidents[0].id).toBe('incident:sentry:b');
+    expect(incidents[0].issues.map((i) => i.id)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('planIncidentRuns', () => {
+  const canonical = makeIssue({ id: 'a', priority: 90 });
+  const duplicate = makeIssue({ id: 'b', priority: 20, description: 'Dup of https://example.com/issues/a' });
+  const other = makeIssue({ id: 'c', title: 'Unrelated' });
+
+  it('processes the canonical issue once for any incident member', () => {
+    const plan = planIncidentRuns(['b', 'c', 'a'], [canonical, duplicate, other]);
+
+    expect(plan.issueIds).toEqual(['a', 'c']);
+    expect(plan.linkedIssueIds).toEqual({ a: ['b'] });
+  });
+
+  it('does not confuse issues with the same ID from different providers', () => {
+    const sentry = makeIssue({ id: '123', priority: 90 });
+    const github = makeIssue({ id: '123', provider: 'github', permalink: 'https://github.com/acme/app/issues/123' });
+    const duplicate = makeIssue({
+      id: 'gh-dup',
+      provider: 'github',
+      description: 'Dup of https://github.com/acme/app/issues/123',
+    });
+
+    expect(planIncidentRuns(['123'], [sentry, github, duplicate])).toEqual({
+      issueIds: ['123'],
+      linkedIssueIds: {},
+    });
+  });
+
+  it('passes through issues without duplicates', () => {
+    expect(planIncidentRuns(['c'], [canonical, duplicate, other])).toEqual({
+      issueIds: ['c'],
+      linkedIssueIds: {},
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for cost and duration estimates learned from past runs.
+ */
+
+import { estimateFromHistory, estimateProcessing, findSimilarRuns, MIN_SAMPLES } from '../estimates';
+import { DEFAULT_PROCESSING_OPTIONS, estimateCost } from '../types';
+import type { RunRecord } from '../types';
+
+let nextId = 0;
+
+function makeRun(overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id: `run-${nextId++}`,
+    issueId: 'issue',
+    provider: 'sentry',
+    severity: 'HIGH',
+    model: 'sonnet',
+    mode: 'build',
+    status: 'completed',
+    costUsd: 1,
+    iterations: 2,
+    maxIterations: 10,
+    durationMs: 60000,
+    completedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const options = DEFAULT_PROCESSING_OPTIONS;
+
+describe('findSimilarRuns', () => {
+  it('prefers runs from the same provider and severity', () => {
+    const runs = [
+      ...Array.from({ length: MIN_SAMPLES }, () => makeRun()),
+      ...Array.from({ length: MIN_SAMPLES }, () => makeRun({ provider: 'zeropath' })),
+    ];
+    const similar = findSimilarRuns(runs, { provider: 'sentry', severity: 'HIGH' }, options);
+    expect(similar).toHaveLength(MIN_SAMPLES);
+    expect(similar.every((run) => run.provider === 'sentry')).toBe(true);
+  });
+
+  it('widens the segment when there are too few matching runs', () => {
+    const runs = [makeRun(), makeRun({ severity: 'LOW' }), makeRun({ severity: 'INFO' })];
+    expect(findSimilarRuns(runs, { provider: 'sentry', severity: 'HIGH' }, options)).toHaveLength(3);
+  });
+
+  it('never mixes models or modes', () => {
+    const runs = [makeRun(), makeRun({ model: 'opus' }), makeRun({ mode: 'plan' }), makeRun()];
+    expect(findSimilarRuns(runs, { provider: 'sentry', severity: 'HIGH' }, options)).toEqual([]);
+  });
+});
+
+describe('estimateFromHistory', () => {
+  it('returns null without enough history', () => {
+    expect(estimateFromHistory(options, [{ provider: 'sentry', severity: 'HIGH' }], [makeRun()])).toBeNull();
+  });
+
+  it('sums per-issue means and widens the interval with the spread', () => {
+    const runs = [makeRun({ costUsd: 1 }), makeRun({ costUsd: 2 }), makeRun({ costUsd: 3 })];
+    const issue = { provider: 'sentry', severity: 'HIGH' as const };
+
+    const single = estimateFromHistory(options, [issue], runs)!;
+    expect(single.average).toBeCloseTo(2);
+    expect(single.min).toBeCloseTo(2 - 1.645);
+    expect(single.max).toBeCloseTo(2 + 1.645);
+    expect(single.history).toMatchObject({ sampleSize: 3, confidence: 0.9 });
+    expect(single.breakdown.perIteration).toBeCloseTo(1);
+
+    const double = estimateFromHistory(options, [issue, issue], runs)!;
+    expect(double.average).toBeCloseTo(4);
+    // Independent issues: the spread grows with the square root of the count
+    expect(double.max - double.average).toBeCloseTo(1.645 * Math.SQRT2);
+  });
+
+  it('scales runs that used more iterations than now allowed', () => {
+    const runs = Array.from({ length: 3 }, () => makeRun({ costUsd: 4, iterations: 8, durationMs: 80000 }));
+    const estimate = estimateFromHistory(
+      { ...options, maxIterations: 4 },
+      [{ provider: 'sentry', severity: 'HIGH' }],
+      runs
+    )!;
+    expect(estimate.average).toBeCloseTo(2);
+    expect(estimate.history?.durationMs.average).toBeCloseTo(40000);
+  });
+});
+
+describe('estimateProcessing', () => {
+  it('falls back to the fixed formula without history', () => {
+    const issues = [{ provider: 'sentry', severity: 'HIGH' as const }];
+    expect(estimateProcessing(options, issues, [])).toEqual(estimateCost(options, 1));
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for the GitHub webhook helpers.
+ */
+
+import { createHmac } from 'crypto';
+import { getWebhookCommit, verifyGitHubSignature, type GitHubWebhookPayload } from '../github-webhooks';
+import type { GitHubCheckRun } from '../ci-status';
+
+const SECRET = 'webhook-secret';
+const BODY = '{"action":"completed"}';
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+describe('verifyGitHubSignature', () => {
+  it('accepts a body signed with the secret', () => {
+    expect(verifyGitHubSignature(BODY, sign(BODY), SECRET)).toBe(true);
+  });
+
+  it('rejects missing, malformed and foreign signatures', () => {
+    expect(verifyGitHubSignature(BODY, null, SECRET)).toBe(false);
+    expect(verifyGitHubSignature(BODY, 'sha1=abc', SECRET)).toBe(false);
+    expect(verifyGitHubSignature(BODY, sign(BODY, 'other'), SECRET)).toBe(false);
+    expect(verifyGitHubSignature(`${BODY} `, sign(BODY), SECRET)).toBe(false);
+  });
+});
+
+describe('getWebhookCommit', () => {
+  const repository = { name: 'app', owner: { login: 'acme' } };
+  const checkRun = { id: 1, name: 'test', head_sha: 'abc1234' } as GitHubCheckRun;
+
+  it('takes the check run of check_run events', () => {
+    expect(getWebhookCommit('check_run', { repository, check_run: checkRun })).toEqual({
+      owner: 'acme',
+      repo: 'app',
+      sha: 'abc1234',
+      checkRun,
+    });
+  });
+
+  it('takes the head commit of check_suite and workflow_run events', () => {
+    expect(getWebhookCommit('check_suite', { repository, check_suite: { head_sha: 'def5678' } })).toEqual({
+      owner: 'acme',
+      repo: 'app',
+      sha: 'def5678',
+    });
+    expect(getWebhookCommit('workflow_run', { repository, workflow_run: { head_sha: 'def5678' } })?.sha).toBe(
+      'def5678'
+    );
+  });
+
+  it('ignores other events and payloads without a repository owner', () => {
+    expect(getWebhookCommit('push', { repository } as GitHubWebhookPayload)).toBeNull();
+    expect(getWebhookCommit('check_run', { check_run: checkRun })).toBeNull();
+    expect(getWebhookCommit('check_run', { repository: { name: 'app' }, check_run: checkRun })).toBeNull();
+  });
+});
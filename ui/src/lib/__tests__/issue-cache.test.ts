@@ -0,0 +1,186 @@
+/**
+ * Tests for the issue snapshot cache.
+ *
+ * A fake fetcher stands in for the meta-ralph CLI so tests control what each
+ * provider returns.
+ */
+
+import { IssueCache, type IssueFetcher } from '../issue-cache';
+import type { FetchIssuesResult } from '../meta-ralph';
+import type { Issue } from '../types';
+
+function createIssue(id: string, provider: string, priority = 50): Issue {
+  return {
+    id,
+    provider,
+    title: `Issue ${id}`,
+    description: 'Description',
+    location: 'src/index.ts',
+    severity: 'HIGH',
+    raw_severity: 'error',
+    count: 1,
+    priority,
+    permalink: `https://example.com/${id}`,
+    metadata: {},
+  };
+}
+
+function okResult(provider: string, issues: Issue[]): FetchIssuesResult {
+  return {
+    issues,
+    providers: [{
+      provider,
+      status: 'ok',
+      issueCount: issues.length,
+      durationMs: 10,
+      checkedAt: new Date().toISOString(),
+    }],
+  };
+}
+
+function createFakeFetcher(initial: Record<string, Issue[]>) {
+  const responses = { ...initial };
+  const fetcher = jest.fn<ReturnType<IssueFetcher>, Parameters<IssueFetcher>>(
+    async (provider) => okResult(provider, responses[provider] ?? [])
+  );
+  return { fetcher, responses };
+}
+
+describe('IssueCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('fetches each provider once and merges results by priority', async () => {
+    const { fetcher } = createFakeFetcher({
+      sentry: [createIssue('s1', 'sentry', 40)],
+      zeropath: [createIssue('z1', 'zeropath', 90)],
+    });
+    const cache = new IssueCache({ providers: ['sentry', 'zeropath'], fetcher, filePath: null });
+
+    const issues = await cache.getIssues();
+    await cache.getIssues();
+
+    expect(issues.map((i) => i.id)).toEqual(['z1', 's1']);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('bumps its version when a provider is fetched', async () => {
+    const { fetcher } = createFakeFetcher({ sentry: [createIssue('s1', 'sentry')] });
+    const cache = new IssueCache({ providers: ['sentry'], fetcher, filePath: null });
+
+    await cache.getIssues();
+    const version = cache.getVersion();
+    await cache.getIssues();
+    expect(cache.getVersion()).toBe(version);
+
+    await cache.refresh();
+    expect(cache.getVersion()).toBeGreaterThan(version);
+  });
+
+  it('serves stale snapshots while refreshing in the background', async () => {
+    const { fetcher } = createFakeFetcher({ sentry: [createIssue('s1', 'sentry')] });
+    const cache = new IssueCache({
+      providers: ['sentry', 'zeropath'],
+      providerTtlMs: { sentry: 1000 },
+      ttlMs: 60_000,
+      fetcher,
+      filePath: null,
+    });
+
+    await cache.getIssues();
+    jest.advanceTimersByTime(1000);
+
+    // Hold the background fetch open until the stale response is checked
+    let release: (result: FetchIssuesResult) => void = () => {};
+    fetcher.mockImplementationOnce(() => new Promise((resolve) => { release = resolve; }));
+
+    // Only sentry is stale; the stale snapshot is returned immediately
+    expect((await cache.getIssues()).map((i) => i.id)).toEqual(['s1']);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(fetcher).toHaveBeenLastCalledWith('sentry');
+
+    release(okResult('sentry', [createIssue('s1', 'sentry'), createIssue('s2', 'sentry')]));
+    await Promise.resolve();
+
+    // The background refresh has landed by the next request
+    expect((await cache.getIssues()).map((i) => i.id)).toEqual(['s1', 's2']);
+  });
+
+  it('tracks firstSeen and lastSeen across snapshots', async () => {
+    const { fetcher, responses } = createFakeFetcher({ sentry: [createIssue('s1', 'sentry')] });
+    const cache = new IssueCache({ providers: ['sentry'], fetcher, filePath: null });
+
+    await cache.refresh();
+    jest.setSystemTime(new Date('2024-01-02T00:00:00Z'));
+    responses.sentry = [createIssue('s1', 'sentry'), createIssue('s2', 'sentry')];
+    await cache.refresh();
+
+    const [s1, s2] = await cache.getIssues();
+    expect(s1).toMatchObject({
+      firstSeen: '2024-01-01T00:00:00.000Z',
+      lastSeen: '2024-01-02T00:00:00.000Z',
+    });
+    expect(s2).toMatchObject({
+      firstSeen: '2024-01-02T00:00:00.000Z',
+      lastSeen: '2024-01-02T00:00:00.000Z',
+    });
+  });
+
+  it('shares one in-flight fetch between concurrent callers', async () => {
+    const { fetcher } = createFakeFetcher({ sentry: [createIssue('s1', 'sentry')] });
+    const cache = new IssueCache({ providers: ['sentry'], fetcher, filePath: null });
+
+    await Promise.all([cache.getIssues(), cache.getIssues(), cache.refresh()]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the previous snapshot when a refresh fails', async () => {
+    const { fetcher } = createFakeFetcher({ sentry: [createIssue('s1', 'sentry')] });
+    const cache = new IssueCache({ providers: ['sentry'], fetcher, filePath: null });
+
+    await cache.getIssues();
+    fetcher.mockResolvedValueOnce({
+      issues: [],
+      providers: [{
+        provider: 'sentry',
+        status: 'auth_error',
+        issueCount: 0,
+        durationMs: 10,
+        checkedAt: new Date().toISOString(),
+        error: 'Sentry API error: 401',
+      }],
+    });
+
+    await cache.refresh();
+    expect((await cache.getIssues()).map((i) => i.id)).toEqual(['s1']);
+    expect(cache.getProviderStatuses()[0]).toMatchObject({ status: 'auth_error', error: 'Sentry API error: 401' });
+  });
+
+  it('returns partial results when a provider fails on first fetch', async () => {
+    const { fetcher } = createFakeFetcher({ zeropath: [createIssue('z1', 'zeropath')] });
+    fetcher.mockImplementation(async (provider) => {
+      if (provider === 'sentry') throw new Error('Failed to spawn meta-ralph: ENOENT');
+      return okResult(provider, [createIssue('z1', 'zeropath')]);
+    });
+    const cache = new IssueCache({ providers: ['sentry', 'zeropath'], fetcher, filePath: null });
+
+    expect((await cache.getIssues()).map((i) => i.id)).toEqual(['z1']);
+    expect(cache.getProviderStatuses().map((p) => [p.provider, p.status])).toEqual([
+      ['sentry', 'error'],
+      ['zeropath', 'ok'],
+    ]);
+
+    // The failed provider isn't re-fetched on every request
+    await cache.getIssues();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for the versioned issue payload schema.
+ */
+
+import { ISSUE_SCHEMA_VERSION, parseIssuePayload, validateIssue } from '../issue-schema';
+
+function rawIssue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'issue-1',
+    provider: 'sentry',
+    title: 'TypeError in handler',
+    description: 'Cannot read properties of undefined',
+    location: 'src/handler.ts',
+    severity: 'HIGH',
+    raw_severity: 'error',
+    count: 12,
+    priority: 65,
+    permalink: 'https://sentry.io/issues/1',
+    metadata: { firstSeen: '2024-01-01T00:00:00Z' },
+    ...overrides,
+  };
+}
+
+describe('validateIssue', () => {
+  it('accepts a well-formed issue and keeps extra fields', () => {
+    const { issue, errors } = validateIssue(rawIssue({ short_id: 'PROJ-1' }));
+
+    expect(errors).toEqual([]);
+    expect(issue).toMatchObject({ id: 'issue-1', short_id: 'PROJ-1' });
+  });
+
+  it('normalizes null text fields and numeric raw severities', () => {
+    const { issue } = validateIssue(
+      rawIssue({ location: null, description: null, raw_severity: 42.5, metadata: undefined })
+    );
+
+    expect(issue).toMatchObject({ location: '', description: '', raw_severity: '42.5', metadata: {} });
+  });
+
+  it('reports every invalid field with its path', () => {
+    const { issue, errors } = validateIssue(
+      rawIssue({ id: '', severity: 'SEVERE', priority: 150, count: -1 }),
+      'issues[2]'
+    );
+
+    expect(issue).toBeNull();
+    expect(errors.map((e) => e.path)).toEqual([
+      'issues[2].id',
+      'issues[2].severity',
+      'issues[2].priority',
+      'issues[2].count',
+    ]);
+  });
+
+  it('rejects non-objects', () => {
+    expect(validateIssue('[INFO] not an issue').errors).toEqual([
+      { path: 'issue', message: 'must be an object' },
+    ]);
+  });
+});
+
+describe('parseIssuePayload', () => {
+  it('splits valid issues from field-level errors', () => {
+    const payload = parseIssuePayload({
+      schemaVersion: ISSUE_SCHEMA_VERSION,
+      generatedAt: '2024-01-01T00:00:00Z',
+      issues: [rawIssue(), rawIssue({ id: 'issue-2', title: 7 })],
+      providers: [{ provider: 'sentry', status: 'ok', count: 2 }],
+    });
+
+    expect(payload.issues.map((i) => i.id)).toEqual(['issue-1']);
+    expect(payload.errors).toEqual([
+      { path: 'issues[1].title', message: 'must be a non-empty string' },
+    ]);
+    expect(payload.providers).toHaveLength(1);
+  });
+
+  it('rejects invalid provider status entries', () => {
+    const payload = parseIssuePayload({
+      schemaVersion: ISSUE_SCHEMA_VERSION,
+      issues: [],
+      providers: [{ provider: 'sentry', status: 'broken', count: 0 }],
+    });
+
+    expect(payload.providers).toEqual([]);
+    expect(payload.errors[0].path).toBe('providers[0].status');
+  });
+
+  it('throws on an unsupported schema version', () => {
+    expect(() => parseIssuePayload({ schemaVersion: 2, issues: [] })).toThrow(
+      /Unsupported issue payload schemaVersion 2/
+    );
+  });
+
+  it('throws when the payload has no issue list', () => {
+    expect(() => parseIssuePayload([rawIssue()])).toThrow('must be a JSON object');
+    expect(() => parseIssuePayload({ schemaVersion: ISSUE_SCHEMA_VERSION })).toThrow(
+      'missing the issues array'
+    );
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * Tests for the server-side processing job queue.
+ *
+ * A fake runner stands in for the meta-ralph CLI so tests control exactly
+ * when each job finishes.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeReviewStore } from '../change-review-store';
+import { JobQueue, type JobRunner, type JobRunnerCallbacks } from '../job-queue';
+import { LifecycleStore } from '../lifecycle-store';
+import { PlanReviewStore } from '../plan-review-store';
+import { RunHistoryStore } from '../run-history-store';
+import { emitEvent, startProcessing } from '../session-manager';
+import type { ProcessingJob } from '../types';
+
+interface RunningJob {
+  job: ProcessingJob;
+  callbacks: JobRunnerCallbacks;
+  cancel: jest.Mock;
+}
+
+function createFakeRunner() {
+  const runs: RunningJob[] = [];
+  const runner: JobRunner = (job, callbacks) => {
+    const cancel = jest.fn(() => callbacks.onComplete(false));
+    runs.push({ job, callbacks, cancel });
+    return cancel;
+  };
+  return { runner, runs };
+}
+
+describe('JobQueue', () => {
+  it('runs one job at a time in enqueue order', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.enqueue(['a', 'b', 'c']);
+
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a']);
+    expect(queue.getRunningJob()?.issueId).toBe('a');
+
+    runs[0].callbacks.onComplete(true);
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a', 'b']);
+
+    runs[1].callbacks.onComplete(false);
+    runs[2].callbacks.onComplete(true);
+
+    const statuses = Object.fromEntries(queue.getJobs().map((j) => [j.issueId, j.status]));
+    expect(statuses).toEqual({ a: 'completed', b: 'failed', c: 'completed' });
+    expect(queue.getRunningJob()).toBeUndefined();
+  });
+
+  it('skips issues that already have an active job', () => {
+    const { runner } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.enqueue(['a']);
+    const { jobs, skipped } = queue.enqueue(['a', 'b']);
+
+    expect(jobs.map((j) => j.issueId)).toEqual(['b']);
+    expect(skipped).toEqual(['a']);
+  });
+
+  it('dispatches higher priority jobs first', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.pause();
+    queue.enqueue(['low']);
+    queue.enqueue(['high'], {}, { priority: 10 });
+    queue.resume();
+
+    expect(runs[0].job.issueId).toBe('high');
+  });
+
+  it('treats linked duplicates as occupied by their canonical job', () => {
+    const { runner } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a'], {}, { linkedIssueIds: { a: ['b'] } });
+
+    expect(jobs[0].linkedIssueIds).toEqual(['b']);
+    expect(queue.getActiveJobForIssue('b')?.id).toBe(jobs[0].id);
+    expect(queue.enqueue(['b']).skipped).toEqual(['b']);
+  });
+
+  it('records lifecycle transitions for the issue and its duplicates', () => {
+    const { runner, runs } = createFakeRunner();
+    const lifecycle = new LifecycleStore(null);
+    const queue = new JobQueue(runner, null, lifecycle);
+
+    queue.enqueue(['a'], { mode: 'plan' }, { linkedIssueIds: { a: ['b'] }, actor: 'alice' });
+    runs[0].callbacks.onComplete(true);
+
+    const events = lifecycle.getTimeline('a').events;
+    expect(events.map((e) => [e.to, e.actor])).toEqual([
+      ['pending', 'alice'],
+      ['processing', 'queue'],
+      ['awaiting_approval', 'meta-ralph'],
+    ]);
+    expect(events[2].planUrl).toBe('/api/plan/a');
+    expect(lifecycle.getStatus('b')).toBe('awaiting_approval');
+    expect(lifecycle.getTimeline('b').events[0].reason).toBe('Queued for plan (duplicate of a)');
+  });
+
+  it('puts plans up for review and completes build runs', () => {
+    const { runner, runs } = createFakeRunner();
+    const lifecycle = new LifecycleStore(null);
+    const reviews = new PlanReviewStore(null);
+    const queue = new JobQueue(runner, null, lifecycle, null, reviews);
+
+    queue.enqueue(['plan-1'], { mode: 'plan' });
+    queue.enqueue(['build-1'], { mode: 'build' });
+    runs[0].callbacks.onComplete(true);
+    runs[1].callbacks.onComplete(true);
+
+    expect(reviews.get('plan-1')).toMatchObject({ status: 'awaiting_approval', jobId: runs[0].job.id });
+    expect(reviews.get('build-1')).toBeUndefined();
+    expect(lifecycle.getStatus('plan-1')).toBe('awaiting_approval');
+    expect(lifecycle.getStatus('build-1')).toBe('completed');
+  });
+
+  it('holds build runs for review when asked to', () => {
+    const { runner, runs } = createFakeRunner();
+    const lifecycle = new LifecycleStore(null);
+    const changeReviews = new ChangeReviewStore(null);
+    const queue = new JobQueue(runner, null, lifecycle, null, null, changeReviews);
+
+    queue.enqueue(['held-1', 'no-branch'], { mode: 'build', reviewBeforePush: true });
+    startProcessing('held-1');
+    emitEvent('held-1', {
+      type: 'branch',
+      issueId: 'held-1',
+      payload: { branch: 'fix/held-1', baseBranch: 'main' },
+    });
+    emitEvent('held-1', {
+      type: 'test_results',
+      issueId: 'held-1',
+      payload: { command: 'npm test', exitCode: 0, output: 'ok' },
+    });
+    runs[0].callbacks.onComplete(true);
+    // Never reported a branch: nothing to review
+    runs[1].callbacks.onComplete(true);
+
+    expect(changeReviews.get('held-1')).toMatchObject({
+      status: 'ready_for_review',
+      jobId: runs[0].job.id,
+      branch: 'fix/held-1',
+      baseBranch: 'main',
+      testResults: { command: 'npm test', exitCode: 0 },
+    });
+    expect(lifecycle.getStatus('held-1')).toBe('ready_for_review');
+    expect(changeReviews.get('no-branch')).toBeUndefined();
+    expect(lifecycle.getStatus('no-branch')).toBe('completed');
+  });
+
+  it('records finished runs with their issue details and metrics', () => {
+    const { runner, runs } = createFakeRunner();
+    const history = new RunHistoryStore(null);
+    const queue = new JobQueue(runner, null, null, history);
+
+    queue.enqueue(['hist-1', 'hist-2'], { model: 'opus' }, {
+      issues: [{ id: 'hist-1', provider: 'zeropath', severity: 'CRITICAL' }],
+    });
+    startProcessing('hist-1');
+    emitEvent('hist-1', {
+      type: 'metrics',
+      issueId: 'hist-1',
+      payload: { iteration: 3, maxIterations: 10, costUsd: 0, durationMs: 0, totalCostUsd: 2.5, totalDurationMs: 90000 },
+    });
+    runs[0].callbacks.onComplete(true);
+    // Never reported metrics: nothing to learn from
+    runs[1].callbacks.onComplete(false);
+
+    expect(history.getRuns()).toEqual([
+      expect.objectContaining({
+        issueId: 'hist-1',
+        provider: 'zeropath',
+        severity: 'CRITICAL',
+        model: 'opus',
+        mode: 'build',
+        status: 'completed',
+        costUsd: 2.5,
+        iterations: 3,
+        durationMs: 90000,
+      }),
+    ]);
+  });
+
+  it('reorders queued jobs', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.pause();
+    const { jobs } = queue.enqueue(['a', 'b', 'c']);
+    queue.reorder([jobs[2].id, jobs[1].id]);
+    queue.resume();
+
+    runs[0].callbacks.onComplete(true);
+    runs[1].callbacks.onComplete(true);
+
+    expect(runs.map((r) => r.job.issueId)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('does not dispatch while paused but lets the running job finish', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.enqueue(['a', 'b']);
+    queue.pause();
+    runs[0].callbacks.onComplete(true);
+
+    expect(runs).toHaveLength(1);
+    expect(queue.getJobs().find((j) => j.issueId === 'b')?.status).toBe('queued');
+
+    queue.resume();
+    expect(runs).toHaveLength(2);
+  });
+
+  it('cancels queued and running jobs', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a', 'b', 'c']);
+    queue.cancel(jobs[1].id);
+    queue.cancel(jobs[0].id);
+
+    expect(runs[0].cancel).toHaveBeenCalled();
+    expect(queue.getJob(jobs[0].id)?.status).toBe('cancelled');
+    expect(queue.getJob(jobs[1].id)?.status).toBe('cancelled');
+    // The cancelled job's completion dispatches the next queued job
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a', 'c']);
+  });
+
+  it('runs up to the job concurrency at once', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.enqueue(['a', 'b', 'c'], { concurrency: 2 });
+
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a', 'b']);
+    expect(queue.getState().runningJobIds).toHaveLength(2);
+
+    runs[1].callbacks.onComplete(true);
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a', 'b', 'c']);
+    expect(queue.getRunningJobs().map((j) => j.issueId)).toEqual(['a', 'c']);
+  });
+
+  it('waits for running jobs before starting a sequential job', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    queue.enqueue(['a', 'b'], { concurrency: 2 });
+    queue.enqueue(['c'], { concurrency: 1 });
+    queue.enqueue(['d'], { concurrency: 2 });
+
+    runs[0].callbacks.onComplete(true);
+    // 'c' needs an otherwise idle queue, and 'd' never jumps ahead of it
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a', 'b']);
+
+    // 'c' runs in the target repository; 'd' may join it in a worktree
+    runs[1].callbacks.onComplete(true);
+    expect(runs.map((r) => r.job.issueId)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('cancels one of several running jobs', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a', 'b'], { concurrency: 2 });
+    queue.cancel(jobs[1].id);
+
+    expect(runs[1].cancel).toHaveBeenCalled();
+    expect(runs[0].cancel).not.toHaveBeenCalled();
+    expect(queue.getRunningJobs().map((j) => j.issueId)).toEqual(['a']);
+  });
+
+  it('retries failed jobs up to maxRetries', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a'], {}, { maxRetries: 1 });
+    runs[0].callbacks.onComplete(false);
+    expect(runs).toHaveLength(2);
+    runs[1].callbacks.onComplete(false);
+
+    const job = queue.getJob(jobs[0].id)!;
+    expect(job.status).toBe('failed');
+    expect(job.attempts).toBe(2);
+  });
+
+  it('does not retry a failure that retrying cannot fix', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a'], {}, { maxRetries: 2 });
+    runs[0].callbacks.onComplete(false, { message: 'Per-issue budget of $1.00 exceeded', retryable: false });
+
+    const job = queue.getJob(jobs[0].id)!;
+    expect(runs).toHaveLength(1);
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Per-issue budget of $1.00 exceeded');
+  });
+
+  describe('escalation', () => {
+    const escalation = [
+      { name: 'Opus', options: { model: 'opus', maxIterations: 15 } },
+      { name: 'Plan only', options: { mode: 'plan' as const } },
+    ];
+
+    it('queues each escalation step after a failure, linked to the failed job', () => {
+      const { runner, runs } = createFakeRunner();
+      const lifecycle = new LifecycleStore(null);
+      const queue = new JobQueue(runner, null, lifecycle);
+
+      const [first] = queue.enqueue(['a'], { model: 'sonnet', maxIterations: 5, escalation }, { priority: 2 }).jobs;
+      runs[0].callbacks.onComplete(false);
+
+      expect(runs).toHaveLength(2);
+      const second = runs[1].job;
+      expect(queue.getJob(first.id)?.status).toBe('failed');
+      expect(second).toMatchObject({
+        issueId: 'a',
+        priority: 2,
+        batchId: first.batchId,
+        escalationLevel: 1,
+        escalatedFromJobId: first.id,
+      });
+      expect(second.options).toMatchObject({ model: 'opus', maxIterations: 15, mode: 'build' });
+      expect(lifecycle.getTimeline('a').events.map((e) => e.reason)).toContain('Escalated to Opus');
+
+      runs[1].callbacks.onComplete(false);
+      expect(runs[2].job.options).toMatchObject({ model: 'opus', mode: 'plan' });
+
+      // The policy is used up after the last step
+      runs[2].callbacks.onComplete(false);
+      expect(runs).toHaveLength(3);
+      expect(queue.getJobs().map((job) => job.status)).toEqual(['failed', 'failed', 'failed']);
+    });
+
+    it('records the escalation chain in the run history', () => {
+      const { runner, runs } = createFakeRunner();
+      const history = new RunHistoryStore(null);
+      const queue = new JobQueue(runner, null, null, history);
+      const metrics = { iteration: 1, maxIterations: 5, costUsd: 0, durationMs: 0, totalCostUsd: 0.5, totalDurationMs: 1000 };
+
+      const [first] = queue.enqueue(['esc-1'], { escalation }).jobs;
+      startProcessing('esc-1');
+      emitEvent('esc-1', { type: 'metrics', issueId: 'esc-1', payload: metrics });
+      runs[0].callbacks.onComplete(false);
+      startProcessing('esc-1');
+      emitEvent('esc-1', { type: 'metrics', issueId: 'esc-1', payload: metrics });
+      runs[1].callbacks.onComplete(true);
+
+      expect(history.getRuns()).toEqual([
+        expect.objectContaining({ jobId: first.id, status: 'failed', escalationLevel: undefined }),
+        expect.objectContaining({ jobId: runs[1].job.id, status: 'completed', escalationLevel: 1, escalatedFromJobId: first.id }),
+      ]);
+    });
+
+    it('escalates only once retries are used up', () => {
+      const { runner, runs } = createFakeRunner();
+      const queue = new JobQueue(runner, null);
+
+      queue.enqueue(['a'], { escalation }, { maxRetries: 1 });
+      runs[0].callbacks.onComplete(false);
+      expect(runs[1].job.escalationLevel).toBeUndefined();
+
+      runs[1].callbacks.onComplete(false);
+      expect(runs[2].job.escalationLevel).toBe(1);
+    });
+
+    it('does not escalate completed, cancelled or non-retryable jobs', () => {
+      const { runner, runs } = createFakeRunner();
+      const queue = new JobQueue(runner, null);
+
+      queue.enqueue(['a', 'b'], { escalation, concurrency: 3 });
+      queue.enqueue(['c'], { escalation, concurrency: 3 });
+      runs[0].callbacks.onComplete(true);
+      runs[1].callbacks.onComplete(false, { message: 'Budget exceeded', retryable: false });
+      queue.cancelIssue('c');
+
+      expect(runs).toHaveLength(3);
+      expect(queue.getJobs().some((job) => job.escalationLevel)).toBe(false);
+    });
+  });
+
+  it('gives jobs enqueued together the same batch', () => {
+    const { runner } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const first = queue.enqueue(['a', 'b']).jobs;
+    const second = queue.enqueue(['c']).jobs;
+
+    expect(first[0].batchId).toBe(first[1].batchId);
+    expect(second[0].batchId).not.toBe(first[0].batchId);
+  });
+
+  it('uses the routed model of each issue', () => {
+    const { runner } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a', 'b'], { model: 'sonnet', autoModel: true }, { models: { a: 'opus' } });
+
+    expect(jobs.map((job) => job.options.model)).toEqual(['opus', 'sonnet']);
+  });
+
+  it('re-queues a failed job on manual retry', () => {
+    const { runner, runs } = createFakeRunner();
+    const queue = new JobQueue(runner, null);
+
+    const { jobs } = queue.enqueue(['a']);
+    runs[0].callbacks.onComplete(false);
+
+    expect(queue.retry(jobs[0].id)?.status).toBe('running');
+    expect(runs).toHaveLength(2);
+    expect(queue.retry(jobs[0].id)).toBeUndefined();
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-queue-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('restores jobs and re-queues interrupted ones after a restart', () => {
+      const filePath = path.join(dir, 'queue.json');
+      const first = createFakeRunner();
+      const queue = new JobQueue(first.runner, filePath);
+      queue.enqueue(['a', 'b']);
+
+      // Simulate a crash: a new queue instance reads the same file
+      const second = createFakeRunner();
+      const restored = new JobQueue(second.runner, filePath);
+
+      expect(restored.getJobs().map((j) => j.status)).toEqual(['queued', 'queued']);
+      restored.start();
+      expect(second.runs.map((r) => r.job.issueId)).toEqual(['a']);
+    });
+  });
+});
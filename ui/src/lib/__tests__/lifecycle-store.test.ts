@@ -0,0 +1,80 @@
+/**
+ * Tests for the issue lifecycle audit log.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LifecycleStore, getRequestActor } from '../lifecycle-store';
+
+describe('LifecycleStore', () => {
+  it('chains transitions from the previous status', () => {
+    const store = new LifecycleStore(null);
+
+    store.record([{ issueId: 'a', to: 'pending', actor: 'alice' }]);
+    store.record([{ issueId: 'a', to: 'processing', actor: 'queue', jobId: 'job-1' }]);
+    store.record([{ issueId: 'a', to: 'completed', actor: 'meta-ralph', prUrl: 'https://github.com/o/r/pull/1' }]);
+
+    const timeline = store.getTimeline('a');
+    expect(timeline.status).toBe('completed');
+    expect(timeline.events.map((e) => [e.from, e.to, e.actor])).toEqual([
+      [null, 'pending', 'alice'],
+      ['pending', 'processing', 'queue'],
+      ['processing', 'completed', 'meta-ralph'],
+    ]);
+    expect(timeline.events[2].prUrl).toBe('https://github.com/o/r/pull/1');
+  });
+
+  it('skips transitions that change nothing', () => {
+    const store = new LifecycleStore(null);
+
+    store.record([{ issueId: 'a', to: 'pending', actor: 'ui' }]);
+    const recorded = store.record([{ issueId: 'a', to: 'pending', actor: 'ui' }]);
+
+    expect(recorded).toEqual([]);
+    expect(store.getTimeline('a').events).toHaveLength(1);
+  });
+
+  it('returns an empty pending timeline for unknown issues', () => {
+    expect(new LifecycleStore(null).getTimeline('missing')).toEqual({
+      issueId: 'missing',
+      status: 'pending',
+      events: [],
+    });
+  });
+
+  it('remembers the status before the latest change', () => {
+    const store = new LifecycleStore(null);
+
+    store.record([{ issueId: 'a', to: 'failed', actor: 'meta-ralph' }]);
+    store.record([{ issueId: 'a', to: 'ignored', actor: 'ui' }]);
+
+    expect(store.getPreviousStatus('a')).toBe('failed');
+  });
+
+  it('persists events across instances', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lifecycle-'));
+    const file = path.join(dir, 'lifecycle.json');
+    try {
+      new LifecycleStore(file).record([{ issueId: 'a', to: 'ignored', actor: 'bob', reason: 'Noise' }]);
+
+      const reloaded = new LifecycleStore(file).getTimeline('a');
+      expect(reloaded.status).toBe('ignored');
+      expect(reloaded.events[0]).toMatchObject({ actor: 'bob', reason: 'Noise' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// jsdom has no fetch Request; only the headers are read
+function requestWithHeaders(headers: Record<string, string>): Request {
+  return { headers: { get: (name: string) => headers[name] ?? null } } as unknown as Request;
+}
+
+describe('getRequestActor', () => {
+  it('reads the actor header and falls back to the UI', () => {
+    expect(getRequestActor(requestWithHeaders({ 'x-ralph-actor': 'carol' }))).toBe('carol');
+    expect(getRequestActor(requestWithHeaders({}))).toBe('ui');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for the side-by-side line diff.
+ */
+
+import { diffLines, getDiffStats } from '../line-diff';
+
+describe('diffLines', () => {
+  it('marks identical texts as unchanged', () => {
+    const rows = diffLines('a\nb', 'a\nb');
+
+    expect(rows.map((r) => r.type)).toEqual(['unchanged', 'unchanged']);
+    expect(rows[1]).toEqual({ type: 'unchanged', left: { line: 2, text: 'b' }, right: { line: 2, text: 'b' } });
+  });
+
+  it('lines up added and removed lines', () => {
+    const rows = diffLines('a\nb\nc', 'a\nc\nd');
+
+    expect(rows).toEqual([
+      { type: 'unchanged', left: { line: 1, text: 'a' }, right: { line: 1, text: 'a' } },
+      { type: 'removed', left: { line: 2, text: 'b' }, right: null },
+      { type: 'unchanged', left: { line: 3, text: 'c' }, right: { line: 2, text: 'c' } },
+      { type: 'added', left: null, right: { line: 3, text: 'd' } },
+    ]);
+  });
+
+  it('pairs replaced lines as changed', () => {
+    const rows = diffLines('- [ ] One\n- [ ] Two', '- [x] One\n- [ ] Two\n- [ ] Three');
+
+    expect(rows.map((r) => r.type)).toEqual(['changed', 'unchanged', 'added']);
+    expect(rows[0].left?.text).toBe('- [ ] One');
+    expect(rows[0].right?.text).toBe('- [x] One');
+  });
+
+  it('handles empty texts', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'a').map((r) => r.type)).toEqual(['added']);
+    expect(diffLines('a', '').map((r) => r.type)).toEqual(['removed']);
+  });
+});
+
+describe('getDiffStats', () => {
+  it('counts rows by kind of change', () => {
+    expect(getDiffStats(diffLines('a\nb\nc', 'x\nb\nc\nd'))).toEqual({ added: 1, removed: 0, changed: 1 });
+  });
+});
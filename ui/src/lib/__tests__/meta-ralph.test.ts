@@ -0,0 +1,387 @@
+/**
+ * Tests for fetchIssues provider statuses and for per-issue outcomes and
+ * cancellation and budget limits in processIssues.
+ *
+ * child_process.spawn is mocked with a fake process so tests control the
+ * RALPH_EVENT lines and exit code the CLI produces. Worktrees are mocked too.
+ */
+
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { fetchIssues, processIssues } from '../meta-ralph';
+import { getSession, subscribe } from '../session-manager';
+import { getBudgetStore } from '../budget-store';
+import type { StreamEvent } from '../types';
+import { createWorktree, removeWorktree } from '../worktree';
+
+jest.mock('child_process', () => ({ spawn: jest.fn() }));
+jest.mock('../worktree', () => ({ createWorktree: jest.fn(), removeWorktree: jest.fn() }));
+
+interface FakeProcess extends EventEmitter {
+  stdout: EventEmitter;
+  stderr: EventEmitter;
+  kill: jest.Mock;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+const spawnMock = spawn as unknown as jest.Mock;
+let procs: FakeProcess[];
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  procs = [];
+  spawnMock.mockReset();
+  spawnMock.mockImplementation((_cmd: string, args: string[], { env }: { env: NodeJS.ProcessEnv }) => {
+    const proc = new EventEmitter() as FakeProcess;
+    proc.stdout = new EventEmitter();
+    proc.stderr = new EventEmitter();
+    proc.args = args;
+    proc.env = env;
+    proc.kill = jest.fn(() => proc.emit('close', null));
+    procs.push(proc);
+    return proc;
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function emitLine(proc: FakeProcess, type: string, issueId: string, payload: object = {}) {
+  const line = `RALPH_EVENT:${JSON.stringify({ type, issueId, payload })}\n`;
+  proc.stdout.emit('data', Buffer.from(line));
+}
+
+function onlyIds(proc: FakeProcess): string {
+  return proc.args[proc.args.indexOf('--only-ids') + 1];
+}
+
+describe('fetchIssues', () => {
+  function issue(id: string, provider: string, overrides: Record<string, unknown> = {}) {
+    return {
+      id,
+      provider,
+      title: `Issue ${id}`,
+      description: 'Description',
+      location: 'src/index.ts',
+      severity: 'HIGH',
+      raw_severity: 'error',
+      count: 1,
+      priority: 50,
+      permalink: `https://example.com/${id}`,
+      metadata: {},
+      ...overrides,
+    };
+  }
+
+  /**
+   * Finish the fake CLI run, writing the --json-file payload like meta-ralph.sh.
+   */
+  function finish(proc: FakeProcess, payload: unknown, { stdout = '', stderr = '', code = 0 } = {}) {
+    if (payload !== undefined) {
+      const payloadPath = proc.args[proc.args.indexOf('--json-file') + 1];
+      fs.writeFileSync(payloadPath, typeof payload === 'string' ? payload : JSON.stringify(payload));
+    }
+    proc.stdout.emit('data', Buffer.from(stdout));
+    proc.stderr.emit('data', Buffer.from(stderr));
+    proc.emit('close', code);
+  }
+
+  it('returns issues from healthy providers alongside failed ones', async () => {
+    const result = fetchIssues(['zeropath', 'sentry']);
+    finish(procs[0], {
+      schemaVersion: 1,
+      issues: [issue('z1', 'zeropath')],
+      providers: [
+        { provider: 'zeropath', status: 'ok', count: 1 },
+        { provider: 'sentry', status: 'error', count: 0, error: 'Sentry API error: 401 Unauthorized' },
+      ],
+    });
+
+    const { issues, providers } = await result;
+    expect(procs[0].args).toEqual(expect.arrayContaining(['--providers', 'zeropath,sentry']));
+    expect(issues.map((i) => i.id)).toEqual(['z1']);
+    expect(providers.map((p) => [p.provider, p.status, p.issueCount])).toEqual([
+      ['zeropath', 'ok', 1],
+      ['sentry', 'auth_error', 0],
+    ]);
+    expect(providers[1].error).toContain('401');
+  });
+
+  it('ignores bracketed log text on stdout', async () => {
+    const result = fetchIssues(['zeropath']);
+    finish(
+      procs[0],
+      {
+        schemaVersion: 1,
+        issues: [issue('z1', 'zeropath')],
+        providers: [{ provider: 'zeropath', status: 'ok', count: 1 }],
+      },
+      {
+        stdout: [
+          '\x1b[0;36m📡 Fetching from zeropath...\x1b[0m',
+          '[debug] request [{"page": 1}] done',
+          '[{"id": "not-an-issue"}]',
+          '\x1b[?25h',
+        ].join('\n'),
+      }
+    );
+
+    expect((await result).issues.map((i) => i.id)).toEqual(['z1']);
+  });
+
+  it('drops malformed issues and keeps valid ones', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = fetchIssues(['sentry']);
+    finish(procs[0], {
+      schemaVersion: 1,
+      issues: [issue('s1', 'sentry'), issue('s2', 'sentry', { priority: 'high' })],
+      providers: [{ provider: 'sentry', status: 'ok', count: 2 }],
+    });
+
+    expect((await result).issues.map((i) => i.id)).toEqual(['s1']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('issues[1].priority'));
+  });
+
+  it('reports a parse error for an unsupported payload', async () => {
+    const result = fetchIssues(['sentry']);
+    finish(procs[0], { schemaVersion: 99, issues: [] });
+
+    const { issues, providers } = await result;
+    expect(issues).toEqual([]);
+    expect(providers[0]).toMatchObject({ provider: 'sentry', status: 'parse_error' });
+    expect(providers[0].error).toContain('schemaVersion 99');
+  });
+
+  it('reports an error when the CLI exits without a payload', async () => {
+    const result = fetchIssues(['sentry']);
+    finish(procs[0], undefined, { stderr: 'jq: command not found', code: 127 });
+
+    expect((await result).providers[0]).toMatchObject({
+      status: 'error',
+      error: 'jq: command not found',
+    });
+  });
+});
+
+describe('processIssues', () => {
+  it('derives each issue outcome from its own complete/error event', () => {
+    const onComplete = jest.fn();
+    processIssues(['ok-1', 'bad-1', 'ok-2'], jest.fn(), onComplete);
+
+    emitLine(procs[0], 'complete', 'ok-1', { message: 'Issue resolved' });
+    emitLine(procs[0], 'error', 'bad-1', { error: 'Build failed' });
+    emitLine(procs[0], 'complete', 'ok-2', { message: 'Issue resolved' });
+    // The CLI exits non-zero because one issue failed
+    procs[0].emit('close', 1);
+
+    expect(onComplete).toHaveBeenCalledWith(false, { 'ok-1': true, 'bad-1': false, 'ok-2': true }, {});
+    expect(getSession('ok-1')?.status).toBe('completed');
+    expect(getSession('bad-1')?.status).toBe('failed');
+    expect(getSession('ok-2')?.status).toBe('completed');
+  });
+
+  it('falls back to the exit code for issues without an outcome event', () => {
+    const onComplete = jest.fn();
+    processIssues(['fb-1', 'fb-2'], jest.fn(), onComplete);
+
+    emitLine(procs[0], 'complete', 'fb-1');
+    procs[0].emit('close', 0);
+
+    expect(onComplete).toHaveBeenCalledWith(true, { 'fb-1': true, 'fb-2': true }, {});
+  });
+
+  it('cancels the running issue and continues with the rest of the batch', () => {
+    const onComplete = jest.fn();
+    const cancel = processIssues(['run-1', 'run-2'], jest.fn(), onComplete);
+
+    emitLine(procs[0], 'activity', 'run-1', { type: 'tool' });
+    cancel('run-1');
+
+    expect(procs[0].kill).toHaveBeenCalled();
+    expect(getSession('run-1')?.status).toBe('failed');
+    expect(procs).toHaveLength(2);
+    expect(onlyIds(procs[1])).toBe('run-2');
+
+    emitLine(procs[1], 'complete', 'run-2');
+    procs[1].emit('close', 0);
+
+    expect(onComplete).toHaveBeenCalledWith(false, { 'run-1': false, 'run-2': true }, {});
+  });
+
+  it('skips a cancelled pending issue when the CLI reaches it', () => {
+    const cancel = processIssues(['skip-1', 'skip-2', 'skip-3'], jest.fn(), jest.fn());
+
+    emitLine(procs[0], 'activity', 'skip-1', { type: 'tool' });
+    cancel('skip-2');
+    expect(procs[0].kill).not.toHaveBeenCalled();
+
+    emitLine(procs[0], 'complete', 'skip-1');
+    emitLine(procs[0], 'activity', 'skip-2', { type: 'tool' });
+
+    expect(procs[0].kill).toHaveBeenCalled();
+    expect(onlyIds(procs[1])).toBe('skip-3');
+    expect(getSession('skip-1')?.status).toBe('completed');
+    expect(getSession('skip-2')?.status).toBe('failed');
+  });
+
+  it('cancels every unfinished issue when called without an issue ID', () => {
+    const onComplete = jest.fn();
+    const cancel = processIssues(['all-1', 'all-2'], jest.fn(), onComplete);
+
+    emitLine(procs[0], 'complete', 'all-1');
+    cancel();
+
+    expect(procs[0].kill).toHaveBeenCalled();
+    expect(procs).toHaveLength(1);
+    expect(onComplete).toHaveBeenCalledWith(false, { 'all-1': true, 'all-2': false }, {});
+  });
+
+  describe('with concurrency', () => {
+    const createWorktreeMock = createWorktree as jest.Mock;
+    const removeWorktreeMock = removeWorktree as jest.Mock;
+
+    beforeEach(() => {
+      createWorktreeMock.mockReset();
+      removeWorktreeMock.mockReset();
+    });
+
+    it('runs in its own worktree and removes it when done', async () => {
+      createWorktreeMock.mockResolvedValue('/tmp/ralph-worktrees/wt-1');
+      const onComplete = jest.fn();
+      processIssues(['wt-1'], jest.fn(), onComplete, { concurrency: 2 });
+
+      await new Promise(process.nextTick);
+
+      expect(procs[0].env.REPO_ROOT).toBe('/tmp/ralph-worktrees/wt-1');
+      // Work files stay in the target repository
+      expect(procs[0].env.RALPH_LOG_DIR).toMatch(/^\//);
+
+      emitLine(procs[0], 'complete', 'wt-1');
+      procs[0].emit('close', 0);
+
+      expect(onComplete).toHaveBeenCalledWith(true, { 'wt-1': true }, {});
+      expect(removeWorktreeMock).toHaveBeenCalledWith(expect.any(String), '/tmp/ralph-worktrees/wt-1');
+    });
+
+    it('fails the batch when the worktree cannot be created', async () => {
+      createWorktreeMock.mockRejectedValue(new Error('Failed to create worktree for wt-2: bad ref'));
+      const onComplete = jest.fn();
+      processIssues(['wt-2'], jest.fn(), onComplete, { concurrency: 2 });
+
+      await new Promise(process.nextTick);
+
+      expect(procs).toHaveLength(0);
+      expect(onComplete).toHaveBeenCalledWith(false, { 'wt-2': false }, {});
+      expect(getSession('wt-2')?.status).toBe('failed');
+    });
+
+    it('does not start the CLI when cancelled before the worktree is ready', async () => {
+      createWorktreeMock.mockResolvedValue('/tmp/ralph-worktrees/wt-3');
+      const onComplete = jest.fn();
+      const cancel = processIssues(['wt-3'], jest.fn(), onComplete, { concurrency: 2 });
+
+      cancel();
+      await new Promise(process.nextTick);
+
+      expect(procs).toHaveLength(0);
+      expect(onComplete).toHaveBeenCalledWith(false, { 'wt-3': false }, {});
+      expect(removeWorktreeMock).toHaveBeenCalled();
+    });
+  });
+
+  describe('with budget limits', () => {
+    beforeEach(() => {
+      delete (globalThis as { __ralphBudgetStore?: unknown }).__ralphBudgetStore;
+    });
+
+    it('stops an issue over its limit and continues with the rest', () => {
+      const events: StreamEvent[] = [];
+      subscribe('bi-1', (event) => events.push(event));
+      const onComplete = jest.fn();
+      processIssues(['bi-1', 'bi-2'], jest.fn(), onComplete, { budget: { perIssueUsd: 1 } });
+
+      emitLine(procs[0], 'metrics', 'bi-1', { iteration: 1, maxIterations: 5, totalCostUsd: 0.4 });
+      expect(getSession('bi-1')?.metrics?.budget).toEqual({ scope: 'issue', remainingUsd: 0.6 });
+
+      emitLine(procs[0], 'metrics', 'bi-1', { iteration: 2, maxIterations: 5, totalCostUsd: 1.2 });
+
+      const exceeded = events.find((e) => e.type === 'budget_exceeded');
+      expect(exceeded?.payload).toMatchObject({ scope: 'issue', limitUsd: 1 });
+      expect((exceeded?.payload as { spentUsd: number }).spentUsd).toBeCloseTo(1.2);
+      expect(getSession('bi-1')?.status).toBe('failed');
+      expect(procs[0].kill).toHaveBeenCalled();
+      expect(onlyIds(procs[1])).toBe('bi-2');
+
+      emitLine(procs[1], 'complete', 'bi-2');
+      procs[1].emit('close', 0);
+
+      expect(onComplete).toHaveBeenCalledWith(
+        false,
+        { 'bi-1': false, 'bi-2': true },
+        { 'bi-1': { message: expect.stringContaining('Per-issue budget of $1.00'), retryable: false } }
+      );
+    });
+
+    it('counts earlier attempts of an issue in the batch against its limit', () => {
+      const options = { budget: { perIssueUsd: 1 } };
+      processIssues(['br-1'], jest.fn(), jest.fn(), options, { batchId: 'batch-r' });
+      emitLine(procs[0], 'metrics', 'br-1', { iteration: 1, maxIterations: 5, totalCostUsd: 0.7 });
+      emitLine(procs[0], 'error', 'br-1', { error: 'Build failed' });
+      procs[0].emit('close', 1);
+
+      // A retry starts a new CLI run whose total starts at $0 again
+      const onComplete = jest.fn();
+      processIssues(['br-1'], jest.fn(), onComplete, options, { batchId: 'batch-r' });
+      emitLine(procs[1], 'metrics', 'br-1', { iteration: 1, maxIterations: 5, totalCostUsd: 0.4 });
+
+      expect(procs[1].kill).toHaveBeenCalled();
+      expect(onComplete).toHaveBeenCalledWith(false, { 'br-1': false }, {
+        'br-1': { message: expect.stringContaining('Per-issue budget of $1.00'), retryable: false },
+      });
+
+      // Once spent, the next attempt doesn't start at all
+      processIssues(['br-1'], jest.fn(), jest.fn(), options, { batchId: 'batch-r' });
+      expect(procs).toHaveLength(2);
+    });
+
+    it('stops the whole run when the batch limit is reached', () => {
+      const onComplete = jest.fn();
+      processIssues(['bb-1', 'bb-2', 'bb-3'], jest.fn(), onComplete, { budget: { perBatchUsd: 1 } });
+
+      emitLine(procs[0], 'metrics', 'bb-1', { totalCostUsd: 0.7 });
+      emitLine(procs[0], 'complete', 'bb-1');
+      // The CLI's total covers the whole invocation
+      emitLine(procs[0], 'metrics', 'bb-2', { totalCostUsd: 1.1 });
+
+      expect(procs[0].kill).toHaveBeenCalled();
+      expect(procs).toHaveLength(1);
+      expect(getSession('bb-3')?.status).toBe('failed');
+      expect(onComplete).toHaveBeenCalledWith(
+        false,
+        { 'bb-1': true, 'bb-2': false, 'bb-3': false },
+        {
+          'bb-2': expect.objectContaining({ retryable: false }),
+          'bb-3': expect.objectContaining({ retryable: false }),
+        }
+      );
+    });
+
+    it('does not start when the daily limit is already spent', () => {
+      const store = getBudgetStore();
+      store.setDailyLimit(2);
+      store.recordSpend(2, 'earlier-batch');
+
+      const onComplete = jest.fn();
+      processIssues(['bd-1'], jest.fn(), onComplete);
+
+      expect(procs).toHaveLength(0);
+      expect(getSession('bd-1')?.error).toMatch(/Daily budget/);
+      expect(onComplete).toHaveBeenCalledWith(false, { 'bd-1': false }, {
+        'bd-1': { message: expect.stringContaining('Daily budget'), retryable: false },
+      });
+    });
+  });
+});
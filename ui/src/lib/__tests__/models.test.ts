@@ -0,0 +1,172 @@
+/**
+ * Tests for the model catalog config and per-issue model routing.
+ */
+
+import {
+  DEFAULT_MODEL_ROUTING_RULES,
+  getCheapestModel,
+  getCliModel,
+  getModelInfo,
+  resolveModelConfig,
+  routeModel,
+  routeModels,
+  validateModelRoutingRules,
+  validateProcessingModels,
+  type ModelRoutingRule,
+} from '../models';
+import { estimateCost, getModelCostPer1kTokens, MODEL_INFO, DEFAULT_PROCESSING_OPTIONS } from '../types';
+
+function makeRule(overrides: Partial<ModelRoutingRule> = {}): ModelRoutingRule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    enabled: true,
+    conditions: {},
+    model: 'sonnet',
+    ...overrides,
+  };
+}
+
+describe('resolveModelConfig', () => {
+  it('uses the built-in models and default rules without a config', () => {
+    const config = resolveModelConfig(null);
+    expect(Object.keys(config.models)).toEqual(['haiku', 'sonnet', 'opus']);
+    expect(config.rules).toBe(DEFAULT_MODEL_ROUTING_RULES);
+    expect(config.errors).toEqual([]);
+  });
+
+  it('overrides built-in pricing and adds new models', () => {
+    const config = resolveModelConfig({
+      models: [
+        { id: 'opus', inputCostPer1kTokens: 0.005 },
+        {
+          id: 'sonnet-1m',
+          name: 'Sonnet 1M',
+          cliModel: 'sonnet[1m]',
+          inputCostPer1kTokens: 0.006,
+          outputCostPer1kTokens: 0.0225,
+          contextTokens: 1000000,
+        },
+      ],
+    });
+
+    expect(config.errors).toEqual([]);
+    expect(config.models.opus).toEqual({ ...MODEL_INFO.opus, inputCostPer1kTokens: 0.005 });
+    expect(config.models['sonnet-1m']).toMatchObject({ name: 'Sonnet 1M', speed: 'medium', bestFor: [] });
+  });
+
+  it('skips invalid models and reports why', () => {
+    const config = resolveModelConfig({
+      models: [{ id: 'new', name: 'New' }, 'oops'],
+    });
+
+    expect(config.models.new).toBeUndefined();
+    expect(config.errors.map((error) => error.path)).toEqual([
+      'models[0].inputCostPer1kTokens',
+      'models[0].outputCostPer1kTokens',
+      'models[0].contextTokens',
+      'models[1]',
+    ]);
+  });
+
+  it('keeps the default rules when the configured rules are invalid', () => {
+    const config = resolveModelConfig({ rules: [makeRule({ model: 'gpt' })] });
+    expect(config.rules).toBe(DEFAULT_MODEL_ROUTING_RULES);
+    expect(config.errors[0].path).toBe('rules[0].model');
+  });
+
+  it('accepts rules targeting configured models', () => {
+    const rules = [makeRule({ model: 'custom' })];
+    const config = resolveModelConfig({
+      models: [{ id: 'custom', name: 'Custom', inputCostPer1kTokens: 0, outputCostPer1kTokens: 0, contextTokens: 1000 }],
+      rules,
+    });
+    expect(config.rules).toEqual(rules);
+  });
+});
+
+describe('validateModelRoutingRules', () => {
+  it('reports duplicate IDs and bad severities', () => {
+    const errors = validateModelRoutingRules(
+      [makeRule(), makeRule({ conditions: { severities: ['URGENT' as never] } })],
+      MODEL_INFO
+    );
+    expect(errors.map((error) => error.path)).toEqual(['rules[1].id', 'rules[1].conditions.severities']);
+  });
+});
+
+describe('routeModel', () => {
+  it('applies the default rules', () => {
+    const route = (provider: string, severity: 'CRITICAL' | 'HIGH') =>
+      routeModel({ provider, severity }, DEFAULT_MODEL_ROUTING_RULES, MODEL_INFO, 'sonnet');
+
+    expect(route('zeropath', 'CRITICAL')).toBe('opus');
+    expect(route('zeropath', 'HIGH')).toBe('sonnet');
+    expect(route('codecov', 'HIGH')).toBe('haiku');
+    expect(route('sentry', 'CRITICAL')).toBe('sonnet');
+  });
+
+  it('uses the first enabled matching rule', () => {
+    const rules = [
+      makeRule({ id: 'off', enabled: false, model: 'haiku' }),
+      makeRule({ id: 'first', model: 'opus' }),
+      makeRule({ id: 'second', model: 'haiku' }),
+    ];
+    expect(routeModel({ provider: 'sentry', severity: 'LOW' }, rules, MODEL_INFO, 'sonnet')).toBe('opus');
+  });
+
+  it('falls back when the rule targets a model missing from the catalog', () => {
+    const rules = [makeRule({ model: 'removed' })];
+    expect(routeModel({ provider: 'sentry', severity: 'LOW' }, rules, MODEL_INFO, 'sonnet')).toBe('sonnet');
+  });
+
+  it('routes a list of issues by ID', () => {
+    const models = routeModels(
+      [
+        { id: 'a', provider: 'codecov', severity: 'LOW' },
+        { id: 'b', provider: 'sentry', severity: 'LOW' },
+      ],
+      DEFAULT_MODEL_ROUTING_RULES,
+      MODEL_INFO,
+      'opus'
+    );
+    expect(models).toEqual({ a: 'haiku', b: 'opus' });
+  });
+});
+
+describe('catalog helpers', () => {
+  it('finds the cheapest model by blended price', () => {
+    const catalog = { ...MODEL_INFO, free: { ...MODEL_INFO.sonnet, id: 'free', inputCostPer1kTokens: 0, outputCostPer1kTokens: 0 } };
+    expect(getCheapestModel(MODEL_INFO)).toBe('haiku');
+    expect(getCheapestModel(catalog)).toBe('free');
+  });
+
+  it('passes a model\'s ID to the CLI when it names no CLI model', () => {
+    expect(getCliModel(MODEL_INFO.haiku)).toBe('haiku');
+    expect(getCliModel({ ...MODEL_INFO.sonnet, id: 'claude-sonnet-4-5', cliModel: undefined })).toBe('claude-sonnet-4-5');
+  });
+
+  it('rejects models outside the catalog, in escalation steps too', () => {
+    expect(validateProcessingModels({ model: 'opus' }, MODEL_INFO)).toBeNull();
+    expect(validateProcessingModels(undefined, MODEL_INFO)).toBeNull();
+    expect(validateProcessingModels({ model: 'gpt-4' }, MODEL_INFO)).toBe('Unknown model: gpt-4');
+    expect(
+      validateProcessingModels(
+        { model: 'sonnet', escalation: [{ name: 'Bigger', options: { model: 'opus-max' } }] },
+        MODEL_INFO
+      )
+    ).toBe('Unknown model: opus-max');
+  });
+
+  it('describes unknown models with Sonnet defaults', () => {
+    expect(getModelInfo('removed')).toMatchObject({ id: 'removed', name: 'removed' });
+  });
+
+  it('prices estimates with the catalog model', () => {
+    const catalog = { ...MODEL_INFO, sonnet: { ...MODEL_INFO.sonnet, inputCostPer1kTokens: 0.006, outputCostPer1kTokens: 0.03 } };
+    const builtIn = estimateCost(DEFAULT_PROCESSING_OPTIONS, 1);
+    const custom = estimateCost(DEFAULT_PROCESSING_OPTIONS, 1, undefined, catalog);
+    expect(custom.average).toBeCloseTo(builtIn.average * 2);
+    expect(getModelCostPer1kTokens(MODEL_INFO.sonnet)).toBeCloseTo(0.0054);
+  });
+});
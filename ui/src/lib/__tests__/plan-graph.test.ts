@@ -0,0 +1,42 @@
+/**
+ * Tests for the plan step dependency graph layout.
+ */
+
+import { buildPlanGraph } from '../plan-graph';
+import { parsePlanMarkdown } from '../plan-parser';
+
+function graphOf(content: string) {
+  return buildPlanGraph(parsePlanMarkdown(content, 'issue-1').steps);
+}
+
+describe('buildPlanGraph', () => {
+  it('places steps in columns after their dependencies', () => {
+    const graph = graphOf(
+      '# Plan\n- [x] Schema\n- [ ] API (depends on step 1)\n- [ ] Docs\n- [ ] UI (depends on steps 2 and 3)'
+    );
+
+    expect(graph.nodes.map((n) => [n.number, n.level, n.row])).toEqual([
+      ['1', 0, 0],
+      ['2', 1, 0],
+      ['3', 0, 1],
+      ['4', 2, 0],
+    ]);
+    expect(graph.levels).toBe(3);
+    expect(graph.edges).toHaveLength(3);
+  });
+
+  it('folds sub-tasks and their dependencies into top-level steps', () => {
+    const graph = graphOf('# Plan\n- [ ] Backend\n  - [x] Model\n  - [ ] Routes\n- [ ] Frontend\n  - [ ] Page (after step 1.2)');
+
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.nodes[0].subtasks).toEqual({ total: 2, completed: 1 });
+    expect(graph.edges).toEqual([{ from: graph.nodes[0].id, to: graph.nodes[1].id }]);
+  });
+
+  it('drops dependencies that would close a cycle', () => {
+    const graph = graphOf('# Plan\n- [ ] A (depends on step 2)\n- [ ] B (depends on step 1)');
+
+    expect(graph.edges).toHaveLength(1);
+    expect(graph.levels).toBe(2);
+  });
+});
@@ -13,9 +13,16 @@ import {
   extractTitle,
   extractSummary,
   parsePlanMarkdown,
+  parseEstimate,
+  parseDependencyRefs,
+  extractStepFiles,
+  cleanStepTitle,
+  parseFrontMatter,
   calculateProgress,
   getCurrentStep,
   updateStepCompletion,
+  syncStepCompletion,
+  getPlanProgress,
   getPlanStats,
   isValidPlanContent,
 } from '../plan-parser';
@@ -321,6 +328,121 @@ Fix authentication bypass vulnerability.
     });
   });
 
+  // ============================================================================
+  // Step Annotation Tests
+  // ============================================================================
+
+  describe('parseEstimate', () => {
+    it('parses estimates in hours, minutes and days', () => {
+      expect(parseEstimate('Add tests (~2h)')).toEqual({ text: '2h', hours: 2 });
+      expect(parseEstimate('Update docs [est: 30 min]')).toEqual({ text: '30m', hours: 0.5 });
+      expect(parseEstimate('Migrate data (estimate 1.5 days)')).toEqual({ text: '1.5d', hours: 12 });
+    });
+
+    it('returns null without an estimate', () => {
+      expect(parseEstimate('Fix the bug in 2 places')).toBeNull();
+    });
+  });
+
+  describe('parseDependencyRefs', () => {
+    it('parses referenced step numbers', () => {
+      expect(parseDependencyRefs('Wire up the API (depends on step 3)')).toEqual(['3']);
+      expect(parseDependencyRefs('Deploy after steps 1, 2 and 4')).toEqual(['1', '2', '4']);
+      expect(parseDependencyRefs('Clean up (blocked by #2.1; deps: 5)')).toEqual(['2.1', '5']);
+    });
+
+    it('ignores numbers that are not step references', () => {
+      expect(parseDependencyRefs('Retry after 5 minutes')).toEqual([]);
+      expect(parseDependencyRefs('Requires 2 approvals')).toEqual([]);
+    });
+  });
+
+  describe('extractStepFiles', () => {
+    it('extracts backticked file paths', () => {
+      expect(extractStepFiles('Update `src/auth.ts` and `README.md`, run `npm test`')).toEqual([
+        'src/auth.ts',
+        'README.md',
+      ]);
+    });
+  });
+
+  describe('cleanStepTitle', () => {
+    it('strips dependency and estimate annotations', () => {
+      expect(cleanStepTitle('Wire up the API (depends on step 3, ~2h)')).toBe('Wire up the API');
+      expect(cleanStepTitle('Add tests - ~1h')).toBe('Add tests');
+      expect(cleanStepTitle('Fix the bug')).toBe('Fix the bug');
+    });
+  });
+
+  describe('parseFrontMatter', () => {
+    it('parses scalars and lists', () => {
+      const lines = ['---', 'title: "Fix auth"', 'labels: [security, auth]', 'reviewers:', '  - alice', '  - bob', '---', '# Plan'];
+      expect(parseFrontMatter(lines)).toEqual({
+        metadata: { title: 'Fix auth', labels: ['security', 'auth'], reviewers: ['alice', 'bob'] },
+        lineCount: 7,
+      });
+    });
+
+    it('returns nothing without a closed block', () => {
+      expect(parseFrontMatter(['# Plan', '---'])).toEqual({ metadata: {}, lineCount: 0 });
+      expect(parseFrontMatter(['---', 'title: x'])).toEqual({ metadata: {}, lineCount: 0 });
+    });
+  });
+
+  describe('parsePlanMarkdown structure', () => {
+    const structuredPlan = `---
+title: Fix Auth Bug
+estimate: 1 day
+---
+# Implementation Plan: Ignored
+
+## Implementation Steps
+- [x] Analyze the vulnerability (~1h)
+- [ ] Fix the check in \`src/auth.ts\` (depends on step 1)
+  - [ ] Reject expired tokens (~2h)
+  - [ ] Reject unsigned tokens (~1h)
+- [ ] Add regression tests (depends on step 2.1, ~3h)
+`;
+
+    it('nests indented steps under their parent', () => {
+      const { steps } = parsePlanMarkdown(structuredPlan, 'issue-1');
+
+      expect(steps.map((s) => s.number)).toEqual(['1', '2', '2.1', '2.2', '3']);
+      expect(steps[2]).toMatchObject({ depth: 1, parentId: steps[1].id, title: 'Reject expired tokens' });
+      expect(steps[4]).toMatchObject({ depth: 0, parentId: undefined });
+    });
+
+    it('resolves dependencies, estimates and files', () => {
+      const { steps } = parsePlanMarkdown(structuredPlan, 'issue-1');
+
+      expect(steps[1].dependsOn).toEqual([steps[0].id]);
+      expect(steps[1].files).toEqual(['src/auth.ts']);
+      expect(steps[4].dependsOn).toEqual([steps[2].id]);
+      expect(steps[4].estimate).toEqual({ text: '3h', hours: 3 });
+    });
+
+    it('sums estimates and reads front-matter', () => {
+      const plan = parsePlanMarkdown(structuredPlan, 'issue-1');
+
+      expect(plan.estimatedHours).toBe(7);
+      expect(plan.title).toBe('Fix Auth Bug');
+      expect(plan.estimatedDuration).toBe('1 day');
+      expect(plan.metadata).toEqual({ title: 'Fix Auth Bug', estimate: '1 day' });
+    });
+
+    it('keeps original line numbers after front-matter', () => {
+      const { steps } = parsePlanMarkdown(structuredPlan, 'issue-1');
+      const updated = updateStepCompletion(structuredPlan, steps[1].line, true);
+
+      expect(updated).toContain('- [x] Fix the check');
+    });
+
+    it('drops references to missing steps', () => {
+      const { steps } = parsePlanMarkdown('# Plan\n- [ ] One (depends on step 9)', 'issue-1');
+      expect(steps[0].dependsOn).toEqual([]);
+    });
+  });
+
   // ============================================================================
   // calculateProgress Tests
   // ============================================================================
@@ -408,6 +530,42 @@ Fix authentication bypass vulnerability.
     });
   });
 
+  describe('syncStepCompletion', () => {
+    const approved = '# Plan\n\n## Steps\n- [ ] Fix the bug\n- [ ] Add a test\n- [ ] Update docs';
+
+    it('checks off approved steps completed in the working copy', () => {
+      const current = '# Plan\n- [x] Fix the  bug\n- [ ] Add a test\n- [x] Something new\n\nNotes from the run';
+      expect(syncStepCompletion(approved, current)).toBe(
+        '# Plan\n\n## Steps\n- [x] Fix the bug\n- [ ] Add a test\n- [ ] Update docs'
+      );
+    });
+
+    it('unchecks steps the working copy unchecked', () => {
+      const checked = approved.replace('- [ ] Add a test', '- [x] Add a test');
+      expect(syncStepCompletion(checked, approved)).toBe(approved);
+    });
+
+    it('leaves steps missing from the working copy alone', () => {
+      const checked = approved.replace('- [ ] Update docs', '- [x] Update docs');
+      expect(syncStepCompletion(checked, '# Plan\n- [ ] Fix the bug')).toBe(checked);
+    });
+  });
+
+  describe('getPlanProgress', () => {
+    it('summarizes completed steps and the current step', () => {
+      expect(getPlanProgress('# Plan\n- [x] One\n- [ ] Two\n- [ ] Three\n- [x] Four')).toEqual({
+        completedSteps: 2,
+        totalSteps: 4,
+        progress: 50,
+        currentStep: 'Two',
+      });
+    });
+
+    it('has no current step when everything is done', () => {
+      expect(getPlanProgress('# Plan\n- [x] One').currentStep).toBeNull();
+    });
+  });
+
   // ============================================================================
   // getPlanStats Tests
   // ============================================================================
@@ -0,0 +1,70 @@
+/**
+ * Tests for the plan review store.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlanReviewStore } from '../plan-review-store';
+
+const PLAN = '# Plan\n- [ ] One\n- [ ] Two';
+const PROGRESS = { completedSteps: 1, totalSteps: 2, progress: 50, currentStep: 'Two' };
+
+describe('PlanReviewStore', () => {
+  it('snapshots the plan when it is approved', () => {
+    const store = new PlanReviewStore(null);
+
+    store.submit('a', 'job-1');
+    const review = store.decide('a', { status: 'approved', actor: 'alice', content: PLAN });
+
+    expect(review).toMatchObject({
+      issueId: 'a',
+      status: 'approved',
+      jobId: 'job-1',
+      approvedContent: PLAN,
+      reviewedBy: 'alice',
+    });
+  });
+
+  it('keeps no plan content for other decisions', () => {
+    const store = new PlanReviewStore(null);
+
+    store.submit('a');
+    const review = store.decide('a', { status: 'changes_requested', actor: 'bob', feedback: 'More tests', content: PLAN });
+
+    expect(review.approvedContent).toBeUndefined();
+    expect(review.feedback).toBe('More tests');
+  });
+
+  it('records progress only against an approved plan', () => {
+    const store = new PlanReviewStore(null);
+    const checked = PLAN.replace('- [ ] One', '- [x] One');
+
+    store.submit('a');
+    expect(store.recordProgress('a', checked, PROGRESS)).toBeUndefined();
+
+    store.decide('a', { status: 'approved', actor: 'alice', content: PLAN });
+    expect(store.recordProgress('a', checked, PROGRESS)).toMatchObject({ approvedContent: checked, progress: PROGRESS });
+  });
+
+  it('starts a new review when a new plan is submitted', () => {
+    const store = new PlanReviewStore(null);
+
+    store.submit('a', 'job-1');
+    store.decide('a', { status: 'rejected', actor: 'alice', feedback: 'Wrong approach' });
+    const review = store.submit('a', 'job-2');
+
+    expect(review).toEqual({ issueId: 'a', status: 'awaiting_approval', jobId: 'job-2', updatedAt: review.updatedAt });
+  });
+
+  it('persists reviews across instances', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-reviews-'));
+    const file = path.join(dir, 'plan-reviews.json');
+    try {
+      new PlanReviewStore(file).submit('a', 'job-1');
+      expect(new PlanReviewStore(file).get('a')?.status).toBe('awaiting_approval');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for the per-issue plan store.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlanStore } from '../plan-store';
+
+const PLAN = '# Plan\n- [ ] One\n- [ ] Two';
+
+describe('PlanStore', () => {
+  it('numbers revisions per issue', () => {
+    const store = new PlanStore(null);
+
+    store.addRevision('a', { content: PLAN, source: 'generated', author: 'meta-ralph', model: 'sonnet', jobId: 'job-1' });
+    store.addRevision('b', { content: '# Other\n- [ ] Step', source: 'generated', author: 'meta-ralph' });
+    const edited = store.addRevision('a', { content: `${PLAN}\n- [ ] Three`, source: 'edited', author: 'alice' });
+
+    expect(edited).toMatchObject({ issueId: 'a', revision: 2, source: 'edited', author: 'alice' });
+    expect(store.getRevisions('a').map((r) => r.revision)).toEqual([1, 2]);
+    expect(store.getRevision('a', 1)).toMatchObject({ model: 'sonnet', jobId: 'job-1' });
+    expect(store.getLatest('b')?.content).toBe('# Other\n- [ ] Step');
+  });
+
+  it('keeps the current revision when the content is unchanged', () => {
+    const store = new PlanStore(null);
+
+    const first = store.addRevision('a', { content: PLAN, source: 'generated', author: 'meta-ralph' });
+    const same = store.addRevision('a', { content: PLAN, source: 'edited', author: 'alice' });
+
+    expect(same).toBe(first);
+    expect(store.getRevisions('a')).toHaveLength(1);
+  });
+
+  it('has no plan for unknown issues', () => {
+    const store = new PlanStore(null);
+
+    expect(store.getLatest('missing')).toBeUndefined();
+    expect(store.getRevisions('missing')).toEqual([]);
+  });
+
+  it('persists revisions across instances', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plans-'));
+    try {
+      new PlanStore(dir).addRevision('a', { content: PLAN, source: 'generated', author: 'meta-ralph' });
+      expect(new PlanStore(dir).getLatest('a')).toMatchObject({ revision: 1, content: PLAN });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('does not cache lookups of issues without a plan', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plans-'));
+    try {
+      const store = new PlanStore(dir);
+      expect(store.getRevisions('b')).toEqual([]);
+
+      new PlanStore(dir).addRevision('b', { content: PLAN, source: 'generated', author: 'meta-ralph' });
+      expect(store.getLatest('b')).toMatchObject({ revision: 1 });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the priority scoring rule engine.
+ */
+
+import {
+  applyPriorityRules,
+  createPriorityRule,
+  getRuleBasePriority,
+  globToRegExp,
+  matchesRule,
+  scoreIssue,
+  validatePriorityRules,
+  type PriorityRule,
+} from '../priority-rules';
+import type { ExtendedIssue } from '../types';
+
+function makeIssue(overrides: Partial<ExtendedIssue> = {}): ExtendedIssue {
+  return {
+    id: '1',
+    provider: 'sentry',
+    title: 'TypeError',
+    description: '',
+    location: 'src/payments/checkout.ts',
+    severity: 'HIGH',
+    raw_severity: 'error',
+    count: 50,
+    priority: 50,
+    permalink: '',
+    metadata: { environment: 'production', release: { version: '2.1.0' } },
+    tags: [],
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeRule(overrides: Partial<PriorityRule> = {}): PriorityRule {
+  return { ...createPriorityRule('Test'), ...overrides };
+}
+
+describe('globToRegExp', () => {
+  it('matches across directories with ** and within one with *', () => {
+    expect(globToRegExp('src/**/*.ts').test('src/payments/api/charge.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/payments/charge.ts')).toBe(false);
+    expect(globToRegExp('src/payments/**').test('src/payments/checkout.ts')).toBe(true);
+  });
+});
+
+describe('matchesRule', () => {
+  it('requires every set condition to match', () => {
+    const rule = makeRule({
+      conditions: { providers: ['sentry'], severities: ['HIGH', 'CRITICAL'], minCount: 10, location: 'src/payments/**' },
+    });
+
+    expect(matchesRule(makeIssue(), rule)).toBe(true);
+    expect(matchesRule(makeIssue({ provider: 'codecov' }), rule)).toBe(false);
+    expect(matchesRule(makeIssue({ count: 5 }), rule)).toBe(false);
+    expect(matchesRule(makeIssue({ location: 'src/ui/button.tsx' }), rule)).toBe(false);
+  });
+
+  it('matches tags and nested metadata fields', () => {
+    const rule = makeRule({
+      conditions: {
+        tags: ['customer-facing'],
+        metadata: [
+          { field: 'environment', operator: 'equals', value: 'Production' },
+          { field: 'release.version', operator: 'contains', value: '2.1' },
+        ],
+      },
+    });
+
+    expect(matchesRule(makeIssue({ tags: ['customer-facing'] }), rule)).toBe(true);
+    expect(matchesRule(makeIssue(), rule)).toBe(false);
+    expect(matchesRule(makeIssue({ tags: ['customer-facing'], metadata: { environment: 'staging' } }), rule)).toBe(false);
+  });
+});
+
+describe('scoreIssue', () => {
+  it('applies matching enabled rules in order and clamps the result', () => {
+    const rules = [
+      makeRule({ id: 'double', weight: 2 }),
+      makeRule({ id: 'off', enabled: false, boost: -100 }),
+      makeRule({ id: 'bump', boost: 10, conditions: { providers: ['sentry'] } }),
+      makeRule({ id: 'other', boost: 50, conditions: { providers: ['linear'] } }),
+    ];
+
+    expect(scoreIssue(makeIssue({ priority: 30 }), rules)).toEqual({
+      base: 30,
+      score: 70,
+      matchedRuleIds: ['double', 'bump'],
+    });
+    expect(scoreIssue(makeIssue({ priority: 60 }), rules).score).toBe(100);
+  });
+});
+
+describe('applyPriorityRules', () => {
+  it('keeps the provider priority and the matched rules', () => {
+    const [issue] = applyPriorityRules([makeIssue()], [makeRule({ id: 'r1', boost: 5 })]);
+
+    expect(issue).toMatchObject({ priority: 55, originalPriority: 50, priorityRuleIds: ['r1'] });
+    expect(getRuleBasePriority(issue)).toBe(50);
+  });
+
+  it('leaves manual priority overrides alone', () => {
+    const overridden = makeIssue({ priority: 10, originalPriority: 50 });
+    const [issue] = applyPriorityRules([overridden], [makeRule({ boost: 5 })]);
+
+    expect(issue).toBe(overridden);
+    expect(getRuleBasePriority(issue)).toBeNull();
+  });
+});
+
+describe('validatePriorityRules', () => {
+  it('accepts well-formed rules', () => {
+    expect(validatePriorityRules([makeRule({ conditions: { severities: ['LOW'] } })])).toEqual([]);
+  });
+
+  it('reports invalid fields by path', () => {
+    const errors = validatePriorityRules([
+      { ...makeRule({ id: 'a' }), weight: -1 },
+      { ...makeRule({ id: 'a' }), conditions: { severities: ['URGENT'], metadata: [{ field: 'x', operator: 'like' }] } },
+    ]);
+
+    expect(errors.map((e) => e.path)).toEqual([
+      'rules[0].weight',
+      'rules[1].id',
+      'rules[1].conditions.severities',
+      'rules[1].conditions.metadata[0].operator',
+    ]);
+  });
+
+  it('rejects a non-array', () => {
+    expect(validatePriorityRules({})).toEqual([{ path: 'rules', message: 'must be an array' }]);
+  });
+});
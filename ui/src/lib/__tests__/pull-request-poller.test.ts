@@ -0,0 +1,73 @@
+/**
+ * Tests for the PR poller.
+ */
+
+import { PullRequestPoller, type PullRequestFetcher } from '../pull-request-poller';
+import { PullRequestStore } from '../pull-request-store';
+
+const URL_A = 'https://github.com/acme/app/pull/1';
+const URL_B = 'https://github.com/acme/app/pull/2';
+
+function createStore(): PullRequestStore {
+  const store = new PullRequestStore(null);
+  store.track('a', { url: URL_A, branch: 'fix/a', headSha: 'a1' });
+  store.track('b', { url: URL_B, branch: 'fix/b', headSha: 'b1' });
+  return store;
+}
+
+describe('PullRequestPoller', () => {
+  it('records fetched states and returns the PRs that changed', async () => {
+    const store = createStore();
+    const fetcher: PullRequestFetcher = async (pull) =>
+      pull.url === URL_A ? { state: 'merged', headSha: 'a1' } : { state: 'open', headSha: 'b1' };
+
+    const changed = await new PullRequestPoller({ store, fetcher }).poll();
+
+    expect(changed.map((pull) => pull.url)).toEqual([URL_A]);
+    expect(store.get(URL_A)?.state).toBe('merged');
+    expect(store.get(URL_B)?.checkedAt).toBeDefined();
+  });
+
+  it('no longer polls merged or closed PRs', async () => {
+    const store = createStore();
+    store.updateStatus(URL_A, { state: 'closed', headSha: 'a1' });
+    const fetcher = jest.fn<ReturnType<PullRequestFetcher>, Parameters<PullRequestFetcher>>(async () => ({
+      state: 'open',
+      headSha: 'b1',
+    }));
+
+    await new PullRequestPoller({ store, fetcher }).poll();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0].url).toBe(URL_B);
+  });
+
+  it('keeps the last known state of PRs that fail to fetch', async () => {
+    const store = createStore();
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fetcher: PullRequestFetcher = async (pull) => {
+      if (pull.url === URL_A) throw new Error('GitHub API error 502');
+      return { state: 'approved', headSha: 'b2' };
+    };
+
+    const changed = await new PullRequestPoller({ store, fetcher }).poll();
+
+    expect(changed.map((pull) => pull.url)).toEqual([URL_B]);
+    expect(store.get(URL_A)?.state).toBe('open');
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('shares a poll with concurrent callers', async () => {
+    const store = createStore();
+    const fetcher = jest.fn<ReturnType<PullRequestFetcher>, Parameters<PullRequestFetcher>>(async () => ({
+      state: 'open',
+      headSha: 'x',
+    }));
+    const poller = new PullRequestPoller({ store, fetcher });
+
+    await Promise.all([poller.poll(), poller.poll()]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
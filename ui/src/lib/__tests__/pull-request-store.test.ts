@@ -0,0 +1,100 @@
+/**
+ * Tests for the pull request store.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PullRequestStore } from '../pull-request-store';
+import type { RunPullRequest } from '../types';
+
+const PULL: RunPullRequest = {
+  url: 'https://github.com/acme/app/pull/7',
+  branch: 'fix/a',
+  headSha: 'abc123',
+};
+
+describe('PullRequestStore', () => {
+  it('tracks a run PR as open', () => {
+    const store = new PullRequestStore(null);
+
+    const pull = store.track('a', PULL, 'job-1');
+
+    expect(pull).toMatchObject({
+      issueId: 'a',
+      url: PULL.url,
+      owner: 'acme',
+      repo: 'app',
+      number: 7,
+      branch: 'fix/a',
+      headSha: 'abc123',
+      state: 'open',
+      jobId: 'job-1',
+    });
+  });
+
+  it('ignores URLs that are not GitHub PRs', () => {
+    const store = new PullRequestStore(null);
+
+    expect(store.track('a', { ...PULL, url: 'https://example.com/pr' })).toBeNull();
+    expect(store.list()).toEqual([]);
+  });
+
+  it('keeps the state and job when the same PR is tracked again', () => {
+    const store = new PullRequestStore(null);
+
+    store.track('a', PULL, 'job-1');
+    store.updateStatus(PULL.url, { state: 'changes_requested', headSha: 'abc123' });
+    const pull = store.track('a', { ...PULL, headSha: 'def456' });
+
+    expect(pull).toMatchObject({ state: 'changes_requested', headSha: 'def456', jobId: 'job-1' });
+  });
+
+  it('records polled state and only bumps updatedAt on changes', () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    try {
+      const store = new PullRequestStore(null);
+      store.track('a', PULL);
+
+      jest.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+      const unchanged = store.updateStatus(PULL.url, { state: 'open', headSha: 'abc123' });
+      expect(unchanged).toMatchObject({ checkedAt: '2026-01-01T01:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' });
+
+      jest.setSystemTime(new Date('2026-01-01T02:00:00Z'));
+      const merged = store.updateStatus(PULL.url, { state: 'merged', headSha: 'abc123' });
+      expect(merged).toMatchObject({ state: 'merged', updatedAt: '2026-01-01T02:00:00.000Z' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('returns null when updating an untracked PR', () => {
+    expect(new PullRequestStore(null).updateStatus(PULL.url, { state: 'open', headSha: 'x' })).toBeNull();
+  });
+
+  it("finds an issue's latest PR", () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    try {
+      const store = new PullRequestStore(null);
+      store.track('a', PULL);
+      jest.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+      store.track('a', { ...PULL, url: 'https://github.com/acme/app/pull/9' });
+
+      expect(store.latestForIssue('a')?.number).toBe(9);
+      expect(store.latestForIssue('b')).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('persists PRs across instances', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pull-requests-'));
+    const file = path.join(dir, 'pull-requests.json');
+    try {
+      new PullRequestStore(file).track('a', PULL);
+      expect(new PullRequestStore(file).get(PULL.url)?.issueId).toBe('a');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for PR URL parsing and PR state derivation.
+ */
+
+import {
+  derivePullRequestState,
+  isFinalPullRequestState,
+  parsePullRequestUrl,
+  type GitHubPullRequest,
+  type GitHubPullRequestReview,
+} from '../pull-requests';
+
+const OPEN: GitHubPullRequest = {
+  state: 'open',
+  merged: false,
+  head: { sha: 'abc123', ref: 'fix/a' },
+  requested_reviewers: [],
+  requested_teams: [],
+};
+
+function review(login: string, state: GitHubPullRequestReview['state']): GitHubPullRequestReview {
+  return { user: { login }, state };
+}
+
+describe('parsePullRequestUrl', () => {
+  it('parses GitHub PR URLs', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/app/pull/42')).toEqual({
+      owner: 'acme',
+      repo: 'app',
+      number: 42,
+    });
+    expect(parsePullRequestUrl('https://github.com/acme/app/pull/42/files')?.number).toBe(42);
+  });
+
+  it('returns null for other URLs', () => {
+    expect(parsePullRequestUrl('https://github.com/acme/app/issues/42')).toBeNull();
+    expect(parsePullRequestUrl('https://gitlab.com/acme/app/pull/42')).toBeNull();
+    expect(parsePullRequestUrl('not a url')).toBeNull();
+  });
+});
+
+describe('derivePullRequestState', () => {
+  it('reports merged and closed PRs regardless of reviews', () => {
+    expect(derivePullRequestState({ ...OPEN, state: 'closed', merged: true }, [review('a', 'CHANGES_REQUESTED')])).toBe(
+      'merged'
+    );
+    expect(derivePullRequestState({ ...OPEN, state: 'closed' }, [review('a', 'APPROVED')])).toBe('closed');
+  });
+
+  it('reports an open PR without reviews or reviewers as open', () => {
+    expect(derivePullRequestState(OPEN, [])).toBe('open');
+  });
+
+  it('reports pending reviewers as review requested', () => {
+    expect(derivePullRequestState({ ...OPEN, requested_reviewers: [{ login: 'a' }] }, [])).toBe('review_requested');
+    expect(derivePullRequestState({ ...OPEN, requested_teams: [{ slug: 'core' }] }, [])).toBe('review_requested');
+  });
+
+  it('lets a change request win over approvals', () => {
+    expect(derivePullRequestState(OPEN, [review('a', 'APPROVED'), review('b', 'CHANGES_REQUESTED')])).toBe(
+      'changes_requested'
+    );
+    expect(derivePullRequestState(OPEN, [review('a', 'APPROVED'), review('b', 'COMMENTED')])).toBe('approved');
+  });
+
+  it("counts each reviewer's latest verdict", () => {
+    expect(derivePullRequestState(OPEN, [review('a', 'CHANGES_REQUESTED'), review('a', 'APPROVED')])).toBe('approved');
+    expect(derivePullRequestState(OPEN, [review('a', 'CHANGES_REQUESTED'), review('a', 'COMMENTED')])).toBe(
+      'changes_requested'
+    );
+    expect(derivePullRequestState(OPEN, [review('a', 'CHANGES_REQUESTED'), review('a', 'DISMISSED')])).toBe('open');
+  });
+});
+
+describe('isFinalPullRequestState', () => {
+  it('treats only merged and closed as final', () => {
+    expect(isFinalPullRequestState('merged')).toBe(true);
+    expect(isFinalPullRequestState('closed')).toBe(true);
+    expect(isFinalPullRequestState('changes_requested')).toBe(false);
+  });
+});
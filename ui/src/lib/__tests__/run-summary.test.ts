@@ -0,0 +1,57 @@
+/**
+ * Tests for run summaries.
+ */
+
+import { summarizeRun } from '../run-summary';
+import type { Activity } from '../types';
+
+function activity(overrides: Partial<Activity>): Activity {
+  return { id: 'act', timestamp: '2024-01-01T00:00:00Z', type: 'message', ...overrides };
+}
+
+describe('summarizeRun', () => {
+  it('counts each tool call once', () => {
+    const summary = summarizeRun(
+      [
+        activity({ id: '1', type: 'tool', tool: 'Edit', details: 'Starting Edit...', status: 'pending' }),
+        activity({ id: '1', type: 'tool', tool: 'Edit', details: 'Editing src/a.ts', status: 'success' }),
+        activity({ id: '2', type: 'tool', tool: 'Bash', details: 'Running: npm test', status: 'success' }),
+        activity({ id: '3', type: 'tool', tool: 'Edit', details: 'Editing src/b.ts', status: 'success' }),
+      ],
+      null
+    );
+
+    expect(summary.toolCalls).toEqual({ Edit: 2, Bash: 1 });
+  });
+
+  it('lists edited files and commands without repeats', () => {
+    const summary = summarizeRun(
+      [
+        activity({ id: '1', type: 'tool', tool: 'Write', details: 'Writing src/new.ts' }),
+        activity({ id: '2', type: 'tool', tool: 'Edit', details: 'Editing src/a.ts' }),
+        activity({ id: '3', type: 'tool', tool: 'Edit', details: 'Editing src/new.ts' }),
+        activity({ id: '4', type: 'tool', tool: 'Bash', details: 'Running: npm test' }),
+        activity({ id: '5', type: 'tool', tool: 'Bash', details: 'Running: npm test' }),
+        activity({ id: '6', type: 'tool', tool: 'Read', details: 'Reading src/c.ts' }),
+      ],
+      null
+    );
+
+    expect(summary.filesEdited).toEqual(['src/new.ts', 'src/a.ts']);
+    expect(summary.commands).toEqual(['npm test']);
+  });
+
+  it('collects errors and takes totals from the metrics', () => {
+    const summary = summarizeRun(
+      [
+        activity({ id: '1', type: 'error', details: 'Rate limited' }),
+        activity({ id: '2', type: 'message', details: 'Tests failed (exit 1)', status: 'error' }),
+        activity({ id: '3', type: 'message', details: 'All good', status: 'success' }),
+      ],
+      { iteration: 3, maxIterations: 10, costUsd: 0.1, durationMs: 1000, totalCostUsd: 1.25, totalDurationMs: 90000 }
+    );
+
+    expect(summary.errors).toEqual(['Rate limited', 'Tests failed (exit 1)']);
+    expect(summary).toMatchObject({ iterations: 3, costUsd: 1.25, durationMs: 90000 });
+  });
+});
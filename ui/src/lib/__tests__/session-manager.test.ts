@@ -0,0 +1,55 @@
+/**
+ * Tests for session lookups across an issue's runs.
+ */
+
+import { getLatestBranch, setSessionStore } from '../session-manager';
+import { InMemorySessionStore, type ProcessingSession } from '../session-store';
+import { DEFAULT_PROCESSING_OPTIONS } from '../types';
+
+function makeSession(overrides: Partial<ProcessingSession> & Pick<ProcessingSession, 'id'>): ProcessingSession {
+  return {
+    issueId: 'issue-1',
+    options: DEFAULT_PROCESSING_OPTIONS,
+    activities: [],
+    metrics: null,
+    status: 'completed',
+    startedAt: '2026-01-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('getLatestBranch', () => {
+  let store: InMemorySessionStore;
+
+  beforeEach(() => {
+    store = new InMemorySessionStore();
+    setSessionStore(store);
+  });
+
+  it('finds a build branch behind a later plan run', () => {
+    store.save(makeSession({
+      id: 'build',
+      options: { ...DEFAULT_PROCESSING_OPTIONS, mode: 'build' },
+      branch: { branch: 'fix/issue-1', baseBranch: 'main' },
+    }));
+    store.save(makeSession({
+      id: 'plan',
+      options: { ...DEFAULT_PROCESSING_OPTIONS, mode: 'plan' },
+      startedAt: '2026-01-01T11:00:00.000Z',
+    }));
+
+    expect(getLatestBranch('issue-1')).toEqual({ branch: 'fix/issue-1', baseBranch: 'main' });
+  });
+
+  it('prefers the newest run with a branch', () => {
+    store.save(makeSession({ id: 'first', branch: { branch: 'fix/old', baseBranch: 'main' } }));
+    store.save(makeSession({
+      id: 'second',
+      startedAt: '2026-01-02T10:00:00.000Z',
+      branch: { branch: 'fix/new', baseBranch: 'main' },
+    }));
+
+    expect(getLatestBranch('issue-1')?.branch).toBe('fix/new');
+    expect(getLatestBranch('issue-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the pluggable processing session store.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  InMemorySessionStore,
+  FileSessionStore,
+  querySessions,
+  type ProcessingSession,
+} from '../session-store';
+import { DEFAULT_PROCESSING_OPTIONS } from '../types';
+
+function makeSession(overrides: Partial<ProcessingSession> = {}): ProcessingSession {
+  return {
+    id: 'session-1',
+    issueId: 'issue-1',
+    options: DEFAULT_PROCESSING_OPTIONS,
+    activities: [],
+    metrics: null,
+    status: 'processing',
+    startedAt: '2026-01-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('session-store', () => {
+  describe('querySessions', () => {
+    const sessions = [
+      makeSession({ issueId: 'a', status: 'completed', startedAt: '2026-01-01T00:00:00.000Z' }),
+      makeSession({ issueId: 'b', status: 'failed', startedAt: '2026-01-03T00:00:00.000Z' }),
+      makeSession({ issueId: 'c', status: 'processing', startedAt: '2026-01-02T00:00:00.000Z' }),
+    ];
+
+    it('returns newest sessions first', () => {
+      expect(querySessions(sessions).map((s) => s.issueId)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('filters by status', () => {
+      const result = querySessions(sessions, { status: ['completed', 'failed'] });
+      expect(result.map((s) => s.issueId)).toEqual(['b', 'a']);
+    });
+
+    it('filters by date range and applies limit', () => {
+      const result = querySessions(sessions, {
+        since: '2026-01-01T12:00:00.000Z',
+        limit: 1,
+      });
+      expect(result.map((s) => s.issueId)).toEqual(['b']);
+    });
+  });
+
+  describe('InMemorySessionStore', () => {
+    it('saves, gets and deletes sessions', () => {
+      const store = new InMemorySessionStore();
+      store.save(makeSession());
+
+      expect(store.get('issue-1')?.status).toBe('processing');
+      expect(store.list()).toHaveLength(1);
+      expect(store.delete('issue-1')).toBe(true);
+      expect(store.get('issue-1')).toBeUndefined();
+    });
+
+    it('keeps earlier runs of an issue', () => {
+      const store = new InMemorySessionStore();
+      store.save(makeSession({ id: 'run-1', status: 'failed' }));
+      store.save(makeSession({ id: 'run-2', startedAt: '2026-01-02T10:00:00.000Z' }));
+
+      expect(store.get('issue-1')?.id).toBe('run-2');
+      expect(store.list({ issueId: 'issue-1' }).map((s) => s.id)).toEqual(['run-2', 'run-1']);
+      expect(store.delete('issue-1')).toBe(true);
+      expect(store.list()).toEqual([]);
+    });
+
+    it('drops the oldest runs of an issue beyond the limit', () => {
+      const store = new InMemorySessionStore();
+      for (let day = 1; day <= 25; day++) {
+        store.save(makeSession({ id: `run-${day}`, startedAt: `2026-01-${String(day).padStart(2, '0')}T00:00:00.000Z` }));
+      }
+
+      const runs = store.list({ issueId: 'issue-1' });
+      expect(runs).toHaveLength(20);
+      expect(runs.at(-1)?.id).toBe('run-6');
+    });
+  });
+
+  describe('FileSessionStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-sessions-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('persists sessions across store instances', () => {
+      const store = new FileSessionStore(dir, 0);
+      store.save(makeSession({ issueId: 'sentry/123', status: 'completed' }));
+
+      const reloaded = new FileSessionStore(dir, 0);
+      expect(reloaded.get('sentry/123')?.status).toBe('completed');
+      expect(reloaded.list()).toHaveLength(1);
+    });
+
+    it('debounces writes until flushed', () => {
+      const store = new FileSessionStore(dir, 10000);
+      store.save(makeSession());
+
+      expect(new FileSessionStore(dir, 0).get('issue-1')).toBeUndefined();
+
+      store.flush();
+      expect(new FileSessionStore(dir, 0).get('issue-1')).toBeDefined();
+    });
+
+    it('writes finished sessions right away', () => {
+      const store = new FileSessionStore(dir, 10000);
+      store.save(makeSession());
+      store.save(makeSession({ status: 'completed' }));
+
+      expect(new FileSessionStore(dir, 0).get('issue-1')?.status).toBe('completed');
+    });
+
+    it('keeps earlier runs of an issue across store instances', () => {
+      const store = new FileSessionStore(dir, 0);
+      store.save(makeSession({ id: 'run-1', status: 'failed' }));
+      store.save(makeSession({ id: 'run-2', status: 'completed', startedAt: '2026-01-02T10:00:00.000Z' }));
+
+      const reloaded = new FileSessionStore(dir, 0);
+      expect(reloaded.get('issue-1')?.id).toBe('run-2');
+      expect(reloaded.list({ issueId: 'issue-1' }).map((s) => s.status)).toEqual(['completed', 'failed']);
+    });
+
+    it('loads sessions stored under their issue ID', () => {
+      const { id: _id, ...legacy } = makeSession({ issueId: 'sentry/123', status: 'completed' });
+      fs.writeFileSync(path.join(dir, `${encodeURIComponent('sentry/123')}.json`), JSON.stringify(legacy));
+
+      expect(new FileSessionStore(dir, 0).get('sentry/123')).toMatchObject({ id: 'sentry/123', status: 'completed' });
+    });
+
+    it('deletes the files of runs over the limit when loading', () => {
+      for (let day = 1; day <= 22; day++) {
+        const session = makeSession({ id: `run-${day}`, startedAt: `2026-01-${String(day).padStart(2, '0')}T00:00:00.000Z` });
+        fs.writeFileSync(path.join(dir, `run-${day}.json`), JSON.stringify(session));
+      }
+
+      expect(new FileSessionStore(dir, 0).list()).toHaveLength(20);
+      expect(fs.readdirSync(dir)).toHaveLength(20);
+      expect(fs.existsSync(path.join(dir, 'run-1.json'))).toBe(false);
+    });
+
+    it('removes the session file on delete', () => {
+      const store = new FileSessionStore(dir, 0);
+      store.save(makeSession());
+
+      expect(store.delete('issue-1')).toBe(true);
+      expect(new FileSessionStore(dir, 0).get('issue-1')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for line-at-a-time syntax highlighting.
+ */
+
+import { highlightLine, languageForPath } from '../syntax-highlight';
+
+describe('languageForPath', () => {
+  it('maps extensions to languages', () => {
+    expect(languageForPath('src/app.tsx')).toBe('typescript');
+    expect(languageForPath('tools/run.py')).toBe('python');
+    expect(languageForPath('README.md')).toBeNull();
+  });
+});
+
+describe('highlightLine', () => {
+  it('tokenizes keywords, strings, numbers and comments', () => {
+    expect(highlightLine("const name = 'x' + 42; // note", 'typescript')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' name = ' },
+      { type: 'string', text: "'x'" },
+      { type: 'plain', text: ' + ' },
+      { type: 'number', text: '42' },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// note' },
+    ]);
+  });
+
+  it('keeps escaped quotes inside strings', () => {
+    const tokens = highlightLine('x = "a \\" b"', 'python');
+    expect(tokens.find((t) => t.type === 'string')?.text).toBe('"a \\" b"');
+  });
+
+  it('leaves numbers inside identifiers alone', () => {
+    expect(highlightLine('value2', 'javascript')).toEqual([{ type: 'plain', text: 'value2' }]);
+  });
+
+  it('leaves unknown languages plain', () => {
+    expect(highlightLine('# Title', null)).toEqual([{ type: 'plain', text: '# Title' }]);
+  });
+
+  it('joins back to the original line', () => {
+    const line = '  if (a /* why */ && b) { return `t${1}`; }';
+    expect(highlightLine(line, 'typescript').map((t) => t.text).join('')).toBe(line);
+  });
+});
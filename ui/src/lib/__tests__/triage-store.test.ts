@@ -0,0 +1,102 @@
+/**
+ * Tests for the server-side issue triage store.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TriageStore } from '../triage-store';
+import type { Issue } from '../types';
+
+function createIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'issue-1',
+    provider: 'sentry',
+    title: 'Test issue',
+    description: 'Description',
+    location: 'src/index.ts',
+    severity: 'HIGH',
+    raw_severity: 'error',
+    count: 1,
+    priority: 50,
+    permalink: 'https://example.com/issue-1',
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('TriageStore', () => {
+  it('adds and removes tags without duplicates', () => {
+    const store = new TriageStore(null);
+    const ref = { id: 'a', provider: 'sentry' };
+
+    store.addTags([ref], ['auth', 'flaky']);
+    store.addTags([ref], ['flaky']);
+    expect(store.get(ref)?.tags).toEqual(['auth', 'flaky']);
+
+    store.removeTags([ref], ['auth']);
+    expect(store.get(ref)?.tags).toEqual(['flaky']);
+  });
+
+  it('keys state by provider as well as issue ID', () => {
+    const store = new TriageStore(null);
+
+    store.setIgnored([{ id: '42', provider: 'sentry' }], true);
+
+    expect(store.get({ id: '42', provider: 'sentry' })?.ignored).toBe(true);
+    expect(store.get({ id: '42', provider: 'zeropath' })).toBeUndefined();
+  });
+
+  it('drops entries once they carry no state', () => {
+    const store = new TriageStore(null);
+    const ref = { id: 'a', provider: 'sentry' };
+
+    store.setIgnored([ref], true);
+    store.setIgnored([ref], false);
+
+    expect(store.get(ref)).toBeUndefined();
+  });
+
+  it('merges tags, ignored status and priority overrides into issues', () => {
+    const store = new TriageStore(null);
+    const issues = [
+      createIssue({ id: 'a', priority: 30 }),
+      createIssue({ id: 'b' }),
+      createIssue({ id: 'c' }),
+    ];
+
+    store.addTags([issues[0]], ['auth']);
+    store.setPriority([issues[0]], 90);
+    store.setIgnored([issues[1]], true);
+
+    const merged = store.apply(issues, (issue) => (issue.id === 'b' ? 'failed' : 'pending'));
+
+    expect(merged[0]).toMatchObject({ tags: ['auth'], status: 'pending', priority: 90, originalPriority: 30 });
+    expect(merged[1]).toMatchObject({ tags: [], status: 'ignored', priority: 50 });
+    expect(merged[1].originalPriority).toBeUndefined();
+    expect(merged[2].status).toBe('pending');
+  });
+
+  it('clears a priority override with null', () => {
+    const store = new TriageStore(null);
+    const issue = createIssue();
+
+    store.setPriority([issue], 10);
+    store.setPriority([issue], null);
+
+    expect(store.apply([issue])[0].priority).toBe(50);
+  });
+
+  it('persists state to disk', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-triage-'));
+    try {
+      const filePath = path.join(dir, 'triage.json');
+      new TriageStore(filePath).addTags([{ id: 'a', provider: 'sentry' }], ['auth']);
+
+      const reloaded = new TriageStore(filePath);
+      expect(reloaded.get({ id: 'a', provider: 'sentry' })?.tags).toEqual(['auth']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for unified diff parsing.
+ */
+
+import { hunkToRows, parseUnifiedDiff } from '../unified-diff';
+
+const DIFF = `diff --git a/src/auth.ts b/src/auth.ts
+index 1111111..2222222 100644
+--- a/src/auth.ts
++++ b/src/auth.ts
+@@ -1,4 +1,5 @@ export function check
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = 4;
+ const d = 5;
+ const e = 6;
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,2 @@
++export const x = 1;
++export const y = 2;
+\\ No newline at end of file
+diff --git a/old.md b/old.md
+deleted file mode 100644
+index 4444444..0000000
+--- a/old.md
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/a.txt b/b.txt
+similarity index 100%
+rename from a.txt
+rename to b.txt
+diff --git a/logo.png b/logo.png
+index 5555555..6666666 100644
+Binary files a/logo.png and b/logo.png differ
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('parses files with their status and line counts', () => {
+    const files = parseUnifiedDiff(DIFF);
+
+    expect(files.map((f) => [f.path, f.status, f.additions, f.deletions])).toEqual([
+      ['src/auth.ts', 'modified', 2, 1],
+      ['src/new.ts', 'added', 2, 0],
+      ['old.md', 'deleted', 0, 1],
+      ['b.txt', 'renamed', 0, 0],
+      ['logo.png', 'modified', 0, 0],
+    ]);
+    expect(files[3].oldPath).toBe('a.txt');
+    expect(files[4].binary).toBe(true);
+  });
+
+  it('numbers hunk lines on both sides', () => {
+    const [auth] = parseUnifiedDiff(DIFF);
+    const [hunk] = auth.hunks;
+
+    expect(hunk).toMatchObject({ oldStart: 1, newStart: 1 });
+    expect(hunk.lines).toHaveLength(6);
+    expect(hunk.lines[1]).toEqual({ type: 'delete', text: 'const b = 2;', oldLine: 2, newLine: null });
+    expect(hunk.lines[3]).toEqual({ type: 'add', text: 'const c = 4;', oldLine: null, newLine: 3 });
+    expect(hunk.lines[5]).toEqual({ type: 'context', text: 'const e = 6;', oldLine: 4, newLine: 5 });
+  });
+
+  it('returns nothing for an empty diff', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
+
+describe('hunkToRows', () => {
+  it('pairs deleted and added lines side by side', () => {
+    const [auth] = parseUnifiedDiff(DIFF);
+    const rows = hunkToRows(auth.hunks[0]);
+
+    expect(rows.map((r) => r.type)).toEqual(['unchanged', 'changed', 'added', 'unchanged', 'unchanged']);
+    expect(rows[1]).toEqual({
+      type: 'changed',
+      left: { line: 2, text: 'const b = 2;' },
+      right: { line: 2, text: 'const b = 3;' },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for per-issue git worktrees, against a throwaway repository.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createWorktree, getWorktreePath, removeWorktree } from '../worktree';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-C', cwd, ...args], { encoding: 'utf-8' }).trim();
+}
+
+describe('worktrees', () => {
+  let dir: string;
+  let repo: string;
+  let root: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-worktree-'));
+    repo = path.join(dir, 'repo');
+    root = path.join(dir, 'worktrees');
+    fs.mkdirSync(repo);
+    git(repo, 'init', '-q', '-b', 'main');
+    fs.writeFileSync(path.join(repo, 'README.md'), 'hello\n');
+    git(repo, 'add', '.');
+    git(repo, '-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('gives each issue a unique, filesystem-safe path', () => {
+    const first = getWorktreePath('sentry/123', root);
+    expect(path.dirname(first)).toBe(root);
+    expect(path.basename(first)).toMatch(/^sentry_123-/);
+    expect(getWorktreePath('sentry/123', root)).not.toBe(first);
+  });
+
+  it('creates a detached checkout of the base branch and removes it', async () => {
+    const worktree = await createWorktree(repo, 'issue-1', { root });
+
+    expect(fs.readFileSync(path.join(worktree, 'README.md'), 'utf-8')).toBe('hello\n');
+    expect(git(worktree, 'rev-parse', 'HEAD')).toBe(git(repo, 'rev-parse', 'main'));
+    expect(git(worktree, 'branch', '--show-current')).toBe('');
+
+    await removeWorktree(repo, worktree);
+    expect(fs.existsSync(worktree)).toBe(false);
+    expect(git(repo, 'worktree', 'list')).not.toContain(worktree);
+  });
+
+  it('fails with the git error for an unknown base branch', async () => {
+    await expect(createWorktree(repo, 'issue-1', { root, baseBranch: 'missing' }))
+      .rejects.toThrow(/Failed to create worktree for issue-1/);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Branch Diffs
+ *
+ * What a build run changed: the diff of its branch against the base branch
+ * it was created from, read from the target repository. Runs in worktrees
+ * create their branches in the shared repository, so every run's branch
+ * is found there.
+ */
+
+import { execFile } from 'child_process';
+import { parseUnifiedDiff } from './unified-diff';
+import type { IssueDiff, RunBranch } from './types';
+
+// Largest diff read from git; anything bigger fails instead of being cut off
+const MAX_DIFF_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Run a git command in a repository, resolving with its output and
+ * rejecting with git's error output.
+ */
+function git(repoRoot: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', ['-C', repoRoot, ...args], { maxBuffer: MAX_DIFF_BYTES }, (error, stdout, stderr) => {
+      if (error) reject(new Error(String(stderr).trim() || error.message));
+      else resolve(String(stdout));
+    });
+  });
+}
+
+/**
+ * Whether a branch exists in the repository.
+ */
+async function branchExists(repoRoot: string, branch: string): Promise<boolean> {
+  try {
+    await git(repoRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Diff a run's branch against its base branch. Compares against where the
+ * branch forked off (`base...branch`), so later commits on the base branch
+ * don't show up as changes.
+ *
+ * @returns The diff, or null when either branch doesn't exist
+ */
+export async function getBranchDiff(
+  repoRoot: string,
+  issueId: string,
+  { branch, baseBranch }: RunBranch
+): Promise<IssueDiff | null> {
+  const [hasBranch, hasBase] = await Promise.all([branchExists(repoRoot, branch), branchExists(repoRoot, baseBranch)]);
+  if (!hasBranch || !hasBase) return null;
+
+  const diff = await git(repoRoot, ['diff', '--no-color', '--no-ext-diff', '-M', `${baseBranch}...${branch}`]);
+  const files = parseUnifiedDiff(diff);
+
+  return {
+    issueId,
+    branch,
+    baseBranch,
+    diff,
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+  };
+}
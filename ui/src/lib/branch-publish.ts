@@ -0,0 +1,77 @@
+/**
+ * Branch Publishing
+ *
+ * Server-side git and GitHub operations on the branch of a build run held
+ * for review: pushing it and opening its PR once a reviewer approves it,
+ * or deleting it when the reviewer discards it. Mirrors what the engine
+ * does itself after a run that isn't held.
+ */
+
+import { execFile } from 'child_process';
+import type { RunBranch } from './types';
+
+/**
+ * Matches a PR URL in `gh pr create` output.
+ */
+const PR_URL_REGEX = /https:\/\/\S+\/pull\/\d+/;
+
+/**
+ * Run a command in a repository, resolving with its output and rejecting
+ * with its error output.
+ */
+function run(repoRoot: string, command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { cwd: repoRoot }, (error, stdout, stderr) => {
+      if (error) reject(new Error(String(stderr).trim() || error.message));
+      else resolve(String(stdout));
+    });
+  });
+}
+
+/**
+ * Push a branch to origin, setting it as the branch's upstream.
+ */
+export async function pushBranch(repoRoot: string, branch: string): Promise<void> {
+  await run(repoRoot, 'git', ['push', '-u', 'origin', branch]);
+}
+
+/**
+ * Open a PR from a pushed branch into its base branch. When the branch
+ * already has an open PR, that one is returned instead.
+ *
+ * @returns URL of the PR
+ */
+export async function createPullRequest(
+  repoRoot: string,
+  { branch, baseBranch }: RunBranch,
+  { title, body }: { title: string; body: string }
+): Promise<string> {
+  let output: string;
+  try {
+    output = await run(repoRoot, 'gh', [
+      'pr', 'create', '--head', branch, '--base', baseBranch, '--title', title, '--body', body,
+    ]);
+  } catch (e) {
+    if (!(e instanceof Error) || !e.message.includes('already exists')) throw e;
+    output = await run(repoRoot, 'gh', ['pr', 'view', branch, '--json', 'url', '--jq', '.url']);
+  }
+
+  const url = output.match(PR_URL_REGEX)?.[0];
+  if (!url) throw new Error(`No PR URL in gh output: ${output.trim()}`);
+  return url;
+}
+
+/**
+ * Commit a branch points at.
+ */
+export async function resolveBranchHead(repoRoot: string, branch: string): Promise<string> {
+  return (await run(repoRoot, 'git', ['rev-parse', branch])).trim();
+}
+
+/**
+ * Delete a local branch, unmerged commits and all. Fails when the branch
+ * is checked out, e.g. by a run still using it.
+ */
+export async function deleteBranch(repoRoot: string, branch: string): Promise<void> {
+  await run(repoRoot, 'git', ['branch', '-D', branch]);
+}
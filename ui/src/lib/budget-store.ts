@@ -0,0 +1,162 @@
+/**
+ * Budget Store
+ *
+ * Server-side record of processing spend, checked against the budget
+ * limits by processIssues (see budget.ts). Holds the daily limit set on the
+ * settings API and spend per UTC day, per batch and per issue within a
+ * batch, persisted so a server restart doesn't reset what has already been
+ * spent. Retries and escalations of a job stay in its batch, so an issue's
+ * spend adds up across all of its attempts.
+ */
+
+import { getBudgetDay, type BudgetStatus } from './budget';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PersistedBudget {
+  dailyLimitUsd?: number;
+  spendByDay: Record<string, number>;
+  spendByBatch: Record<string, number>;
+  /** Keyed by `${batchId}:${issueId}` */
+  spendByIssue: Record<string, number>;
+}
+
+// Keep spend for the most recent days, batches and issues only
+const MAX_DAYS = 31;
+const MAX_BATCHES = 200;
+const MAX_ISSUES = 1000;
+
+/**
+ * Keep the last `max` entries of a record (insertion order).
+ */
+function keepLast(record: Record<string, number>, max: number): Record<string, number> {
+  const keys = Object.keys(record);
+  if (keys.length <= max) return record;
+  return Object.fromEntries(keys.slice(-max).map((key) => [key, record[key]]));
+}
+
+/**
+ * Add to an entry of a record, re-inserting it so it counts as recent.
+ */
+function addRecent(record: Record<string, number>, key: string, amount: number, max: number): Record<string, number> {
+  const { [key]: previous = 0, ...others } = record;
+  return keepLast({ ...others, [key]: previous + amount }, max);
+}
+
+function issueKey(batchId: string, issueId: string): string {
+  return `${batchId}:${issueId}`;
+}
+
+// ============================================================================
+// Budget Store
+// ============================================================================
+
+export class BudgetStore {
+  private state: PersistedBudget;
+
+  /**
+   * @param filePath - Where to persist spend; null keeps it in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('budget.json')) {
+    const empty: PersistedBudget = { spendByDay: {}, spendByBatch: {}, spendByIssue: {} };
+    this.state = filePath ? { ...empty, ...readJsonFile<Partial<PersistedBudget>>(filePath, {}) } : empty;
+  }
+
+  getDailyLimit(): number | undefined {
+    return this.state.dailyLimitUsd;
+  }
+
+  /**
+   * Set the daily limit; undefined removes it. Callers validate with
+   * validateBudgetLimit first.
+   */
+  setDailyLimit(limitUsd: number | undefined): void {
+    this.state.dailyLimitUsd = limitUsd;
+    this.persist();
+  }
+
+  getSpentToday(now: Date = new Date()): number {
+    return this.state.spendByDay[getBudgetDay(now)] ?? 0;
+  }
+
+  getBatchSpend(batchId: string): number {
+    return this.state.spendByBatch[batchId] ?? 0;
+  }
+
+  /**
+   * Spend of an issue across all of its attempts in a batch.
+   */
+  getIssueSpend(batchId: string, issueId: string): number {
+    return this.state.spendByIssue[issueKey(batchId, issueId)] ?? 0;
+  }
+
+  /**
+   * Count new spend against the current day, a batch and, when given, an
+   * issue of the batch.
+   */
+  recordSpend(
+    amountUsd: number,
+    batchId: string,
+    { issueId, now = new Date() }: { issueId?: string; now?: Date } = {}
+  ): void {
+    if (!(amountUsd > 0)) return;
+    const day = getBudgetDay(now);
+    this.state.spendByDay = keepLast(
+      { ...this.state.spendByDay, [day]: (this.state.spendByDay[day] ?? 0) + amountUsd },
+      MAX_DAYS
+    );
+    this.state.spendByBatch = addRecent(this.state.spendByBatch, batchId, amountUsd, MAX_BATCHES);
+    if (issueId) {
+      this.state.spendByIssue = addRecent(
+        this.state.spendByIssue,
+        issueKey(batchId, issueId),
+        amountUsd,
+        MAX_ISSUES
+      );
+    }
+    this.persist();
+  }
+
+  getStatus(now: Date = new Date()): BudgetStatus {
+    const limit = this.state.dailyLimitUsd;
+    const spentTodayUsd = this.getSpentToday(now);
+    return {
+      dailyLimitUsd: limit ?? null,
+      spentTodayUsd,
+      remainingTodayUsd: limit !== undefined ? Math.max(limit - spentTodayUsd, 0) : null,
+    };
+  }
+
+  private persist(): void {
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.state);
+    } catch (e) {
+      console.error('Failed to persist budget:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphBudgetStore?: BudgetStore;
+};
+
+/**
+ * Get the process-wide budget store.
+ */
+export function getBudgetStore(): BudgetStore {
+  if (!globalState.__ralphBudgetStore) {
+    globalState.__ralphBudgetStore = new BudgetStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('budget.json')
+    );
+  }
+  return globalState.__ralphBudgetStore;
+}
@@ -0,0 +1,154 @@
+/**
+ * Cost Budgets
+ *
+ * Pure helpers for the spend limits on processing runs: a run's per-issue
+ * and per-batch limits (ProcessingOptions.budget) and the server-wide daily
+ * limit (budget-store.ts). Shared by the server, which enforces the limits
+ * in processIssues, and the UI, which shows what's left.
+ */
+
+import type {
+  BudgetExceededPayload,
+  BudgetLimits,
+  BudgetScope,
+  RemainingBudget,
+} from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * All limits that apply to a run.
+ */
+export interface ApplicableBudget extends BudgetLimits {
+  /** Server-wide limit on spend per UTC day */
+  perDayUsd?: number;
+}
+
+/**
+ * Spend counted against each limit, in USD.
+ */
+export interface BudgetUsage {
+  issueUsd: number;
+  batchUsd: number;
+  dayUsd: number;
+}
+
+/**
+ * Daily budget as served by `GET /api/settings/budget`.
+ */
+export interface BudgetStatus {
+  dailyLimitUsd: number | null;
+  spentTodayUsd: number;
+  /** Null when no daily limit is set */
+  remainingTodayUsd: number | null;
+}
+
+// Checked in this order, so the narrowest limit is reported first
+const SCOPES: { scope: BudgetScope; limit: keyof ApplicableBudget; usage: keyof BudgetUsage }[] = [
+  { scope: 'issue', limit: 'perIssueUsd', usage: 'issueUsd' },
+  { scope: 'batch', limit: 'perBatchUsd', usage: 'batchUsd' },
+  { scope: 'day', limit: 'perDayUsd', usage: 'dayUsd' },
+];
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  issue: 'Per-issue',
+  batch: 'Per-batch',
+  day: 'Daily',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Key of the UTC day a spend is counted against.
+ */
+export function getBudgetDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Validate a limit from user input: a positive number, or undefined for
+ * no limit. Returns an error message, or null when valid.
+ */
+export function validateBudgetLimit(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return 'Budget limit must be a positive number of USD';
+  }
+  return null;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * The first limit that spend has reached, if any.
+ */
+export function findBudgetViolation(
+  limits: ApplicableBudget,
+  usage: BudgetUsage
+): BudgetExceededPayload | null {
+  for (const { scope, limit, usage: key } of SCOPES) {
+    const limitUsd = limits[limit];
+    if (limitUsd === undefined || usage[key] < limitUsd) continue;
+    return {
+      scope,
+      limitUsd,
+      spentUsd: usage[key],
+      error: `${SCOPE_LABELS[scope]} budget of ${formatUsd(limitUsd)} exceeded (spent ${formatUsd(usage[key])})`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Budget left under the tightest applicable limit, or null when no limit
+ * applies.
+ */
+export function getRemainingBudget(
+  limits: ApplicableBudget,
+  usage: BudgetUsage
+): RemainingBudget | null {
+  let remaining: RemainingBudget | null = null;
+  for (const { scope, limit, usage: key } of SCOPES) {
+    const limitUsd = limits[limit];
+    if (limitUsd === undefined) continue;
+    const remainingUsd = Math.max(limitUsd - usage[key], 0);
+    if (!remaining || remainingUsd < remaining.remainingUsd) {
+      remaining = { scope, remainingUsd };
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Most a new batch of issues may spend before a limit stops it.
+ *
+ * @param remainingTodayUsd - What's left of the daily limit, if one is set
+ */
+export function getBatchBudget(
+  limits: BudgetLimits | undefined,
+  issueCount: number,
+  remainingTodayUsd?: number
+): RemainingBudget | null {
+  return getRemainingBudget(
+    {
+      perIssueUsd: limits?.perIssueUsd !== undefined ? limits.perIssueUsd * issueCount : undefined,
+      perBatchUsd: limits?.perBatchUsd,
+      perDayUsd: remainingTodayUsd,
+    },
+    { issueUsd: 0, batchUsd: 0, dayUsd: 0 }
+  );
+}
+
+export function getBudgetScopeLabel(scope: BudgetScope): string {
+  return SCOPE_LABELS[scope];
+}
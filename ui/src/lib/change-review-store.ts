@@ -0,0 +1,135 @@
+/**
+ * Change Review Store
+ *
+ * Server-side review state of build runs held before pushing
+ * (ProcessingOptions.reviewBeforePush). A held run leaves its branch
+ * ready for review, with a snapshot of what the run did; a reviewer then
+ * approves it (push + PR), requests another iteration or discards the
+ * branch.
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { ChangeReview, ChangeReviewStatus, RunBranch, RunSummary, RunTestResults } from './types';
+
+type ReviewMap = Record<string, ChangeReview>;
+
+/**
+ * A held run's changes, as put up for review.
+ */
+export interface ChangeSubmission {
+  jobId?: string;
+  branch: RunBranch;
+  summary: RunSummary;
+  testResults?: RunTestResults;
+}
+
+/**
+ * A reviewer's decision on changes ready for review.
+ */
+export interface ChangeDecision {
+  status: Exclude<ChangeReviewStatus, 'ready_for_review'>;
+  actor: string;
+  comment?: string;
+  /** PR opened for approved changes */
+  prUrl?: string;
+}
+
+// ============================================================================
+// Change Review Store
+// ============================================================================
+
+export class ChangeReviewStore {
+  private reviews: ReviewMap;
+  private version = 0;
+
+  /**
+   * @param filePath - Where to persist reviews; null keeps them in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('change-reviews.json')) {
+    this.reviews = filePath ? readJsonFile<ReviewMap>(filePath, {}) : {};
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  get(issueId: string): ChangeReview | undefined {
+    return this.reviews[issueId];
+  }
+
+  /**
+   * Put a held run's changes up for review. Replaces any earlier review,
+   * since it was about a previous run.
+   */
+  submit(issueId: string, { jobId, branch, summary, testResults }: ChangeSubmission): ChangeReview {
+    return this.save({
+      issueId,
+      status: 'ready_for_review',
+      jobId,
+      branch: branch.branch,
+      baseBranch: branch.baseBranch,
+      summary,
+      testResults,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a reviewer's decision. The run's snapshot is kept, so the
+   * review still shows what was decided on.
+   *
+   * @returns The updated review, or null when the issue has none
+   */
+  decide(issueId: string, decision: ChangeDecision): ChangeReview | null {
+    const review = this.reviews[issueId];
+    if (!review) return null;
+    const now = new Date().toISOString();
+    return this.save({
+      ...review,
+      status: decision.status,
+      comment: decision.comment,
+      prUrl: decision.prUrl,
+      reviewedBy: decision.actor,
+      reviewedAt: now,
+      updatedAt: now,
+    });
+  }
+
+  private save(review: ChangeReview): ChangeReview {
+    this.reviews[review.issueId] = review;
+    this.persist();
+    return review;
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.reviews);
+    } catch (e) {
+      console.error('Failed to persist change reviews:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphChangeReviewStore?: ChangeReviewStore;
+};
+
+/**
+ * Get the process-wide change review store.
+ */
+export function getChangeReviewStore(): ChangeReviewStore {
+  if (!globalState.__ralphChangeReviewStore) {
+    globalState.__ralphChangeReviewStore = new ChangeReviewStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('change-reviews.json')
+    );
+  }
+  return globalState.__ralphChangeReviewStore;
+}
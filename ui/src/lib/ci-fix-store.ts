@@ -0,0 +1,145 @@
+/**
+ * CI Fix Store
+ *
+ * Server-side record of CI fix attempts: build runs that try to fix the
+ * failing checks of a PR opened by an earlier run, on the PR's branch.
+ * Attempts are numbered per PR so the number of automatic fixes can be
+ * capped (CIConfig.maxRetries).
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { CIFailure, CIFixAttempt } from './types';
+
+type AttemptMap = Record<string, CIFixAttempt>;
+
+/**
+ * A PR's failing commit, as handed to a fix attempt.
+ */
+export interface CIFixRequest {
+  issueId: string;
+  owner: string;
+  repo: string;
+  prUrl: string;
+  branch: string;
+  sha: string;
+  failures: CIFailure[];
+}
+
+/**
+ * How a fix attempt's run ended.
+ */
+export interface CIFixOutcome {
+  success: boolean;
+  /** Head of the PR's branch after the run, when it reported one */
+  headSha?: string;
+  error?: string;
+}
+
+// ============================================================================
+// CI Fix Store
+// ============================================================================
+
+export class CIFixStore {
+  private attempts: AttemptMap;
+
+  /**
+   * @param filePath - Where to persist attempts; null keeps them in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('ci-fixes.json')) {
+    this.attempts = filePath ? readJsonFile<AttemptMap>(filePath, {}) : {};
+  }
+
+  get(id: string): CIFixAttempt | undefined {
+    return this.attempts[id];
+  }
+
+  /**
+   * Fix attempts on a PR, oldest first.
+   */
+  listForPullRequest(prUrl: string): CIFixAttempt[] {
+    return Object.values(this.attempts)
+      .filter((attempt) => attempt.prUrl === prUrl)
+      .sort((a, b) => a.attempt - b.attempt);
+  }
+
+  /**
+   * Record a new fix attempt on a PR's failing commit.
+   */
+  create(request: CIFixRequest): CIFixAttempt {
+    const now = new Date().toISOString();
+    return this.save({
+      ...request,
+      id: `ci-fix-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      attempt: this.listForPullRequest(request.prUrl).length + 1,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Link an attempt to the queue job running it.
+   */
+  assignJob(id: string, jobId: string): CIFixAttempt | null {
+    const attempt = this.attempts[id];
+    if (!attempt) return null;
+    return this.save({ ...attempt, jobId, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Record how an attempt's run ended. A run only counts as a fix once it
+   * moved the PR's branch past the failing commit.
+   *
+   * @returns The updated attempt, or null when there is none with this ID
+   */
+  finish(id: string, { success, headSha, error }: CIFixOutcome): CIFixAttempt | null {
+    const attempt = this.attempts[id];
+    if (!attempt) return null;
+    const pushed = success && !!headSha && headSha !== attempt.sha;
+    return this.save({
+      ...attempt,
+      status: pushed ? 'pushed' : 'failed',
+      headSha,
+      error: pushed ? undefined : error ?? (success ? 'The fix run pushed no new commits to the PR' : 'The fix run failed'),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private save(attempt: CIFixAttempt): CIFixAttempt {
+    this.attempts[attempt.id] = attempt;
+    this.persist();
+    return attempt;
+  }
+
+  private persist(): void {
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.attempts);
+    } catch (e) {
+      console.error('Failed to persist CI fix attempts:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphCIFixStore?: CIFixStore;
+};
+
+/**
+ * Get the process-wide CI fix store.
+ */
+export function getCIFixStore(): CIFixStore {
+  if (!globalState.__ralphCIFixStore) {
+    globalState.__ralphCIFixStore = new CIFixStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('ci-fixes.json')
+    );
+  }
+  return globalState.__ralphCIFixStore;
+}
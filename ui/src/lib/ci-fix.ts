@@ -0,0 +1,62 @@
+/**
+ * CI Fix
+ *
+ * Pure helpers for runs that fix a PR's failing CI checks: the failure
+ * context handed to the run (RALPH_CI_FAILURES), in compact form.
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import type { CIFailure, CIFailureDetail } from './types';
+
+// Parsed errors listed per failure; the rest are counted
+const MAX_DETAILS_PER_FAILURE = 30;
+// Longest message kept for a parsed error
+const MAX_MESSAGE_CHARS = 300;
+// Without parsed errors, the end of the log (where errors are) is passed on
+const MAX_LOG_CHARS = 2000;
+
+/**
+ * One line per parsed error: `file:line:col [rule] test: message`.
+ */
+function formatDetail({ file, line, column, rule, test, message }: CIFailureDetail): string {
+  const location = file ? [file, line, column].filter((part) => part !== undefined).join(':') : null;
+  const text = message.length > MAX_MESSAGE_CHARS ? message.slice(0, MAX_MESSAGE_CHARS) + '...' : message;
+  return [location, rule && `[${rule}]`, test && `"${test}"`, text].filter(Boolean).join(' ');
+}
+
+/**
+ * Describe a commit's CI failures for the run that fixes them: the errors
+ * parsed from each check's logs, or the end of its log when none were.
+ */
+export function formatCIFailureContext(
+  { owner, repo, sha }: { owner: string; repo: string; sha: string },
+  failures: CIFailure[]
+): string {
+  const failureContext = failures
+    .map((f, i) => {
+      let context = `${i + 1}. ${f.checkName}: ${f.error}`;
+      if (f.details?.length) {
+        const shown = f.details.slice(0, MAX_DETAILS_PER_FAILURE);
+        context += shown.map((detail) => `\n   - ${formatDetail(detail)}`).join('');
+        if (f.details.length > shown.length) {
+          context += `\n   (${f.details.length - shown.length} more)`;
+        }
+      } else if (f.logs) {
+        const logs = f.logs.length > MAX_LOG_CHARS ? '...' + f.logs.slice(-MAX_LOG_CHARS) : f.logs;
+        context += `\n   Logs:\n   ${logs}`;
+      }
+      return context;
+    })
+    .join('\n\n');
+
+  return `CI/CD Pipeline Failures for ${owner}/${repo} at commit ${sha}:
+
+${failureContext}
+
+Analyze these failures and fix them. Focus on:
+1. Type errors and linting issues
+2. Test failures
+3. Build errors
+4. Security scan findings`;
+}
@@ -0,0 +1,256 @@
+/**
+ * CI Log Parsers
+ *
+ * Turns raw CI logs into structured failures (file, line, rule or test
+ * name, message), so a failing check shows what broke instead of
+ * "Process completed with exit code 1".
+ *
+ * Parsers are kept in a registry; every registered parser whose `detect`
+ * accepts a log gets to parse it. Built in:
+ * - tsc: `file(line,col): error TSxxxx: message` and the pretty form
+ * - eslint: the default "stylish" formatter
+ * - jest: `● Suite › test` failure blocks
+ * - pytest: the short test summary (`FAILED`/`ERROR` lines)
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import type { CIFailureDetail } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Extracts failures of one toolchain from CI logs.
+ */
+export interface CILogParser {
+  /** Reported as CIFailureDetail.parser */
+  name: string;
+  /** Cheap check whether the cleaned log may contain this tool's output */
+  detect: (log: string) => boolean;
+  /** Failures found in the log's lines, timestamps and colors removed */
+  parse: (lines: string[]) => CIFailureDetail[];
+}
+
+// ============================================================================
+// Log Cleanup
+// ============================================================================
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+// GitHub Actions prefixes every log line with its timestamp
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z ?/;
+
+/**
+ * Split a raw log into lines without colors and timestamps.
+ */
+export function cleanLogLines(log: string): string[] {
+  return log
+    .replace(ANSI_PATTERN, '')
+    .split(/\r?\n/)
+    .map((line) => line.replace(TIMESTAMP_PATTERN, ''));
+}
+
+// Checkout directory of GitHub-hosted runners, in absolute paths tools report
+const RUNNER_WORKSPACE_PATTERN = /^\/home\/runner\/work\/[^/]+\/[^/]+\//;
+
+/**
+ * Normalize a reported path: forward slashes, relative to the checkout.
+ */
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(RUNNER_WORKSPACE_PATTERN, '').replace(/^\.\//, '');
+}
+
+// ============================================================================
+// Built-in Parsers
+// ============================================================================
+
+const TSC_PATTERN = /^\s*([^\s(]+?)(?:\((\d+),(\d+)\)|:(\d+):(\d+))\s*(?::|-)\s*error\s+(TS\d+):\s*(.+)$/;
+
+export const tscParser: CILogParser = {
+  name: 'tsc',
+  detect: (log) => /error\s+TS\d+/.test(log),
+  parse: (lines) =>
+    lines.flatMap((line) => {
+      const match = TSC_PATTERN.exec(line);
+      if (!match) return [];
+      const [, file, parenLine, parenCol, colonLine, colonCol, rule, message] = match;
+      return [
+        {
+          parser: 'tsc',
+          file: normalizePath(file),
+          line: Number(parenLine ?? colonLine),
+          column: Number(parenCol ?? colonCol),
+          rule,
+          message: message.trim(),
+        },
+      ];
+    }),
+};
+
+const ESLINT_FILE_PATTERN = /^\s*((?:[A-Za-z]:)?[\w@./\\-]+\.[cm]?[jt]sx?|(?:[A-Za-z]:)?[\w@./\\-]+\.(?:vue|svelte|astro))\s*$/;
+const ESLINT_PROBLEM_PATTERN = /^\s+(\d+):(\d+)\s+error\s+(.+?)(?:\s{2,}(\S+))?\s*$/;
+
+export const eslintParser: CILogParser = {
+  name: 'eslint',
+  detect: (log) => /^\s+\d+:\d+\s+error\s/m.test(log),
+  parse: (lines) => {
+    const details: CIFailureDetail[] = [];
+    let file: string | null = null;
+    for (const line of lines) {
+      const problem = ESLINT_PROBLEM_PATTERN.exec(line);
+      if (problem && file) {
+        const [, lineNo, column, message, rule] = problem;
+        details.push({
+          parser: 'eslint',
+          file,
+          line: Number(lineNo),
+          column: Number(column),
+          rule,
+          message: message.trim(),
+        });
+        continue;
+      }
+      const header = ESLINT_FILE_PATTERN.exec(line);
+      if (header) {
+        file = normalizePath(header[1]);
+      } else if (!/^\s+\d+:\d+\s/.test(line)) {
+        // Anything but another problem line ends the file's block
+        file = null;
+      }
+    }
+    return details;
+  },
+};
+
+const JEST_FILE_PATTERN = /^\s*FAIL\s+(\S+)/;
+const JEST_TEST_PATTERN = /^\s*●\s+(.+)$/;
+const JEST_FRAME_PATTERN = /\(?([^\s()]+?):(\d+):(\d+)\)?$/;
+
+export const jestParser: CILogParser = {
+  name: 'jest',
+  detect: (log) => /^\s*●\s/m.test(log),
+  parse: (lines) => {
+    const details: CIFailureDetail[] = [];
+    let file: string | undefined;
+    let current: CIFailureDetail | null = null;
+    for (const line of lines) {
+      const suite = JEST_FILE_PATTERN.exec(line);
+      if (suite) {
+        file = normalizePath(suite[1]);
+        current = null;
+        continue;
+      }
+      const test = JEST_TEST_PATTERN.exec(line);
+      if (test) {
+        // "● Console" blocks are logged output, not failures
+        if (test[1].trim() === 'Console') {
+          current = null;
+          continue;
+        }
+        current = { parser: 'jest', file, test: test[1].trim(), message: '' };
+        details.push(current);
+        continue;
+      }
+      if (!current) continue;
+      const text = line.trim();
+      if (!current.message) {
+        if (text) current.message = text;
+        continue;
+      }
+      // The first stack frame in the test file locates the failure
+      if (current.line === undefined && text.startsWith('at ')) {
+        const frame = JEST_FRAME_PATTERN.exec(text);
+        if (frame && !frame[1].includes('node_modules')) {
+          const frameFile = normalizePath(frame[1]);
+          if (!file || frameFile.endsWith(file) || file.endsWith(frameFile)) {
+            current.line = Number(frame[2]);
+            current.column = Number(frame[3]);
+          }
+        }
+      }
+    }
+    return details.map((detail) => ({ ...detail, message: detail.message || 'Test failed' }));
+  },
+};
+
+const PYTEST_SUMMARY_PATTERN = /^(FAILED|ERROR)\s+(\S+?\.py)(?:::(\S+))?(?:\s+-\s+(.+))?$/;
+const PYTEST_LOCATION_PATTERN = /^(\S+?\.py):(\d+):\s+\w+/;
+
+export const pytestParser: CILogParser = {
+  name: 'pytest',
+  detect: (log) => /^(?:FAILED|ERROR)\s+\S+\.py/m.test(log),
+  parse: (lines) => {
+    // Tracebacks end with `file.py:line: ErrorType`; the last one per file wins
+    const locations = new Map<string, number>();
+    for (const line of lines) {
+      const location = PYTEST_LOCATION_PATTERN.exec(line);
+      if (location) locations.set(normalizePath(location[1]), Number(location[2]));
+    }
+
+    return lines.flatMap((line) => {
+      const match = PYTEST_SUMMARY_PATTERN.exec(line.trim());
+      if (!match) return [];
+      const [, outcome, rawFile, test, message] = match;
+      const file = normalizePath(rawFile);
+      return [
+        {
+          parser: 'pytest',
+          file,
+          line: locations.get(file),
+          test: test ? test.replace(/::/g, ' › ') : undefined,
+          message: message?.trim() || (outcome === 'ERROR' ? 'Error collecting tests' : 'Test failed'),
+        },
+      ];
+    });
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const parsers: CILogParser[] = [tscParser, eslintParser, jestParser, pytestParser];
+
+/**
+ * Add a parser, replacing a registered one with the same name.
+ */
+export function registerCILogParser(parser: CILogParser): void {
+  const index = parsers.findIndex((p) => p.name === parser.name);
+  if (index >= 0) {
+    parsers[index] = parser;
+  } else {
+    parsers.push(parser);
+  }
+}
+
+/**
+ * Names of the registered parsers, in the order they run.
+ */
+export function getCILogParserNames(): string[] {
+  return parsers.map((p) => p.name);
+}
+
+/**
+ * Extract structured failures from a raw CI log with every parser that
+ * recognizes it. Duplicates (e.g. an error echoed twice) are reported once.
+ */
+export function parseCILog(log: string): CIFailureDetail[] {
+  const lines = cleanLogLines(log);
+  const cleaned = lines.join('\n');
+  const candidates = parsers.filter((parser) => parser.detect(cleaned));
+  if (candidates.length === 0) return [];
+
+  const seen = new Set<string>();
+  const details: CIFailureDetail[] = [];
+  for (const parser of candidates) {
+    for (const detail of parser.parse(lines)) {
+      const key = [detail.parser, detail.file, detail.line, detail.column, detail.rule, detail.test, detail.message].join('\u0000');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      details.push(detail);
+    }
+  }
+  return details;
+}
@@ -0,0 +1,193 @@
+/**
+ * GitHub CI Provider
+ *
+ * CI status from GitHub check runs. Statuses are cached per commit and,
+ * while GitHub webhooks arrive, kept current by them (see
+ * ci-status-cache.ts).
+ *
+ * Configuration:
+ * - GITHUB_TOKEN / GH_TOKEN: token for the GitHub API (required)
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import type { CIProvider, CIRepository, CIResult } from './ci-provider';
+import { getCIStatusCache, refreshCIStatus } from './ci-status-cache';
+import type { CILogsResponse, CIStatusResponse } from './types';
+
+// Without webhooks, a cached status is reused for this long to spare the rate limit
+const CACHE_TTL_MS = 10_000;
+
+interface GitHubAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: string;
+  message: string;
+  title: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getToken(): string | undefined {
+  return process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+}
+
+const MISSING_TOKEN = {
+  ok: false,
+  status: 500,
+  error: 'GitHub token not configured. Set GITHUB_TOKEN or GH_TOKEN environment variable.',
+} as const;
+
+function githubRequest(path: string, token: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`https://api.github.com${path}`, {
+    ...init,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token}`,
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+}
+
+/**
+ * Build the logs of a check run from its output and annotations.
+ */
+function formatCheckRunLogs(
+  output: { title?: string | null; summary?: string | null; text?: string | null } | undefined,
+  annotations: GitHubAnnotation[]
+): string {
+  let logs = '';
+
+  // Add output summary if available
+  if (output?.title) {
+    logs += `=== ${output.title} ===\n\n`;
+  }
+
+  if (output?.summary) {
+    logs += `${output.summary}\n\n`;
+  }
+
+  if (output?.text) {
+    logs += `${output.text}\n\n`;
+  }
+
+  // Add annotations as error details
+  if (annotations.length > 0) {
+    logs += '=== Annotations ===\n\n';
+    for (const annotation of annotations) {
+      logs += `[${annotation.annotation_level.toUpperCase()}] ${annotation.path}:${annotation.start_line}`;
+      if (annotation.start_line !== annotation.end_line) {
+        logs += `-${annotation.end_line}`;
+      }
+      logs += '\n';
+      if (annotation.title) {
+        logs += `  ${annotation.title}\n`;
+      }
+      logs += `  ${annotation.message}\n\n`;
+    }
+  }
+
+  // If no logs available, provide a helpful message
+  if (!logs.trim()) {
+    logs = 'No detailed logs available. Check the GitHub UI for full logs.';
+  }
+
+  return logs;
+}
+
+// ============================================================================
+// GitHub CI Provider
+// ============================================================================
+
+async function getStatus(
+  { owner, repo }: CIRepository,
+  sha: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<CIResult<CIStatusResponse>> {
+  const githubToken = getToken();
+  if (!githubToken) return MISSING_TOKEN;
+
+  // Served from the cache while webhooks keep it current, or while fresh
+  const cache = getCIStatusCache();
+  const cached = cache.get(owner, repo, sha);
+  if (
+    cached?.status &&
+    !refresh &&
+    (cache.receivesWebhooks(owner, repo) || Date.now() - cached.updatedAt < CACHE_TTL_MS)
+  ) {
+    return { ok: true, data: cached.status };
+  }
+
+  const result = await refreshCIStatus(cache, owner, repo, sha, githubToken);
+  if (result.ok) {
+    return { ok: true, data: result.status };
+  }
+  if (result.status === 404) {
+    return { ok: false, status: 404, error: `Commit ${sha} not found in ${owner}/${repo}` };
+  }
+  if (result.status === 401 || result.status === 403) {
+    return { ok: false, status: 401, error: 'GitHub authentication failed. Check your token permissions.' };
+  }
+  return { ok: false, status: result.status, error: `GitHub API error: ${result.status}` };
+}
+
+export const githubCIProvider: CIProvider = {
+  name: 'github',
+
+  getStatus,
+
+  async listFailures(repository, sha) {
+    const result = await getStatus(repository, sha);
+    return result.ok ? { ok: true, data: result.data.failures } : result;
+  },
+
+  async fetchLogs({ owner, repo }, checkId) {
+    const githubToken = getToken();
+    if (!githubToken) return MISSING_TOKEN;
+
+    const base = `/repos/${owner}/${repo}/check-runs/${checkId}`;
+    const checkRunResponse = await githubRequest(base, githubToken);
+    if (!checkRunResponse.ok) {
+      if (checkRunResponse.status === 404) {
+        return { ok: false, status: 404, error: `Check run ${checkId} not found` };
+      }
+      return { ok: false, status: checkRunResponse.status, error: `GitHub API error: ${checkRunResponse.status}` };
+    }
+    const checkRun = await checkRunResponse.json();
+
+    // Annotations carry error details; the logs do without them
+    const annotationsResponse = await githubRequest(`${base}/annotations`, githubToken);
+    const annotations: GitHubAnnotation[] = annotationsResponse.ok ? await annotationsResponse.json() : [];
+
+    const logs: CILogsResponse = {
+      checkId,
+      name: checkRun.name,
+      logs: formatCheckRunLogs(checkRun.output, annotations),
+      downloadUrl: checkRun.html_url,
+    };
+    return { ok: true, data: logs };
+  },
+
+  async rerun({ owner, repo }, checkId) {
+    const githubToken = getToken();
+    if (!githubToken) return MISSING_TOKEN;
+
+    // A GitHub Actions check run's ID is its job's; other apps' check runs
+    // can only be re-requested
+    let response = await githubRequest(`/repos/${owner}/${repo}/actions/jobs/${checkId}/rerun`, githubToken, {
+      method: 'POST',
+    });
+    if (response.status === 404) {
+      response = await githubRequest(`/repos/${owner}/${repo}/check-runs/${checkId}/rerequest`, githubToken, {
+        method: 'POST',
+      });
+    }
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: `GitHub API error: ${response.status}` };
+    }
+    return { ok: true, data: { checkId } };
+  },
+};
@@ -0,0 +1,240 @@
+/**
+ * GitLab CI Provider
+ *
+ * CI status from GitLab pipelines: a commit's latest pipeline, whose jobs
+ * are its checks. Failed jobs have their traces parsed into structured
+ * failures like GitHub Actions logs.
+ *
+ * Configuration:
+ * - GITLAB_URL: the GitLab instance (default https://gitlab.com)
+ * - GITLAB_TOKEN: token with read_api (and api, to retry jobs); without one
+ *   only public projects can be read
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import type { CIProvider, CIRepository, CIResult } from './ci-provider';
+import { calculateOverallStatus, describeCIFailure, parseCILogTail, type ParsedCILog } from './ci-status';
+import type { CICheck, CIStatus, CIStatusResponse } from './types';
+
+// ============================================================================
+// Types for GitLab API Response
+// ============================================================================
+
+interface GitLabPipeline {
+  id: number;
+  sha: string;
+  status: string;
+  web_url: string;
+}
+
+export interface GitLabJob {
+  id: number;
+  name: string;
+  stage: string;
+  status:
+    | 'created'
+    | 'waiting_for_resource'
+    | 'preparing'
+    | 'pending'
+    | 'running'
+    | 'success'
+    | 'failed'
+    | 'canceled'
+    | 'skipped'
+    | 'manual'
+    | 'scheduled';
+  allow_failure: boolean;
+  failure_reason?: string;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  web_url: string;
+}
+
+// Traces of finished jobs, which don't change, by job ID
+const MAX_CACHED_TRACES = 100;
+const parsedTraces = new Map<number, ParsedCILog>();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function gitlabUrl(): string {
+  return (process.env.GITLAB_URL || 'https://gitlab.com').replace(/\/+$/, '');
+}
+
+function gitlabRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = process.env.GITLAB_TOKEN;
+  return fetch(`${gitlabUrl()}/api/v4${path}`, {
+    ...init,
+    headers: token ? { 'PRIVATE-TOKEN': token } : {},
+    cache: 'no-store',
+  });
+}
+
+function projectPath({ owner, repo }: CIRepository): string {
+  return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+}
+
+function apiError(response: Response, what: string): { ok: false; status: number; error: string } {
+  if (response.status === 404) {
+    return { ok: false, status: 404, error: `${what} not found` };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return { ok: false, status: 401, error: 'GitLab authentication failed. Check GITLAB_TOKEN.' };
+  }
+  return { ok: false, status: response.status, error: `GitLab API error: ${response.status}` };
+}
+
+/**
+ * Map a GitLab job status to our CIStatus type. Failures of jobs allowed
+ * to fail don't fail the pipeline; manual jobs only run on demand.
+ */
+export function mapGitLabStatus(job: Pick<GitLabJob, 'status' | 'allow_failure'>): CIStatus {
+  switch (job.status) {
+    case 'running':
+      return 'running';
+    case 'success':
+      return 'success';
+    case 'failed':
+      return job.allow_failure ? 'success' : 'failure';
+    case 'canceled':
+      return 'cancelled';
+    case 'skipped':
+    case 'manual':
+      return 'skipped';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Fetch and parse a failed job's trace.
+ */
+async function fetchParsedTrace(repository: CIRepository, jobId: number): Promise<ParsedCILog | null> {
+  const cached = parsedTraces.get(jobId);
+  if (cached) return cached;
+
+  try {
+    const response = await gitlabRequest(`${projectPath(repository)}/jobs/${jobId}/trace`);
+    if (!response.ok) {
+      console.error(`GitLab API error ${response.status} fetching trace of job ${jobId}`);
+      return null;
+    }
+    const parsed = parseCILogTail(await response.text());
+    if (parsedTraces.size >= MAX_CACHED_TRACES) {
+      parsedTraces.delete(parsedTraces.keys().next().value as number);
+    }
+    parsedTraces.set(jobId, parsed);
+    return parsed;
+  } catch (error) {
+    console.error(`Failed to fetch trace of job ${jobId}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// GitLab CI Provider
+// ============================================================================
+
+async function getStatus(repository: CIRepository, sha: string): Promise<CIResult<CIStatusResponse>> {
+  const project = projectPath(repository);
+  const pipelinesResponse = await gitlabRequest(
+    `${project}/pipelines?sha=${encodeURIComponent(sha)}&order_by=id&sort=desc&per_page=1`
+  );
+  if (!pipelinesResponse.ok) {
+    return apiError(pipelinesResponse, `Project ${repository.owner}/${repository.repo}`);
+  }
+  const [pipeline]: GitLabPipeline[] = await pipelinesResponse.json();
+
+  let jobs: GitLabJob[] = [];
+  if (pipeline) {
+    const jobsResponse = await gitlabRequest(`${project}/pipelines/${pipeline.id}/jobs?per_page=100`);
+    if (!jobsResponse.ok) {
+      return apiError(jobsResponse, `Pipeline ${pipeline.id}`);
+    }
+    jobs = await jobsResponse.json();
+  }
+
+  const checks: CICheck[] = jobs.map((job) => ({
+    id: job.id.toString(),
+    name: job.name,
+    status: mapGitLabStatus(job),
+    conclusion: job.finished_at ? job.status : null,
+    detailsUrl: job.web_url,
+    startedAt: job.started_at ?? job.created_at,
+    completedAt: job.finished_at ?? undefined,
+  }));
+
+  const failures = await Promise.all(
+    jobs
+      .filter((job) => mapGitLabStatus(job) === 'failure')
+      .map(async (job) =>
+        describeCIFailure(
+          job.name,
+          { summary: job.failure_reason && job.failure_reason !== 'script_failure' ? `Job failed: ${job.failure_reason}` : null },
+          await fetchParsedTrace(repository, job.id)
+        )
+      )
+  );
+
+  return {
+    ok: true,
+    data: {
+      prUrl: pipeline?.web_url ?? `${gitlabUrl()}/${repository.owner}/${repository.repo}/-/commit/${sha}`,
+      sha,
+      checks,
+      overallStatus: calculateOverallStatus(checks),
+      failures,
+      lastUpdated: new Date().toISOString(),
+    },
+  };
+}
+
+export const gitlabCIProvider: CIProvider = {
+  name: 'gitlab',
+
+  getStatus,
+
+  async listFailures(repository, sha) {
+    const result = await getStatus(repository, sha);
+    return result.ok ? { ok: true, data: result.data.failures } : result;
+  },
+
+  async fetchLogs(repository, checkId) {
+    const jobResponse = await gitlabRequest(`${projectPath(repository)}/jobs/${encodeURIComponent(checkId)}`);
+    if (!jobResponse.ok) {
+      return apiError(jobResponse, `Job ${checkId}`);
+    }
+    const job: GitLabJob = await jobResponse.json();
+
+    const traceResponse = await gitlabRequest(`${projectPath(repository)}/jobs/${encodeURIComponent(checkId)}/trace`);
+    if (!traceResponse.ok) {
+      return apiError(traceResponse, `Trace of job ${checkId}`);
+    }
+    const logs = await traceResponse.text();
+
+    return {
+      ok: true,
+      data: {
+        checkId,
+        name: job.name,
+        logs: logs.trim() ? logs : 'No logs available yet.',
+        downloadUrl: job.web_url,
+      },
+    };
+  },
+
+  async rerun(repository, checkId) {
+    const response = await gitlabRequest(`${projectPath(repository)}/jobs/${encodeURIComponent(checkId)}/retry`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      return apiError(response, `Job ${checkId}`);
+    }
+    // Retrying creates a new job in the pipeline
+    const job: GitLabJob = await response.json();
+    return { ok: true, data: { checkId: job.id.toString() } };
+  },
+};
@@ -0,0 +1,330 @@
+/**
+ * Local CI Provider
+ *
+ * CI for repositories without a hosted pipeline: configured check commands
+ * run in a detached worktree of TARGET_REPO at the commit. A commit's checks
+ * start the first time its status is asked for and run one at a time, in
+ * the order configured.
+ *
+ * Configuration: `RALPH_CI_CHECKS_FILE`, or `ci-checks.json` in the data
+ * directory. The file is re-read whenever a commit's checks start.
+ *
+ * Example:
+ * {
+ *   "checks": [
+ *     { "name": "typecheck", "command": "npx tsc --noEmit" },
+ *     { "name": "test", "command": "npm test", "timeoutSeconds": 900 }
+ *   ]
+ * }
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { spawn } from 'child_process';
+import type { CIProvider, CIRepository, CIResult } from './ci-provider';
+import { calculateOverallStatus, describeCIFailure, isCommitSha, parseCILogTail } from './ci-status';
+import { TARGET_REPO } from './meta-ralph';
+import { dataPath, readJsonFile } from './storage';
+import type { CICheck, CIFailure, CILogsResponse, CIStatus, CIStatusResponse } from './types';
+import { createWorktree, removeWorktree } from './worktree';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LocalCheckConfig {
+  name: string;
+  /** Shell command; the check fails when it exits non-zero */
+  command: string;
+  timeoutSeconds?: number;
+}
+
+export interface CommandResult {
+  exitCode: number;
+  output: string;
+  timedOut: boolean;
+}
+
+/**
+ * Runs a check's command in a checkout.
+ */
+export type CommandRunner = (command: string, cwd: string, timeoutMs: number) => Promise<CommandResult>;
+
+/**
+ * Provides a checkout of the commit, and removes it afterwards.
+ */
+export type CheckoutFactory = (sha: string) => Promise<{ cwd: string; cleanup: () => Promise<void> }>;
+
+export interface LocalCIOptions {
+  /** The configured checks */
+  loadChecks?: () => LocalCheckConfig[];
+  runCommand?: CommandRunner;
+  checkout?: CheckoutFactory;
+}
+
+interface LocalCheckRun {
+  id: string;
+  config: LocalCheckConfig;
+  status: CIStatus;
+  startedAt: string;
+  completedAt?: string;
+  log: string;
+  failure?: CIFailure;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 600;
+// After a timeout, how long a check has to exit before it is killed
+const KILL_GRACE_MS = 5_000;
+// Output kept per check, from the end
+const MAX_OUTPUT_CHARS = 200_000;
+// Commits whose results are kept
+const MAX_COMMITS = 50;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+function getChecksFilePath(): string {
+  return process.env.RALPH_CI_CHECKS_FILE || dataPath('ci-checks.json');
+}
+
+function loadConfiguredChecks(): LocalCheckConfig[] {
+  const config = readJsonFile<{ checks?: LocalCheckConfig[] }>(getChecksFilePath(), {});
+  return (config.checks ?? []).filter((check) => check?.name && check.command);
+}
+
+/**
+ * Run a command through the shell, collecting stdout and stderr together.
+ */
+export const runShellCommand: CommandRunner = (command, cwd, timeoutMs) =>
+  new Promise((resolve) => {
+    let output = '';
+    let timedOut = false;
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-MAX_OUTPUT_CHARS);
+    };
+
+    // In its own process group, so a timeout stops the check's processes
+    // along with the shell running them
+    const child = spawn(command, { cwd, shell: true, env: process.env, detached: true });
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    const killGroup = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid) process.kill(-child.pid, signal);
+      } catch {
+        // The group has already exited
+      }
+    };
+    let killTimer: NodeJS.Timeout | undefined;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup('SIGTERM');
+      killTimer = setTimeout(() => killGroup('SIGKILL'), KILL_GRACE_MS);
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      resolve({ exitCode: -1, output: `${output}\n${error.message}`, timedOut });
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      resolve({ exitCode: code ?? -1, output, timedOut });
+    });
+  });
+
+const worktreeCheckout: CheckoutFactory = async (sha) => {
+  const cwd = await createWorktree(TARGET_REPO, `ci-${sha.slice(0, 12)}`, { baseBranch: sha });
+  return { cwd, cleanup: () => removeWorktree(TARGET_REPO, cwd) };
+};
+
+// ============================================================================
+// Local CI Provider
+// ============================================================================
+
+export class LocalCIProvider implements CIProvider {
+  readonly name = 'local' as const;
+
+  private readonly loadChecks: () => LocalCheckConfig[];
+  private readonly runCommand: CommandRunner;
+  private readonly checkout: CheckoutFactory;
+
+  // Check runs by commit, oldest first
+  private commits = new Map<string, LocalCheckRun[]>();
+  // Checks run one at a time, across commits
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor({ loadChecks = loadConfiguredChecks, runCommand = runShellCommand, checkout = worktreeCheckout }: LocalCIOptions = {}) {
+    this.loadChecks = loadChecks;
+    this.runCommand = runCommand;
+    this.checkout = checkout;
+  }
+
+  async getStatus(_repository: CIRepository, sha: string): Promise<CIResult<CIStatusResponse>> {
+    let runs = this.commits.get(sha);
+    if (!runs) {
+      if (!isCommitSha(sha)) {
+        return { ok: false, status: 400, error: `Invalid commit SHA: ${sha}` };
+      }
+      const checks = this.loadChecks();
+      if (checks.length === 0) {
+        return {
+          ok: false,
+          status: 500,
+          error: `No local CI checks configured. Add them to ${getChecksFilePath()}.`,
+        };
+      }
+      runs = checks.map((config, index) => ({
+        id: `${sha}:${index}`,
+        config,
+        status: 'pending',
+        startedAt: new Date().toISOString(),
+        log: '',
+      }));
+      this.commits.set(sha, runs);
+      this.evict();
+      this.schedule(sha, runs);
+    }
+
+    const checks: CICheck[] = runs.map((run) => ({
+      id: run.id,
+      name: run.config.name,
+      status: run.status,
+      conclusion: run.completedAt ? run.status : null,
+      detailsUrl: `/api/ci/logs?provider=local&checkId=${encodeURIComponent(run.id)}`,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt,
+    }));
+
+    return {
+      ok: true,
+      data: {
+        prUrl: '',
+        sha,
+        checks,
+        overallStatus: calculateOverallStatus(checks),
+        failures: runs.flatMap((run) => (run.failure ? [run.failure] : [])),
+        lastUpdated: new Date().toISOString(),
+      },
+    };
+  }
+
+  async listFailures(repository: CIRepository, sha: string): Promise<CIResult<CIFailure[]>> {
+    const result = await this.getStatus(repository, sha);
+    return result.ok ? { ok: true, data: result.data.failures } : result;
+  }
+
+  async fetchLogs(_repository: CIRepository, checkId: string): Promise<CIResult<CILogsResponse>> {
+    const run = this.findRun(checkId);
+    if (!run) {
+      return { ok: false, status: 404, error: `Check ${checkId} not found` };
+    }
+    return {
+      ok: true,
+      data: { checkId, name: run.config.name, logs: run.log || (run.completedAt ? 'No output.' : 'Not finished yet.') },
+    };
+  }
+
+  async rerun(_repository: CIRepository, checkId: string): Promise<CIResult<{ checkId: string }>> {
+    const run = this.findRun(checkId);
+    if (!run) {
+      return { ok: false, status: 404, error: `Check ${checkId} not found` };
+    }
+    if (!run.completedAt) {
+      return { ok: false, status: 409, error: `Check ${run.config.name} is still running` };
+    }
+    Object.assign(run, { status: 'pending', startedAt: new Date().toISOString(), completedAt: undefined, log: '', failure: undefined });
+    this.schedule(checkId.slice(0, checkId.lastIndexOf(':')), [run]);
+    return { ok: true, data: { checkId } };
+  }
+
+  /**
+   * Wait until every scheduled check has finished.
+   */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  private findRun(checkId: string): LocalCheckRun | undefined {
+    const sha = checkId.slice(0, checkId.lastIndexOf(':'));
+    return this.commits.get(sha)?.find((run) => run.id === checkId);
+  }
+
+  /**
+   * Run checks of a commit in one checkout, after those already scheduled.
+   */
+  private schedule(sha: string, runs: LocalCheckRun[]): void {
+    this.queue = this.queue
+      .then(async () => {
+        let checkout: { cwd: string; cleanup: () => Promise<void> };
+        try {
+          checkout = await this.checkout(sha);
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          for (const run of runs) this.finish(run, { exitCode: -1, output: message, timedOut: false });
+          return;
+        }
+
+        try {
+          for (const run of runs) {
+            run.status = 'running';
+            run.startedAt = new Date().toISOString();
+            const timeoutMs = (run.config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+            this.finish(run, await this.runCommand(run.config.command, checkout.cwd, timeoutMs));
+          }
+        } finally {
+          await checkout.cleanup();
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to run local CI checks for ${sha}:`, error);
+      });
+  }
+
+  private finish(run: LocalCheckRun, { exitCode, output, timedOut }: CommandResult): void {
+    run.status = exitCode === 0 && !timedOut ? 'success' : 'failure';
+    run.completedAt = new Date().toISOString();
+    run.log = output;
+    run.failure =
+      run.status === 'failure'
+        ? describeCIFailure(
+            run.config.name,
+            {
+              summary: timedOut
+                ? `\`${run.config.command}\` timed out after ${run.config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS}s`
+                : `\`${run.config.command}\` exited with code ${exitCode}`,
+            },
+            parseCILogTail(output)
+          )
+        : undefined;
+  }
+
+  private evict(): void {
+    for (const [sha, runs] of this.commits) {
+      if (this.commits.size <= MAX_COMMITS) return;
+      if (runs.every((run) => run.completedAt)) this.commits.delete(sha);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphLocalCIProvider?: LocalCIProvider;
+};
+
+/**
+ * Get the process-wide local CI provider.
+ */
+export function getLocalCIProvider(): LocalCIProvider {
+  if (!globalState.__ralphLocalCIProvider) {
+    globalState.__ralphLocalCIProvider = new LocalCIProvider();
+  }
+  return globalState.__ralphLocalCIProvider;
+}
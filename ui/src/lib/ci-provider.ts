@@ -0,0 +1,77 @@
+/**
+ * CI Providers
+ *
+ * Where a repository's CI runs, behind one interface so the CI routes don't
+ * depend on GitHub:
+ * - github: GitHub check runs (ci-provider-github.ts)
+ * - gitlab: GitLab pipelines (ci-provider-gitlab.ts)
+ * - local: check commands run in TARGET_REPO (ci-provider-local.ts)
+ *
+ * Configuration:
+ * - RALPH_CI_PROVIDER: the default provider (default github); requests may
+ *   pick another with `provider`
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { githubCIProvider } from './ci-provider-github';
+import { gitlabCIProvider } from './ci-provider-gitlab';
+import { getLocalCIProvider } from './ci-provider-local';
+import type { CIFailure, CILogsResponse, CIProviderName, CIStatusResponse } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A provider call's result, or the HTTP status and message to report.
+ */
+export type CIResult<T> = { ok: true; data: T } | { ok: false; status: number; error: string };
+
+/**
+ * The repository CI runs for. For GitLab, `owner` is the project's
+ * namespace (e.g. `group/subgroup`); the local provider ignores both.
+ */
+export interface CIRepository {
+  owner: string;
+  repo: string;
+}
+
+export interface CIProvider {
+  readonly name: CIProviderName;
+  /**
+   * Status of a commit's checks.
+   *
+   * @param options.refresh - Bypass any cached status
+   */
+  getStatus(repository: CIRepository, sha: string, options?: { refresh?: boolean }): Promise<CIResult<CIStatusResponse>>;
+  /** A commit's failed checks, with the errors found in their logs */
+  listFailures(repository: CIRepository, sha: string): Promise<CIResult<CIFailure[]>>;
+  /** Logs of one check, by its CICheck.id */
+  fetchLogs(repository: CIRepository, checkId: string): Promise<CIResult<CILogsResponse>>;
+  /** Run one check again, by its CICheck.id */
+  rerun(repository: CIRepository, checkId: string): Promise<CIResult<{ checkId: string }>>;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Get a provider by name, or the configured default.
+ *
+ * @returns The provider, or null when the name isn't a provider
+ */
+export function getCIProvider(name?: string | null): CIProvider | null {
+  const selected = name || process.env.RALPH_CI_PROVIDER || 'github';
+  switch (selected) {
+    case 'github':
+      return githubCIProvider;
+    case 'gitlab':
+      return gitlabCIProvider;
+    case 'local':
+      return getLocalCIProvider();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * CI Status Cache
+ *
+ * Latest CIStatusResponse per commit, shared by every client watching it.
+ * A commit is watched once a client fetched its status (GET /api/ci/status);
+ * GitHub webhooks (POST /api/webhooks/github) then keep it current and
+ * subscribers (GET /api/ci/stream) are pushed each update.
+ *
+ * While webhooks for a repository arrive, cached statuses are served as-is;
+ * otherwise they expire quickly and clients fall back to polling GitHub.
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { buildCIStatus, fetchCheckRuns, type CheckRunsResult, type GitHubCheckRun } from './ci-status';
+import type { CIStatusResponse } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CachedCIStatus {
+  status: CIStatusResponse | null;
+  /** Check runs the status is (being) built from */
+  runs: GitHubCheckRun[];
+  /** When the status was last stored (ms since epoch) */
+  updatedAt: number;
+}
+
+export type CIStatusListener = (status: CIStatusResponse) => void;
+
+export type CIStatusRefreshResult =
+  | { ok: true; status: CIStatusResponse }
+  | Extract<CheckRunsResult, { ok: false }>;
+
+// Commits kept; the least recently stored unsubscribed ones go first
+const MAX_ENTRIES = 200;
+// A repository counts as delivering webhooks for this long after the last one
+const WEBHOOK_TRUST_MS = 30 * 60 * 1000;
+
+function cacheKey(owner: string, repo: string, sha: string): string {
+  return `${owner.toLowerCase()}/${repo.toLowerCase()}@${sha}`;
+}
+
+function repoKey(owner: string, repo: string): string {
+  return `${owner.toLowerCase()}/${repo.toLowerCase()}`;
+}
+
+// ============================================================================
+// CI Status Cache
+// ============================================================================
+
+export class CIStatusCache {
+  private entries = new Map<string, CachedCIStatus>();
+  private listeners = new Map<string, Set<CIStatusListener>>();
+  private webhookAt = new Map<string, number>();
+
+  get(owner: string, repo: string, sha: string): CachedCIStatus | undefined {
+    return this.entries.get(cacheKey(owner, repo, sha));
+  }
+
+  /**
+   * Replace a commit's check runs, watching it if it wasn't yet.
+   *
+   * @returns The runs to build the status from
+   */
+  setRuns(owner: string, repo: string, sha: string, runs: GitHubCheckRun[]): GitHubCheckRun[] {
+    const key = cacheKey(owner, repo, sha);
+    const entry = this.entries.get(key);
+    this.entries.set(key, { status: entry?.status ?? null, runs, updatedAt: entry?.updatedAt ?? 0 });
+    this.evict();
+    return runs;
+  }
+
+  /**
+   * Apply a check run received through a webhook to its watched commit.
+   * Late deliveries don't move a completed run back to queued or running.
+   *
+   * @returns The commit's updated runs, or null when it isn't watched
+   */
+  upsertRun(owner: string, repo: string, run: GitHubCheckRun): GitHubCheckRun[] | null {
+    const entry = this.entries.get(cacheKey(owner, repo, run.head_sha));
+    if (!entry) return null;
+    const existing = entry.runs.find((r) => r.id === run.id);
+    if (existing?.status === 'completed' && run.status !== 'completed') return entry.runs;
+    const runs = existing ? entry.runs.map((r) => (r.id === run.id ? run : r)) : [...entry.runs, run];
+    entry.runs = runs;
+    return runs;
+  }
+
+  /**
+   * Store a commit's status built from `runs` and push it to subscribers.
+   * Ignored when the runs were replaced meanwhile, as a newer status is
+   * being built from those.
+   *
+   * @returns Whether the status was stored
+   */
+  setStatus(owner: string, repo: string, status: CIStatusResponse, runs: GitHubCheckRun[]): boolean {
+    const key = cacheKey(owner, repo, status.sha);
+    const entry = this.entries.get(key);
+    if (!entry || entry.runs !== runs) return false;
+    entry.status = status;
+    entry.updatedAt = Date.now();
+    for (const listener of this.listeners.get(key) ?? []) {
+      try {
+        listener(status);
+      } catch (e) {
+        console.error('Error in CI status subscriber callback:', e);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Get pushed every status stored for a commit.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(owner: string, repo: string, sha: string, listener: CIStatusListener): () => void {
+    const key = cacheKey(owner, repo, sha);
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+    return () => {
+      const listeners = this.listeners.get(key);
+      listeners?.delete(listener);
+      if (listeners?.size === 0) this.listeners.delete(key);
+    };
+  }
+
+  /**
+   * Note that a webhook for the repository arrived.
+   */
+  markWebhook(owner: string, repo: string): void {
+    this.webhookAt.set(repoKey(owner, repo), Date.now());
+  }
+
+  /**
+   * Whether webhooks for the repository arrived recently enough to trust
+   * cached statuses to be current.
+   */
+  receivesWebhooks(owner: string, repo: string): boolean {
+    const at = this.webhookAt.get(repoKey(owner, repo));
+    return at !== undefined && Date.now() - at < WEBHOOK_TRUST_MS;
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) return;
+      if (!this.listeners.has(key)) this.entries.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// Refresh
+// ============================================================================
+
+/**
+ * Fetch a commit's check runs from GitHub and store the resulting status.
+ */
+export async function refreshCIStatus(
+  cache: CIStatusCache,
+  owner: string,
+  repo: string,
+  sha: string,
+  githubToken: string | undefined
+): Promise<CIStatusRefreshResult> {
+  const result = await fetchCheckRuns(owner, repo, sha, githubToken);
+  if (!result.ok) return result;
+
+  const runs = cache.setRuns(owner, repo, sha, result.runs);
+  const status = await buildCIStatus(owner, repo, sha, runs, githubToken);
+  cache.setStatus(owner, repo, status, runs);
+  return { ok: true, status };
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphCIStatusCache?: CIStatusCache;
+};
+
+/**
+ * Get the process-wide CI status cache.
+ */
+export function getCIStatusCache(): CIStatusCache {
+  if (!globalState.__ralphCIStatusCache) {
+    globalState.__ralphCIStatusCache = new CIStatusCache();
+  }
+  return globalState.__ralphCIStatusCache;
+}
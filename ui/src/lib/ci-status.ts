@@ -0,0 +1,281 @@
+/**
+ * CI Status
+ *
+ * Builds a commit's CIStatusResponse from its GitHub check runs, fetched
+ * from the checks API or received through webhooks. Failed GitHub Actions
+ * jobs have their logs downloaded and parsed into structured failures
+ * (see ci-log-parsers.ts).
+ *
+ * @see PRD-07-CICD-AWARENESS.md for specification
+ */
+
+import { parseCILog } from './ci-log-parsers';
+import type { CICheck, CIStatus, CIStatusResponse, CIFailure, CIFailureDetail } from './types';
+
+// ============================================================================
+// Types for GitHub API Response
+// ============================================================================
+
+export interface GitHubCheckRun {
+  id: number;
+  name: string;
+  head_sha: string;
+  status: 'queued' | 'in_progress' | 'completed';
+  conclusion: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | null;
+  started_at: string;
+  completed_at: string | null;
+  html_url: string;
+  app?: { slug: string } | null;
+  output: {
+    title: string | null;
+    summary: string | null;
+    text: string | null;
+  };
+}
+
+export interface GitHubCheckRunsResponse {
+  total_count: number;
+  check_runs: GitHubCheckRun[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Whether a value is a commit SHA, full or abbreviated. Commits reach git
+ * and check commands, so anything else is rejected up front.
+ */
+export function isCommitSha(value: string): boolean {
+  return /^[0-9a-f]{7,40}$/i.test(value);
+}
+
+/**
+ * Map GitHub check run status to our CIStatus type.
+ */
+function mapGitHubStatus(ghRun: GitHubCheckRun): CIStatus {
+  if (ghRun.status === 'queued') {
+    return 'pending';
+  }
+  if (ghRun.status === 'in_progress') {
+    return 'running';
+  }
+  // status === 'completed'
+  switch (ghRun.conclusion) {
+    case 'success':
+    case 'neutral':
+      return 'success';
+    case 'failure':
+    case 'timed_out':
+    case 'action_required':
+      return 'failure';
+    case 'cancelled':
+      return 'cancelled';
+    case 'skipped':
+      return 'skipped';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Calculate overall status from individual check statuses.
+ */
+export function calculateOverallStatus(checks: CICheck[]): CIStatus {
+  if (checks.length === 0) {
+    return 'pending';
+  }
+
+  const hasFailure = checks.some((c) => c.status === 'failure');
+  const hasCancelled = checks.some((c) => c.status === 'cancelled');
+  const hasRunning = checks.some((c) => c.status === 'running');
+  const hasPending = checks.some((c) => c.status === 'pending');
+  const allSuccess = checks.every((c) => c.status === 'success' || c.status === 'skipped');
+
+  if (hasFailure) return 'failure';
+  if (hasCancelled) return 'cancelled';
+  if (hasRunning) return 'running';
+  if (hasPending) return 'pending';
+  if (allSuccess) return 'success';
+
+  return 'pending';
+}
+
+// Characters of a downloaded log kept as the failure's logs
+const LOG_TAIL_CHARS = 4000;
+// Parsed logs of finished jobs, which don't change, by check run ID
+const MAX_CACHED_LOGS = 100;
+const parsedLogs = new Map<number, ParsedCILog | null>();
+
+/**
+ * A check's log: the errors parsed from it, and its end.
+ */
+export interface ParsedCILog {
+  details: CIFailureDetail[];
+  tail: string;
+}
+
+/**
+ * Parse a check's full log.
+ */
+export function parseCILogTail(log: string): ParsedCILog {
+  return { details: parseCILog(log), tail: log.slice(-LOG_TAIL_CHARS) };
+}
+
+/**
+ * Describe a failed check from the provider's own summary, if any, and
+ * its parsed log.
+ */
+export function describeCIFailure(
+  checkName: string,
+  output: { summary?: string | null; text?: string | null },
+  parsed: ParsedCILog | null
+): CIFailure {
+  const details = parsed?.details ?? [];
+  return {
+    checkName,
+    error:
+      output.summary ||
+      (details.length > 0 ? `${details.length} error(s) found in the logs` : `Check "${checkName}" failed`),
+    logs: output.text || parsed?.tail || undefined,
+    details: details.length > 0 ? details : undefined,
+  };
+}
+
+/**
+ * Download and parse the log of a failed GitHub Actions job (a check run's
+ * ID is its job's ID). Returns null when the log isn't available.
+ */
+async function fetchParsedLog(
+  owner: string,
+  repo: string,
+  ghRun: GitHubCheckRun,
+  githubToken: string | undefined
+): Promise<ParsedCILog | null> {
+  if (ghRun.app?.slug !== 'github-actions') return null;
+  if (parsedLogs.has(ghRun.id)) return parsedLogs.get(ghRun.id) ?? null;
+
+  let parsed: ParsedCILog | null = null;
+  try {
+    const response = await fetch(
+      `https://api.github.com/repos/${owner}/${repo}/actions/jobs/${ghRun.id}/logs`,
+      {
+        headers: {
+          Accept: 'application/vnd.github+json',
+          ...(githubToken ? { Authorization: `Bearer ${githubToken}` } : {}),
+          'X-GitHub-Api-Version': '2022-11-28',
+        },
+        cache: 'no-store',
+      }
+    );
+    if (response.ok) {
+      parsed = parseCILogTail(await response.text());
+    } else {
+      console.error(`GitHub API error ${response.status} fetching logs of job ${ghRun.id}`);
+    }
+  } catch (error) {
+    console.error(`Failed to fetch logs of job ${ghRun.id}:`, error);
+    return null;
+  }
+
+  if (parsedLogs.size >= MAX_CACHED_LOGS) {
+    parsedLogs.delete(parsedLogs.keys().next().value as number);
+  }
+  parsedLogs.set(ghRun.id, parsed);
+  return parsed;
+}
+
+/**
+ * Extract failure details from check runs.
+ */
+async function extractFailures(
+  checks: CICheck[],
+  ghRuns: GitHubCheckRun[],
+  owner: string,
+  repo: string,
+  githubToken: string | undefined
+): Promise<CIFailure[]> {
+  return Promise.all(
+    checks
+      .filter((c) => c.status === 'failure')
+      .map(async (check) => {
+        const ghRun = ghRuns.find((r) => r.id.toString() === check.id);
+        const parsed = ghRun ? await fetchParsedLog(owner, repo, ghRun, githubToken) : null;
+        return describeCIFailure(
+          check.name,
+          { summary: ghRun?.output?.summary || ghRun?.output?.title, text: ghRun?.output?.text },
+          parsed
+        );
+      })
+  );
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Result of fetching a commit's check runs: the runs, or the GitHub API
+ * status that prevented it.
+ */
+export type CheckRunsResult =
+  | { ok: true; runs: GitHubCheckRun[] }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Fetch a commit's check runs from the GitHub checks API.
+ */
+export async function fetchCheckRuns(
+  owner: string,
+  repo: string,
+  sha: string,
+  githubToken: string | undefined
+): Promise<CheckRunsResult> {
+  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/commits/${sha}/check-runs?per_page=100`, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+      ...(githubToken ? { Authorization: `Bearer ${githubToken}` } : {}),
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('GitHub API error:', response.status, errorText);
+    return { ok: false, status: response.status, error: errorText };
+  }
+
+  const data: GitHubCheckRunsResponse = await response.json();
+  return { ok: true, runs: data.check_runs };
+}
+
+/**
+ * Build a commit's CI status from its check runs.
+ */
+export async function buildCIStatus(
+  owner: string,
+  repo: string,
+  sha: string,
+  runs: GitHubCheckRun[],
+  githubToken: string | undefined
+): Promise<CIStatusResponse> {
+  const checks: CICheck[] = runs.map((run) => ({
+    id: run.id.toString(),
+    name: run.name,
+    status: mapGitHubStatus(run),
+    conclusion: run.conclusion,
+    detailsUrl: run.html_url,
+    startedAt: run.started_at,
+    completedAt: run.completed_at || undefined,
+  }));
+
+  return {
+    prUrl: `https://github.com/${owner}/${repo}/commit/${sha}`,
+    sha,
+    checks,
+    overallStatus: calculateOverallStatus(checks),
+    failures: await extractFailures(checks, runs, owner, repo, githubToken),
+    lastUpdated: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,363 @@
+/**
+ * Issue Correlation
+ *
+ * Clusters issues that likely describe the same underlying problem into
+ * "incidents". The same bug often shows up as a Sentry error, a ZeroPath
+ * finding and a Linear ticket at once; processing each of them separately
+ * produces competing PRs for one fix.
+ *
+ * Signals, per pair of issues:
+ * - permalink: one issue links to the other (description or metadata)
+ * - location: both point at the same file
+ * - stacktrace: file paths found in stack-trace metadata overlap
+ * - title: normalized titles share most of their words
+ *
+ * A title match only counts when a location or stack-trace signal agrees:
+ * the same error message in two different files is usually two bugs.
+ *
+ * Pairs scoring above the threshold are merged transitively. The issue with
+ * the highest priority (then count) becomes the incident's canonical issue,
+ * the only one that gets processed.
+ */
+
+import type { Issue } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Why two issues were considered duplicates.
+ */
+export type CorrelationReason = 'permalink' | 'location' | 'stacktrace' | 'title';
+
+/**
+ * A cluster of issues that likely share a root cause.
+ */
+export interface Incident<T extends Issue = Issue> {
+  /** Stable ID derived from the canonical issue */
+  id: string;
+  canonical: T;
+  /** All issues in the incident, canonical first */
+  issues: T[];
+  reasons: CorrelationReason[];
+}
+
+export interface CorrelationOptions {
+  /** Minimum pair score to treat two issues as duplicates (default 0.6) */
+  threshold?: number;
+}
+
+/**
+ * Issues to enqueue after collapsing incidents to their canonical issues.
+ */
+export interface IncidentRunPlan {
+  /** Issue IDs to process, in request order */
+  issueIds: string[];
+  /** Other incident members resolved by each processed issue */
+  linkedIssueIds: Record<string, string[]>;
+}
+
+/**
+ * Pre-computed comparison features of an issue.
+ */
+interface IssueFeatures {
+  location: string | null;
+  stackFiles: Set<string>;
+  titleTokens: Set<string>;
+  permalink: string | null;
+  /** Text searched for other issues' permalinks */
+  text: string;
+}
+
+const DEFAULT_THRESHOLD = 0.6;
+
+// Contribution of each signal to a pair score
+const TITLE_WEIGHT = 0.6;
+const LOCATION_WEIGHT = 0.3;
+const STACKTRACE_WEIGHT = 0.4;
+
+// Metadata keys that carry stack frames or file references
+const STACK_KEY_PATTERN = /stack|trace|frame|culprit|file|path/i;
+const MAX_METADATA_DEPTH = 4;
+
+// Relative or absolute source paths with an extension, e.g. src/app/page.tsx
+const FILE_PATTERN = /(?:[\w@.-]+\/)*[\w@-]+\.[a-z]{1,5}\b/gi;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'from', 'with', 'into', 'not', 'was', 'are', 'has',
+  'error', 'exception', 'issue', 'found', 'detected', 'potential', 'possible',
+]);
+
+// ============================================================================
+// Feature Extraction
+// ============================================================================
+
+/**
+ * Normalize a file path so the same file matches across providers:
+ * lowercase, no line/column suffix, no leading ./ or /.
+ */
+export function normalizePath(path: string): string {
+  return path
+    .trim()
+    .toLowerCase()
+    .replace(/\\/g, '/')
+    .replace(/(?::\d+)+$/, '')
+    .replace(/^(?:\.\/|\/)+/, '');
+}
+
+function extractFiles(text: string): string[] {
+  return (text.match(FILE_PATTERN) ?? [])
+    // Skip URLs' host names (example.com) and bare version numbers
+    .filter((match) => match.includes('/') || !/^[\w-]+\.(com|org|net|io|dev)$/i.test(match))
+    .map(normalizePath);
+}
+
+/**
+ * Collect file paths from stack-trace-like metadata fields.
+ */
+function collectStackFiles(value: unknown, files: Set<string>, inStackField = false, depth = 0): void {
+  if (depth > MAX_METADATA_DEPTH || value === null || value === undefined) return;
+
+  if (typeof value === 'string') {
+    if (!inStackField) return;
+    for (const file of extractFiles(value)) {
+      // Library frames are shared by unrelated errors
+      if (!file.includes('node_modules/')) files.add(file);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectStackFiles(item, files, inStackField, depth + 1));
+    return;
+  }
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      collectStackFiles(child, files, inStackField || STACK_KEY_PATTERN.test(key), depth + 1);
+    }
+  }
+}
+
+/**
+ * Split a title into comparable words, dropping IDs, numbers and quoted
+ * values that differ between otherwise identical errors.
+ */
+export function tokenizeTitle(title: string): Set<string> {
+  const words = title
+    .toLowerCase()
+    .replace(/(['"`]).*?\1/g, ' ')
+    .replace(/\b[0-9a-f]{8,}\b/g, ' ')
+    .replace(/\d+/g, ' ')
+    .split(/[^a-z]+/)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word));
+  return new Set(words);
+}
+
+function extractFeatures(issue: Issue): IssueFeatures {
+  const locationFiles = issue.location ? extractFiles(issue.location) : [];
+  const stackFiles = new Set<string>();
+  collectStackFiles(issue.metadata, stackFiles);
+
+  return {
+    location: locationFiles[0] ?? null,
+    stackFiles,
+    titleTokens: tokenizeTitle(issue.title),
+    permalink: issue.permalink ? issue.permalink.replace(/\/+$/, '') : null,
+    text: `${issue.description ?? ''} ${JSON.stringify(issue.metadata ?? {})}`,
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((item) => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Share of the smaller set found in the larger one.
+ */
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  small.forEach((item) => {
+    if (large.has(item)) shared++;
+  });
+  return shared / small.size;
+}
+
+/**
+ * Whether text contains a URL as a whole (".../issues/1" must not match ".../issues/12").
+ */
+function mentionsUrl(text: string, url: string): boolean {
+  let index = text.indexOf(url);
+  while (index !== -1) {
+    if (!/[\w-]/.test(text.charAt(index + url.length))) return true;
+    index = text.indexOf(url, index + 1);
+  }
+  return false;
+}
+
+function referencesPermalink(a: IssueFeatures, b: IssueFeatures): boolean {
+  return (
+    (!!b.permalink && (a.permalink === b.permalink || mentionsUrl(a.text, b.permalink))) ||
+    (!!a.permalink && mentionsUrl(b.text, a.permalink))
+  );
+}
+
+/**
+ * Score how likely two issues are duplicates (0-1+).
+ */
+function scorePair(a: IssueFeatures, b: IssueFeatures): { score: number; reasons: CorrelationReason[] } {
+  if (referencesPermalink(a, b)) {
+    return { score: 1, reasons: ['permalink'] };
+  }
+
+  const reasons: CorrelationReason[] = [];
+  let score = 0;
+
+  // The reported location of one issue may appear as a frame of the other's stack
+  const locationMatch =
+    (!!a.location && (a.location === b.location || b.stackFiles.has(a.location))) ||
+    (!!b.location && a.stackFiles.has(b.location));
+  if (locationMatch) {
+    score += LOCATION_WEIGHT;
+    reasons.push('location');
+  }
+
+  const stackOverlap = overlap(a.stackFiles, b.stackFiles);
+  if (stackOverlap > 0) {
+    score += stackOverlap * STACKTRACE_WEIGHT;
+    reasons.push('stacktrace');
+  }
+
+  // Generic titles ("SQL Injection") repeat across unrelated code
+  const titleSimilarity = jaccard(a.titleTokens, b.titleTokens);
+  if (titleSimilarity >= 0.5 && reasons.length > 0) {
+    score += titleSimilarity * TITLE_WEIGHT;
+    reasons.unshift('title');
+  }
+
+  return { score, reasons };
+}
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+/**
+ * Order issues by how well they represent an incident.
+ */
+function compareCanonical(a: Issue, b: Issue): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return b.count - a.count;
+}
+
+/**
+ * Cluster likely duplicates into incidents. Issues without duplicates are
+ * not returned.
+ */
+export function correlateIssues<T extends Issue>(
+  issues: T[],
+  { threshold = DEFAULT_THRESHOLD }: CorrelationOptions = {}
+): Incident<T>[] {
+  const features = issues.map(extractFeatures);
+
+  // Union-find over issue indexes
+  const parent = issues.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const reasonsByRoot = new Map<number, Set<CorrelationReason>>();
+
+  for (let i = 0; i < issues.length; i++) {
+    for (let j = i + 1; j < issues.length; j++) {
+      if (issues[i].id === issues[j].id && issues[i].provider === issues[j].provider) continue;
+      const { score, reasons } = scorePair(features[i], features[j]);
+      if (score < threshold) continue;
+
+      const rootI = find(i);
+      const rootJ = find(j);
+      const merged = new Set([
+        ...(reasonsByRoot.get(rootI) ?? []),
+        ...(reasonsByRoot.get(rootJ) ?? []),
+        ...reasons,
+      ]);
+      parent[rootJ] = rootI;
+      reasonsByRoot.delete(rootJ);
+      reasonsByRoot.set(rootI, merged);
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  issues.forEach((issue, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), issue]);
+  });
+
+  const incidents: Incident<T>[] = [];
+  clusters.forEach((members, root) => {
+    if (members.length < 2) return;
+    const sorted = [...members].sort(compareCanonical);
+    const canonical = sorted[0];
+    incidents.push({
+      id: `incident:${canonical.provider}:${canonical.id}`,
+      canonical,
+      issues: sorted,
+      reasons: [...(reasonsByRoot.get(root) ?? [])],
+    });
+  });
+
+  return incidents.sort((a, b) => compareCanonical(a.canonical, b.canonical));
+}
+
+/**
+ * Key of an issue across providers. IDs are only unique within a provider.
+ */
+function issueKey(issue: Issue): string {
+  return `${issue.provider}:${issue.id}`;
+}
+
+/**
+ * Collapse requested issues to the canonical issue of their incident.
+ *
+ * Requesting any member of an incident processes its canonical issue once,
+ * linked to every other member so they share its outcome and PR.
+ */
+export function planIncidentRuns(issueIds: string[], issues: Issue[]): IncidentRunPlan {
+  const incidentOf = new Map<string, Incident>();
+  for (const incident of correlateIssues(issues)) {
+    for (const issue of incident.issues) {
+      incidentOf.set(issueKey(issue), incident);
+    }
+  }
+
+  const planned: string[] = [];
+  const linkedIssueIds: Record<string, string[]> = {};
+  for (const id of issueIds) {
+    // Requests carry bare IDs; resolve them the way the job queue does
+    const issue = issues.find((candidate) => candidate.id === id);
+    const incident = issue ? incidentOf.get(issueKey(issue)) : undefined;
+    const runId = incident ? incident.canonical.id : id;
+    if (planned.includes(runId)) continue;
+    planned.push(runId);
+    if (incident) {
+      linkedIssueIds[runId] = incident.issues
+        .map((issue) => issue.id)
+        .filter((memberId) => memberId !== runId);
+    }
+  }
+
+  return { issueIds: planned, linkedIssueIds };
+}
@@ -0,0 +1,184 @@
+/**
+ * History-based Cost and Duration Estimates
+ *
+ * Learns what processing will cost from recorded runs (run-history-store.ts)
+ * instead of the fixed tokens-per-iteration formula in estimateCost, which
+ * can't tell a quick Sentry fix from a long Zeropath investigation.
+ *
+ * Each issue is estimated from past runs with the same model and mode,
+ * narrowed to its provider and severity when there are enough of those.
+ * Per-issue costs are treated as independent, so a batch's mean is the sum
+ * of the means and its interval comes from the summed variances.
+ */
+
+import { estimateCost, MODEL_INFO } from './types';
+import type { CostEstimate, Issue, ModelInfo, ModelType, ProcessingOptions, RunRecord } from './types';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Fewest similar runs an estimate is learned from.
+ */
+export const MIN_SAMPLES = 3;
+
+/**
+ * Confidence level of the estimate's min-max interval.
+ */
+export const ESTIMATE_CONFIDENCE = 0.9;
+
+// Two-sided z-score for ESTIMATE_CONFIDENCE
+const Z_SCORE = 1.645;
+
+// Segments to try, most specific first; model and mode always have to match
+const SEGMENTS: ('provider' | 'severity')[][] = [['provider', 'severity'], ['provider'], ['severity'], []];
+
+export type EstimateIssue = Pick<Issue, 'provider' | 'severity'>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Past runs to estimate an issue from: the most specific segment with at
+ * least MIN_SAMPLES runs, or none.
+ */
+export function findSimilarRuns(
+  runs: RunRecord[],
+  issue: EstimateIssue,
+  options: Pick<ProcessingOptions, 'model' | 'mode'>
+): RunRecord[] {
+  const candidates = runs.filter((run) => run.model === options.model && run.mode === options.mode);
+  for (const fields of SEGMENTS) {
+    const matches = candidates.filter((run) => fields.every((field) => run[field] === issue[field]));
+    if (matches.length >= MIN_SAMPLES) return matches;
+  }
+  return [];
+}
+
+/**
+ * Scale a past run down to an iteration limit: a run that needed more
+ * iterations than allowed now would have been cut short.
+ */
+function projectRun(run: RunRecord, maxIterations: number): { costUsd: number; durationMs: number } {
+  const scale = run.iterations > maxIterations ? maxIterations / run.iterations : 1;
+  return { costUsd: run.costUsd * scale, durationMs: run.durationMs * scale };
+}
+
+function meanAndVariance(values: number[]): { mean: number; variance: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance };
+}
+
+function interval(mean: number, variance: number): { min: number; max: number; average: number } {
+  const spread = Z_SCORE * Math.sqrt(variance);
+  return { min: Math.max(mean - spread, 0), max: mean + spread, average: mean };
+}
+
+// ============================================================================
+// Estimates
+// ============================================================================
+
+/**
+ * Estimate cost and duration of processing issues from past runs, or null
+ * when there aren't enough similar runs.
+ */
+export function estimateFromHistory(
+  options: ProcessingOptions,
+  issues: EstimateIssue[],
+  runs: RunRecord[]
+): CostEstimate | null {
+  if (issues.length === 0) return null;
+
+  let costMean = 0;
+  let costVariance = 0;
+  let durationMean = 0;
+  let durationVariance = 0;
+  const sampled = new Map<string, RunRecord>();
+
+  for (const issue of issues) {
+    const similar = findSimilarRuns(runs, issue, options);
+    // The last segment ignores the issue, so no issue has history if one hasn't
+    if (similar.length === 0) return null;
+
+    const projected = similar.map((run) => projectRun(run, options.maxIterations));
+    const cost = meanAndVariance(projected.map((run) => run.costUsd));
+    const duration = meanAndVariance(projected.map((run) => run.durationMs));
+    costMean += cost.mean;
+    costVariance += cost.variance;
+    durationMean += duration.mean;
+    durationVariance += duration.variance;
+    similar.forEach((run) => sampled.set(run.id, run));
+  }
+
+  const samples = Array.from(sampled.values());
+  const iterations = samples.reduce((sum, run) => sum + run.iterations, 0);
+  const spent = samples.reduce((sum, run) => sum + run.costUsd, 0);
+
+  return {
+    ...interval(costMean, costVariance),
+    currency: 'USD',
+    breakdown: {
+      perIssue: costMean / issues.length,
+      perIteration: iterations > 0 ? spent / iterations : 0,
+    },
+    history: {
+      sampleSize: samples.length,
+      confidence: ESTIMATE_CONFIDENCE,
+      durationMs: interval(durationMean, durationVariance),
+    },
+  };
+}
+
+/**
+ * Estimate from past runs, falling back to the fixed formula when there
+ * is no usable history.
+ */
+export function estimateProcessing(
+  options: ProcessingOptions,
+  issues: EstimateIssue[],
+  runs: RunRecord[],
+  catalog: Record<ModelType, ModelInfo> = MODEL_INFO
+): CostEstimate {
+  return estimateFromHistory(options, issues, runs) ?? estimateCost(options, issues.length, undefined, catalog);
+}
+
+/**
+ * Combine estimates of separately estimated groups of issues (e.g. one per
+ * model). Duration is only kept when every group has history behind it.
+ */
+export function combineEstimates(estimates: { estimate: CostEstimate; issueCount: number }[]): CostEstimate {
+  const issueCount = estimates.reduce((sum, { issueCount: count }) => sum + count, 0);
+  const sum = (pick: (estimate: CostEstimate) => number) =>
+    estimates.reduce((total, { estimate }) => total + pick(estimate), 0);
+  const average = sum((estimate) => estimate.average);
+  const histories = estimates.map(({ estimate }) => estimate.history);
+
+  return {
+    min: sum((estimate) => estimate.min),
+    max: sum((estimate) => estimate.max),
+    average,
+    currency: 'USD',
+    breakdown: {
+      perIssue: issueCount > 0 ? average / issueCount : 0,
+      perIteration: issueCount > 0
+        ? estimates.reduce((total, { estimate, issueCount: count }) => total + estimate.breakdown.perIteration * count, 0) / issueCount
+        : 0,
+    },
+    ...(histories.length > 0 && histories.every(Boolean) && {
+      history: {
+        sampleSize: histories.reduce((total, history) => total + history!.sampleSize, 0),
+        confidence: ESTIMATE_CONFIDENCE,
+        durationMs: {
+          min: histories.reduce((total, history) => total + history!.durationMs.min, 0),
+          max: histories.reduce((total, history) => total + history!.durationMs.max, 0),
+          average: histories.reduce((total, history) => total + history!.durationMs.average, 0),
+        },
+      },
+    }),
+  };
+}
@@ -599,6 +599,32 @@ function formatDuration(ms: number): string {
   return `${minutes}m ${seconds}s`;
 }
 
+// ============================================================================
+// Activity Inspection
+// ============================================================================
+
+/**
+ * Extract the PR URL from an issue's successful push activities (most recent first).
+ */
+export function extractPrUrl(activities: Activity[]): string | undefined {
+  const pushActivities = activities
+    .filter(a => a.type === 'push' && a.status === 'success')
+    .reverse();
+
+  for (const activity of pushActivities) {
+    if (activity.details) {
+      // Match various PR URL formats:
+      // "PR created: https://github.com/org/repo/pull/123"
+      // "Branch pushed, PR: https://github.com/org/repo/pull/123"
+      const match = activity.details.match(/https:\/\/github\.com\/[^\s]+\/pull\/\d+/);
+      if (match) {
+        return match[0];
+      }
+    }
+  }
+  return undefined;
+}
+
 // ============================================================================
 // Activity Icon Mapping
 // ============================================================================
@@ -0,0 +1,80 @@
+/**
+ * GitHub Webhooks
+ *
+ * Pure helpers for the GitHub webhook receiver (POST /api/webhooks/github):
+ * signature verification and the commit a CI event is about.
+ *
+ * Handled events:
+ * - check_run: carries the updated check run itself
+ * - check_suite, workflow_run: only name the commit, whose check runs are
+ *   then re-fetched
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { GitHubCheckRun } from './ci-status';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The parts of webhook payloads used here.
+ */
+export interface GitHubWebhookPayload {
+  action?: string;
+  /** Payloads are only checked for their signature, so fields may be missing */
+  repository?: { name: string; owner?: { login?: string } };
+  check_run?: GitHubCheckRun;
+  check_suite?: { head_sha: string };
+  workflow_run?: { head_sha: string };
+}
+
+/**
+ * The commit a CI event is about.
+ */
+export interface WebhookCommit {
+  owner: string;
+  repo: string;
+  sha: string;
+  /** The updated check run, for check_run events */
+  checkRun?: GitHubCheckRun;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check a delivery's X-Hub-Signature-256 header against the raw body.
+ */
+export function verifyGitHubSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * The commit a check_run, check_suite or workflow_run event is about.
+ *
+ * @returns null for other events and payloads without a repository owner
+ */
+export function getWebhookCommit(event: string | null, payload: GitHubWebhookPayload): WebhookCommit | null {
+  const repository = payload.repository;
+  const owner = repository?.owner?.login;
+  if (!repository || !owner) return null;
+  const repo = repository.name;
+
+  switch (event) {
+    case 'check_run':
+      return payload.check_run
+        ? { owner, repo, sha: payload.check_run.head_sha, checkRun: payload.check_run }
+        : null;
+    case 'check_suite':
+      return payload.check_suite ? { owner, repo, sha: payload.check_suite.head_sha } : null;
+    case 'workflow_run':
+      return payload.workflow_run ? { owner, repo, sha: payload.workflow_run.head_sha } : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Issue Snapshot Cache
+ *
+ * Server-side cache of provider issue lists. Each provider is fetched with
+ * its own `meta-ralph.sh --dry-run --json --providers <name>` run and kept
+ * as a snapshot with its own TTL. Stale snapshots are served immediately
+ * while a refresh runs in the background.
+ *
+ * Successive snapshots are diffed to track when each issue was first and
+ * last seen, which populates `ExtendedIssue.firstSeen`/`lastSeen`.
+ *
+ * A provider that fails keeps serving its last good snapshot (if any) and
+ * reports the failure through its fetch status.
+ *
+ * Why this exists:
+ * - Every /api/issues poll and bulk action used to re-run the CLI and
+ *   re-hit every provider API
+ * - Providers differ in cost and rate limits, so one TTL doesn't fit all
+ */
+
+import { classifyProviderError, fetchIssues, type FetchIssuesResult } from './meta-ralph';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { ExtendedIssue, Issue, ProviderFetchStatus } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Issues fetched from one provider at a point in time.
+ */
+export interface ProviderSnapshot {
+  issues: Issue[];
+  fetchedAt: string;
+}
+
+/**
+ * When an issue was first and most recently present in a snapshot.
+ */
+export interface IssueSighting {
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * Issue as served from the cache, with sighting timestamps.
+ */
+export type CachedIssue = Issue & Required<Pick<ExtendedIssue, 'firstSeen' | 'lastSeen'>>;
+
+/**
+ * Fetches the current issues of a single provider.
+ */
+export type IssueFetcher = (provider: string) => Promise<FetchIssuesResult>;
+
+export interface IssueCacheOptions {
+  providers: string[];
+  /** TTL for providers without an override */
+  ttlMs?: number;
+  /** Per-provider TTL overrides */
+  providerTtlMs?: Record<string, number>;
+  fetcher?: IssueFetcher;
+  /** Where to persist snapshots; null keeps them in memory */
+  filePath?: string | null;
+}
+
+/**
+ * Shape of the persisted cache document.
+ */
+interface PersistedCache {
+  snapshots: Record<string, ProviderSnapshot>;
+  sightings: Record<string, IssueSighting>;
+  statuses: Record<string, ProviderFetchStatus>;
+}
+
+// Providers fetched when RALPH_PROVIDERS is not set (mirrors meta-ralph.sh)
+const DEFAULT_PROVIDERS = ['zeropath', 'sentry', 'codecov', 'linear'];
+const DEFAULT_TTL_MS = 60_000;
+
+// How often the background refresh checks for stale snapshots
+const BACKGROUND_TICK_MS = 15_000;
+
+// Forget sightings of issues that have been gone this long
+const SIGHTING_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Cache key for an issue. IDs are only unique within a provider.
+ */
+function issueKey(issue: Pick<Issue, 'id' | 'provider'>): string {
+  return `${issue.provider}:${issue.id}`;
+}
+
+const defaultFetcher: IssueFetcher = (provider) => fetchIssues([provider]);
+
+// ============================================================================
+// Issue Cache
+// ============================================================================
+
+export class IssueCache {
+  private readonly providers: string[];
+  private readonly ttlMs: number;
+  private readonly providerTtlMs: Record<string, number>;
+  private readonly fetcher: IssueFetcher;
+  private readonly filePath: string | null;
+
+  private state: PersistedCache;
+  private version = 0;
+  private inflight = new Map<string, Promise<void>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor({
+    providers,
+    ttlMs = DEFAULT_TTL_MS,
+    providerTtlMs = {},
+    fetcher = defaultFetcher,
+    filePath = dataPath('issue-cache.json'),
+  }: IssueCacheOptions) {
+    this.providers = providers;
+    this.ttlMs = ttlMs;
+    this.providerTtlMs = providerTtlMs;
+    this.fetcher = fetcher;
+    this.filePath = filePath;
+    const empty: PersistedCache = { snapshots: {}, sightings: {}, statuses: {} };
+    this.state = filePath ? { ...empty, ...readJsonFile<PersistedCache>(filePath, empty) } : empty;
+  }
+
+  // ==========================================================================
+  // Queries
+  // ==========================================================================
+
+  getTtl(provider: string): number {
+    return this.providerTtlMs[provider] ?? this.ttlMs;
+  }
+
+  /** Incremented whenever a snapshot or provider status changes */
+  getVersion(): number {
+    return this.version;
+  }
+
+  getSnapshot(provider: string): ProviderSnapshot | undefined {
+    return this.state.snapshots[provider];
+  }
+
+  /**
+   * Latest fetch status of each provider that has been fetched.
+   */
+  getProviderStatuses(): ProviderFetchStatus[] {
+    return this.providers
+      .map((provider) => this.state.statuses[provider])
+      .filter((status): status is ProviderFetchStatus => !!status);
+  }
+
+  /**
+   * Whether a provider is due for a fetch. Failed fetches count as
+   * attempts, so a broken provider is retried once per TTL.
+   */
+  isStale(provider: string, now = Date.now()): boolean {
+    const lastChecked = this.state.statuses[provider]?.checkedAt ?? this.getSnapshot(provider)?.fetchedAt;
+    if (!lastChecked) return true;
+    return now - new Date(lastChecked).getTime() >= this.getTtl(provider);
+  }
+
+  /**
+   * Get issues from all providers, sorted by priority.
+   *
+   * Providers never fetched before are fetched before returning; stale
+   * snapshots are returned as-is and refreshed in the background.
+   */
+  async getIssues(): Promise<CachedIssue[]> {
+    await Promise.all(
+      this.providers.map((provider) => {
+        if (!this.getSnapshot(provider) && !this.state.statuses[provider]) {
+          return this.refreshProvider(provider);
+        }
+        if (this.isStale(provider)) {
+          // Runs in the background; failures land in the provider status
+          void this.refreshProvider(provider);
+        }
+        return undefined;
+      })
+    );
+    return this.snapshotIssues();
+  }
+
+  // ==========================================================================
+  // Refresh
+  // ==========================================================================
+
+  /**
+   * Re-fetch every provider, ignoring TTLs.
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(this.providers.map((provider) => this.refreshProvider(provider)));
+  }
+
+  /**
+   * Periodically refresh stale snapshots so requests rarely wait on providers.
+   */
+  startBackgroundRefresh(intervalMs = BACKGROUND_TICK_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      for (const provider of this.providers) {
+        if (this.isStale(provider)) {
+          void this.refreshProvider(provider);
+        }
+      }
+    }, intervalMs);
+    // Don't keep the process alive just for cache refreshes
+    this.timer.unref?.();
+  }
+
+  stopBackgroundRefresh(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetch one provider, sharing the request with concurrent callers.
+   * Failures are recorded in the provider's status rather than thrown.
+   */
+  private refreshProvider(provider: string): Promise<void> {
+    const existing = this.inflight.get(provider);
+    if (existing) return existing;
+
+    const startedAt = Date.now();
+    const request = this.fetcher(provider)
+      .then((result) => {
+        const status = result.providers.find((p) => p.provider === provider) ?? {
+          provider,
+          status: 'ok' as const,
+          issueCount: result.issues.length,
+          durationMs: Date.now() - startedAt,
+          checkedAt: new Date().toISOString(),
+        };
+        if (status.status === 'ok') {
+          this.applySnapshot(provider, result.issues);
+        }
+        this.recordStatus(status);
+      })
+      .catch((e) => {
+        const error = e instanceof Error ? e.message : String(e);
+        this.recordStatus({
+          provider,
+          status: classifyProviderError(error),
+          issueCount: 0,
+          durationMs: Date.now() - startedAt,
+          checkedAt: new Date().toISOString(),
+          error,
+        });
+      })
+      .finally(() => {
+        this.inflight.delete(provider);
+      });
+    this.inflight.set(provider, request);
+    return request;
+  }
+
+  private recordStatus(status: ProviderFetchStatus): void {
+    if (status.status !== 'ok') {
+      console.error(`[issue-cache] ${status.provider} failed (${status.status}): ${status.error ?? ''}`);
+    }
+    this.state.statuses[status.provider] = status;
+    this.persist();
+  }
+
+  /**
+   * Store a fresh snapshot, recording when each of its issues was seen.
+   */
+  private applySnapshot(provider: string, issues: Issue[]): void {
+    const now = new Date();
+    const fetchedAt = now.toISOString();
+
+    for (const issue of issues) {
+      const key = issueKey(issue);
+      const sighting = this.state.sightings[key];
+      this.state.sightings[key] = {
+        firstSeen: sighting?.firstSeen ?? fetchedAt,
+        lastSeen: fetchedAt,
+      };
+    }
+
+    // Bound the sightings map to issues seen recently
+    const cutoff = now.getTime() - SIGHTING_RETENTION_MS;
+    for (const [key, sighting] of Object.entries(this.state.sightings)) {
+      if (new Date(sighting.lastSeen).getTime() < cutoff) {
+        delete this.state.sightings[key];
+      }
+    }
+
+    this.state.snapshots[provider] = { issues, fetchedAt };
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private snapshotIssues(): CachedIssue[] {
+    const issues: CachedIssue[] = [];
+    for (const provider of this.providers) {
+      for (const issue of this.getSnapshot(provider)?.issues ?? []) {
+        const sighting = this.state.sightings[issueKey(issue)];
+        const fetchedAt = this.getSnapshot(provider)!.fetchedAt;
+        issues.push({
+          ...issue,
+          firstSeen: sighting?.firstSeen ?? fetchedAt,
+          lastSeen: sighting?.lastSeen ?? fetchedAt,
+        });
+      }
+    }
+    return issues.sort((a, b) => b.priority - a.priority);
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.state);
+    } catch (e) {
+      console.error('Failed to persist issue cache:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+/**
+ * Read per-provider TTL overrides, e.g. RALPH_ISSUE_TTL_SENTRY=300.
+ */
+function readProviderTtls(providers: string[]): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const provider of providers) {
+    const seconds = Number(process.env[`RALPH_ISSUE_TTL_${provider.toUpperCase()}`]);
+    if (Number.isFinite(seconds) && seconds > 0) {
+      ttls[provider] = seconds * 1000;
+    }
+  }
+  return ttls;
+}
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphIssueCache?: IssueCache;
+};
+
+/**
+ * Get the process-wide issue cache.
+ */
+export function getIssueCache(): IssueCache {
+  if (!globalState.__ralphIssueCache) {
+    const providers = (process.env.RALPH_PROVIDERS || DEFAULT_PROVIDERS.join(','))
+      .split(',')
+      .map((p) => p.trim())
+      .filter(Boolean);
+    const ttlSeconds = Number(process.env.RALPH_ISSUE_TTL);
+    const isTest = process.env.NODE_ENV === 'test';
+
+    globalState.__ralphIssueCache = new IssueCache({
+      providers,
+      ttlMs: Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds * 1000 : DEFAULT_TTL_MS,
+      providerTtlMs: readProviderTtls(providers),
+      filePath: isTest ? null : dataPath('issue-cache.json'),
+    });
+    if (!isTest) {
+      globalState.__ralphIssueCache.startBackgroundRefresh();
+    }
+  }
+  return globalState.__ralphIssueCache;
+}
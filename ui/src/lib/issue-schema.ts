@@ -0,0 +1,216 @@
+/**
+ * Issue Payload Schema
+ *
+ * Validation for the versioned JSON payload `meta-ralph.sh --dry-run
+ * --json-file <path>` writes. The payload lives in its own file, so log
+ * output on stdout can never corrupt it, and each issue is checked field by
+ * field before it reaches the UI.
+ *
+ * Payload (schemaVersion 1):
+ * {
+ *   schemaVersion: 1,
+ *   generatedAt: string,
+ *   issues: Issue[],
+ *   providers: { provider, status, count, error? }[]
+ * }
+ */
+
+import type { Issue, Severity } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Payload version this UI understands. Must match JSON_SCHEMA_VERSION in
+ * meta-ralph.sh.
+ */
+export const ISSUE_SCHEMA_VERSION = 1;
+
+/**
+ * A single field-level validation failure.
+ */
+export interface ValidationError {
+  /** Location of the field, e.g. `issues[3].priority` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Provider fetch outcome as reported by the CLI.
+ */
+export interface ProviderStatusEntry {
+  provider: string;
+  status: 'ok' | 'error' | 'parse_error' | 'unavailable';
+  count: number;
+  error?: string;
+}
+
+/**
+ * Validated CLI payload. Malformed issues are dropped and listed in `errors`.
+ */
+export interface IssuePayload {
+  schemaVersion: number;
+  generatedAt?: string;
+  issues: Issue[];
+  providers: ProviderStatusEntry[];
+  errors: ValidationError[];
+}
+
+const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+const PROVIDER_STATUSES: ProviderStatusEntry['status'][] = ['ok', 'error', 'parse_error', 'unavailable'];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a single issue.
+ *
+ * Providers emit null for text they don't have (e.g. Sentry's culprit) and
+ * Codecov reports its raw severity as a number, so those are normalized
+ * rather than rejected.
+ *
+ * @returns The normalized issue, or the field-level errors
+ */
+export function validateIssue(
+  value: unknown,
+  path = 'issue'
+): { issue: Issue; errors: [] } | { issue: null; errors: ValidationError[] } {
+  if (!isObject(value)) {
+    return { issue: null, errors: [{ path, message: 'must be an object' }] };
+  }
+
+  const errors: ValidationError[] = [];
+  const fail = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+
+  for (const field of ['id', 'provider', 'title'] as const) {
+    if (typeof value[field] !== 'string' || value[field] === '') {
+      fail(field, 'must be a non-empty string');
+    }
+  }
+  for (const field of ['description', 'location', 'permalink'] as const) {
+    if (value[field] !== undefined && value[field] !== null && typeof value[field] !== 'string') {
+      fail(field, 'must be a string');
+    }
+  }
+  if (!SEVERITIES.includes(value.severity as Severity)) {
+    fail('severity', `must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (
+    value.raw_severity !== undefined &&
+    value.raw_severity !== null &&
+    typeof value.raw_severity !== 'string' &&
+    typeof value.raw_severity !== 'number'
+  ) {
+    fail('raw_severity', 'must be a string or number');
+  }
+  if (typeof value.priority !== 'number' || !Number.isFinite(value.priority) || value.priority < 0 || value.priority > 100) {
+    fail('priority', 'must be a number between 0 and 100');
+  }
+  if (typeof value.count !== 'number' || !Number.isFinite(value.count) || value.count < 0) {
+    fail('count', 'must be a non-negative number');
+  }
+  if (value.metadata !== undefined && value.metadata !== null && !isObject(value.metadata)) {
+    fail('metadata', 'must be an object');
+  }
+
+  if (errors.length > 0) {
+    return { issue: null, errors };
+  }
+
+  return {
+    issue: {
+      ...value,
+      id: value.id as string,
+      provider: value.provider as string,
+      title: value.title as string,
+      description: (value.description as string | null) ?? '',
+      location: (value.location as string | null) ?? '',
+      severity: value.severity as Severity,
+      raw_severity: value.raw_severity == null ? '' : String(value.raw_severity),
+      count: value.count as number,
+      priority: value.priority as number,
+      permalink: (value.permalink as string | null) ?? '',
+      metadata: (value.metadata as Record<string, unknown> | null) ?? {},
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Validate a provider status entry.
+ */
+function validateProviderStatus(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) {
+    return [{ path, message: 'must be an object' }];
+  }
+  const errors: ValidationError[] = [];
+  if (typeof value.provider !== 'string' || value.provider === '') {
+    errors.push({ path: `${path}.provider`, message: 'must be a non-empty string' });
+  }
+  if (!PROVIDER_STATUSES.includes(value.status as ProviderStatusEntry['status'])) {
+    errors.push({ path: `${path}.status`, message: `must be one of ${PROVIDER_STATUSES.join(', ')}` });
+  }
+  if (typeof value.count !== 'number') {
+    errors.push({ path: `${path}.count`, message: 'must be a number' });
+  }
+  if (value.error !== undefined && typeof value.error !== 'string') {
+    errors.push({ path: `${path}.error`, message: 'must be a string' });
+  }
+  return errors;
+}
+
+/**
+ * Validate a parsed CLI payload.
+ *
+ * @throws Error if the payload can't be used at all (not an object,
+ *   unsupported schemaVersion, missing issue list)
+ */
+export function parseIssuePayload(value: unknown): IssuePayload {
+  if (!isObject(value)) {
+    throw new Error('Issue payload must be a JSON object');
+  }
+  if (value.schemaVersion !== ISSUE_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported issue payload schemaVersion ${String(value.schemaVersion)} (expected ${ISSUE_SCHEMA_VERSION})`
+    );
+  }
+  if (!Array.isArray(value.issues)) {
+    throw new Error('Issue payload is missing the issues array');
+  }
+
+  const errors: ValidationError[] = [];
+  const issues: Issue[] = [];
+  value.issues.forEach((item, index) => {
+    const result = validateIssue(item, `issues[${index}]`);
+    if (result.issue) {
+      issues.push(result.issue);
+    } else {
+      errors.push(...result.errors);
+    }
+  });
+
+  const providers: ProviderStatusEntry[] = [];
+  const rawProviders = Array.isArray(value.providers) ? value.providers : [];
+  rawProviders.forEach((item, index) => {
+    const providerErrors = validateProviderStatus(item, `providers[${index}]`);
+    if (providerErrors.length === 0) {
+      providers.push(item as unknown as ProviderStatusEntry);
+    } else {
+      errors.push(...providerErrors);
+    }
+  });
+
+  return {
+    schemaVersion: value.schemaVersion,
+    generatedAt: typeof value.generatedAt === 'string' ? value.generatedAt : undefined,
+    issues,
+    providers,
+    errors,
+  };
+}
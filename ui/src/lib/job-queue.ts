@@ -0,0 +1,688 @@
+/**
+ * Processing Job Queue
+ *
+ * Durable server-side queue of single-issue processing jobs. Jobs are
+ * persisted to the data directory and dispatched to the meta-ralph CLI,
+ * up to each job's `concurrency` at a time, so work can be enqueued while
+ * a run is in progress, reordered, paused, retried and resumed after a
+ * server crash. A job that fails for good is followed by the next step of
+ * its escalation policy, if any (see ProcessingOptions.escalation). A
+ * plan-mode job that succeeds leaves its plan awaiting approval, and a
+ * build job held for review (ProcessingOptions.reviewBeforePush) leaves
+ * its changes ready for review.
+ *
+ * Why this exists:
+ * - A single fire-and-forget `--only-ids` batch can't be extended,
+ *   reordered or resumed
+ * - Running one issue per CLI invocation gives each issue its own
+ *   lifecycle (cancel, retry, outcome)
+ */
+
+import { getChangeReviewStore, type ChangeReviewStore } from './change-review-store';
+import { extractPrUrl } from './events';
+import { DEFAULT_ACTOR, getLifecycleStore, type LifecycleStore, type LifecycleTransition } from './lifecycle-store';
+import { processIssues, type ProcessingFailure } from './meta-ralph';
+import { getPlanReviewStore, type PlanReviewStore } from './plan-review-store';
+import { getRunHistoryStore, type RunHistoryStore } from './run-history-store';
+import { summarizeRun } from './run-summary';
+import { getSession } from './session-manager';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { Issue, IssueStatus, JobQueueState, ModelType, ProcessingJob, ProcessingOptions } from './types';
+import { DEFAULT_PROCESSING_OPTIONS, MAX_CONCURRENCY } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Callbacks a runner uses to report on a job.
+ */
+export interface JobRunnerCallbacks {
+  onLog: (log: string) => void;
+  /** Report the outcome; a failure that isn't retryable skips remaining retries */
+  onComplete: (success: boolean, failure?: ProcessingFailure) => void;
+}
+
+/**
+ * Starts a job and returns a function that cancels it.
+ */
+export type JobRunner = (job: ProcessingJob, callbacks: JobRunnerCallbacks) => () => void;
+
+/**
+ * Options when enqueueing issues.
+ */
+export interface EnqueueOptions {
+  priority?: number;
+  maxRetries?: number;
+  /** Duplicate issues resolved by each enqueued issue, keyed by issue ID */
+  linkedIssueIds?: Record<string, string[]>;
+  /** Who enqueued the issues, for the lifecycle log */
+  actor?: string;
+  /** The enqueued issues, to record their provider and severity with the run history */
+  issues?: Pick<Issue, 'id' | 'provider' | 'severity'>[];
+  /** Model per issue ID (from model routing), overriding `options.model` */
+  models?: Record<string, ModelType>;
+  /** CI fix attempt each enqueued issue's job makes, keyed by issue ID */
+  ciFixAttemptIds?: Record<string, string>;
+}
+
+/**
+ * Shape of the persisted queue document.
+ */
+interface PersistedQueue {
+  jobs: ProcessingJob[];
+  isPaused: boolean;
+  nextSequence: number;
+}
+
+// Keep only the last N log lines in memory
+const MAX_LOG_LINES = 1000;
+
+// Lifecycle actors for changes made by the queue itself and by run outcomes
+const QUEUE_ACTOR = 'queue';
+const RUNNER_ACTOR = 'meta-ralph';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Generate a unique job ID.
+ */
+function generateJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Generate a batch ID shared by the jobs of one enqueue call.
+ */
+function generateBatchId(): string {
+  return `batch-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Order jobs for dispatch: highest priority first, then FIFO.
+ */
+export function compareJobs(a: ProcessingJob, b: ProcessingJob): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return a.sequence - b.sequence;
+}
+
+/**
+ * Whether a job still occupies its issue (can't enqueue the issue again).
+ */
+export function isJobActive(job: ProcessingJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * How many jobs may run at once, including this one (1 to MAX_CONCURRENCY).
+ */
+export function getJobConcurrency(job: ProcessingJob): number {
+  const concurrency = Math.floor(job.options.concurrency ?? 1);
+  return Number.isFinite(concurrency) ? Math.min(Math.max(concurrency, 1), MAX_CONCURRENCY) : 1;
+}
+
+/**
+ * Whether a job processes an issue, directly or as a linked duplicate.
+ */
+export function jobCoversIssue(job: ProcessingJob, issueId: string): boolean {
+  return job.issueId === issueId || !!job.linkedIssueIds?.includes(issueId);
+}
+
+/**
+ * Default runner: one meta-ralph CLI invocation per job.
+ */
+const cliRunner: JobRunner = (job, { onLog, onComplete }) =>
+  processIssues(
+    [job.issueId],
+    onLog,
+    (success, _results, failures) => onComplete(success, failures[job.issueId]),
+    job.options,
+    { batchId: job.batchId ?? job.id, jobId: job.id, ciFixAttemptId: job.ciFixAttemptId }
+  );
+
+// ============================================================================
+// Job Queue
+// ============================================================================
+
+export class JobQueue {
+  private state: PersistedQueue;
+  private version = 0;
+  // Cancel functions of the running jobs, by job ID
+  private running = new Map<string, () => void>();
+  private logs: string[] = [];
+
+  /**
+   * @param runner - Starts a job; defaults to the meta-ralph CLI
+   * @param filePath - Where to persist the queue; null keeps it in memory
+   * @param lifecycle - Where to record issue status changes; null skips recording
+   * @param history - Where to record finished runs; null skips recording
+   * @param reviews - Where to put generated plans up for review; null skips it
+   * @param changeReviews - Where to put held build runs up for review; null skips it
+   */
+  constructor(
+    private readonly runner: JobRunner = cliRunner,
+    private readonly filePath: string | null = dataPath('queue.json'),
+    private readonly lifecycle: LifecycleStore | null = null,
+    private readonly history: RunHistoryStore | null = null,
+    private readonly reviews: PlanReviewStore | null = null,
+    private readonly changeReviews: ChangeReviewStore | null = null
+  ) {
+    this.state = filePath
+      ? readJsonFile<PersistedQueue>(filePath, { jobs: [], isPaused: false, nextSequence: 0 })
+      : { jobs: [], isPaused: false, nextSequence: 0 };
+
+    // A job marked running belongs to a server that no longer exists
+    let recovered = 0;
+    for (const job of this.state.jobs) {
+      if (job.status === 'running') {
+        job.status = 'queued';
+        job.startedAt = undefined;
+        recovered++;
+      }
+    }
+    if (recovered > 0) {
+      this.log(`[queue] Re-queued ${recovered} job(s) interrupted by a server restart`);
+      this.persist();
+    }
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  // ==========================================================================
+  // Queries
+  // ==========================================================================
+
+  getState(): JobQueueState {
+    return {
+      jobs: this.getJobs(),
+      isPaused: this.state.isPaused,
+      runningJobIds: Array.from(this.running.keys()),
+    };
+  }
+
+  /**
+   * All jobs, in dispatch order.
+   */
+  getJobs(): ProcessingJob[] {
+    return [...this.state.jobs].sort(compareJobs);
+  }
+
+  getJob(jobId: string): ProcessingJob | undefined {
+    return this.state.jobs.find((j) => j.id === jobId);
+  }
+
+  /**
+   * The queued or running job for an issue, if any. Linked duplicates count
+   * as occupied by the job of their canonical issue.
+   */
+  getActiveJobForIssue(issueId: string): ProcessingJob | undefined {
+    return this.state.jobs.find((j) => jobCoversIssue(j, issueId) && isJobActive(j));
+  }
+
+  /**
+   * The first running job, in dispatch order.
+   */
+  getRunningJob(): ProcessingJob | undefined {
+    return this.getRunningJobs()[0];
+  }
+
+  getRunningJobs(): ProcessingJob[] {
+    return this.getJobs().filter((j) => this.running.has(j.id));
+  }
+
+  getLogs(): string[] {
+    return this.logs;
+  }
+
+  isPaused(): boolean {
+    return this.state.isPaused;
+  }
+
+  // ==========================================================================
+  // Mutations
+  // ==========================================================================
+
+  /**
+   * Add one job per issue. Issues that already have an active job are skipped.
+   */
+  enqueue(
+    issueIds: string[],
+    options: Partial<ProcessingOptions> = {},
+    {
+      priority = 0,
+      maxRetries = 0,
+      linkedIssueIds = {},
+      actor = DEFAULT_ACTOR,
+      issues = [],
+      models = {},
+      ciFixAttemptIds = {},
+    }: EnqueueOptions = {}
+  ): { jobs: ProcessingJob[]; skipped: string[] } {
+    const jobs: ProcessingJob[] = [];
+    const skipped: string[] = [];
+    const now = new Date().toISOString();
+    const batchId = generateBatchId();
+
+    for (const issueId of issueIds) {
+      if (this.getActiveJobForIssue(issueId)) {
+        skipped.push(issueId);
+        continue;
+      }
+      const job: ProcessingJob = {
+        id: generateJobId(),
+        issueId,
+        options: {
+          ...DEFAULT_PROCESSING_OPTIONS,
+          ...options,
+          ...(models[issueId] && { model: models[issueId] }),
+        },
+        status: 'queued',
+        priority,
+        sequence: this.state.nextSequence++,
+        attempts: 0,
+        maxRetries,
+        batchId,
+        createdAt: now,
+      };
+      if (linkedIssueIds[issueId]?.length) {
+        job.linkedIssueIds = linkedIssueIds[issueId];
+      }
+      if (ciFixAttemptIds[issueId]) {
+        job.ciFixAttemptId = ciFixAttemptIds[issueId];
+      }
+      const issue = issues.find((i) => i.id === issueId);
+      if (issue) {
+        job.provider = issue.provider;
+        job.severity = issue.severity;
+      }
+      this.state.jobs.push(job);
+      jobs.push(job);
+    }
+
+    if (jobs.length > 0) {
+      this.log(`[queue] Enqueued ${jobs.length} job(s)`);
+      this.persist();
+      for (const job of jobs) {
+        this.recordLifecycle(job, 'pending', actor, { reason: `Queued for ${job.options.mode}` });
+      }
+      this.dispatch();
+    }
+
+    return { jobs, skipped };
+  }
+
+  /**
+   * Cancel a queued or running job.
+   */
+  cancel(jobId: string, actor: string = DEFAULT_ACTOR): ProcessingJob | undefined {
+    const job = this.getJob(jobId);
+    if (!job || !isJobActive(job)) return undefined;
+
+    const wasRunning = job.status === 'running';
+    job.status = 'cancelled';
+    job.completedAt = new Date().toISOString();
+    this.log(`[queue] Cancelled job for ${job.issueId}`);
+
+    this.persist();
+    this.recordLifecycle(job, 'pending', actor, { reason: 'Cancelled' });
+
+    // The next job is dispatched once the runner reports the cancelled job finished
+    if (wasRunning) {
+      this.running.get(jobId)?.();
+    }
+    return job;
+  }
+
+  /**
+   * Cancel the queued or running job for an issue.
+   */
+  cancelIssue(issueId: string, actor?: string): ProcessingJob | undefined {
+    const job = this.getActiveJobForIssue(issueId);
+    return job ? this.cancel(job.id, actor) : undefined;
+  }
+
+  /**
+   * Cancel every queued and running job.
+   */
+  cancelAll(actor?: string): number {
+    // Cancel queued jobs first so the running job's cancellation doesn't dispatch them
+    const active = this.state.jobs
+      .filter(isJobActive)
+      .sort((a, b) => (a.status === 'running' ? 1 : 0) - (b.status === 'running' ? 1 : 0));
+    active.forEach((job) => this.cancel(job.id, actor));
+    return active.length;
+  }
+
+  /**
+   * Stop dispatching new jobs. Running jobs are allowed to finish.
+   */
+  pause(): void {
+    if (this.state.isPaused) return;
+    this.state.isPaused = true;
+    this.log('[queue] Paused');
+    this.persist();
+  }
+
+  resume(): void {
+    if (!this.state.isPaused) return;
+    this.state.isPaused = false;
+    this.log('[queue] Resumed');
+    this.persist();
+    this.dispatch();
+  }
+
+  setPriority(jobId: string, priority: number): ProcessingJob | undefined {
+    const job = this.getJob(jobId);
+    if (!job) return undefined;
+    job.priority = priority;
+    this.persist();
+    return job;
+  }
+
+  /**
+   * Reorder queued jobs. Listed jobs run in the given order, ahead of
+   * unlisted jobs with the same priority.
+   */
+  reorder(jobIds: string[]): void {
+    const listed = jobIds
+      .map((id) => this.getJob(id))
+      .filter((j): j is ProcessingJob => !!j && j.status === 'queued');
+    if (listed.length === 0) return;
+
+    const base = Math.min(...this.state.jobs.map((j) => j.sequence)) - listed.length;
+    listed.forEach((job, index) => {
+      job.sequence = base + index;
+    });
+    this.persist();
+  }
+
+  /**
+   * Re-queue a failed or cancelled job.
+   */
+  retry(jobId: string, actor: string = DEFAULT_ACTOR): ProcessingJob | undefined {
+    const job = this.getJob(jobId);
+    if (!job || isJobActive(job) || job.status === 'completed') return undefined;
+    if (this.getActiveJobForIssue(job.issueId)) return undefined;
+
+    job.status = 'queued';
+    job.sequence = this.state.nextSequence++;
+    job.startedAt = undefined;
+    job.completedAt = undefined;
+    job.error = undefined;
+    this.log(`[queue] Retrying job for ${job.issueId}`);
+    this.persist();
+    this.recordLifecycle(job, 'pending', actor, { reason: 'Retry requested' });
+    this.dispatch();
+    return job;
+  }
+
+  /**
+   * Remove finished jobs (completed, failed, cancelled).
+   */
+  clearFinished(): number {
+    const before = this.state.jobs.length;
+    this.state.jobs = this.state.jobs.filter(isJobActive);
+    const removed = before - this.state.jobs.length;
+    if (removed > 0) this.persist();
+    return removed;
+  }
+
+  // ==========================================================================
+  // Dispatch
+  // ==========================================================================
+
+  /**
+   * Begin dispatching queued jobs (e.g. those left over from a previous run).
+   */
+  start(): void {
+    this.dispatch();
+  }
+
+  /**
+   * Start queued jobs in order while the next one's concurrency allows it
+   * and the queue isn't paused. A job never jumps ahead of a waiting job.
+   */
+  private dispatch(): void {
+    while (!this.state.isPaused) {
+      const next = this.getJobs().find((j) => j.status === 'queued');
+      if (!next || this.running.size >= getJobConcurrency(next)) return;
+      this.run(next);
+    }
+  }
+
+  private run(next: ProcessingJob): void {
+    next.status = 'running';
+    next.attempts++;
+    next.startedAt = new Date().toISOString();
+    next.completedAt = undefined;
+    this.persist();
+    this.recordLifecycle(next, 'processing', QUEUE_ACTOR, {
+      reason: next.attempts > 1 ? `Attempt ${next.attempts}` : undefined,
+    });
+
+    const jobId = next.id;
+    let finished = false;
+    const cancel = this.runner(next, {
+      onLog: (log) => this.log(log),
+      onComplete: (success, failure) => {
+        if (finished) return;
+        finished = true;
+        this.finish(jobId, success, failure);
+      },
+    });
+
+    // The runner may complete synchronously (e.g. spawn failure)
+    if (!finished) {
+      this.running.set(jobId, cancel);
+    }
+  }
+
+  private finish(jobId: string, success: boolean, failure?: ProcessingFailure): void {
+    this.running.delete(jobId);
+
+    const job = this.getJob(jobId);
+    // Cancelled jobs were already finalized by cancel()
+    if (job && job.status === 'running') {
+      job.completedAt = new Date().toISOString();
+      this.recordRun(job, success);
+      if (success) {
+        job.status = 'completed';
+        job.error = undefined;
+        this.log(`[queue] ${job.issueId} completed`);
+        if (job.options.mode === 'plan') {
+          // The plan needs a reviewer's approval before it is built
+          this.reviews?.submit(job.issueId, job.id);
+          this.recordLifecycle(job, 'awaiting_approval', RUNNER_ACTOR, {
+            reason: 'Plan ready for review',
+            planUrl: `/api/plan/${job.issueId}`,
+          });
+        } else if (!this.holdForReview(job)) {
+          const session = getSession(job.issueId);
+          this.recordLifecycle(job, 'completed', RUNNER_ACTOR, {
+            // Older engines only mention the PR in the run's activities
+            prUrl: session?.pullRequest?.url ?? extractPrUrl(session?.activities ?? []),
+          });
+        }
+      } else if (failure && !failure.retryable) {
+        job.status = 'failed';
+        job.error = failure.message;
+        this.log(`[queue] ${job.issueId} failed: ${failure.message}`);
+        this.recordLifecycle(job, 'failed', RUNNER_ACTOR, { reason: job.error });
+      } else if (job.attempts <= job.maxRetries) {
+        job.status = 'queued';
+        job.error = `Attempt ${job.attempts} failed`;
+        this.log(`[queue] ${job.issueId} failed, retrying (${job.attempts}/${job.maxRetries})`);
+        this.recordLifecycle(job, 'pending', RUNNER_ACTOR, { reason: `${job.error}, retrying` });
+      } else {
+        job.status = 'failed';
+        job.error = job.attempts > 1
+          ? `Processing failed after ${job.attempts} attempts`
+          : 'Processing failed';
+        this.log(`[queue] ${job.issueId} failed`);
+        this.recordLifecycle(job, 'failed', RUNNER_ACTOR, { reason: job.error });
+        this.escalate(job);
+      }
+      this.persist();
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Put the changes of a successful build job up for review instead of
+   * completing the issue, when the job's options ask for it. Runs that
+   * never reported their branch have nothing to review.
+   *
+   * @returns Whether the job was held
+   */
+  private holdForReview(job: ProcessingJob): boolean {
+    const session = getSession(job.issueId);
+    if (!job.options.reviewBeforePush || !this.changeReviews || !session?.branch) return false;
+    this.changeReviews.submit(job.issueId, {
+      jobId: job.id,
+      branch: session.branch,
+      summary: summarizeRun(session.activities, session.metrics),
+      testResults: session.testResults,
+    });
+    this.recordLifecycle(job, 'ready_for_review', RUNNER_ACTOR, {
+      reason: `Changes on ${session.branch.branch} ready for review`,
+    });
+    return true;
+  }
+
+  /**
+   * Queue the next step of a failed job's escalation policy as a new job
+   * for the same issue, linked to the failed one. Does nothing when the
+   * policy is used up or the issue was queued again meanwhile.
+   */
+  private escalate(failed: ProcessingJob): void {
+    const level = failed.escalationLevel ?? 0;
+    const step = failed.options.escalation?.[level];
+    if (!step || this.getActiveJobForIssue(failed.issueId)) return;
+
+    const job: ProcessingJob = {
+      id: generateJobId(),
+      issueId: failed.issueId,
+      options: { ...failed.options, ...step.options },
+      status: 'queued',
+      priority: failed.priority,
+      sequence: this.state.nextSequence++,
+      attempts: 0,
+      maxRetries: failed.maxRetries,
+      linkedIssueIds: failed.linkedIssueIds,
+      batchId: failed.batchId,
+      provider: failed.provider,
+      severity: failed.severity,
+      escalationLevel: level + 1,
+      escalatedFromJobId: failed.id,
+      createdAt: new Date().toISOString(),
+    };
+    this.state.jobs.push(job);
+    this.log(`[queue] Escalating ${job.issueId}: ${step.name}`);
+    this.recordLifecycle(job, 'pending', QUEUE_ACTOR, { reason: `Escalated to ${step.name}` });
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private log(line: string): void {
+    this.version++;
+    this.logs.push(line);
+    if (this.logs.length > MAX_LOG_LINES) {
+      this.logs = this.logs.slice(-MAX_LOG_LINES);
+    }
+  }
+
+  /**
+   * Record a finished attempt in the run history. Attempts that never
+   * reported metrics (e.g. failed to start) say nothing about cost.
+   */
+  private recordRun(job: ProcessingJob, success: boolean): void {
+    const metrics = getSession(job.issueId)?.metrics;
+    if (!this.history || !metrics || metrics.iteration < 1) return;
+    this.history.record({
+      issueId: job.issueId,
+      jobId: job.id,
+      escalationLevel: job.escalationLevel,
+      escalatedFromJobId: job.escalatedFromJobId,
+      provider: job.provider,
+      severity: job.severity,
+      model: job.options.model,
+      mode: job.options.mode,
+      status: success ? 'completed' : 'failed',
+      costUsd: metrics.totalCostUsd,
+      iterations: metrics.iteration,
+      maxIterations: job.options.maxIterations,
+      durationMs: metrics.totalDurationMs,
+      completedAt: job.completedAt ?? new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a status change for a job's issue and its linked duplicates.
+   */
+  private recordLifecycle(
+    job: ProcessingJob,
+    to: IssueStatus,
+    actor: string,
+    details: Pick<LifecycleTransition, 'reason' | 'prUrl' | 'planUrl'> = {}
+  ): void {
+    if (!this.lifecycle) return;
+    const duplicateReason = `Duplicate of ${job.issueId}`;
+    this.lifecycle.record([
+      { issueId: job.issueId, to, actor, jobId: job.id, ...details },
+      ...(job.linkedIssueIds ?? []).map((issueId) => ({
+        issueId,
+        to,
+        actor,
+        jobId: job.id,
+        ...details,
+        reason: details.reason ? `${details.reason} (${duplicateReason.toLowerCase()})` : duplicateReason,
+      })),
+    ]);
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.state);
+    } catch (e) {
+      console.error('Failed to persist job queue:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphJobQueue?: JobQueue;
+};
+
+/**
+ * Get the process-wide job queue.
+ */
+export function getJobQueue(): JobQueue {
+  if (!globalState.__ralphJobQueue) {
+    globalState.__ralphJobQueue = new JobQueue(
+      cliRunner,
+      process.env.NODE_ENV === 'test' ? null : dataPath('queue.json'),
+      getLifecycleStore(),
+      getRunHistoryStore(),
+      getPlanReviewStore(),
+      getChangeReviewStore()
+    );
+    // Resume whatever was queued before the last shutdown
+    globalState.__ralphJobQueue.start();
+  }
+  return globalState.__ralphJobQueue;
+}
@@ -0,0 +1,149 @@
+/**
+ * Issue Lifecycle Store
+ *
+ * Append-only audit log of issue status changes. Every transition records
+ * the previous and new status, who made it, when and why, plus the job, PR
+ * or plan it relates to. Served per issue by `GET /api/issues/:id/timeline`.
+ *
+ * Why this exists:
+ * - Processing state lives in the job queue, which can be cleared, and
+ *   triage state only knows the current value; neither says who changed
+ *   an issue or when
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { IssueLifecycleEvent, IssueStatus, IssueTimeline } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A status change to record. `from`, `id` and `timestamp` are filled in.
+ */
+export type LifecycleTransition = Omit<IssueLifecycleEvent, 'id' | 'from' | 'timestamp'>;
+
+type LifecycleMap = Record<string, IssueLifecycleEvent[]>;
+
+// Keep only the most recent events per issue
+const MAX_EVENTS_PER_ISSUE = 200;
+
+// Actor for changes that don't identify their user
+export const DEFAULT_ACTOR = 'ui';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function generateEventId(): string {
+  return `evt-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Actor for a status change made through an API request.
+ * Clients identify their user with the `X-Ralph-Actor` header.
+ */
+export function getRequestActor(request: Request): string {
+  return request.headers.get('x-ralph-actor')?.trim() || DEFAULT_ACTOR;
+}
+
+// ============================================================================
+// Lifecycle Store
+// ============================================================================
+
+export class LifecycleStore {
+  private events: LifecycleMap;
+  private version = 0;
+
+  /**
+   * @param filePath - Where to persist the log; null keeps it in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('lifecycle.json')) {
+    this.events = filePath ? readJsonFile<LifecycleMap>(filePath, {}) : {};
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Latest recorded status of an issue, if any.
+   */
+  getStatus(issueId: string): IssueStatus | undefined {
+    const events = this.events[issueId];
+    return events?.[events.length - 1]?.to;
+  }
+
+  /**
+   * Status an issue had before its latest change (e.g. to restore an
+   * ignored issue), if any.
+   */
+  getPreviousStatus(issueId: string): IssueStatus | undefined {
+    const events = this.events[issueId];
+    return events?.[events.length - 1]?.from ?? undefined;
+  }
+
+  getTimeline(issueId: string): IssueTimeline {
+    return {
+      issueId,
+      status: this.getStatus(issueId) ?? 'pending',
+      events: this.events[issueId] ?? [],
+    };
+  }
+
+  /**
+   * Record status changes. A transition to the status an issue already has
+   * is only recorded when it carries new information (a PR or plan link).
+   *
+   * @returns The recorded events
+   */
+  record(transitions: LifecycleTransition[]): IssueLifecycleEvent[] {
+    const recorded: IssueLifecycleEvent[] = [];
+    const timestamp = new Date().toISOString();
+
+    for (const transition of transitions) {
+      const from = this.getStatus(transition.issueId) ?? null;
+      if (from === transition.to && !transition.prUrl && !transition.planUrl) continue;
+
+      const event: IssueLifecycleEvent = { id: generateEventId(), from, timestamp, ...transition };
+      const events = [...(this.events[transition.issueId] ?? []), event];
+      this.events[transition.issueId] = events.slice(-MAX_EVENTS_PER_ISSUE);
+      recorded.push(event);
+    }
+
+    if (recorded.length > 0) this.persist();
+    return recorded;
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.events);
+    } catch (e) {
+      console.error('Failed to persist issue lifecycle:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphLifecycleStore?: LifecycleStore;
+};
+
+/**
+ * Get the process-wide lifecycle store.
+ */
+export function getLifecycleStore(): LifecycleStore {
+  if (!globalState.__ralphLifecycleStore) {
+    globalState.__ralphLifecycleStore = new LifecycleStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('lifecycle.json')
+    );
+  }
+  return globalState.__ralphLifecycleStore;
+}
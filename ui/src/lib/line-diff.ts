@@ -0,0 +1,115 @@
+/**
+ * Line Diff
+ *
+ * Line-based diff of two texts for showing plan revisions side by side.
+ * Lines are matched by longest common subsequence; a run of removed lines
+ * followed by added lines is paired up row by row as changed lines.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiffRowType = 'unchanged' | 'added' | 'removed' | 'changed';
+
+/**
+ * A line on one side of a diff row, numbered from 1.
+ */
+export interface DiffLine {
+  line: number;
+  text: string;
+}
+
+/**
+ * One row of a side-by-side diff. `left` is the line in the old text and
+ * `right` the line in the new one; a side is null when the line only
+ * exists on the other side.
+ */
+export interface DiffRow {
+  type: DiffRowType;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Rows for a run of removed lines followed by added lines: paired up row
+ * by row as changed lines, with the longer side's extra lines left over.
+ */
+export function pairChangedLines(removed: DiffLine[], added: DiffLine[]): DiffRow[] {
+  return Array.from({ length: Math.max(removed.length, added.length) }, (_, k) => {
+    const left = removed[k] ?? null;
+    const right = added[k] ?? null;
+    return { type: left && right ? 'changed' : left ? 'removed' : 'added', left, right };
+  });
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Diff two texts line by line into side-by-side rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    rows.push(...pairChangedLines(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'unchanged', left: { line: i + 1, text: a[i] }, right: { line: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push({ line: i + 1, text: a[i] });
+      i++;
+    } else {
+      added.push({ line: j + 1, text: b[j] });
+      j++;
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Count the rows of a diff that differ.
+ */
+export function getDiffStats(rows: DiffRow[]): DiffStats {
+  const stats: DiffStats = { added: 0, removed: 0, changed: 0 };
+  for (const row of rows) {
+    if (row.type !== 'unchanged') stats[row.type]++;
+  }
+  return stats;
+}
@@ -1,17 +1,52 @@
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import type { Issue, ProcessingOptions, StreamEvent, Activity, ExecutionMetrics } from './types';
-import { emitEvent, startProcessing, completeProcessing } from './session-manager';
+import type {
+  Issue,
+  ProcessingOptions,
+  StreamEvent,
+  Activity,
+  ExecutionMetrics,
+  ProviderFetchState,
+  ProviderFetchStatus,
+  BudgetExceededPayload,
+  PlanProgress,
+  PlanRevision,
+  RunBranch,
+  RunPullRequest,
+  RunTestResults,
+  CIFixAttempt,
+} from './types';
+import { emitEvent, getSession, startProcessing, completeProcessing, scheduleCleanup } from './session-manager';
+import { parseIssuePayload, type IssuePayload } from './issue-schema';
+import { createWorktree, removeWorktree } from './worktree';
+import { findBudgetViolation, getRemainingBudget, type ApplicableBudget } from './budget';
+import { getBudgetStore } from './budget-store';
+import { getChangeReviewStore } from './change-review-store';
+import { formatCIFailureContext } from './ci-fix';
+import { getCIFixStore } from './ci-fix-store';
+import { loadModelConfig } from './model-config';
+import { getCliModel } from './models';
+import { PLAN_FILE_NAME } from './plan-files';
+import { getPlanProgress, syncStepCompletion } from './plan-parser';
+import { getPlanReviewStore } from './plan-review-store';
+import { getPlanStore } from './plan-store';
+import { getPullRequestPoller } from './pull-request-poller';
+import { getPullRequestStore } from './pull-request-store';
 
 const META_RALPH_PATH = path.resolve(process.cwd(), '..', 'meta-ralph.sh');
 const META_RALPH_DIR = path.dirname(META_RALPH_PATH);
 
 // Target repository where meta-ralph will work (can be configured via env)
-const TARGET_REPO = process.env.TARGET_REPO || META_RALPH_DIR;
+export const TARGET_REPO = process.env.TARGET_REPO || META_RALPH_DIR;
 
 // Event prefix for streaming mode
 const RALPH_EVENT_PREFIX = 'RALPH_EVENT:';
 
+// Kill a dry-run fetch that hangs on a provider API (RALPH_FETCH_TIMEOUT in seconds)
+const FETCH_TIMEOUT_MS = (Number(process.env.RALPH_FETCH_TIMEOUT) || 120) * 1000;
+
 /**
  * Parse a RALPH_EVENT line from the CLI output.
  * Returns the parsed StreamEvent or null if not a valid event line.
@@ -37,57 +72,139 @@ function emitStreamEvent(event: StreamEvent): void {
   emitEvent(event.issueId, event);
 }
 
-export async function fetchIssues(): Promise<Issue[]> {
+/**
+ * Result of a dry-run fetch: issues plus how each provider fared.
+ */
+export interface FetchIssuesResult {
+  issues: Issue[];
+  providers: ProviderFetchStatus[];
+}
+
+/**
+ * Classify a provider error message into a fetch state.
+ */
+export function classifyProviderError(message: string): ProviderFetchState {
+  if (/\b(401|403)\b|unauthori[sz]ed|forbidden|token|credential/i.test(message)) {
+    return 'auth_error';
+  }
+  if (/timed? ?out|ETIMEDOUT/i.test(message)) {
+    return 'timeout';
+  }
+  return 'error';
+}
+
+/**
+ * Read and validate the payload file written by `--json-file`.
+ * Returns the payload, or an error message if it is missing or unusable.
+ */
+function readIssuePayload(filePath: string): { payload: IssuePayload } | { error: string } {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return { error: 'meta-ralph did not write an issue payload' };
+  }
+
+  try {
+    const payload = parseIssuePayload(JSON.parse(raw));
+    for (const { path: field, message } of payload.errors) {
+      console.warn(`[meta-ralph] Rejected ${field}: ${message}`);
+    }
+    return { payload };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Fetch issues by running meta-ralph in dry-run JSON mode.
+ *
+ * The CLI writes a versioned payload to a temp file (`--json-file`), so log
+ * output on stdout never has to be told apart from the issue list. A failing
+ * provider doesn't fail the fetch: issues from the other providers are
+ * returned and the failure is reported in `providers`.
+ *
+ * @param providers - Providers to fetch from; defaults to the CLI's own list
+ */
+export async function fetchIssues(providers?: string[]): Promise<FetchIssuesResult> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-issues-'));
+  const payloadPath = path.join(tmpDir, 'issues.json');
+  const args = [META_RALPH_PATH, '--dry-run', '--json-file', payloadPath];
+  if (providers && providers.length > 0) {
+    args.push('--providers', providers.join(','));
+  }
+
   return new Promise((resolve, reject) => {
-    const proc = spawn('bash', [META_RALPH_PATH, '--dry-run', '--json'], {
+    const startedAt = Date.now();
+    const proc = spawn('bash', args, {
       cwd: META_RALPH_DIR,
       env: { ...process.env, REPO_ROOT: TARGET_REPO },
     });
 
-    let stdout = '';
     let stderr = '';
+    let timedOut = false;
 
-    proc.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
+    const cleanup = () => {
+      clearTimeout(timeout);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    };
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      proc.kill('SIGTERM');
+    }, FETCH_TIMEOUT_MS);
+
+    // stdout only carries human-readable logs; drain it so the CLI never blocks
+    proc.stdout.on('data', () => {});
 
     proc.stderr.on('data', (data) => {
       stderr += data.toString();
     });
 
     proc.on('close', (code) => {
-      if (code !== 0) {
-        // If --json flag is not yet implemented, return mock data for now
-        if (stderr.includes('unrecognized option') || stderr.includes('--json')) {
-          console.warn('--json flag not implemented, using fallback');
-          resolve([]);
-          return;
-        }
-        reject(new Error(`meta-ralph exited with code ${code}: ${stderr}`));
-        return;
+      const result = readIssuePayload(payloadPath);
+      cleanup();
+
+      const durationMs = Date.now() - startedAt;
+      const checkedAt = new Date().toISOString();
+      const payload = 'payload' in result ? result.payload : null;
+      const reported = payload?.providers ?? [];
+
+      // Without an explicit list, report on whatever the CLI fetched
+      let names = providers && providers.length > 0 ? providers : reported.map((r) => r.provider);
+      if (names.length === 0 && !payload) {
+        names = ['meta-ralph'];
       }
 
-      try {
-        // Strip ANSI escape codes before parsing
-        // eslint-disable-next-line no-control-regex
-        const cleanOutput = stdout.replace(/\x1b\[[0-9;]*m/g, '');
-
-        // Find JSON array in output (skip any text before it)
-        // Use a more specific pattern that starts with [ followed by { for an array of objects
-        const jsonMatch = cleanOutput.match(/\[\s*\{[\s\S]*\}\s*\]/);
-        if (jsonMatch) {
-          const issues = JSON.parse(jsonMatch[0]) as Issue[];
-          resolve(issues);
-        } else {
-          // No JSON array found, return empty
-          resolve([]);
+      const statuses = names.map((provider): ProviderFetchStatus => {
+        const entry = reported.find((r) => r.provider === provider);
+        const base = { provider, durationMs, checkedAt };
+
+        if (!payload) {
+          if (timedOut) {
+            return { ...base, status: 'timeout', issueCount: 0, error: `Timed out after ${FETCH_TIMEOUT_MS / 1000}s` };
+          }
+          if (code !== 0) {
+            return { ...base, status: 'error', issueCount: 0, error: stderr.trim().slice(-500) || `meta-ralph exited with code ${code}` };
+          }
+          return { ...base, status: 'parse_error', issueCount: 0, error: 'error' in result ? result.error : undefined };
         }
-      } catch (e) {
-        reject(new Error(`Failed to parse issues JSON: ${e}`));
-      }
+        if (!entry) {
+          return { ...base, status: 'ok', issueCount: payload.issues.filter((i) => i.provider === provider).length };
+        }
+        return {
+          ...base,
+          status: entry.status === 'error' ? classifyProviderError(entry.error ?? '') : entry.status,
+          issueCount: entry.count,
+          error: entry.error,
+        };
+      });
+
+      resolve({ issues: payload?.issues ?? [], providers: statuses });
     });
 
     proc.on('error', (err) => {
+      cleanup();
       reject(new Error(`Failed to spawn meta-ralph: ${err.message}`));
     });
   });
@@ -105,161 +222,616 @@ const DEFAULT_OPTIONS: ProcessingOptions = {
   autoFixCi: false,
 };
 
+/**
+ * Cancel function returned by processIssues.
+ * Called without arguments it cancels every unfinished issue in the batch;
+ * with an issue ID it cancels only that issue.
+ */
+export type CancelProcessing = (issueId?: string) => void;
+
+/**
+ * Why an issue failed, when retrying can't help (e.g. its budget ran out).
+ */
+export interface ProcessingFailure {
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Generate an ID for a batch processed without one.
+ */
+function generateBatchId(): string {
+  return `batch-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Environment for a run of an issue that has a plan (RALPH_PLAN_FILE, a
+ * temp copy the engine starts from): the approved plan for a build, or the
+ * current revision for a plan run, with the reviewer's feedback
+ * (RALPH_PLAN_FEEDBACK) when changes were requested. Plans are per issue,
+ * so only single-issue runs get one.
+ */
+function preparePlanInput(
+  issueIds: string[],
+  mode: ProcessingOptions['mode']
+): { env: Record<string, string>; tmpDir: string | null } {
+  if (issueIds.length !== 1) return { env: {}, tmpDir: null };
+  const review = getPlanReviewStore().get(issueIds[0]);
+
+  const content = mode === 'build'
+    ? (review?.status === 'approved' ? review.approvedContent : undefined)
+    : getPlanStore().getLatest(issueIds[0])?.content;
+  if (!content) return { env: {}, tmpDir: null };
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-plan-'));
+  const planFile = path.join(tmpDir, PLAN_FILE_NAME);
+  fs.writeFileSync(planFile, content);
+  const env: Record<string, string> = { RALPH_PLAN_FILE: planFile };
+  if (mode === 'plan' && review?.status === 'changes_requested' && review.feedback) {
+    env.RALPH_PLAN_FEEDBACK = review.feedback;
+  }
+  return { env, tmpDir };
+}
+
+/**
+ * Environment for a build of an issue whose held changes a reviewer sent
+ * back for another iteration: the run continues on the reviewed branch
+ * (RALPH_BRANCH) and addresses the reviewer's comment
+ * (RALPH_REVIEW_FEEDBACK). Only single-issue runs continue a branch.
+ */
+function prepareReviewInput(issueIds: string[], mode: ProcessingOptions['mode']): Record<string, string> {
+  if (issueIds.length !== 1 || mode !== 'build') return {};
+  const review = getChangeReviewStore().get(issueIds[0]);
+  if (review?.status !== 'iteration_requested') return {};
+  return {
+    RALPH_BRANCH: review.branch,
+    ...(review.comment && { RALPH_REVIEW_FEEDBACK: review.comment }),
+  };
+}
+
+/**
+ * Environment for a run fixing a PR's failing CI checks: it continues on
+ * the PR's branch (RALPH_BRANCH) with the failures as context
+ * (RALPH_CI_FAILURES).
+ */
+function prepareCIFixInput(ciFix: CIFixAttempt | undefined): Record<string, string> {
+  if (!ciFix) return {};
+  return {
+    RALPH_BRANCH: ciFix.branch,
+    RALPH_CI_FAILURES: formatCIFailureContext(ciFix, ciFix.failures),
+  };
+}
+
+// Author of plan revisions generated by runs
+const RUNNER_ACTOR = 'meta-ralph';
+
+/**
+ * Store the plan a plan-mode run generated as a new revision of the
+ * issue's plan. Returns the revision, or null when the file can't be read.
+ */
+function savePlanRevision(
+  issueId: string,
+  planFile: string,
+  opts: ProcessingOptions,
+  jobId?: string
+): PlanRevision | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(planFile, 'utf-8');
+  } catch {
+    return null;
+  }
+  return getPlanStore().addRevision(issueId, {
+    content,
+    source: 'generated',
+    author: RUNNER_ACTOR,
+    model: opts.model,
+    jobId,
+  });
+}
+
+/**
+ * Check off the approved plan's steps that a build run completed in its
+ * working copy of the plan. Returns the progress to emit, or null when the
+ * issue has no approved plan or the working copy can't be read.
+ */
+function trackPlanProgress(issueId: string, planFile: string): PlanProgress | null {
+  const reviews = getPlanReviewStore();
+  const review = reviews.get(issueId);
+  if (review?.status !== 'approved' || !review.approvedContent) return null;
+
+  let current: string;
+  try {
+    current = fs.readFileSync(planFile, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const approvedContent = syncStepCompletion(review.approvedContent, current);
+  const progress = getPlanProgress(approvedContent);
+  reviews.recordProgress(issueId, approvedContent, progress);
+  return progress;
+}
+
+/**
+ * Track the PR a run opened so the poller follows its state.
+ */
+function trackPullRequest(issueId: string, pull: RunPullRequest, jobId?: string): void {
+  if (getPullRequestStore().track(issueId, pull, jobId)) {
+    getPullRequestPoller();
+  }
+}
+
 /**
  * Process issues with streaming support.
  *
+ * Each issue's outcome comes from the `complete`/`error` RALPH_EVENTs the
+ * engine emits for it; the exit code is only a fallback for issues that
+ * never reported one.
+ *
+ * With `concurrency` above 1 other runs may be in flight at the same time,
+ * so the batch runs in its own git worktree instead of TARGET_REPO. Work
+ * files still go to TARGET_REPO's log directory, where the plan and history
+ * routes look for them.
+ *
+ * Spend reported by `metrics` events counts against the run's budget
+ * limits and the daily limit. When one is reached the issue is stopped with
+ * a `budget_exceeded` event; a batch or daily limit stops the whole run.
+ * An issue's spend is counted per batch, so its earlier attempts in the
+ * batch (retries, escalations) count against its per-issue limit too.
+ *
+ * A build of an issue whose plan was approved follows the approved plan,
+ * and the engine's `plan_progress` events check its steps off. A build of
+ * an issue whose held changes were sent back continues on their branch.
+ *
+ * A CI fix run (`ciFixAttemptId`) continues on its PR's branch, and its
+ * events are also emitted under the attempt's ID, so clients can follow
+ * the attempt without knowing the issue. Its outcome is recorded with the
+ * attempt as soon as the issue settles.
+ *
  * @param issueIds - Array of issue IDs to process
  * @param onLog - Callback for log messages (legacy support)
- * @param onComplete - Callback when processing completes
+ * @param onComplete - Callback when processing completes, with per-issue results
+ *   and the issues that failed in a way retrying can't fix
  * @param options - Processing options (mode, model, iterations, etc.)
- * @returns Function to cancel processing
+ * @param batchId - Batch whose budget the spend counts against; defaults to this call
+ * @param jobId - Queue job the run belongs to, recorded with generated plans
+ * @param ciFixAttemptId - CI fix attempt the run makes, if any
+ * @returns Function to cancel processing (all issues, or a single issue)
  */
 export function processIssues(
   issueIds: string[],
   onLog: (log: string) => void,
-  onComplete: (success: boolean) => void,
-  options: Partial<ProcessingOptions> = {}
-): () => void {
+  onComplete: (
+    success: boolean,
+    results: Record<string, boolean>,
+    failures: Record<string, ProcessingFailure>
+  ) => void,
+  options: Partial<ProcessingOptions> = {},
+  {
+    batchId = generateBatchId(),
+    jobId,
+    ciFixAttemptId,
+  }: { batchId?: string; jobId?: string; ciFixAttemptId?: string } = {}
+): CancelProcessing {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const modelInfo = loadModelConfig().models[opts.model];
+  const cliModel = modelInfo && getCliModel(modelInfo);
+
+  // Per-issue outcome: true = completed, false = failed or cancelled
+  const results = new Map<string, boolean>();
+  const failures: Record<string, ProcessingFailure> = {};
+  const budgetStore = getBudgetStore();
+  // The CLI's running total, from which each metrics event's spend is derived
+  let runTotalCostUsd = 0;
+  let proc: ChildProcess | null = null;
+  let currentIssueId: string | null = null;
+  let restartPending = false;
+  let finished = false;
+  let worktreePath: string | null = null;
+  const useWorktree = (opts.concurrency ?? 1) > 1;
+  const planInput = preparePlanInput(issueIds, opts.mode);
+  const ciFix = ciFixAttemptId ? getCIFixStore().get(ciFixAttemptId) : undefined;
 
   // Initialize sessions for all issues
   for (const issueId of issueIds) {
     startProcessing(issueId, opts);
   }
-
-  // Build CLI arguments
-  const args = [
-    META_RALPH_PATH,
-    '--only-ids', issueIds.join(','),
-  ];
+  if (ciFix) {
+    startProcessing(ciFix.id, opts);
+  }
 
   // Add options as environment variables for the CLI
   const env = {
     ...process.env,
     REPO_ROOT: TARGET_REPO,
     RALPH_STREAM_MODE: 'false',  // Use print mode (streaming has TTY issues when spawned)
+    RALPH_JSON_EVENTS: 'true',   // Emit RALPH_EVENT lines for per-issue tracking
     RALPH_MODE: opts.mode,
     RALPH_MODEL: opts.model,
+    // Catalog models may map to any CLI model; requests are checked against the catalog
+    ...(cliModel && { RALPH_MODEL_ID: cliModel }),
     RALPH_MAX_ITERATIONS: String(opts.maxIterations),
-    RALPH_AUTO_PUSH: opts.autoPush ? 'true' : 'false',
+    // Runs held for review leave their branch unpushed until approved
+    RALPH_AUTO_PUSH: opts.autoPush && !opts.reviewBeforePush ? 'true' : 'false',
+    ...(useWorktree && {
+      RALPH_LOG_DIR: path.resolve(TARGET_REPO, process.env.RALPH_LOG_DIR || '.ralph-logs'),
+    }),
+    ...planInput.env,
+    ...prepareReviewInput(issueIds, opts.mode),
+    ...prepareCIFixInput(ciFix),
   };
 
-  console.log('[meta-ralph] Starting process with args:', args);
-  console.log('[meta-ralph] CWD:', META_RALPH_DIR);
-  console.log('[meta-ralph] RALPH_STREAM_MODE:', env.RALPH_STREAM_MODE);
+  const unfinishedIds = () => issueIds.filter((id) => !results.has(id));
 
-  const proc = spawn('bash', args, { cwd: META_RALPH_DIR, env });
+  /**
+   * Emit an issue's event, and again under the CI fix attempt it makes.
+   */
+  const emitIssueEvent = (event: StreamEvent) => {
+    emitStreamEvent(event);
+    if (ciFix && event.issueId === ciFix.issueId) {
+      emitStreamEvent({ ...event, issueId: ciFix.id });
+    }
+  };
 
-  // Track current issue being processed
-  let currentIssueId = issueIds[0];
-  let lineBuffer = '';
+  /**
+   * Record the outcome of the CI fix attempt the run makes. Its session
+   * already got the issue's complete/error event when there was one.
+   */
+  const settleCIFix = (success: boolean, message: string | undefined, fromEvent: boolean) => {
+    if (!ciFix) return;
+    const session = getSession(ciFix.issueId);
+    getCIFixStore().finish(ciFix.id, {
+      success,
+      headSha: session?.pullRequest?.headSha,
+      error: success ? undefined : message ?? session?.error,
+    });
+    if (fromEvent) {
+      scheduleCleanup(ciFix.id);
+    } else {
+      completeProcessing(ciFix.id, success, message);
+    }
+  };
 
-  // Log process start
-  onLog(`[system] Starting meta-ralph for ${issueIds.length} issue(s)...`);
+  /**
+   * Record an issue's outcome once. When the engine already emitted the
+   * complete/error event, the session is up to date and only needs cleanup.
+   */
+  const settle = (issueId: string, success: boolean, message?: string, fromEvent = false) => {
+    if (results.has(issueId)) return;
+    results.set(issueId, success);
+    if (fromEvent) {
+      scheduleCleanup(issueId);
+    } else {
+      completeProcessing(issueId, success, message);
+    }
+    if (ciFix?.issueId === issueId) {
+      settleCIFix(success, message, fromEvent);
+    }
+  };
 
-  proc.stdout.on('data', (data) => {
-    const chunk = data.toString();
-    lineBuffer += chunk;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    if (worktreePath) {
+      onLog(`[system] Removing worktree ${worktreePath}`);
+      void removeWorktree(TARGET_REPO, worktreePath);
+    }
+    if (planInput.tmpDir) {
+      fs.rmSync(planInput.tmpDir, { recursive: true, force: true });
+    }
+    const success = issueIds.every((id) => results.get(id) === true);
+    onComplete(success, Object.fromEntries(results), failures);
+  };
 
-    // Process complete lines
-    const lines = lineBuffer.split('\n');
-    lineBuffer = lines.pop() || ''; // Keep incomplete line in buffer
+  const getLimits = (): ApplicableBudget => ({
+    ...opts.budget,
+    perDayUsd: budgetStore.getDailyLimit(),
+  });
 
-    for (const line of lines) {
-      if (!line.trim()) continue;
+  /**
+   * Stop an issue for going over budget. A batch or daily limit also
+   * stops every other unfinished issue, which would go over it too.
+   */
+  const failOverBudget = (issueId: string, violation: BudgetExceededPayload) => {
+    const stopped = violation.scope === 'issue' ? [issueId] : unfinishedIds();
+    for (const id of stopped) {
+      emitIssueEvent({ type: 'budget_exceeded', issueId: id, payload: violation });
+      failures[id] = { message: violation.error, retryable: false };
+      settle(id, false, undefined, true);
+    }
+    onLog(`[budget] ${violation.error}`);
+  };
+
+  /**
+   * Stop the current CLI run; unfinished issues are re-run once it exits.
+   */
+  const restart = () => {
+    if (!proc || restartPending) return;
+    restartPending = true;
+    proc.kill('SIGTERM');
+  };
+
+  /**
+   * Count a metrics event's spend against the budget. Returns the payload
+   * to emit, with the remaining budget, or null when the issue was stopped.
+   */
+  const trackSpend = (issueId: string, metrics: ExecutionMetrics): ExecutionMetrics | null => {
+    // The CLI reports its total for the whole invocation
+    const delta = Math.max((metrics.totalCostUsd ?? 0) - runTotalCostUsd, 0);
+    runTotalCostUsd = Math.max(metrics.totalCostUsd ?? 0, runTotalCostUsd);
+    budgetStore.recordSpend(delta, batchId, { issueId });
+
+    const limits = getLimits();
+    const usage = {
+      issueUsd: budgetStore.getIssueSpend(batchId, issueId),
+      batchUsd: budgetStore.getBatchSpend(batchId),
+      dayUsd: budgetStore.getSpentToday(),
+    };
+    const violation = findBudgetViolation(limits, usage);
+    if (violation) {
+      failOverBudget(issueId, violation);
+      return null;
+    }
+    const remaining = getRemainingBudget(limits, usage);
+    return remaining ? { ...metrics, budget: remaining } : metrics;
+  };
+
+  /**
+   * Stop the CLI after an issue was settled mid-run: continue with the
+   * remaining issues, or just stop when there are none.
+   */
+  const stopSettledIssue = () => {
+    if (!proc) return;
+    if (unfinishedIds().length === 0) {
+      proc.kill('SIGTERM');
+    } else {
+      restart();
+    }
+  };
+
+  const run = (ids: string[]) => {
+    const args = [META_RALPH_PATH, '--only-ids', ids.join(',')];
+    runTotalCostUsd = 0;
+
+    console.log('[meta-ralph] Starting process with args:', args);
+    console.log('[meta-ralph] CWD:', META_RALPH_DIR);
+    console.log('[meta-ralph] RALPH_STREAM_MODE:', env.RALPH_STREAM_MODE);
+
+    const child = spawn('bash', args, { cwd: META_RALPH_DIR, env });
+    proc = child;
+    currentIssueId = ids[0];
+    let lineBuffer = '';
+
+    // Log process start
+    onLog(`[system] Starting meta-ralph for ${ids.length} issue(s)...`);
+
+    const handleLine = (line: string) => {
+      // Output from a run that is being stopped belongs to a cancelled issue
+      if (restartPending) return;
 
       // Try to parse as RALPH_EVENT
       const event = parseRalphEventLine(line);
-      if (event) {
-        emitStreamEvent(event);
+      if (!event) {
+        // Not an event line - just a regular log
+        onLog(line);
+        return;
+      }
 
+      if (event.issueId && event.issueId !== 'system') {
+        // The CLI reached an issue that was cancelled while pending: skip it
+        if (results.has(event.issueId) && event.issueId !== currentIssueId) {
+          restart();
+          return;
+        }
         // Track current issue from events
-        if (event.issueId && event.issueId !== 'system') {
-          currentIssueId = event.issueId;
+        currentIssueId = event.issueId;
+      }
+
+      // Ignore trailing events for issues that are already settled
+      if (results.has(event.issueId)) return;
+
+      if (event.type === 'metrics') {
+        const tracked = trackSpend(event.issueId, event.payload as ExecutionMetrics);
+        if (!tracked) {
+          stopSettledIssue();
+          return;
         }
+        event.payload = tracked;
+      }
+
+      // The engine reports where its working copy of the plan is
+      if (event.type === 'plan_revision') {
+        const { planFile } = event.payload as unknown as { planFile: string };
+        const revision = savePlanRevision(event.issueId, planFile, opts, jobId);
+        if (!revision) return;
+        event.payload = revision;
+      } else if (event.type === 'plan_progress') {
+        const { planFile } = event.payload as unknown as { planFile: string };
+        const progress = trackPlanProgress(event.issueId, planFile);
+        if (!progress) return;
+        event.payload = progress;
+      } else if (event.type === 'pull_request') {
+        trackPullRequest(event.issueId, event.payload as RunPullRequest, jobId);
+      }
+
+      emitIssueEvent(event);
+
+      // Also emit to legacy log callback
+      if (event.type === 'activity') {
+        const activity = event.payload as Activity;
+        onLog(`[${activity.type}] ${activity.details || ''}`);
+      } else if (event.type === 'metrics') {
+        const metrics = event.payload as ExecutionMetrics;
+        onLog(`[metrics] Iteration ${metrics.iteration}/${metrics.maxIterations}, cost: $${metrics.costUsd?.toFixed(4) || '0'}`);
+      } else if (event.type === 'branch') {
+        onLog(`[branch] Committing to ${(event.payload as RunBranch).branch}`);
+      } else if (event.type === 'test_results') {
+        const { command, exitCode } = event.payload as RunTestResults;
+        onLog(`[tests] ${command} ${exitCode === 0 ? 'passed' : `failed (exit ${exitCode})`}`);
+      } else if (event.type === 'pull_request') {
+        onLog(`[pr] Opened ${(event.payload as RunPullRequest).url}`);
+      } else if (event.type === 'plan_revision') {
+        onLog(`[plan] Saved plan revision ${(event.payload as PlanRevision).revision}`);
+      } else if (event.type === 'plan_progress') {
+        const progress = event.payload as PlanProgress;
+        onLog(`[plan] ${progress.completedSteps}/${progress.totalSteps} steps of the approved plan done`);
+      } else if (event.type === 'complete') {
+        onLog(`[complete] ${(event.payload as { message: string }).message}`);
+        settle(event.issueId, true, undefined, true);
+      } else if (event.type === 'error') {
+        onLog(`[error] ${(event.payload as { error: string }).error}`);
+        settle(event.issueId, false, undefined, true);
+      }
+    };
+
+    child.stdout.on('data', (data) => {
+      const chunk = data.toString();
+      lineBuffer += chunk;
 
-        // Also emit to legacy log callback
-        if (event.type === 'activity') {
-          const activity = event.payload as Activity;
-          onLog(`[${activity.type}] ${activity.details || ''}`);
-        } else if (event.type === 'metrics') {
-          const metrics = event.payload as ExecutionMetrics;
-          onLog(`[metrics] Iteration ${metrics.iteration}/${metrics.maxIterations}, cost: $${metrics.costUsd?.toFixed(4) || '0'}`);
-        } else if (event.type === 'complete') {
-          onLog(`[complete] ${(event.payload as { message: string }).message}`);
-        } else if (event.type === 'error') {
-          onLog(`[error] ${(event.payload as { error: string }).error}`);
+      // Process complete lines
+      const lines = lineBuffer.split('\n');
+      lineBuffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        handleLine(line);
+      }
+    });
+
+    child.stderr.on('data', (data) => {
+      const message = data.toString();
+      onLog(`[stderr] ${message}`);
+
+      // Emit as error activity if we have a current, unsettled issue
+      if (currentIssueId && !results.has(currentIssueId) && !restartPending) {
+        emitIssueEvent({
+          type: 'activity',
+          issueId: currentIssueId,
+          payload: {
+            id: `stderr-${Date.now()}`,
+            timestamp: new Date().toISOString(),
+            type: 'error',
+            details: message.trim(),
+            status: 'error',
+          } as Activity,
+        });
+      }
+    });
+
+    child.on('close', (code) => {
+      // Process any remaining buffered data
+      if (lineBuffer.trim()) {
+        handleLine(lineBuffer);
+      }
+
+      proc = null;
+
+      if (restartPending) {
+        restartPending = false;
+        const remaining = unfinishedIds();
+        if (remaining.length > 0) {
+          onLog(`[system] Restarting meta-ralph for ${remaining.length} remaining issue(s)`);
+          run(remaining);
+        } else {
+          finish();
         }
-      } else {
-        // Not an event line - just a regular log
-        onLog(line);
+        return;
       }
-    }
-  });
 
-  proc.stderr.on('data', (data) => {
-    const message = data.toString();
-    onLog(`[stderr] ${message}`);
-
-    // Emit as error activity if we have a current issue
-    if (currentIssueId) {
-      emitEvent(currentIssueId, {
-        type: 'activity',
-        issueId: currentIssueId,
-        payload: {
-          id: `stderr-${Date.now()}`,
-          timestamp: new Date().toISOString(),
-          type: 'error',
-          details: message.trim(),
-          status: 'error',
-        } as Activity,
-      });
-    }
-  });
+      // Issues without a complete/error event fall back to the exit code
+      const success = code === 0;
+      for (const issueId of unfinishedIds()) {
+        settle(
+          issueId,
+          success,
+          success ? 'Processing completed' : `Processing failed with code ${code}`
+        );
+      }
+
+      finish();
+    });
+
+    child.on('error', (err) => {
+      onLog(`[error] ${err.message}`);
+      proc = null;
 
-  proc.on('close', (code) => {
-    // Process any remaining buffered data
-    if (lineBuffer.trim()) {
-      const event = parseRalphEventLine(lineBuffer);
-      if (event) {
-        emitStreamEvent(event);
-      } else {
-        onLog(lineBuffer);
+      // Complete unfinished sessions with error
+      for (const issueId of unfinishedIds()) {
+        settle(issueId, false, err.message);
       }
-    }
 
-    const success = code === 0;
+      finish();
+    });
+  };
 
-    // Complete all sessions
-    for (const issueId of issueIds) {
-      completeProcessing(
-        issueId,
-        success,
-        success ? 'Processing completed' : `Processing failed with code ${code}`
-      );
-    }
+  // Nothing left of the batch or daily budget: don't start at all
+  const exhausted = findBudgetViolation(
+    { perBatchUsd: opts.budget?.perBatchUsd, perDayUsd: budgetStore.getDailyLimit() },
+    { issueUsd: 0, batchUsd: budgetStore.getBatchSpend(batchId), dayUsd: budgetStore.getSpentToday() }
+  );
+  if (exhausted) {
+    failOverBudget(issueIds[0], exhausted);
+  }
+  // Issues whose earlier attempts already spent their budget
+  for (const issueId of unfinishedIds()) {
+    const spent = findBudgetViolation(
+      { perIssueUsd: opts.budget?.perIssueUsd },
+      { issueUsd: budgetStore.getIssueSpend(batchId, issueId), batchUsd: 0, dayUsd: 0 }
+    );
+    if (spent) failOverBudget(issueId, spent);
+  }
 
-    onComplete(success);
-  });
+  if (unfinishedIds().length === 0) {
+    finish();
+  } else if (useWorktree) {
+    createWorktree(TARGET_REPO, issueIds[0])
+      .then((created) => {
+        worktreePath = created;
+        // Everything was cancelled while the worktree was being created
+        if (unfinishedIds().length === 0) {
+          finish();
+          return;
+        }
+        onLog(`[system] Processing in worktree ${created}`);
+        env.REPO_ROOT = created;
+        run(unfinishedIds());
+      })
+      .catch((err: Error) => {
+        onLog(`[error] ${err.message}`);
+        for (const issueId of unfinishedIds()) {
+          settle(issueId, false, err.message);
+        }
+        finish();
+      });
+  } else {
+    run(issueIds);
+  }
 
-  proc.on('error', (err) => {
-    onLog(`[error] ${err.message}`);
+  // Return a function to cancel all issues or a single issue
+  return (issueId?: string) => {
+    const targets = (issueId ? [issueId] : issueIds).filter(
+      (id) => issueIds.includes(id) && !results.has(id)
+    );
+    if (targets.length === 0) return;
 
-    // Complete all sessions with error
-    for (const issueId of issueIds) {
-      completeProcessing(issueId, false, err.message);
-    }
+    const cancelsCurrent = currentIssueId !== null && targets.includes(currentIssueId);
 
-    onComplete(false);
-  });
+    // Mark the cancelled sessions as failed
+    for (const id of targets) {
+      settle(id, false, 'Processing cancelled');
+    }
 
-  // Return a function to kill the process
-  return () => {
-    proc.kill('SIGTERM');
+    // Not started yet (worktree still being created)
+    if (!proc) return;
 
-    // Mark all sessions as failed
-    for (const issueId of issueIds) {
-      completeProcessing(issueId, false, 'Processing cancelled');
+    if (unfinishedIds().length === 0) {
+      // Nothing left to run: stop the CLI and report
+      proc.kill('SIGTERM');
+    } else if (cancelsCurrent) {
+      // Stop the running issue and continue with the rest
+      restart();
     }
+    // Otherwise the cancelled issue is still pending and is skipped when reached
   };
 }
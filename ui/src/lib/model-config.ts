@@ -0,0 +1,57 @@
+/**
+ * Model Config
+ *
+ * Loads the model catalog and routing rules (see models.ts) from the model
+ * config file: `RALPH_MODELS_FILE`, or `models.json` in the data directory.
+ * The file is re-read on every call so edits apply without a restart.
+ *
+ * Example:
+ * {
+ *   "models": [
+ *     { "id": "opus", "inputCostPer1kTokens": 0.005, "outputCostPer1kTokens": 0.025 },
+ *     { "id": "sonnet-1m", "name": "Claude Sonnet (1M)", "cliModel": "sonnet[1m]",
+ *       "inputCostPer1kTokens": 0.006, "outputCostPer1kTokens": 0.0225, "contextTokens": 1000000 }
+ *   ],
+ *   "rules": [
+ *     { "id": "sentry-high", "name": "High Sentry errors", "enabled": true,
+ *       "conditions": { "providers": ["sentry"], "severities": ["HIGH"] }, "model": "sonnet" }
+ *   ]
+ * }
+ */
+
+import { dataPath, readJsonFile } from './storage';
+import { resolveModelConfig, routeModels, type ResolvedModelConfig, type RoutableIssue } from './models';
+import type { ModelType, ProcessingOptions } from './types';
+
+/**
+ * Path of the model config file; null in tests, which use the built-ins.
+ */
+function getModelConfigPath(): string | null {
+  if (process.env.RALPH_MODELS_FILE) return process.env.RALPH_MODELS_FILE;
+  return process.env.NODE_ENV === 'test' ? null : dataPath('models.json');
+}
+
+/**
+ * Load the model catalog and routing rules in effect.
+ */
+export function loadModelConfig(): ResolvedModelConfig {
+  const filePath = getModelConfigPath();
+  const config = resolveModelConfig(filePath ? readJsonFile<unknown>(filePath, null) : null);
+  if (config.errors.length > 0) {
+    console.error('Invalid model config entries ignored:', config.errors);
+  }
+  return config;
+}
+
+/**
+ * Models to enqueue issues with when the options ask for automatic
+ * routing, by issue ID; undefined when every issue uses `options.model`.
+ */
+export function routeIssueModels(
+  issues: RoutableIssue[],
+  options: Partial<ProcessingOptions> | undefined
+): Record<string, ModelType> | undefined {
+  if (!options?.autoModel) return undefined;
+  const { models, rules } = loadModelConfig();
+  return routeModels(issues, rules, models, options.model ?? 'sonnet');
+}
@@ -0,0 +1,330 @@
+/**
+ * Model Catalog and Routing
+ *
+ * The models issues can be processed with, and rules that pick one per
+ * issue (e.g. Zeropath CRITICAL → Opus, Codecov → the cheapest model).
+ * The built-in catalog (MODEL_INFO) is extended by the model config file
+ * (see model-config.ts), which can add models, override pricing and
+ * replace the default routing rules.
+ *
+ * Pure functions only, so the options panel previews exactly the routing
+ * the server applies when enqueueing.
+ */
+
+import { getModelCostPer1kTokens, MODEL_INFO } from './types';
+import type { Issue, ModelInfo, ModelType, ProcessingOptions, Severity } from './types';
+import type { RuleValidationError } from './priority-rules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Available models by ID.
+ */
+export type ModelCatalog = Record<ModelType, ModelInfo>;
+
+/**
+ * Rule target: a catalog model ID, or whichever model is cheapest.
+ */
+export type ModelRouteTarget = ModelType | 'cheapest';
+
+/**
+ * Conditions of a routing rule. All set conditions must match; list
+ * conditions match if any listed value matches.
+ */
+export interface ModelRoutingConditions {
+  providers?: string[];
+  severities?: Severity[];
+}
+
+export interface ModelRoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: ModelRoutingConditions;
+  model: ModelRouteTarget;
+}
+
+/**
+ * Shape of the model config file. Every field is optional.
+ */
+export interface ModelConfig {
+  /** Models to add to, or override in, the built-in catalog */
+  models?: Partial<ModelInfo>[];
+  /** Routing rules; replace the defaults when set */
+  rules?: ModelRoutingRule[];
+}
+
+/**
+ * Catalog and rules in effect, with problems found in the config.
+ */
+export interface ResolvedModelConfig {
+  models: ModelCatalog;
+  rules: ModelRoutingRule[];
+  errors: RuleValidationError[];
+}
+
+export type RoutableIssue = Pick<Issue, 'id' | 'provider' | 'severity'>;
+
+/**
+ * Routing rules used when the config doesn't define any.
+ */
+export const DEFAULT_MODEL_ROUTING_RULES: ModelRoutingRule[] = [
+  {
+    id: 'zeropath-critical',
+    name: 'Critical Zeropath findings → Opus',
+    enabled: true,
+    conditions: { providers: ['zeropath'], severities: ['CRITICAL'] },
+    model: 'opus',
+  },
+  {
+    id: 'codecov-cheapest',
+    name: 'Codecov coverage gaps → cheapest model',
+    enabled: true,
+    conditions: { providers: ['codecov'] },
+    model: 'cheapest',
+  },
+];
+
+const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+const SPEEDS: ModelInfo['speed'][] = ['fast', 'medium', 'slow'];
+
+// ============================================================================
+// Config Parsing
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Merge a config model entry over the built-in model with the same ID.
+ * Returns the errors instead when the result isn't a complete model.
+ */
+function parseModel(entry: unknown, path: string): ModelInfo | RuleValidationError[] {
+  if (!isObject(entry)) return [{ path, message: 'must be an object' }];
+  if (typeof entry.id !== 'string' || entry.id === '' || entry.id === 'cheapest') {
+    return [{ path: `${path}.id`, message: 'must be a non-empty string other than "cheapest"' }];
+  }
+
+  const base: Partial<ModelInfo> = MODEL_INFO[entry.id] ?? {};
+  const model = { ...base, ...entry } as Record<string, unknown>;
+  const errors: RuleValidationError[] = [];
+  const fail = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+
+  if (typeof model.name !== 'string' || model.name.trim() === '') fail('name', 'must be a non-empty string');
+  if (!isPrice(model.inputCostPer1kTokens)) fail('inputCostPer1kTokens', 'must be a non-negative number');
+  if (!isPrice(model.outputCostPer1kTokens)) fail('outputCostPer1kTokens', 'must be a non-negative number');
+  if (typeof model.contextTokens !== 'number' || !(model.contextTokens > 0)) {
+    fail('contextTokens', 'must be a positive number');
+  }
+  if (model.cliModel !== undefined && typeof model.cliModel !== 'string') fail('cliModel', 'must be a string');
+  if (model.speed !== undefined && !SPEEDS.includes(model.speed as ModelInfo['speed'])) {
+    fail('speed', `must be one of ${SPEEDS.join(', ')}`);
+  }
+  if (model.bestFor !== undefined && !isStringArray(model.bestFor)) fail('bestFor', 'must be an array of strings');
+  if (errors.length > 0) return errors;
+
+  return {
+    description: '',
+    speed: 'medium',
+    bestFor: [],
+    icon: '🤖',
+    ...(model as Partial<ModelInfo>),
+  } as ModelInfo;
+}
+
+/**
+ * Validate routing rules against a catalog.
+ */
+export function validateModelRoutingRules(value: unknown, catalog: ModelCatalog): RuleValidationError[] {
+  if (!Array.isArray(value)) {
+    return [{ path: 'rules', message: 'must be an array' }];
+  }
+
+  const errors: RuleValidationError[] = [];
+  const ids = new Set<string>();
+
+  value.forEach((rule, index) => {
+    const path = `rules[${index}]`;
+    const fail = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+
+    if (!isObject(rule)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (typeof rule.id !== 'string' || rule.id === '') {
+      fail('id', 'must be a non-empty string');
+    } else if (ids.has(rule.id)) {
+      fail('id', 'must be unique');
+    } else {
+      ids.add(rule.id);
+    }
+    if (typeof rule.name !== 'string' || rule.name.trim() === '') fail('name', 'must be a non-empty string');
+    if (typeof rule.enabled !== 'boolean') fail('enabled', 'must be a boolean');
+    if (typeof rule.model !== 'string' || (rule.model !== 'cheapest' && !catalog[rule.model])) {
+      fail('model', `must be "cheapest" or one of ${Object.keys(catalog).join(', ')}`);
+    }
+
+    const conditions = rule.conditions;
+    if (!isObject(conditions)) {
+      fail('conditions', 'must be an object');
+      return;
+    }
+    if (conditions.providers !== undefined && !isStringArray(conditions.providers)) {
+      fail('conditions.providers', 'must be an array of strings');
+    }
+    if (
+      conditions.severities !== undefined &&
+      !(isStringArray(conditions.severities) && conditions.severities.every((s) => SEVERITIES.includes(s as Severity)))
+    ) {
+      fail('conditions.severities', `must only contain ${SEVERITIES.join(', ')}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Resolve a raw model config into the catalog and rules in effect.
+ *
+ * Invalid model entries are skipped and invalid rules fall back to the
+ * defaults, so a typo in the config never takes processing down; the
+ * problems are reported in `errors`.
+ */
+export function resolveModelConfig(raw: unknown): ResolvedModelConfig {
+  const models: ModelCatalog = { ...MODEL_INFO };
+  const errors: RuleValidationError[] = [];
+
+  if (raw === undefined || raw === null) {
+    return { models, rules: DEFAULT_MODEL_ROUTING_RULES, errors };
+  }
+  if (!isObject(raw)) {
+    return { models, rules: DEFAULT_MODEL_ROUTING_RULES, errors: [{ path: '', message: 'must be an object' }] };
+  }
+
+  if (raw.models !== undefined) {
+    if (!Array.isArray(raw.models)) {
+      errors.push({ path: 'models', message: 'must be an array' });
+    } else {
+      raw.models.forEach((entry, index) => {
+        const parsed = parseModel(entry, `models[${index}]`);
+        if (Array.isArray(parsed)) {
+          errors.push(...parsed);
+        } else {
+          models[parsed.id] = parsed;
+        }
+      });
+    }
+  }
+
+  let rules = DEFAULT_MODEL_ROUTING_RULES;
+  if (raw.rules !== undefined) {
+    const ruleErrors = validateModelRoutingRules(raw.rules, models);
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors);
+    } else {
+      rules = raw.rules as ModelRoutingRule[];
+    }
+  }
+
+  return { models, rules, errors };
+}
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+/**
+ * Catalog models, cheapest first.
+ */
+export function getModelsByCost(catalog: ModelCatalog): ModelInfo[] {
+  return Object.values(catalog).sort((a, b) => getModelCostPer1kTokens(a) - getModelCostPer1kTokens(b));
+}
+
+/**
+ * ID of the cheapest catalog model.
+ */
+export function getCheapestModel(catalog: ModelCatalog): ModelType {
+  return getModelsByCost(catalog)[0]?.id ?? 'sonnet';
+}
+
+/**
+ * Whether an issue satisfies every condition of a routing rule.
+ */
+export function matchesModelRule(issue: Pick<Issue, 'provider' | 'severity'>, rule: ModelRoutingRule): boolean {
+  const { providers, severities } = rule.conditions;
+  if (providers?.length && !providers.includes(issue.provider)) return false;
+  if (severities?.length && !severities.includes(issue.severity)) return false;
+  return true;
+}
+
+/**
+ * Model for an issue: the first enabled matching rule's model, or the
+ * fallback when no rule matches (or its model isn't in the catalog).
+ */
+export function routeModel(
+  issue: Pick<Issue, 'provider' | 'severity'>,
+  rules: ModelRoutingRule[],
+  catalog: ModelCatalog,
+  fallback: ModelType
+): ModelType {
+  const rule = rules.find((candidate) => candidate.enabled && matchesModelRule(issue, candidate));
+  if (!rule) return fallback;
+  if (rule.model === 'cheapest') return getCheapestModel(catalog);
+  return catalog[rule.model] ? rule.model : fallback;
+}
+
+/**
+ * Model for each issue, by issue ID.
+ */
+export function routeModels(
+  issues: RoutableIssue[],
+  rules: ModelRoutingRule[],
+  catalog: ModelCatalog,
+  fallback: ModelType
+): Record<string, ModelType> {
+  const models: Record<string, ModelType> = {};
+  for (const issue of issues) {
+    models[issue.id] = routeModel(issue, rules, catalog, fallback);
+  }
+  return models;
+}
+
+/**
+ * Model passed to the Claude CLI for a catalog model: its `cliModel`, or
+ * its ID when the entry doesn't name one.
+ */
+export function getCliModel(model: ModelInfo): string {
+  return model.cliModel ?? model.id;
+}
+
+/**
+ * Check the models a run's options ask for, including its escalation
+ * steps, against the catalog. Returns an error message, or null when valid.
+ */
+export function validateProcessingModels(
+  options: Partial<ProcessingOptions> | undefined,
+  catalog: ModelCatalog
+): string | null {
+  const requested = [options?.model, ...(options?.escalation ?? []).map((step) => step.options.model)];
+  const unknown = requested.find((model) => model !== undefined && !catalog[model]);
+  return unknown !== undefined ? `Unknown model: ${unknown}` : null;
+}
+
+/**
+ * Model info for an ID, falling back to the built-in Sonnet for models
+ * that aren't in the catalog (e.g. removed from the config since).
+ */
+export function getModelInfo(model: ModelType, catalog: ModelCatalog = MODEL_INFO): ModelInfo {
+  return catalog[model] ?? MODEL_INFO[model] ?? { ...MODEL_INFO.sonnet, id: model, name: model };
+}
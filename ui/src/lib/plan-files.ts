@@ -0,0 +1,76 @@
+/**
+ * Plan Lookup
+ *
+ * Resolves the current implementation plan of an issue. Plans live in the
+ * plan store (see plan-store.ts); plans generated before it existed are
+ * still found in the issue's meta-ralph work directory and imported as the
+ * first revision on first access.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getPlanStore } from './plan-store';
+import type { PlanRevision } from './types';
+
+// Directory where meta-ralph stores work files
+const LOG_DIR = process.env.RALPH_LOG_DIR || '/tmp/meta-ralph-logs';
+
+export const PLAN_FILE_NAME = 'IMPLEMENTATION_PLAN.md';
+
+// Actor for revisions imported from work directories
+const IMPORT_ACTOR = 'meta-ralph';
+
+/**
+ * Whether a work directory belongs to an issue. Work directories are named
+ * `<provider>-<issueId>`, so a plain substring match would also pick up
+ * issues whose ID contains this one.
+ */
+export function isIssueWorkDir(entry: string, issueId: string): boolean {
+  return entry.endsWith(`-${issueId}`);
+}
+
+/**
+ * Find the plan file a plan-mode run left in the issue's work directory.
+ *
+ * @returns The plan's path, or null when there is none
+ */
+export async function findPlanFile(issueId: string): Promise<string | null> {
+  try {
+    const logDirEntries = await fs.readdir(LOG_DIR);
+    for (const entry of logDirEntries) {
+      if (!isIssueWorkDir(entry, issueId)) continue;
+      const workDirPlan = path.join(LOG_DIR, entry, PLAN_FILE_NAME);
+      try {
+        await fs.access(workDirPlan);
+        return workDirPlan;
+      } catch {
+        // Continue searching
+      }
+    }
+  } catch {
+    // LOG_DIR might not exist
+  }
+
+  return null;
+}
+
+/**
+ * Current revision of an issue's plan, importing a plan left in its work
+ * directory when the store has none yet.
+ *
+ * @returns The current revision, or null when the issue has no plan
+ */
+export async function getCurrentPlan(issueId: string): Promise<PlanRevision | null> {
+  const store = getPlanStore();
+  const latest = store.getLatest(issueId);
+  if (latest) return latest;
+
+  const planPath = await findPlanFile(issueId);
+  if (!planPath) return null;
+  try {
+    const content = await fs.readFile(planPath, 'utf-8');
+    return store.addRevision(issueId, { content, source: 'imported', author: IMPORT_ACTOR });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Plan Step Graph
+ *
+ * Lays out an implementation plan's top-level steps as a dependency graph
+ * for PlanViewerModal. Steps are placed in columns by the longest chain of
+ * dependencies leading to them, so everything a step waits for sits to its
+ * left. Sub-tasks are folded into their top-level step, and so are their
+ * dependencies.
+ */
+
+import type { PlanEstimate, PlanStep } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PlanGraphNode {
+  id: string;
+  number: string;
+  title: string;
+  completed: boolean;
+  estimate?: PlanEstimate;
+  /** Column: length of the longest dependency chain leading here */
+  level: number;
+  /** Position within the column */
+  row: number;
+  subtasks: { total: number; completed: number };
+}
+
+export interface PlanGraphEdge {
+  /** The step depended on */
+  from: string;
+  to: string;
+}
+
+export interface PlanGraph {
+  nodes: PlanGraphNode[];
+  edges: PlanGraphEdge[];
+  /** Number of columns */
+  levels: number;
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Build the dependency graph of a plan's steps (as parsed by
+ * parsePlanMarkdown). Dependencies that would close a cycle are dropped.
+ */
+export function buildPlanGraph(steps: PlanStep[]): PlanGraph {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const topLevelOf = (step: PlanStep): PlanStep => {
+    const parent = step.parentId ? byId.get(step.parentId) : undefined;
+    return parent ? topLevelOf(parent) : step;
+  };
+
+  const roots = steps.filter((step) => !step.parentId);
+  const dependencies = new Map<string, Set<string>>(roots.map((step) => [step.id, new Set()]));
+  for (const step of steps) {
+    const to = topLevelOf(step).id;
+    for (const dependencyId of step.dependsOn ?? []) {
+      const dependency = byId.get(dependencyId);
+      const from = dependency ? topLevelOf(dependency).id : undefined;
+      if (from && from !== to) dependencies.get(to)!.add(from);
+    }
+  }
+
+  // Longest path from a step without dependencies, skipping back-edges
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+  const edges: PlanGraphEdge[] = [];
+  const levelOf = (id: string): number => {
+    const known = levels.get(id);
+    if (known !== undefined) return known;
+    visiting.add(id);
+    let level = 0;
+    for (const from of dependencies.get(id) ?? []) {
+      if (visiting.has(from)) continue;
+      level = Math.max(level, levelOf(from) + 1);
+      edges.push({ from, to: id });
+    }
+    visiting.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+
+  const rowsPerLevel: number[] = [];
+  const nodes = roots.map((step): PlanGraphNode => {
+    const level = levelOf(step.id);
+    const row = rowsPerLevel[level] ?? 0;
+    rowsPerLevel[level] = row + 1;
+
+    const subtasks = steps.filter((s) => s.parentId && topLevelOf(s).id === step.id);
+    return {
+      id: step.id,
+      number: step.number ?? '',
+      title: step.title ?? step.content,
+      completed: step.completed,
+      estimate: step.estimate,
+      level,
+      row,
+      subtasks: { total: subtasks.length, completed: subtasks.filter((s) => s.completed).length },
+    };
+  });
+
+  return { nodes, edges, levels: rowsPerLevel.length };
+}
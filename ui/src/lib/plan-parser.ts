@@ -13,7 +13,10 @@
 import type {
   ImplementationPlan,
   PlanStep,
+  PlanEstimate,
   PlanFile,
+  PlanMetadata,
+  PlanProgress,
   PlanRisk,
   RiskLevel,
 } from './types';
@@ -46,6 +49,30 @@ const HEADER_REGEX = /^(#{1,6})\s+(.+)$/;
  */
 const RISK_TABLE_REGEX = /^\|\s*([^|]+)\s*\|\s*([^|]+)\s*(?:\|\s*([^|]*)\s*)?/;
 
+/**
+ * Matches step estimates: ~2h, est: 30m, estimate 1.5 days, effort: 3 hours
+ * Groups: [1] = amount, [2] = unit
+ */
+const ESTIMATE_REGEX =
+  /(?:~\s*|\b(?:est(?:imate)?|effort)\s*:?\s*~?\s*)(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?)\b/i;
+
+/**
+ * Matches dependency references: "depends on step 3", "after steps 1 and 2",
+ * "blocked by #4", "depends on: 1.2, 3"
+ * Groups: [1] = the referenced step numbers
+ */
+const DEPENDENCY_REGEX =
+  /\b(?:(?:depends on|after|requires|needs|blocked by)\s*:?\s*(?:steps?\s+|#)|(?:depends on|deps)\s*:\s*)(\d+(?:\.\d+)*(?:\s*(?:,|and|&)\s*(?:steps?\s+|#)?\d+(?:\.\d+)*)*)/gi;
+
+/**
+ * Matches backticked file paths: `src/lib/file.ts`, `README.md`
+ * Groups: [1] = path
+ */
+const STEP_FILE_REGEX = /`([^`\s]*(?:\/[^`\s]*|\.[a-z0-9]+))`/gi;
+
+// Hours per day of effort
+const HOURS_PER_DAY = 8;
+
 // ============================================================================
 // Parser Functions
 // ============================================================================
@@ -142,6 +169,115 @@ export function parseRiskRow(line: string): PlanRisk | null {
   };
 }
 
+/**
+ * Parses an effort estimate out of step content.
+ *
+ * @param text - The step content, e.g. "Add tests (~2h)"
+ * @returns PlanEstimate or null if the step has no estimate
+ */
+export function parseEstimate(text: string): PlanEstimate | null {
+  const match = text.match(ESTIMATE_REGEX);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  const hours = unit.startsWith('d') ? amount * HOURS_PER_DAY : unit.startsWith('h') ? amount : amount / 60;
+
+  return { text: `${match[1]}${unit[0]}`, hours: Math.round(hours * 100) / 100 };
+}
+
+/**
+ * Parses the step numbers a step depends on out of its content.
+ *
+ * @param text - The step content, e.g. "Wire up the API (depends on steps 1 and 2)"
+ * @returns Referenced step numbers, e.g. ['1', '2']
+ */
+export function parseDependencyRefs(text: string): string[] {
+  const refs: string[] = [];
+  for (const match of text.matchAll(DEPENDENCY_REGEX)) {
+    for (const ref of match[1].match(/\d+(?:\.\d+)*/g) ?? []) {
+      if (!refs.includes(ref)) refs.push(ref);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Extracts the backticked file paths a step mentions.
+ *
+ * @param text - The step content
+ * @returns Unique file paths in order of appearance
+ */
+export function extractStepFiles(text: string): string[] {
+  const files: string[] = [];
+  for (const match of text.matchAll(STEP_FILE_REGEX)) {
+    if (!files.includes(match[1])) files.push(match[1]);
+  }
+  return files;
+}
+
+/**
+ * Strips dependency and estimate annotations from step content.
+ *
+ * @param text - The step content
+ * @returns The step's title
+ */
+export function cleanStepTitle(text: string): string {
+  return text
+    .replace(DEPENDENCY_REGEX, '')
+    .replace(ESTIMATE_REGEX, '')
+    // Drop brackets and separators left empty by the removed annotations
+    .replace(/[([]\s*(?:[,;|]\s*)*[)\]]/g, '')
+    .replace(/\s+([,;])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s,;:–-]+$/, '')
+    .trim();
+}
+
+/**
+ * Parses the YAML front-matter block at the top of a plan. Supports the
+ * subset plans use: `key: value`, `key: [a, b]` and `key:` followed by
+ * `- item` lines.
+ *
+ * @param lines - Array of markdown lines
+ * @returns The front-matter fields, and the number of lines the block spans
+ *   (0 when there is none)
+ */
+export function parseFrontMatter(lines: string[]): { metadata: PlanMetadata; lineCount: number } {
+  if (lines[0]?.trim() !== '---') return { metadata: {}, lineCount: 0 };
+  const end = lines.findIndex((line, i) => i > 0 && /^(?:---|\.\.\.)\s*$/.test(line));
+  if (end === -1) return { metadata: {}, lineCount: 0 };
+
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  const metadata: PlanMetadata = {};
+  let listKey: string | null = null;
+
+  for (const line of lines.slice(1, end)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s+(.+)$/);
+    if (item && listKey) {
+      (metadata[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const field = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!field) continue;
+    const [, key, value] = field;
+    listKey = null;
+    if (!value.trim()) {
+      metadata[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(value.trim())) {
+      metadata[key] = value.trim().slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      metadata[key] = unquote(value);
+    }
+  }
+
+  return { metadata, lineCount: end + 1 };
+}
+
 /**
  * Extracts the title from a markdown plan.
  *
@@ -195,25 +331,73 @@ export function extractSummary(lines: string[]): string {
   return summaryLines.join(' ').slice(0, 500) || 'No summary available';
 }
 
+/**
+ * Width of a line's indentation, counting tabs as four spaces.
+ */
+function indentWidth(line: string): number {
+  const indent = line.match(/^\s*/)?.[0] ?? '';
+  return indent.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Reads a front-matter field as text.
+ */
+function metadataText(metadata: PlanMetadata, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = metadata[key];
+    if (value) return Array.isArray(value) ? value.join(', ') : value;
+  }
+  return undefined;
+}
+
+/**
+ * Total effort of the steps. A parent's estimate covers its sub-tasks, so
+ * sub-task estimates only count when their parent has none.
+ */
+function sumEstimates(steps: PlanStep[]): number | undefined {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const coveredByParent = (step: PlanStep): boolean => {
+    const parent = step.parentId ? byId.get(step.parentId) : undefined;
+    return !!parent && (!!parent.estimate || coveredByParent(parent));
+  };
+
+  const estimated = steps.filter((step) => step.estimate && !coveredByParent(step));
+  if (estimated.length === 0) return undefined;
+  return Math.round(estimated.reduce((sum, step) => sum + step.estimate!.hours, 0) * 100) / 100;
+}
+
 /**
  * Parses the entire IMPLEMENTATION_PLAN.md content into a structured plan.
  *
+ * Indented checkboxes become sub-tasks of the step above them, numbered
+ * like an outline (3, 3.1, 3.2) so "depends on step 3" style references
+ * can be resolved. An optional YAML front-matter block can set the title,
+ * summary and estimate; its fields are returned as metadata.
+ *
  * @param content - The raw markdown content
  * @param issueId - The issue ID this plan belongs to
  * @returns The parsed ImplementationPlan
  */
 export function parsePlanMarkdown(content: string, issueId: string): ImplementationPlan {
   const lines = content.split('\n');
+  const { metadata, lineCount: frontMatterLines } = parseFrontMatter(lines);
+  const bodyLines = lines.slice(frontMatterLines);
   const steps: PlanStep[] = [];
   const files: PlanFile[] = [];
   const risks: PlanRisk[] = [];
 
+  // Open steps that indented checkboxes nest under, outermost first
+  let parents: { indent: number; step: PlanStep }[] = [];
+  const childCounts = new Map<string, number>();
+  let topLevelCount = 0;
+  const dependencyRefs = new Map<string, string[]>();
+
   let currentSection = '';
   let inRiskSection = false;
   let inFilesSection = false;
   let inStepsSection = false;
 
-  for (let i = 0; i < lines.length; i++) {
+  for (let i = frontMatterLines; i < lines.length; i++) {
     const line = lines[i];
     const lineNumber = i + 1;
     const headerMatch = line.match(HEADER_REGEX);
@@ -231,6 +415,7 @@ export function parsePlanMarkdown(content: string, issueId: string): Implementat
         currentSection.includes('task') ||
         currentSection.includes('implementation') ||
         currentSection.includes('todo');
+      parents = [];
       continue;
     }
 
@@ -252,17 +437,48 @@ export function parsePlanMarkdown(content: string, issueId: string): Implementat
 
     // Parse steps/tasks from anywhere with checkboxes
     const step = parseCheckboxLine(line, lineNumber);
-    if (step) {
-      // Don't duplicate file items as steps
-      if (!parseFileLine(line)) {
-        steps.push(step);
-      } else if (inStepsSection) {
-        // In steps section, include even file-like items
-        steps.push(step);
+    // Don't duplicate file items as steps, except in a steps section
+    if (step && (!parseFileLine(line) || inStepsSection)) {
+      const indent = indentWidth(line);
+      while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+        parents.pop();
+      }
+      const parent = parents[parents.length - 1]?.step;
+
+      let number: string;
+      if (parent) {
+        const index = (childCounts.get(parent.id) ?? 0) + 1;
+        childCounts.set(parent.id, index);
+        number = `${parent.number}.${index}`;
+      } else {
+        number = String(++topLevelCount);
       }
+
+      const estimate = parseEstimate(step.content);
+      const stepFiles = extractStepFiles(step.content);
+      steps.push({
+        ...step,
+        title: cleanStepTitle(step.content),
+        number,
+        depth: parents.length,
+        parentId: parent?.id,
+        dependsOn: [],
+        estimate: estimate ?? undefined,
+        files: stepFiles,
+      });
+      dependencyRefs.set(step.id, parseDependencyRefs(step.content));
+      parents.push({ indent, step: steps[steps.length - 1] });
     }
   }
 
+  // Resolve "depends on step N" now that every step is numbered
+  const idsByNumber = new Map(steps.map((step) => [step.number, step.id]));
+  for (const step of steps) {
+    step.dependsOn = (dependencyRefs.get(step.id) ?? [])
+      .map((ref) => idsByNumber.get(ref))
+      .filter((id): id is string => !!id && id !== step.id);
+  }
+
   // Calculate progress
   const completedSteps = steps.filter((s) => s.completed).length;
   const totalSteps = steps.length;
@@ -272,11 +488,14 @@ export function parsePlanMarkdown(content: string, issueId: string): Implementat
 
   return {
     issueId,
-    title: extractTitle(lines),
-    summary: extractSummary(lines),
+    title: metadataText(metadata, 'title') ?? extractTitle(bodyLines),
+    summary: metadataText(metadata, 'summary') ?? extractSummary(bodyLines),
     steps,
     files,
     risks,
+    estimatedDuration: metadataText(metadata, 'estimate', 'estimated_duration', 'estimatedDuration', 'effort'),
+    estimatedHours: sumEstimates(steps),
+    metadata: frontMatterLines > 0 ? metadata : undefined,
     progress,
     createdAt: now,
     updatedAt: now,
@@ -334,6 +553,56 @@ export function updateStepCompletion(
   return lines.join('\n');
 }
 
+/**
+ * Normalizes step content for matching steps across plan versions.
+ */
+function normalizeStepContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Carries step completion from the plan a build run is editing over to the
+ * approved plan. Steps are matched by content, so steps the run reworded or
+ * added don't count, and steps it unchecked are unchecked again.
+ *
+ * @param approved - The approved plan's markdown content
+ * @param current - The plan as the build run left it
+ * @returns The approved content with matching steps checked off
+ */
+export function syncStepCompletion(approved: string, current: string): string {
+  const completion = new Map<string, boolean>();
+  for (const step of parsePlanMarkdown(current, '').steps) {
+    const key = normalizeStepContent(step.content);
+    // A duplicated step counts as done only when every copy is
+    completion.set(key, (completion.get(key) ?? true) && step.completed);
+  }
+
+  let content = approved;
+  for (const step of parsePlanMarkdown(approved, '').steps) {
+    const completed = completion.get(normalizeStepContent(step.content));
+    if (completed !== undefined && completed !== step.completed) {
+      content = updateStepCompletion(content, step.line, completed);
+    }
+  }
+  return content;
+}
+
+/**
+ * Progress through a plan's steps.
+ *
+ * @param content - The plan's markdown content
+ * @returns Completed and total steps, percentage and current step
+ */
+export function getPlanProgress(content: string): PlanProgress {
+  const { steps } = parsePlanMarkdown(content, '');
+  return {
+    completedSteps: steps.filter((s) => s.completed).length,
+    totalSteps: steps.length,
+    progress: calculateProgress(steps),
+    currentStep: getCurrentStep(steps)?.content ?? null,
+  };
+}
+
 /**
  * Generates a summary stats object for display.
  *
@@ -0,0 +1,130 @@
+/**
+ * Plan Review Store
+ *
+ * Server-side review state of implementation plans. A plan-mode run leaves
+ * its issue's plan awaiting approval; a reviewer then approves it, rejects
+ * it or requests changes. The approved plan is snapshotted here so the
+ * build run follows exactly what was approved, and the build's progress
+ * through its steps is checked off on the snapshot.
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { PlanProgress, PlanReview, PlanReviewStatus } from './types';
+
+type ReviewMap = Record<string, PlanReview>;
+
+/**
+ * A reviewer's decision on a plan awaiting approval.
+ */
+export interface PlanDecision {
+  status: Exclude<PlanReviewStatus, 'awaiting_approval'>;
+  actor: string;
+  feedback?: string;
+  /** The plan being approved; required when approving */
+  content?: string;
+  /** Revision of the plan being approved */
+  revision?: number;
+}
+
+// ============================================================================
+// Plan Review Store
+// ============================================================================
+
+export class PlanReviewStore {
+  private reviews: ReviewMap;
+  private version = 0;
+
+  /**
+   * @param filePath - Where to persist reviews; null keeps them in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('plan-reviews.json')) {
+    this.reviews = filePath ? readJsonFile<ReviewMap>(filePath, {}) : {};
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  get(issueId: string): PlanReview | undefined {
+    return this.reviews[issueId];
+  }
+
+  /**
+   * Put a freshly generated plan up for review. Replaces any earlier
+   * review, since it was about a previous plan.
+   */
+  submit(issueId: string, jobId?: string): PlanReview {
+    return this.save({
+      issueId,
+      status: 'awaiting_approval',
+      jobId,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a reviewer's decision. Approving snapshots the plan content.
+   */
+  decide(issueId: string, decision: PlanDecision): PlanReview {
+    const now = new Date().toISOString();
+    return this.save({
+      issueId,
+      status: decision.status,
+      jobId: this.reviews[issueId]?.jobId,
+      approvedRevision: decision.status === 'approved' ? decision.revision : undefined,
+      approvedContent: decision.status === 'approved' ? decision.content : undefined,
+      feedback: decision.feedback,
+      reviewedBy: decision.actor,
+      reviewedAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Record a build run's progress against the approved plan.
+   * Ignored unless the issue's plan is approved.
+   */
+  recordProgress(issueId: string, approvedContent: string, progress: PlanProgress): PlanReview | undefined {
+    const review = this.reviews[issueId];
+    if (review?.status !== 'approved') return undefined;
+    return this.save({ ...review, approvedContent, progress, updatedAt: new Date().toISOString() });
+  }
+
+  private save(review: PlanReview): PlanReview {
+    this.reviews[review.issueId] = review;
+    this.persist();
+    return review;
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.reviews);
+    } catch (e) {
+      console.error('Failed to persist plan reviews:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphPlanReviewStore?: PlanReviewStore;
+};
+
+/**
+ * Get the process-wide plan review store.
+ */
+export function getPlanReviewStore(): PlanReviewStore {
+  if (!globalState.__ralphPlanReviewStore) {
+    globalState.__ralphPlanReviewStore = new PlanReviewStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('plan-reviews.json')
+    );
+  }
+  return globalState.__ralphPlanReviewStore;
+}
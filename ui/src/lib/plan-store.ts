@@ -0,0 +1,115 @@
+/**
+ * Plan Store
+ *
+ * Server-side, per-issue storage of implementation plans with their full
+ * revision history: every plan a plan-mode run generates and every edit
+ * made in the UI becomes a new revision, recording who made it, when, and
+ * which model generated it.
+ *
+ * Why this exists:
+ * - Plan-mode runs write IMPLEMENTATION_PLAN.md into shared locations, so
+ *   concurrent or consecutive plans overwrite each other
+ * - Reviewers need to see how a plan changed, e.g. after requesting changes
+ */
+
+import * as path from 'path';
+import { dataPath, readJsonFile, toFileName, writeJsonFile } from './storage';
+import type { PlanRevision } from './types';
+
+// Keep only the most recent revisions per issue
+const MAX_REVISIONS_PER_ISSUE = 50;
+
+export type NewPlanRevision = Omit<PlanRevision, 'issueId' | 'revision' | 'createdAt'>;
+
+// ============================================================================
+// Plan Store
+// ============================================================================
+
+/**
+ * Persists each issue's revisions as `<dir>/<issueId>.json`, loaded lazily.
+ */
+export class PlanStore {
+  private revisions = new Map<string, PlanRevision[]>();
+
+  /**
+   * @param dirPath - Where to persist plans; null keeps them in memory
+   */
+  constructor(private readonly dirPath: string | null = dataPath('plans')) {}
+
+  /**
+   * Revisions of an issue's plan, oldest first.
+   */
+  getRevisions(issueId: string): PlanRevision[] {
+    const cached = this.revisions.get(issueId);
+    if (cached) return cached;
+
+    const revisions = this.dirPath ? readJsonFile<PlanRevision[]>(path.join(this.dirPath, toFileName(issueId)), []) : [];
+    // Issues without a plan aren't cached, so lookups of any ID can't grow the cache
+    if (revisions.length > 0) {
+      this.revisions.set(issueId, revisions);
+    }
+    return revisions;
+  }
+
+  getRevision(issueId: string, revision: number): PlanRevision | undefined {
+    return this.getRevisions(issueId).find((r) => r.revision === revision);
+  }
+
+  /**
+   * Current version of an issue's plan, if it has one.
+   */
+  getLatest(issueId: string): PlanRevision | undefined {
+    const revisions = this.getRevisions(issueId);
+    return revisions[revisions.length - 1];
+  }
+
+  /**
+   * Record a new version of an issue's plan. Content identical to the
+   * current version is not a change, so the current version is returned.
+   */
+  addRevision(issueId: string, revision: NewPlanRevision): PlanRevision {
+    const latest = this.getLatest(issueId);
+    if (latest && latest.content === revision.content) return latest;
+
+    const record: PlanRevision = {
+      ...revision,
+      issueId,
+      revision: (latest?.revision ?? 0) + 1,
+      createdAt: new Date().toISOString(),
+    };
+    const revisions = [...this.getRevisions(issueId), record].slice(-MAX_REVISIONS_PER_ISSUE);
+    this.revisions.set(issueId, revisions);
+    this.persist(issueId, revisions);
+    return record;
+  }
+
+  private persist(issueId: string, revisions: PlanRevision[]): void {
+    if (!this.dirPath) return;
+    try {
+      writeJsonFile(path.join(this.dirPath, toFileName(issueId)), revisions);
+    } catch (e) {
+      console.error('Failed to persist plan revisions:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphPlanStore?: PlanStore;
+};
+
+/**
+ * Get the process-wide plan store.
+ */
+export function getPlanStore(): PlanStore {
+  if (!globalState.__ralphPlanStore) {
+    globalState.__ralphPlanStore = new PlanStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('plans')
+    );
+  }
+  return globalState.__ralphPlanStore;
+}
@@ -0,0 +1,74 @@
+/**
+ * Priority Rule Store
+ *
+ * Server-side persistence for the priority scoring rules edited on the
+ * settings page. Rules are shared by everyone using this meta-ralph
+ * instance and applied to `GET /api/issues` (see priority-rules.ts).
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { PriorityRule } from './priority-rules';
+
+// ============================================================================
+// Priority Rule Store
+// ============================================================================
+
+export class PriorityRuleStore {
+  private rules: PriorityRule[];
+  private version = 0;
+
+  /**
+   * @param filePath - Where to persist rules; null keeps them in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('priority-rules.json')) {
+    this.rules = filePath ? readJsonFile<PriorityRule[]>(filePath, []) : [];
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  getRules(): PriorityRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Replace all rules. Callers validate with validatePriorityRules first.
+   */
+  setRules(rules: PriorityRule[]): void {
+    this.rules = rules;
+    this.persist();
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.rules);
+    } catch (e) {
+      console.error('Failed to persist priority rules:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphPriorityRuleStore?: PriorityRuleStore;
+};
+
+/**
+ * Get the process-wide priority rule store.
+ */
+export function getPriorityRuleStore(): PriorityRuleStore {
+  if (!globalState.__ralphPriorityRuleStore) {
+    globalState.__ralphPriorityRuleStore = new PriorityRuleStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('priority-rules.json')
+    );
+  }
+  return globalState.__ralphPriorityRuleStore;
+}
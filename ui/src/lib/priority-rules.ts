@@ -0,0 +1,309 @@
+/**
+ * Priority Scoring Rules
+ *
+ * Rule engine that adjusts the priority providers compute (`lib/priority.sh`
+ * and the provider scripts) with team-defined rules. Each rule has
+ * conditions on provider, severity, count, location, tags and metadata, and
+ * an effect: the priority is multiplied by `weight`, then `boost` is added.
+ * Matching rules apply in order and the result is clamped to 0-100.
+ *
+ * Pure functions only, so the server (GET /api/issues) and the settings
+ * page's live preview score issues identically.
+ */
+
+import type { ExtendedIssue, Issue, Severity } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MetadataOperator = 'equals' | 'contains' | 'exists' | 'gt' | 'lt';
+
+/**
+ * Condition on a metadata field, addressed by dot path (e.g. `target_repo.repo`).
+ */
+export interface MetadataCondition {
+  field: string;
+  operator: MetadataOperator;
+  /** Compared value; ignored for `exists` */
+  value?: string;
+}
+
+/**
+ * Conditions of a rule. All set conditions must match; list conditions
+ * match if any listed value matches.
+ */
+export interface PriorityRuleConditions {
+  providers?: string[];
+  severities?: Severity[];
+  minCount?: number;
+  maxCount?: number;
+  /** Glob on Issue.location, e.g. `src/payments/**` */
+  location?: string;
+  tags?: string[];
+  metadata?: MetadataCondition[];
+}
+
+export interface PriorityRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: PriorityRuleConditions;
+  /** Multiplier applied to the current priority (1 = unchanged) */
+  weight: number;
+  /** Points added after the weight (may be negative) */
+  boost: number;
+}
+
+/**
+ * Outcome of scoring one issue.
+ */
+export interface PriorityScore {
+  /** Priority before rules */
+  base: number;
+  score: number;
+  /** IDs of the rules that matched, in application order */
+  matchedRuleIds: string[];
+}
+
+/**
+ * A single field-level validation failure.
+ */
+export interface RuleValidationError {
+  path: string;
+  message: string;
+}
+
+const SEVERITIES: Severity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+const METADATA_OPERATORS: MetadataOperator[] = ['equals', 'contains', 'exists', 'gt', 'lt'];
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Convert a location glob to a regular expression.
+ * `**` matches across directories, `*` within one, `?` a single character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+function getMetadataValue(metadata: Record<string, unknown> | undefined, field: string): unknown {
+  let value: unknown = metadata;
+  for (const key of field.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function matchesMetadata(issue: Issue, condition: MetadataCondition): boolean {
+  const value = getMetadataValue(issue.metadata, condition.field);
+  const expected = condition.value ?? '';
+
+  switch (condition.operator) {
+    case 'exists':
+      return value !== undefined && value !== null;
+    case 'equals':
+      return value !== undefined && value !== null && String(value).toLowerCase() === expected.toLowerCase();
+    case 'contains':
+      if (Array.isArray(value)) {
+        return value.some((item) => String(item).toLowerCase() === expected.toLowerCase());
+      }
+      return typeof value === 'string' && value.toLowerCase().includes(expected.toLowerCase());
+    case 'gt':
+      return Number(value) > Number(expected);
+    case 'lt':
+      return Number(value) < Number(expected);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether an issue satisfies every condition of a rule.
+ */
+export function matchesRule(issue: Issue, rule: PriorityRule): boolean {
+  const { providers, severities, minCount, maxCount, location, tags, metadata } = rule.conditions;
+
+  if (providers?.length && !providers.includes(issue.provider)) return false;
+  if (severities?.length && !severities.includes(issue.severity)) return false;
+  if (minCount !== undefined && issue.count < minCount) return false;
+  if (maxCount !== undefined && issue.count > maxCount) return false;
+  if (location && !globToRegExp(location).test(issue.location ?? '')) return false;
+  if (tags?.length) {
+    const issueTags = (issue as Partial<ExtendedIssue>).tags ?? [];
+    if (!tags.some((tag) => issueTags.includes(tag))) return false;
+  }
+  if (metadata?.length && !metadata.every((condition) => matchesMetadata(issue, condition))) return false;
+
+  return true;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score an issue against rules, starting from the given base priority.
+ */
+export function scoreIssue(issue: Issue, rules: PriorityRule[], base = issue.priority): PriorityScore {
+  let score = base;
+  const matchedRuleIds: string[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || !matchesRule(issue, rule)) continue;
+    score = score * rule.weight + rule.boost;
+    matchedRuleIds.push(rule.id);
+  }
+
+  return {
+    base,
+    score: Math.round(Math.min(100, Math.max(0, score))),
+    matchedRuleIds,
+  };
+}
+
+/**
+ * Apply rules to issues, keeping the provider priority in `originalPriority`.
+ *
+ * Issues with a manual priority override (from bulk triage) keep it: an
+ * explicit override beats any rule.
+ */
+export function applyPriorityRules<T extends ExtendedIssue>(issues: T[], rules: PriorityRule[]): T[] {
+  if (!rules.some((rule) => rule.enabled)) return issues;
+
+  return issues.map((issue) => {
+    if (issue.originalPriority !== undefined) return issue;
+    const { score, matchedRuleIds } = scoreIssue(issue, rules);
+    if (matchedRuleIds.length === 0) return issue;
+    return { ...issue, priority: score, originalPriority: issue.priority, priorityRuleIds: matchedRuleIds };
+  });
+}
+
+/**
+ * Priority an issue had before rules were applied to it, or null when a
+ * manual override pins its priority.
+ */
+export function getRuleBasePriority(issue: Issue & Partial<ExtendedIssue>): number | null {
+  if (issue.priorityRuleIds?.length) return issue.originalPriority ?? issue.priority;
+  if (issue.originalPriority !== undefined) return null;
+  return issue.priority;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Validate rules submitted from the settings page.
+ */
+export function validatePriorityRules(value: unknown): RuleValidationError[] {
+  if (!Array.isArray(value)) {
+    return [{ path: 'rules', message: 'must be an array' }];
+  }
+
+  const errors: RuleValidationError[] = [];
+  const ids = new Set<string>();
+
+  value.forEach((rule, index) => {
+    const path = `rules[${index}]`;
+    const fail = (field: string, message: string) => errors.push({ path: `${path}.${field}`, message });
+
+    if (!isObject(rule)) {
+      errors.push({ path, message: 'must be an object' });
+      return;
+    }
+    if (typeof rule.id !== 'string' || rule.id === '') {
+      fail('id', 'must be a non-empty string');
+    } else if (ids.has(rule.id)) {
+      fail('id', 'must be unique');
+    } else {
+      ids.add(rule.id);
+    }
+    if (typeof rule.name !== 'string' || rule.name.trim() === '') fail('name', 'must be a non-empty string');
+    if (typeof rule.enabled !== 'boolean') fail('enabled', 'must be a boolean');
+    if (typeof rule.weight !== 'number' || !Number.isFinite(rule.weight) || rule.weight < 0) {
+      fail('weight', 'must be a non-negative number');
+    }
+    if (typeof rule.boost !== 'number' || !Number.isFinite(rule.boost)) fail('boost', 'must be a number');
+
+    const conditions = rule.conditions;
+    if (!isObject(conditions)) {
+      fail('conditions', 'must be an object');
+      return;
+    }
+    for (const field of ['providers', 'tags'] as const) {
+      if (conditions[field] !== undefined && !isStringArray(conditions[field])) {
+        fail(`conditions.${field}`, 'must be an array of strings');
+      }
+    }
+    if (
+      conditions.severities !== undefined &&
+      !(isStringArray(conditions.severities) && conditions.severities.every((s) => SEVERITIES.includes(s as Severity)))
+    ) {
+      fail('conditions.severities', `must only contain ${SEVERITIES.join(', ')}`);
+    }
+    for (const field of ['minCount', 'maxCount'] as const) {
+      if (conditions[field] !== undefined && typeof conditions[field] !== 'number') {
+        fail(`conditions.${field}`, 'must be a number');
+      }
+    }
+    if (conditions.location !== undefined && typeof conditions.location !== 'string') {
+      fail('conditions.location', 'must be a string');
+    }
+    if (conditions.metadata !== undefined) {
+      if (!Array.isArray(conditions.metadata)) {
+        fail('conditions.metadata', 'must be an array');
+      } else {
+        conditions.metadata.forEach((condition, i) => {
+          if (!isObject(condition) || typeof condition.field !== 'string' || condition.field === '') {
+            fail(`conditions.metadata[${i}].field`, 'must be a non-empty string');
+          } else if (!METADATA_OPERATORS.includes(condition.operator as MetadataOperator)) {
+            fail(`conditions.metadata[${i}].operator`, `must be one of ${METADATA_OPERATORS.join(', ')}`);
+          }
+        });
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Create an empty rule that matches every issue and changes nothing.
+ */
+export function createPriorityRule(name = 'New rule'): PriorityRule {
+  return {
+    id: `rule-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    name,
+    enabled: true,
+    conditions: {},
+    weight: 1,
+    boost: 0,
+  };
+}
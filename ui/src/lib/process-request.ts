@@ -0,0 +1,83 @@
+/**
+ * Process Requests
+ *
+ * Validates a request to process issues and enqueues it: budget limits and
+ * requested models are checked, duplicates collapse to their incident's canonical issue (see
+ * correlation.ts) and models are routed per issue when the options ask for
+ * it (see model-config.ts). Shared by POST /api/issues and the bulk
+ * `process` action so both start runs the same way.
+ */
+
+import { validateBudgetLimit } from './budget';
+import { planIncidentRuns, type IncidentRunPlan } from './correlation';
+import { getIssueCache } from './issue-cache';
+import { getJobQueue } from './job-queue';
+import { loadModelConfig, routeIssueModels } from './model-config';
+import { validateProcessingModels } from './models';
+import type { ProcessingJob, ProcessingOptions } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProcessRequest {
+  ids: string[];
+  options?: Partial<ProcessingOptions>;
+  priority?: number;
+  maxRetries?: number;
+  actor: string;
+}
+
+export type ProcessRequestResult =
+  | { ok: true; jobs: ProcessingJob[]; plan: IncidentRunPlan }
+  | { ok: false; status: 400; error: string }
+  | { ok: false; status: 409; error: string; alreadyProcessing: string[] };
+
+// ============================================================================
+// Enqueueing
+// ============================================================================
+
+/**
+ * Enqueue one job per requested issue (per incident for duplicates).
+ */
+export async function enqueueProcessRequest({
+  ids,
+  options,
+  priority,
+  maxRetries,
+  actor,
+}: ProcessRequest): Promise<ProcessRequestResult> {
+  const budgetError = options?.budget &&
+    (validateBudgetLimit(options.budget.perIssueUsd) ?? validateBudgetLimit(options.budget.perBatchUsd));
+  if (budgetError) {
+    return { ok: false, status: 400, error: budgetError };
+  }
+
+  // Unknown models would silently run with the CLI's default model
+  const modelError = validateProcessingModels(options, loadModelConfig().models);
+  if (modelError) {
+    return { ok: false, status: 400, error: modelError };
+  }
+
+  // Duplicates collapse to their incident's canonical issue
+  const issues = await getIssueCache().getIssues();
+  const plan = planIncidentRuns(ids, issues);
+
+  // Check if any of the requested issues are already queued or processing
+  const queue = getJobQueue();
+  const alreadyProcessing = [...new Set([...ids, ...plan.issueIds])]
+    .filter(id => queue.getActiveJobForIssue(id));
+  if (alreadyProcessing.length > 0) {
+    return { ok: false, status: 409, error: 'Some issues are already being processed', alreadyProcessing };
+  }
+
+  const { jobs } = queue.enqueue(plan.issueIds, options, {
+    priority,
+    maxRetries,
+    linkedIssueIds: plan.linkedIssueIds,
+    actor,
+    issues,
+    models: routeIssueModels(issues.filter((issue) => plan.issueIds.includes(issue.id)), options),
+  });
+  return { ok: true, jobs, plan };
+}
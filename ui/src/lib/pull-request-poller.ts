@@ -0,0 +1,160 @@
+/**
+ * Pull Request Poller
+ *
+ * Keeps the state of tracked PRs (see pull-request-store.ts) up to date by
+ * periodically fetching them from the GitHub REST API. Merged and closed
+ * PRs are final and no longer polled.
+ *
+ * Configuration:
+ * - RALPH_PR_POLL_INTERVAL: seconds between polls (default 120)
+ * - GITHUB_TOKEN / GH_TOKEN: token for the GitHub API; without one only
+ *   public repositories can be polled, at a low rate limit
+ */
+
+import { getPullRequestStore, type PullRequestStatus, type PullRequestStore } from './pull-request-store';
+import {
+  derivePullRequestState,
+  isFinalPullRequestState,
+  type GitHubPullRequest,
+  type GitHubPullRequestReview,
+} from './pull-requests';
+import type { TrackedPullRequest } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Fetches the current state of a tracked PR.
+ */
+export type PullRequestFetcher = (pull: TrackedPullRequest) => Promise<PullRequestStatus>;
+
+export interface PullRequestPollerOptions {
+  store: PullRequestStore;
+  fetcher?: PullRequestFetcher;
+}
+
+const DEFAULT_INTERVAL_MS = 120_000;
+
+// ============================================================================
+// GitHub Fetcher
+// ============================================================================
+
+async function fetchGitHub<T>(path: string): Promise<T> {
+  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+  const response = await fetch(`https://api.github.com${path}`, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    throw new Error(`GitHub API error ${response.status} for ${path}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Fetch a PR and its reviews from GitHub and derive its state.
+ */
+export const fetchGitHubPullRequest: PullRequestFetcher = async ({ owner, repo, number }) => {
+  const base = `/repos/${owner}/${repo}/pulls/${number}`;
+  const [pull, reviews] = await Promise.all([
+    fetchGitHub<GitHubPullRequest>(base),
+    fetchGitHub<GitHubPullRequestReview[]>(`${base}/reviews?per_page=100`),
+  ]);
+  return { state: derivePullRequestState(pull, reviews), headSha: pull.head.sha };
+};
+
+// ============================================================================
+// Pull Request Poller
+// ============================================================================
+
+export class PullRequestPoller {
+  private readonly store: PullRequestStore;
+  private readonly fetcher: PullRequestFetcher;
+
+  private inflight: Promise<TrackedPullRequest[]> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor({ store, fetcher = fetchGitHubPullRequest }: PullRequestPollerOptions) {
+    this.store = store;
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Fetch every tracked PR that isn't merged or closed yet, sharing the
+   * poll with concurrent callers. A PR that fails to fetch keeps its last
+   * known state.
+   *
+   * @returns The PRs whose state or head commit changed
+   */
+  poll(): Promise<TrackedPullRequest[]> {
+    if (this.inflight) return this.inflight;
+
+    const pending = this.store.list().filter((pull) => !isFinalPullRequestState(pull.state));
+    this.inflight = Promise.all(
+      pending.map(async (pull) => {
+        try {
+          const status = await this.fetcher(pull);
+          const updated = this.store.updateStatus(pull.url, status);
+          return updated && (updated.state !== pull.state || updated.headSha !== pull.headSha) ? updated : null;
+        } catch (error) {
+          console.error(`Failed to poll ${pull.url}:`, error);
+          return null;
+        }
+      })
+    )
+      .then((results) => results.filter((pull): pull is TrackedPullRequest => pull !== null))
+      .finally(() => {
+        this.inflight = null;
+      });
+    return this.inflight;
+  }
+
+  /**
+   * Poll on an interval until stopped.
+   */
+  start(intervalMs = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, intervalMs);
+    // Don't keep the process alive just for PR polling
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphPullRequestPoller?: PullRequestPoller;
+};
+
+/**
+ * Get the process-wide PR poller, started on first use outside tests.
+ */
+export function getPullRequestPoller(): PullRequestPoller {
+  if (!globalState.__ralphPullRequestPoller) {
+    globalState.__ralphPullRequestPoller = new PullRequestPoller({ store: getPullRequestStore() });
+    if (process.env.NODE_ENV !== 'test') {
+      const seconds = Number(process.env.RALPH_PR_POLL_INTERVAL);
+      globalState.__ralphPullRequestPoller.start(
+        Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_INTERVAL_MS
+      );
+    }
+  }
+  return globalState.__ralphPullRequestPoller;
+}
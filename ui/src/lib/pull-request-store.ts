@@ -0,0 +1,143 @@
+/**
+ * Pull Request Store
+ *
+ * Server-side record of the PRs build runs opened, keyed by PR URL, with
+ * the state the PR poller last saw. Runs report their PR through the
+ * engine's pull_request event; approving held changes reports the PR the
+ * approval opened.
+ */
+
+import { parsePullRequestUrl } from './pull-requests';
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { PullRequestState, RunPullRequest, TrackedPullRequest } from './types';
+
+type PullRequestMap = Record<string, TrackedPullRequest>;
+
+/**
+ * State fetched for a tracked PR.
+ */
+export interface PullRequestStatus {
+  state: PullRequestState;
+  headSha: string;
+}
+
+// ============================================================================
+// Pull Request Store
+// ============================================================================
+
+export class PullRequestStore {
+  private pulls: PullRequestMap;
+  private version = 0;
+
+  /**
+   * @param filePath - Where to persist PRs; null keeps them in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('pull-requests.json')) {
+    this.pulls = filePath ? readJsonFile<PullRequestMap>(filePath, {}) : {};
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  get(url: string): TrackedPullRequest | undefined {
+    return this.pulls[url];
+  }
+
+  /**
+   * All tracked PRs, newest first.
+   */
+  list(): TrackedPullRequest[] {
+    return Object.values(this.pulls).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * The issue's most recently opened PR.
+   */
+  latestForIssue(issueId: string): TrackedPullRequest | undefined {
+    return this.list().find((pull) => pull.issueId === issueId);
+  }
+
+  /**
+   * Start tracking a PR a run opened. Tracking a PR again (e.g. a later
+   * iteration pushing to the same branch) keeps its state and updates the
+   * head commit.
+   *
+   * @returns The tracked PR, or null when the URL isn't a GitHub PR
+   */
+  track(issueId: string, { url, branch, headSha }: RunPullRequest, jobId?: string): TrackedPullRequest | null {
+    const ref = parsePullRequestUrl(url);
+    if (!ref) return null;
+    const now = new Date().toISOString();
+    const existing = this.pulls[url];
+    return this.save({
+      ...existing,
+      ...ref,
+      issueId,
+      url,
+      branch,
+      headSha: headSha || existing?.headSha || '',
+      state: existing?.state ?? 'open',
+      jobId: jobId ?? existing?.jobId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Record a PR's freshly fetched state.
+   *
+   * @returns The updated PR, or null when it isn't tracked
+   */
+  updateStatus(url: string, { state, headSha }: PullRequestStatus): TrackedPullRequest | null {
+    const pull = this.pulls[url];
+    if (!pull) return null;
+    const now = new Date().toISOString();
+    const changed = pull.state !== state || pull.headSha !== headSha;
+    return this.save({
+      ...pull,
+      state,
+      headSha,
+      checkedAt: now,
+      updatedAt: changed ? now : pull.updatedAt,
+    });
+  }
+
+  private save(pull: TrackedPullRequest): TrackedPullRequest {
+    this.pulls[pull.url] = pull;
+    this.persist();
+    return pull;
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.pulls);
+    } catch (e) {
+      console.error('Failed to persist pull requests:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphPullRequestStore?: PullRequestStore;
+};
+
+/**
+ * Get the process-wide pull request store.
+ */
+export function getPullRequestStore(): PullRequestStore {
+  if (!globalState.__ralphPullRequestStore) {
+    globalState.__ralphPullRequestStore = new PullRequestStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('pull-requests.json')
+    );
+  }
+  return globalState.__ralphPullRequestStore;
+}
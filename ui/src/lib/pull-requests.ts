@@ -0,0 +1,101 @@
+/**
+ * Pull Requests
+ *
+ * Pure helpers for PRs opened by build runs: parsing PR URLs and deriving
+ * a PullRequestState from GitHub's pull request and review data.
+ */
+
+import type { PullRequestState } from './types';
+
+// ============================================================================
+// Types for GitHub API Response
+// ============================================================================
+
+/**
+ * Fields of GET /repos/{owner}/{repo}/pulls/{number} used to derive state.
+ */
+export interface GitHubPullRequest {
+  state: 'open' | 'closed';
+  merged: boolean;
+  draft?: boolean;
+  head: { sha: string; ref: string };
+  requested_reviewers?: unknown[];
+  requested_teams?: unknown[];
+}
+
+/**
+ * Fields of an entry of GET /repos/{owner}/{repo}/pulls/{number}/reviews.
+ */
+export interface GitHubPullRequestReview {
+  user: { login: string } | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  submitted_at?: string;
+}
+
+/**
+ * Location of a PR, parsed from its URL.
+ */
+export interface PullRequestRef {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PULL_REQUEST_URL_REGEX = /^https:\/\/github\.com\/([^/\s]+)\/([^/\s]+)\/pull\/(\d+)(?:[/?#]|$)/;
+
+/**
+ * Parse a GitHub PR URL (https://github.com/owner/repo/pull/123).
+ *
+ * @returns The PR's location, or null for other URLs
+ */
+export function parsePullRequestUrl(url: string): PullRequestRef | null {
+  const match = url.trim().match(PULL_REQUEST_URL_REGEX);
+  if (!match) return null;
+  return { owner: match[1], repo: match[2], number: parseInt(match[3], 10) };
+}
+
+/**
+ * Whether a PR in this state can't change any more, so needn't be polled.
+ */
+export function isFinalPullRequestState(state: PullRequestState): boolean {
+  return state === 'merged' || state === 'closed';
+}
+
+/**
+ * State of a PR from GitHub's view of it and its reviews.
+ *
+ * Merged and closed PRs are final. An open PR takes the verdict of its
+ * reviewers, each counted by their latest approving or change-requesting
+ * review: any change request wins over approvals. Without a verdict it's
+ * `review_requested` while reviewers are pending, otherwise `open`.
+ */
+export function derivePullRequestState(
+  pull: GitHubPullRequest,
+  reviews: GitHubPullRequestReview[]
+): PullRequestState {
+  if (pull.merged) return 'merged';
+  if (pull.state === 'closed') return 'closed';
+
+  const verdicts = new Map<string, GitHubPullRequestReview['state']>();
+  for (const review of reviews) {
+    if (!review.user) continue;
+    // Comments don't change a reviewer's verdict; dismissals clear it
+    if (review.state === 'APPROVED' || review.state === 'CHANGES_REQUESTED') {
+      verdicts.set(review.user.login, review.state);
+    } else if (review.state === 'DISMISSED') {
+      verdicts.delete(review.user.login);
+    }
+  }
+
+  const states = [...verdicts.values()];
+  if (states.includes('CHANGES_REQUESTED')) return 'changes_requested';
+  if (states.includes('APPROVED')) return 'approved';
+  if ((pull.requested_reviewers?.length ?? 0) + (pull.requested_teams?.length ?? 0) > 0) {
+    return 'review_requested';
+  }
+  return 'open';
+}
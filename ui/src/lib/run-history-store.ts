@@ -0,0 +1,77 @@
+/**
+ * Run History Store
+ *
+ * Server-side record of finished processing attempts: what each cost, how
+ * many iterations it used and how long it took, with the issue's provider
+ * and severity and the model and mode it ran with. Cost and duration
+ * estimates are learned from it (see estimates.ts).
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { RunRecord } from './types';
+
+// Keep only the most recent runs
+const MAX_RUNS = 1000;
+
+function generateRunId(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// ============================================================================
+// Run History Store
+// ============================================================================
+
+export class RunHistoryStore {
+  private runs: RunRecord[];
+
+  /**
+   * @param filePath - Where to persist runs; null keeps them in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('run-history.json')) {
+    this.runs = filePath ? readJsonFile<RunRecord[]>(filePath, []) : [];
+  }
+
+  /**
+   * Recorded runs, oldest first.
+   */
+  getRuns(): RunRecord[] {
+    return this.runs;
+  }
+
+  record(run: Omit<RunRecord, 'id'>): RunRecord {
+    const record: RunRecord = { id: generateRunId(), ...run };
+    this.runs = [...this.runs, record].slice(-MAX_RUNS);
+    this.persist();
+    return record;
+  }
+
+  private persist(): void {
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.runs);
+    } catch (e) {
+      console.error('Failed to persist run history:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphRunHistoryStore?: RunHistoryStore;
+};
+
+/**
+ * Get the process-wide run history store.
+ */
+export function getRunHistoryStore(): RunHistoryStore {
+  if (!globalState.__ralphRunHistoryStore) {
+    globalState.__ralphRunHistoryStore = new RunHistoryStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('run-history.json')
+    );
+  }
+  return globalState.__ralphRunHistoryStore;
+}
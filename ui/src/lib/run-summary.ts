@@ -0,0 +1,63 @@
+/**
+ * Run Summaries
+ *
+ * Condenses a processing session into what a reviewer needs to judge a
+ * build run's changes without reading its activity feed: iterations, cost,
+ * which tools it used, the files it touched, the commands it ran and the
+ * errors it hit.
+ */
+
+import type { Activity, ExecutionMetrics, RunSummary, ToolName } from './types';
+
+/**
+ * Matches the details of file-writing tool activities: "Editing src/app.ts"
+ * Groups: [1] = path
+ */
+const FILE_EDIT_REGEX = /^(?:Writing|Editing) (.+)$/;
+
+/**
+ * Matches the details of Bash tool activities: "Running: npm test"
+ * Groups: [1] = command
+ */
+const COMMAND_REGEX = /^Running: (.+)$/;
+
+/**
+ * Summarize a run from its activities and final metrics.
+ *
+ * Tool activities are updated in place as a call progresses, so each call
+ * is counted once by its activity ID.
+ */
+export function summarizeRun(activities: Activity[], metrics: ExecutionMetrics | null): RunSummary {
+  const toolCalls: Partial<Record<ToolName, number>> = {};
+  const countedIds = new Set<string>();
+  const filesEdited = new Set<string>();
+  const commands = new Set<string>();
+  const errors: string[] = [];
+
+  for (const activity of activities) {
+    if (activity.type === 'tool' && activity.tool && !countedIds.has(activity.id)) {
+      countedIds.add(activity.id);
+      toolCalls[activity.tool] = (toolCalls[activity.tool] ?? 0) + 1;
+    }
+
+    const details = activity.details ?? '';
+    const file = details.match(FILE_EDIT_REGEX);
+    if (file) filesEdited.add(file[1]);
+    const command = details.match(COMMAND_REGEX);
+    if (command) commands.add(command[1]);
+
+    if ((activity.type === 'error' || activity.status === 'error') && details) {
+      errors.push(details);
+    }
+  }
+
+  return {
+    iterations: metrics?.iteration ?? 0,
+    costUsd: metrics?.totalCostUsd ?? 0,
+    durationMs: metrics?.totalDurationMs ?? 0,
+    toolCalls,
+    filesEdited: Array.from(filesEdited),
+    commands: Array.from(commands),
+    errors,
+  };
+}
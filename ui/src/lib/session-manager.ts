@@ -10,39 +10,75 @@
 import {
   Activity,
   ExecutionMetrics,
+  PlanProgress,
   ProcessingOptions,
+  RunBranch,
+  RunPullRequest,
+  RunTestResults,
   StreamEvent,
   DEFAULT_PROCESSING_OPTIONS,
 } from './types';
+import {
+  createSessionStore,
+  generateSessionId,
+  type ProcessingSession,
+  type SessionQuery,
+  type SessionStore,
+} from './session-store';
+
+export type { ProcessingSession, SessionQuery, SessionStore } from './session-store';
 
 // ============================================================================
-// Types
+// State Management
 // ============================================================================
 
+type Subscriber = (event: StreamEvent) => void;
+
+// How long a finished session stays "active" (and subscribed) after completion
+const SESSION_CLEANUP_MS = 300000;
+
+// Kept on globalThis so route bundles and hot reloads share one store and
+// one subscriber registry within the server process.
+const globalState = globalThis as typeof globalThis & {
+  __ralphSessionStore?: SessionStore;
+  __ralphSessionSubscribers?: Map<string, Set<Subscriber>>;
+};
+
+// Event subscribers by issue ID (callbacks cannot be persisted)
+const subscribers: Map<string, Set<Subscriber>> =
+  globalState.__ralphSessionSubscribers ?? (globalState.__ralphSessionSubscribers = new Map());
+
 /**
- * Active processing session state.
+ * Get the session store, creating the configured one on first use.
  */
-export interface ProcessingSession {
-  issueId: string;
-  options: ProcessingOptions;
-  activities: Activity[];
-  metrics: ExecutionMetrics | null;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  error?: string;
-  startedAt: string;
-  completedAt?: string;
+export function getSessionStore(): SessionStore {
+  if (!globalState.__ralphSessionStore) {
+    globalState.__ralphSessionStore = createSessionStore();
+    recoverInterruptedSessions(globalState.__ralphSessionStore);
+  }
+  return globalState.__ralphSessionStore;
 }
 
-// ============================================================================
-// State Management
-// ============================================================================
-
-// In-memory store for active processing sessions
-// In production, this would be Redis or similar
-const sessions = new Map<string, ProcessingSession>();
+/**
+ * Replace the session store (used by tests and alternative backends).
+ */
+export function setSessionStore(store: SessionStore): void {
+  globalState.__ralphSessionStore = store;
+}
 
-// Event subscribers by issue ID
-const subscribers = new Map<string, Set<(event: StreamEvent) => void>>();
+/**
+ * Sessions that were running when the server stopped can never complete:
+ * their child process is gone. Mark them failed so they don't block new runs.
+ */
+function recoverInterruptedSessions(store: SessionStore): void {
+  const interrupted = store.list({ status: ['pending', 'processing'] });
+  for (const session of interrupted) {
+    session.status = 'failed';
+    session.error = 'Interrupted by server restart';
+    session.completedAt = new Date().toISOString();
+    store.save(session);
+  }
+}
 
 // ============================================================================
 // Session Management
@@ -52,17 +88,18 @@ const subscribers = new Map<string, Set<(event: StreamEvent) => void>>();
  * Get an existing processing session.
  */
 export function getSession(issueId: string): ProcessingSession | undefined {
-  return sessions.get(issueId);
+  return getSessionStore().get(issueId);
 }
 
 /**
- * Create a new processing session.
+ * Create a new processing session. Earlier sessions of the issue are kept.
  */
 export function createSession(
   issueId: string,
   options: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS
 ): ProcessingSession {
   const session: ProcessingSession = {
+    id: generateSessionId(),
     issueId,
     options,
     activities: [],
@@ -70,23 +107,41 @@ export function createSession(
     status: 'pending',
     startedAt: new Date().toISOString(),
   };
-  sessions.set(issueId, session);
+  getSessionStore().save(session);
   return session;
 }
 
 /**
- * Delete a processing session.
+ * Delete an issue's processing sessions.
  */
 export function deleteSession(issueId: string): boolean {
   subscribers.delete(issueId);
-  return sessions.delete(issueId);
+  return getSessionStore().delete(issueId);
 }
 
 /**
- * Get all active sessions.
+ * Get sessions that are running or finished within the cleanup window.
  */
 export function getActiveSessions(): ProcessingSession[] {
-  return Array.from(sessions.values());
+  const cutoff = new Date(Date.now() - SESSION_CLEANUP_MS).toISOString();
+  return getSessionStore()
+    .list()
+    .filter((s) => !s.completedAt || s.completedAt >= cutoff);
+}
+
+/**
+ * Query stored sessions, including finished ones from earlier runs.
+ */
+export function listSessions(query?: SessionQuery): ProcessingSession[] {
+  return getSessionStore().list(query);
+}
+
+/**
+ * Branch of the issue's newest run that reported one. Later runs without a
+ * branch (e.g. plan runs) don't hide an earlier build's branch.
+ */
+export function getLatestBranch(issueId: string): RunBranch | undefined {
+  return listSessions({ issueId }).find((session) => session.branch)?.branch;
 }
 
 // ============================================================================
@@ -109,7 +164,7 @@ export function emitEvent(issueId: string, event: StreamEvent): void {
   }
 
   // Also update session state
-  const session = sessions.get(issueId);
+  const session = getSession(issueId);
   if (session) {
     if (event.type === 'activity') {
       session.activities.push(event.payload as Activity);
@@ -119,14 +174,23 @@ export function emitEvent(issueId: string, event: StreamEvent): void {
       }
     } else if (event.type === 'metrics') {
       session.metrics = event.payload as ExecutionMetrics;
+    } else if (event.type === 'plan_progress') {
+      session.planProgress = event.payload as PlanProgress;
+    } else if (event.type === 'branch') {
+      session.branch = event.payload as RunBranch;
+    } else if (event.type === 'test_results') {
+      session.testResults = event.payload as RunTestResults;
+    } else if (event.type === 'pull_request') {
+      session.pullRequest = event.payload as RunPullRequest;
     } else if (event.type === 'complete') {
       session.status = 'completed';
       session.completedAt = new Date().toISOString();
-    } else if (event.type === 'error') {
+    } else if (event.type === 'error' || event.type === 'budget_exceeded') {
       session.status = 'failed';
       session.error = (event.payload as { error: string }).error;
       session.completedAt = new Date().toISOString();
     }
+    getSessionStore().save(session);
   }
 }
 
@@ -135,7 +199,7 @@ export function emitEvent(issueId: string, event: StreamEvent): void {
  */
 export function subscribe(
   issueId: string,
-  callback: (event: StreamEvent) => void
+  callback: Subscriber
 ): () => void {
   if (!subscribers.has(issueId)) {
     subscribers.set(issueId, new Set());
@@ -167,6 +231,7 @@ export function startProcessing(
 ): ProcessingSession {
   const session = createSession(issueId, options);
   session.status = 'processing';
+  getSessionStore().save(session);
 
   // Emit start activity
   const startActivity: Activity = {
@@ -194,13 +259,14 @@ export function completeProcessing(
   success: boolean,
   message?: string
 ): void {
-  const session = sessions.get(issueId);
+  const session = getSession(issueId);
   if (session) {
     session.status = success ? 'completed' : 'failed';
     session.completedAt = new Date().toISOString();
     if (!success) {
       session.error = message;
     }
+    getSessionStore().save(session);
   }
 
   if (success) {
@@ -218,17 +284,24 @@ export function completeProcessing(
   }
 
   // Schedule cleanup after 5 minutes
-  scheduleCleanup(issueId, 300000);
+  scheduleCleanup(issueId, SESSION_CLEANUP_MS);
 }
 
 /**
  * Clean up completed sessions after a delay.
+ *
+ * Persistent stores keep the finished session for later queries; only the
+ * in-process subscribers are released. Other stores drop it entirely.
  */
-export function scheduleCleanup(issueId: string, delayMs = 300000): void {
+export function scheduleCleanup(issueId: string, delayMs = SESSION_CLEANUP_MS): void {
   setTimeout(() => {
-    const session = sessions.get(issueId);
+    const session = getSession(issueId);
     if (session && (session.status === 'completed' || session.status === 'failed')) {
-      deleteSession(issueId);
+      if (!getSessionStore().persistent) {
+        deleteSession(issueId);
+      } else {
+        subscribers.delete(issueId);
+      }
     }
   }, delayMs);
 }
@@ -0,0 +1,372 @@
+/**
+ * Processing Session Store
+ *
+ * Pluggable persistence for processing sessions. The session manager keeps
+ * subscribers in-process, but session state (activities, metrics, status)
+ * goes through a SessionStore so it survives restarts and hot reloads.
+ *
+ * Every run of an issue gets its own session, so earlier runs can still be
+ * queried after the issue is re-run or escalated; `get` returns the latest.
+ *
+ * Implementations:
+ * - InMemorySessionStore: process-local Map (tests, ephemeral setups)
+ * - FileSessionStore: one JSON document per session under the data directory
+ *
+ * @see PRD-03-JSON-STREAMING.md for the session/event model
+ */
+
+import * as path from 'path';
+import type { Activity, ExecutionMetrics, PlanProgress, ProcessingOptions, RunBranch, RunPullRequest, RunTestResults } from './types';
+import {
+  dataPath,
+  fromFileName,
+  listJsonFiles,
+  readJsonFile,
+  removeFile,
+  toFileName,
+  writeJsonFile,
+} from './storage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Active processing session state.
+ */
+export interface ProcessingSession {
+  /** Unique per run; sessions stored before runs had IDs use the issue ID */
+  id: string;
+  issueId: string;
+  options: ProcessingOptions;
+  activities: Activity[];
+  metrics: ExecutionMetrics | null;
+  /** Progress against the approved plan, for builds that follow one */
+  planProgress?: PlanProgress;
+  /** Branch a build run commits to, once the engine has created it */
+  branch?: RunBranch;
+  /** Result of the test command run after a successful build */
+  testResults?: RunTestResults;
+  /** PR the run opened for its branch */
+  pullRequest?: RunPullRequest;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Filters for querying stored sessions.
+ */
+export interface SessionQuery {
+  issueId?: string;
+  status?: ProcessingSession['status'][];
+  since?: string; // ISO timestamp, compared against startedAt
+  until?: string; // ISO timestamp, compared against startedAt
+  limit?: number;
+}
+
+/**
+ * Storage backend for processing sessions.
+ *
+ * Methods are synchronous so the session manager can keep its synchronous
+ * API; implementations are expected to cache and flush as they see fit.
+ */
+export interface SessionStore {
+  /**
+   * Whether finished sessions outlive the process. The session manager
+   * drops finished sessions from stores that don't keep them anyway.
+   */
+  readonly persistent: boolean;
+  /** The issue's latest session */
+  get(issueId: string): ProcessingSession | undefined;
+  save(session: ProcessingSession): void;
+  /** Delete all of the issue's sessions */
+  delete(issueId: string): boolean;
+  list(query?: SessionQuery): ProcessingSession[];
+}
+
+// Sessions kept per issue; older runs are dropped
+const MAX_SESSIONS_PER_ISSUE = 20;
+
+/**
+ * ID for a new session.
+ */
+export function generateSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// ============================================================================
+// Query Helpers
+// ============================================================================
+
+/**
+ * Apply a SessionQuery to a list of sessions (newest first).
+ */
+export function querySessions(
+  sessions: Iterable<ProcessingSession>,
+  query: SessionQuery = {}
+): ProcessingSession[] {
+  let result = Array.from(sessions);
+
+  if (query.issueId) {
+    result = result.filter((s) => s.issueId === query.issueId);
+  }
+  if (query.status && query.status.length > 0) {
+    result = result.filter((s) => query.status!.includes(s.status));
+  }
+  if (query.since) {
+    result = result.filter((s) => s.startedAt >= query.since!);
+  }
+  if (query.until) {
+    result = result.filter((s) => s.startedAt <= query.until!);
+  }
+
+  result.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  if (query.limit !== undefined && query.limit >= 0) {
+    result = result.slice(0, query.limit);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Session Index
+// ============================================================================
+
+/**
+ * Sessions by ID, with each issue's sessions in start order.
+ */
+class SessionIndex {
+  private sessions = new Map<string, ProcessingSession>();
+  private byIssue = new Map<string, ProcessingSession[]>();
+
+  latest(issueId: string): ProcessingSession | undefined {
+    return this.byIssue.get(issueId)?.at(-1);
+  }
+
+  values(): Iterable<ProcessingSession> {
+    return this.sessions.values();
+  }
+
+  /**
+   * Add or replace a session.
+   *
+   * @returns Sessions dropped to keep the issue within its limit
+   */
+  put(session: ProcessingSession): ProcessingSession[] {
+    const runs = (this.byIssue.get(session.issueId) ?? []).filter((s) => s.id !== session.id);
+    runs.push(session);
+    runs.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    this.sessions.set(session.id, session);
+
+    const dropped = runs.splice(0, Math.max(0, runs.length - MAX_SESSIONS_PER_ISSUE));
+    for (const old of dropped) this.sessions.delete(old.id);
+    this.byIssue.set(session.issueId, runs);
+    return dropped;
+  }
+
+  /**
+   * Remove all of an issue's sessions.
+   *
+   * @returns The removed sessions
+   */
+  deleteIssue(issueId: string): ProcessingSession[] {
+    const runs = this.byIssue.get(issueId) ?? [];
+    for (const session of runs) this.sessions.delete(session.id);
+    this.byIssue.delete(issueId);
+    return runs;
+  }
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Process-local store. State is lost when the server restarts.
+ */
+export class InMemorySessionStore implements SessionStore {
+  readonly persistent = false;
+  private index = new SessionIndex();
+
+  get(issueId: string): ProcessingSession | undefined {
+    return this.index.latest(issueId);
+  }
+
+  save(session: ProcessingSession): void {
+    this.index.put(session);
+  }
+
+  delete(issueId: string): boolean {
+    return this.index.deleteIssue(issueId).length > 0;
+  }
+
+  list(query?: SessionQuery): ProcessingSession[] {
+    return querySessions(this.index.values(), query);
+  }
+}
+
+// ============================================================================
+// File-Backed Store
+// ============================================================================
+
+/**
+ * Persists each session as `<dir>/<sessionId>.json`.
+ *
+ * Sessions are loaded lazily on first access and cached in memory. Writes
+ * are debounced per session because activity events arrive in bursts; a
+ * finished session is written right away.
+ */
+export class FileSessionStore implements SessionStore {
+  readonly persistent = true;
+  private cache: SessionIndex | null = null;
+  private pendingWrites = new Map<string, { session: ProcessingSession; timer: ReturnType<typeof setTimeout> }>();
+
+  constructor(
+    private readonly dir: string = dataPath('sessions'),
+    private readonly flushDelayMs = 250
+  ) {}
+
+  get(issueId: string): ProcessingSession | undefined {
+    return this.load().latest(issueId);
+  }
+
+  save(session: ProcessingSession): void {
+    for (const dropped of this.load().put(session)) {
+      this.cancelWrite(dropped.id);
+      removeFile(this.filePath(dropped.id));
+    }
+    if (session.status === 'completed' || session.status === 'failed') {
+      this.cancelWrite(session.id);
+      this.write(session);
+    } else {
+      this.scheduleWrite(session);
+    }
+  }
+
+  delete(issueId: string): boolean {
+    let removed = false;
+    for (const session of this.load().deleteIssue(issueId)) {
+      this.cancelWrite(session.id);
+      removeFile(this.filePath(session.id));
+      removed = true;
+    }
+    return removed;
+  }
+
+  list(query?: SessionQuery): ProcessingSession[] {
+    return querySessions(this.load().values(), query);
+  }
+
+  /**
+   * Write all pending sessions to disk immediately.
+   */
+  flush(): void {
+    for (const { session } of Array.from(this.pendingWrites.values())) {
+      this.cancelWrite(session.id);
+      this.write(session);
+    }
+  }
+
+  private load(): SessionIndex {
+    if (this.cache) return this.cache;
+
+    this.cache = new SessionIndex();
+    for (const fileName of listJsonFiles(this.dir)) {
+      const session = readJsonFile<ProcessingSession | null>(
+        path.join(this.dir, fileName),
+        null
+      );
+      if (!session) continue;
+      const id = fromFileName(fileName);
+      // Sessions stored before runs had IDs were named after their issue
+      if (session.id ? session.id === id : session.issueId === id) {
+        // Runs over the per-issue limit aren't read again; drop their files
+        for (const dropped of this.cache.put({ ...session, id })) {
+          removeFile(this.filePath(dropped.id));
+        }
+      }
+    }
+    return this.cache;
+  }
+
+  private scheduleWrite(session: ProcessingSession): void {
+    if (this.flushDelayMs <= 0) {
+      this.write(session);
+      return;
+    }
+    const pending = this.pendingWrites.get(session.id);
+    if (pending) {
+      pending.session = session;
+      return;
+    }
+
+    this.pendingWrites.set(session.id, {
+      session,
+      timer: setTimeout(() => {
+        this.pendingWrites.delete(session.id);
+        this.write(session);
+      }, this.flushDelayMs),
+    });
+  }
+
+  private cancelWrite(sessionId: string): void {
+    const pending = this.pendingWrites.get(sessionId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingWrites.delete(sessionId);
+    }
+  }
+
+  private write(session: ProcessingSession): void {
+    try {
+      writeJsonFile(this.filePath(session.id), session);
+    } catch (e) {
+      console.error(`Failed to persist session ${session.id} of ${session.issueId}:`, e);
+    }
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.dir, toFileName(sessionId));
+  }
+}
+
+/**
+ * Write pending sessions before the process exits, so the last events of a
+ * run aren't lost to the write debounce.
+ */
+function flushOnExit(store: FileSessionStore): void {
+  const flush = () => store.flush();
+  process.on('beforeExit', flush);
+  process.on('exit', flush);
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      flush();
+      // Without other handlers, exit as the signal would have
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the store configured for this environment.
+ *
+ * RALPH_SESSION_STORE=memory forces the in-memory store; tests use it by
+ * default so they never touch the data directory.
+ */
+export function createSessionStore(): SessionStore {
+  const kind =
+    process.env.RALPH_SESSION_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+  if (kind === 'memory') return new InMemorySessionStore();
+  const store = new FileSessionStore();
+  flushOnExit(store);
+  return store;
+}
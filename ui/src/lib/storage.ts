@@ -0,0 +1,100 @@
+/**
+ * Server-side JSON Storage Helpers
+ *
+ * Small file-backed persistence primitives shared by the server-side stores
+ * (sessions, queue, triage state). Everything lives under a single data
+ * directory so a meta-ralph instance can be backed up or wiped in one place.
+ *
+ * Why this exists:
+ * - Module-level Maps are lost on every Next.js restart or hot reload
+ * - Writes go through a temp file + rename so a crash never leaves a
+ *   half-written JSON document behind
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Directory where server-side state is persisted.
+ * Defaults to `.ralph-data` next to meta-ralph.sh (the UI runs from ./ui).
+ */
+export const DATA_DIR =
+  process.env.RALPH_DATA_DIR || path.resolve(process.cwd(), '..', '.ralph-data');
+
+// ============================================================================
+// File Helpers
+// ============================================================================
+
+/**
+ * Resolve a path inside the data directory.
+ */
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+/**
+ * Encode an arbitrary identifier into a safe file name.
+ */
+export function toFileName(id: string, extension = '.json'): string {
+  return `${encodeURIComponent(id)}${extension}`;
+}
+
+/**
+ * Decode a file name produced by toFileName back into its identifier.
+ */
+export function fromFileName(fileName: string, extension = '.json'): string {
+  return decodeURIComponent(fileName.slice(0, -extension.length));
+}
+
+/**
+ * Read and parse a JSON file.
+ * Returns the fallback when the file is missing or unreadable.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Failed to read ${filePath}:`, e);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Atomically write a value as JSON (temp file + rename).
+ */
+export function writeJsonFile(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Remove a file, ignoring missing files.
+ * Returns true if a file was removed.
+ */
+export function removeFile(filePath: string): boolean {
+  try {
+    fs.unlinkSync(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List JSON files in a directory (empty if the directory does not exist).
+ */
+export function listJsonFiles(dirPath: string): string[] {
+  try {
+    return fs.readdirSync(dirPath).filter((name) => name.endsWith('.json'));
+  } catch {
+    return [];
+  }
+}
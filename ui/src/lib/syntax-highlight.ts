@@ -0,0 +1,158 @@
+/**
+ * Syntax Highlighting
+ *
+ * Lightweight, line-at-a-time highlighting for diff views: comments,
+ * strings, numbers and keywords of the languages agents usually touch.
+ * Diff lines are highlighted out of context, so constructs spanning lines
+ * (block comments, multi-line strings) are only recognized on the line
+ * they start on.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'number' | 'comment';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: Set<string>;
+  /** Line comment prefixes */
+  lineComments: string[];
+  /** Whether /* ... *\/ comments exist */
+  blockComments: boolean;
+}
+
+// ============================================================================
+// Languages
+// ============================================================================
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in',
+  'instanceof', 'let', 'new', 'null', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+];
+
+const TS_KEYWORDS = [...JS_KEYWORDS, 'as', 'enum', 'implements', 'interface', 'keyof', 'namespace',
+  'private', 'protected', 'public', 'readonly', 'satisfies', 'type'];
+
+const PYTHON_KEYWORDS = [
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+  'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+  'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+];
+
+const GO_KEYWORDS = [
+  'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false', 'for',
+  'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select',
+  'struct', 'switch', 'true', 'type', 'var',
+];
+
+const SHELL_KEYWORDS = [
+  'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local',
+  'return', 'then', 'until', 'while',
+];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: { keywords: new Set(TS_KEYWORDS), lineComments: ['//'], blockComments: true },
+  javascript: { keywords: new Set(JS_KEYWORDS), lineComments: ['//'], blockComments: true },
+  python: { keywords: new Set(PYTHON_KEYWORDS), lineComments: ['#'], blockComments: false },
+  go: { keywords: new Set(GO_KEYWORDS), lineComments: ['//'], blockComments: true },
+  shell: { keywords: new Set(SHELL_KEYWORDS), lineComments: ['#'], blockComments: false },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  go: 'go',
+  sh: 'shell',
+  bash: 'shell',
+};
+
+/**
+ * Language of a file, from its extension; null when it isn't highlighted.
+ */
+export function languageForPath(filePath: string): string | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[extension] ?? null;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+/**
+ * Split a line of code into highlighted tokens.
+ *
+ * @param text - The line
+ * @param language - Language from languageForPath; null leaves the line plain
+ * @returns Tokens whose text joins back to the line
+ */
+export function highlightLine(text: string, language: string | null): Token[] {
+  const spec = language ? LANGUAGES[language] : undefined;
+  if (!spec || !text) return [{ type: 'plain', text }];
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += value;
+    else tokens.push({ type, text: value });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    if (spec.lineComments.some((prefix) => rest.startsWith(prefix))) {
+      push('comment', rest);
+      break;
+    }
+    if (spec.blockComments && rest.startsWith('/*')) {
+      const end = rest.indexOf('*/', 2);
+      const comment = end === -1 ? rest : rest.slice(0, end + 2);
+      push('comment', comment);
+      i += comment.length;
+      continue;
+    }
+
+    const char = text[i];
+    if (char === '"' || char === "'" || char === '`') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) j += text[j] === '\\' ? 2 : 1;
+      const value = text.slice(i, Math.min(j + 1, text.length));
+      push('string', value);
+      i += value.length;
+      continue;
+    }
+
+    const number = rest.match(/^\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?/i);
+    if (number && !/[\w$]/.test(text[i - 1] ?? '')) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      push(spec.keywords.has(word[0]) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', char);
+    i++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,190 @@
+/**
+ * Issue Triage Store
+ *
+ * Server-side persistence for triage state applied through bulk actions:
+ * tags, ignored/restored issues and priority overrides. State is keyed by
+ * provider and issue ID and merged into `GET /api/issues`, so everyone
+ * sharing a meta-ralph instance sees the same triage.
+ *
+ * Why this exists:
+ * - localStorage triage state is per-browser and invisible to teammates
+ * - Provider priorities are computed on every fetch, so overrides have to
+ *   be re-applied on top of fresh results
+ */
+
+import { dataPath, readJsonFile, writeJsonFile } from './storage';
+import type { ExtendedIssue, Issue, IssueStatus } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Triage state for a single issue.
+ */
+export interface IssueTriage {
+  tags: string[];
+  ignored: boolean;
+  /** Overrides the provider-computed priority when set */
+  priority?: number;
+  updatedAt: string;
+}
+
+/**
+ * Identifies an issue across providers.
+ */
+export type IssueRef = Pick<Issue, 'id' | 'provider'>;
+
+type TriageMap = Record<string, IssueTriage>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Storage key for an issue. IDs are only unique within a provider.
+ */
+export function triageKey(ref: IssueRef): string {
+  return `${ref.provider}:${ref.id}`;
+}
+
+function emptyTriage(): IssueTriage {
+  return { tags: [], ignored: false, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Whether a triage entry carries any state worth keeping.
+ */
+function hasState(triage: IssueTriage): boolean {
+  return triage.tags.length > 0 || triage.ignored || triage.priority !== undefined;
+}
+
+// ============================================================================
+// Triage Store
+// ============================================================================
+
+export class TriageStore {
+  private entries: TriageMap;
+  private version = 0;
+
+  /**
+   * @param filePath - Where to persist triage state; null keeps it in memory
+   */
+  constructor(private readonly filePath: string | null = dataPath('triage.json')) {
+    this.entries = filePath ? readJsonFile<TriageMap>(filePath, {}) : {};
+  }
+
+  /** Incremented on every change */
+  getVersion(): number {
+    return this.version;
+  }
+
+  get(ref: IssueRef): IssueTriage | undefined {
+    return this.entries[triageKey(ref)];
+  }
+
+  addTags(refs: IssueRef[], tags: string[]): void {
+    this.update(refs, (triage) => {
+      triage.tags = [...new Set([...triage.tags, ...tags])];
+    });
+  }
+
+  removeTags(refs: IssueRef[], tags: string[]): void {
+    this.update(refs, (triage) => {
+      triage.tags = triage.tags.filter((tag) => !tags.includes(tag));
+    });
+  }
+
+  setIgnored(refs: IssueRef[], ignored: boolean): void {
+    this.update(refs, (triage) => {
+      triage.ignored = ignored;
+    });
+  }
+
+  /**
+   * Override the priority of issues, or clear the override with null.
+   */
+  setPriority(refs: IssueRef[], priority: number | null): void {
+    this.update(refs, (triage) => {
+      triage.priority = priority ?? undefined;
+    });
+  }
+
+  /**
+   * Merge triage state into freshly fetched issues.
+   *
+   * @param issues - Issues as returned by the providers
+   * @param statusOf - Processing status for issues that aren't ignored
+   */
+  apply(
+    issues: Issue[],
+    statusOf: (issue: Issue) => IssueStatus = () => 'pending'
+  ): ExtendedIssue[] {
+    return issues.map((issue) => {
+      const triage = this.get(issue);
+      const extended: ExtendedIssue = {
+        ...issue,
+        tags: triage?.tags ?? [],
+        status: triage?.ignored ? 'ignored' : statusOf(issue),
+      };
+      if (triage?.priority !== undefined) {
+        extended.originalPriority = issue.priority;
+        extended.priority = triage.priority;
+      }
+      return extended;
+    });
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private update(refs: IssueRef[], mutate: (triage: IssueTriage) => void): void {
+    const now = new Date().toISOString();
+    for (const ref of refs) {
+      const key = triageKey(ref);
+      const triage = this.entries[key] ?? emptyTriage();
+      mutate(triage);
+      triage.updatedAt = now;
+
+      // Drop entries that no longer carry state to keep the file small
+      if (hasState(triage)) {
+        this.entries[key] = triage;
+      } else {
+        delete this.entries[key];
+      }
+    }
+    this.persist();
+  }
+
+  private persist(): void {
+    this.version++;
+    if (!this.filePath) return;
+    try {
+      writeJsonFile(this.filePath, this.entries);
+    } catch (e) {
+      console.error('Failed to persist triage state:', e);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+// Shared across route bundles and hot reloads within the server process
+const globalState = globalThis as typeof globalThis & {
+  __ralphTriageStore?: TriageStore;
+};
+
+/**
+ * Get the process-wide triage store.
+ */
+export function getTriageStore(): TriageStore {
+  if (!globalState.__ralphTriageStore) {
+    globalState.__ralphTriageStore = new TriageStore(
+      process.env.NODE_ENV === 'test' ? null : dataPath('triage.json')
+    );
+  }
+  return globalState.__ralphTriageStore;
+}
@@ -8,9 +8,50 @@
 export type Severity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO';
 
 /**
- * Status of an issue in the processing pipeline.
+ * Status of an issue in the processing pipeline. 'awaiting_approval' means a
+ * plan-mode run produced a plan that hasn't been reviewed yet;
+ * 'ready_for_review' means a build run's changes are held for review
+ * before they are pushed.
  */
-export type IssueStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'ignored';
+export type IssueStatus =
+  | 'pending'
+  | 'processing'
+  | 'awaiting_approval'
+  | 'ready_for_review'
+  | 'completed'
+  | 'failed'
+  | 'ignored';
+
+/**
+ * A recorded change of an issue's status.
+ */
+export interface IssueLifecycleEvent {
+  id: string;
+  issueId: string;
+  /** Status before the change; null for the first recorded event */
+  from: IssueStatus | null;
+  to: IssueStatus;
+  /** Who made the change: a user name, 'ui', or a system actor like 'queue' */
+  actor: string;
+  timestamp: string;
+  reason?: string;
+  jobId?: string;
+  /** PR opened by the run that produced this change */
+  prUrl?: string;
+  /** API path of the implementation plan produced by a plan-mode run */
+  planUrl?: string;
+}
+
+/**
+ * Response of GET /api/issues/:id/timeline.
+ */
+export interface IssueTimeline {
+  issueId: string;
+  /** Latest recorded status */
+  status: IssueStatus;
+  /** Events in chronological order */
+  events: IssueLifecycleEvent[];
+}
 
 /**
  * Base issue interface - the normalized format from all providers.
@@ -35,8 +76,14 @@ export interface Issue {
 export interface ExtendedIssue extends Issue {
   tags: string[];
   status: IssueStatus;
+  /** Provider-computed priority, present when a server-side override applies */
+  originalPriority?: number;
+  /** Priority rules that adjusted this issue's priority, in application order */
+  priorityRuleIds?: string[];
   processedAt?: string;
   prUrl?: string;
+  /** Last known state of the PR at prUrl, tracked by the PR poller */
+  prState?: PullRequestState;
   firstSeen?: string;
   lastSeen?: string;
 }
@@ -50,10 +97,70 @@ export interface ExtendedIssue extends Issue {
  */
 export interface ProcessingStatus {
   isProcessing: boolean;
+  /** First running issue (legacy; see runningIssueIds) */
   currentIssueId: string | null;
+  /** Issues running right now, when processing concurrently */
+  runningIssueIds?: string[];
   logs: string[];
   completed: string[];
   failed: string[];
+  /** Whether the server-side job queue is paused */
+  isPaused?: boolean;
+  /** Server-side jobs (queued, running and finished) */
+  jobs?: ProcessingJob[];
+}
+
+/**
+ * Issues running right now. Falls back to currentIssueId for statuses
+ * that predate concurrent processing.
+ */
+export function getRunningIssueIds(status: ProcessingStatus): string[] {
+  return status.runningIssueIds ?? (status.currentIssueId ? [status.currentIssueId] : []);
+}
+
+/**
+ * Status of a job in the server-side processing queue.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A single-issue job in the server-side processing queue.
+ */
+export interface ProcessingJob {
+  id: string;
+  issueId: string;
+  options: ProcessingOptions;
+  status: JobStatus;
+  priority: number; // higher runs first
+  sequence: number; // FIFO tiebreaker within the same priority
+  attempts: number;
+  maxRetries: number;
+  /** Duplicates of this issue (same incident) that share its outcome and PR */
+  linkedIssueIds?: string[];
+  /** Jobs enqueued together share a batch, and its budget */
+  batchId?: string;
+  /** Issue details recorded with the job's run history */
+  provider?: string;
+  severity?: Severity;
+  /** Escalation steps taken to get to this job (0 or unset for the first) */
+  escalationLevel?: number;
+  /** Failed job this one escalated from */
+  escalatedFromJobId?: string;
+  /** CI fix attempt the job runs, for jobs fixing a PR's failing checks */
+  ciFixAttemptId?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+/**
+ * Snapshot of the server-side processing queue.
+ */
+export interface JobQueueState {
+  jobs: ProcessingJob[];
+  isPaused: boolean;
+  runningJobIds: string[];
 }
 
 /**
@@ -139,7 +246,7 @@ export const DEFAULT_SORT_STATE: SortState = {
 /**
  * Options for grouping issues.
  */
-export type GroupBy = 'provider' | 'severity' | 'date' | 'location' | null;
+export type GroupBy = 'provider' | 'severity' | 'date' | 'location' | 'incident' | null;
 
 /**
  * A saved view configuration with filters, sort, and grouping.
@@ -202,6 +309,42 @@ export interface HistoryEntry {
   duration: number; // milliseconds
   prUrl?: string;
   error?: string;
+  /** Server-side job of the attempt */
+  jobId?: string;
+  /** Which try of the job this was, counting retries */
+  jobAttempts?: number;
+  /** Escalation steps taken before this attempt (0 or unset for the first) */
+  escalationLevel?: number;
+  /** Escalation step this attempt ran with */
+  escalationStep?: string;
+  /** Job of the failed attempt this one escalated from */
+  escalatedFromJobId?: string;
+}
+
+/**
+ * Outcome of one processing attempt, recorded server-side to learn cost
+ * and duration estimates from.
+ */
+export interface RunRecord {
+  id: string;
+  issueId: string;
+  /** Server-side job of the attempt */
+  jobId?: string;
+  /** Escalation steps taken before this attempt (0 or unset for the first) */
+  escalationLevel?: number;
+  /** Job of the failed attempt this one escalated from */
+  escalatedFromJobId?: string;
+  provider?: string;
+  severity?: Severity;
+  model: ModelType;
+  mode: ProcessingMode;
+  status: 'completed' | 'failed';
+  costUsd: number;
+  /** Iterations used, and the limit the run had */
+  iterations: number;
+  maxIterations: number;
+  durationMs: number;
+  completedAt: string;
 }
 
 /**
@@ -238,12 +381,38 @@ export interface DashboardStats {
 // API Types
 // ============================================================================
 
+/**
+ * Outcome of fetching issues from one provider.
+ */
+export type ProviderFetchState =
+  | 'ok'
+  | 'auth_error'
+  | 'timeout'
+  | 'parse_error'
+  | 'unavailable'
+  | 'error';
+
+/**
+ * Per-provider fetch status reported alongside issues.
+ */
+export interface ProviderFetchStatus {
+  provider: string;
+  status: ProviderFetchState;
+  issueCount: number;
+  durationMs: number;
+  /** When this status was recorded */
+  checkedAt: string;
+  error?: string;
+}
+
 /**
  * Response from GET /api/issues endpoint.
  */
 export interface IssuesApiResponse {
   issues: Issue[];
   processing: ProcessingStatus;
+  /** Fetch status per provider; issues from failed providers may be stale or missing */
+  providers?: ProviderFetchStatus[];
 }
 
 /**
@@ -254,8 +423,13 @@ export interface BulkActionRequest {
   ids: string[];
   payload?: {
     tags?: string[];
-    priority?: number;
+    /** New priority (0-100), or null to clear an override */
+    priority?: number | null;
     format?: 'csv' | 'json';
+    /** Processing options for `process`, as POST /api/issues takes them */
+    options?: Partial<ProcessingOptions>;
+    /** Retries per job for `process` */
+    maxRetries?: number;
   };
 }
 
@@ -279,9 +453,11 @@ export interface BulkActionResponse {
 export type ProcessingMode = 'plan' | 'build';
 
 /**
- * Claude model selection.
+ * ID of a model in the model catalog (see models.ts). The built-in
+ * `haiku`, `sonnet` and `opus` are always available; the catalog config
+ * can add more.
  */
-export type ModelType = 'sonnet' | 'opus';
+export type ModelType = string;
 
 /**
  * Complete processing configuration for starting issue processing.
@@ -291,10 +467,84 @@ export interface ProcessingOptions {
   model: ModelType;
   maxIterations: number;
   autoPush: boolean;
+  /**
+   * Hold the changes of successful build runs for review instead of pushing
+   * them: the branch stays local until a reviewer approves it (push + PR),
+   * requests another iteration or discards it. Takes precedence over
+   * `autoPush`.
+   */
+  reviewBeforePush?: boolean;
   ciAwareness: boolean;
   autoFixCi: boolean;
+  /**
+   * Pick each issue's model with the model routing rules; `model` is used
+   * for issues no rule matches.
+   */
+  autoModel?: boolean;
+  /**
+   * Maximum number of issues processed at once (default 1). Above 1, each
+   * issue runs in its own git worktree so concurrent edits never collide.
+   */
+  concurrency?: number;
+  /** Spend limits enforced server-side; the run stops when one is reached */
+  budget?: BudgetLimits;
+  /**
+   * Attempts to make, in order, after the issue fails (and its retries are
+   * used up). Set from the preset's escalation policy.
+   */
+  escalation?: EscalationStep[];
+}
+
+/**
+ * One step of an escalation policy: a further attempt at a failed issue
+ * with stronger options.
+ */
+export interface EscalationStep {
+  /** Short description, e.g. "Opus, 15 iterations" */
+  name: string;
+  /** Options changed from the previous attempt */
+  options: Partial<Omit<ProcessingOptions, 'escalation'>>;
+}
+
+/**
+ * Spend limits for a processing run, in USD. Unset limits don't apply.
+ */
+export interface BudgetLimits {
+  /** Maximum spend on a single issue */
+  perIssueUsd?: number;
+  /** Maximum spend on all issues started together */
+  perBatchUsd?: number;
+}
+
+/**
+ * Which limit a budget check applies: the run's per-issue or per-batch
+ * limit, or the server-wide daily limit.
+ */
+export type BudgetScope = 'issue' | 'batch' | 'day';
+
+/**
+ * Payload of a `budget_exceeded` stream event.
+ */
+export interface BudgetExceededPayload {
+  error: string;
+  scope: BudgetScope;
+  limitUsd: number;
+  spentUsd: number;
+}
+
+/**
+ * Budget left for a running issue: the tightest of its applicable limits.
+ */
+export interface RemainingBudget {
+  scope: BudgetScope;
+  remainingUsd: number;
 }
 
+/**
+ * Upper bound for ProcessingOptions.concurrency.
+ */
+export const MAX_CONCURRENCY = 4;
+
 /**
  * Default processing options for new sessions.
  */
@@ -316,6 +566,8 @@ export interface ProcessingPreset {
   description: string;
   icon: string;
   options: ProcessingOptions;
+  /** What to try when a run with this preset fails */
+  escalation?: EscalationStep[];
   isCustom?: boolean;
 }
 
@@ -336,6 +588,13 @@ export const DEFAULT_PRESETS: ProcessingPreset[] = [
       ciAwareness: false,
       autoFixCi: false,
     },
+    escalation: [
+      {
+        name: 'Opus, 15 iterations with CI awareness',
+        options: { model: 'opus', maxIterations: 15, ciAwareness: true },
+      },
+      { name: 'Plan only', options: { mode: 'plan' } },
+    ],
   },
   {
     id: 'careful-fix',
@@ -350,6 +609,9 @@ export const DEFAULT_PRESETS: ProcessingPreset[] = [
       ciAwareness: true,
       autoFixCi: false,
     },
+    escalation: [
+      { name: 'Opus, 15 iterations', options: { model: 'opus', maxIterations: 15 } },
+    ],
   },
   {
     id: 'complex-issue',
@@ -433,6 +695,8 @@ export interface ExecutionMetrics {
   durationMs: number;
   totalCostUsd: number;
   totalDurationMs: number;
+  /** Budget left after this iteration, when the run has spend limits */
+  budget?: RemainingBudget;
 }
 
 /**
@@ -450,9 +714,60 @@ export type ClaudeEventType =
  * SSE event payload for streaming updates.
  */
 export interface StreamEvent {
-  type: 'activity' | 'metrics' | 'complete' | 'error';
+  type:
+    | 'activity'
+    | 'metrics'
+    | 'complete'
+    | 'error'
+    | 'budget_exceeded'
+    | 'plan_progress'
+    | 'plan_revision'
+    | 'branch'
+    | 'test_results'
+    | 'pull_request';
   issueId: string;
-  payload: Activity | ExecutionMetrics | { message: string } | { error: string };
+  payload:
+    | Activity
+    | ExecutionMetrics
+    | { message: string }
+    | { error: string }
+    | BudgetExceededPayload
+    | PlanProgress
+    | PlanRevision
+    | RunBranch
+    | RunTestResults
+    | RunPullRequest;
+}
+
+/**
+ * Git branch a build run commits to, reported by the engine once created.
+ */
+export interface RunBranch {
+  branch: string;
+  /** Branch the run's branch was created from */
+  baseBranch: string;
+}
+
+/**
+ * Result of the test command (RALPH_TEST_COMMAND) the engine runs after a
+ * successful build run.
+ */
+export interface RunTestResults {
+  command: string;
+  exitCode: number;
+  /** Combined stdout and stderr, cut to its last lines */
+  output: string;
+}
+
+/**
+ * PR a build run opened (or found already open) for its branch, reported
+ * by the engine after pushing.
+ */
+export interface RunPullRequest {
+  url: string;
+  branch: string;
+  /** Commit the branch pointed at when the PR was opened */
+  headSha: string;
 }
 
 /**
@@ -460,10 +775,154 @@ export interface StreamEvent {
  */
 export type StreamConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
 
+// ============================================================================
+// Run Diff Types
+// ============================================================================
+
+/**
+ * Line of a diff hunk. Line numbers are null on the side a line isn't on.
+ */
+export interface DiffHunkLine {
+  type: 'context' | 'add' | 'delete';
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+/**
+ * Contiguous block of changes in a file, from a `@@ -a,b +c,d @@` header.
+ */
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: DiffHunkLine[];
+}
+
+/**
+ * Changes to one file in a unified diff.
+ */
+export interface DiffFile {
+  /** Path after the change (before it, for deleted files) */
+  path: string;
+  /** Path before the change, for renamed files */
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Changes a build run made: its branch against the base branch.
+ */
+export interface IssueDiff {
+  issueId: string;
+  branch: string;
+  baseBranch: string;
+  /** Unified diff as produced by git */
+  diff: string;
+  files: DiffFile[];
+  additions: number;
+  deletions: number;
+}
+
+// ============================================================================
+// Change Review Types
+// ============================================================================
+
+/**
+ * What a build run did, summarized from its session for reviewers.
+ */
+export interface RunSummary {
+  iterations: number;
+  costUsd: number;
+  durationMs: number;
+  /** Number of tool calls per tool */
+  toolCalls: Partial<Record<ToolName, number>>;
+  /** Files the agent wrote or edited, in the order first touched */
+  filesEdited: string[];
+  /** Commands the agent ran, without repeats */
+  commands: string[];
+  /** Error messages reported during the run */
+  errors: string[];
+}
+
+/**
+ * Review state of the changes of a build run held before pushing.
+ */
+export type ChangeReviewStatus = 'ready_for_review' | 'approved' | 'iteration_requested' | 'discarded';
+
+/**
+ * Review of the changes an issue's latest build run made, when the run
+ * was held for review (ProcessingOptions.reviewBeforePush).
+ */
+export interface ChangeReview {
+  issueId: string;
+  status: ChangeReviewStatus;
+  /** Build job that made the changes */
+  jobId?: string;
+  branch: string;
+  baseBranch: string;
+  summary: RunSummary;
+  testResults?: RunTestResults;
+  /** Reviewer's comment, required when requesting another iteration */
+  comment?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  /** PR opened when the changes were approved */
+  prUrl?: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// Pull Request Tracking Types
+// ============================================================================
+
+/**
+ * State of a PR opened for an issue. `review_requested`, `changes_requested`
+ * and `approved` refine an open PR by its reviews.
+ */
+export type PullRequestState =
+  | 'open'
+  | 'review_requested'
+  | 'changes_requested'
+  | 'approved'
+  | 'merged'
+  | 'closed';
+
+/**
+ * PR opened for an issue whose state the PR poller keeps up to date.
+ */
+export interface TrackedPullRequest {
+  issueId: string;
+  url: string;
+  owner: string;
+  repo: string;
+  number: number;
+  branch: string;
+  /** Head commit when the PR was opened, or when last polled */
+  headSha: string;
+  state: PullRequestState;
+  /** Job of the run that opened the PR */
+  jobId?: string;
+  createdAt: string;
+  /** When the PR's state was last fetched */
+  checkedAt?: string;
+  updatedAt: string;
+}
+
 // ============================================================================
 // CI/CD Types (PRD-07)
 // ============================================================================
 
+/**
+ * Where a repository's CI runs: GitHub check runs, GitLab pipelines, or
+ * check commands run locally in the target repository.
+ */
+export type CIProviderName = 'github' | 'gitlab' | 'local';
+
 /**
  * CI check status from GitHub checks API.
  */
@@ -489,6 +948,24 @@ export interface CIFailure {
   checkName: string;
   error: string;
   logs?: string;
+  /** Individual errors parsed from the check's logs */
+  details?: CIFailureDetail[];
+}
+
+/**
+ * One error found in CI logs by a log parser (see ci-log-parsers.ts).
+ */
+export interface CIFailureDetail {
+  /** Parser that found it, e.g. 'tsc', 'jest', 'eslint', 'pytest' */
+  parser: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Lint rule or compiler error code */
+  rule?: string;
+  /** Full name of the failing test */
+  test?: string;
+  message: string;
 }
 
 /**
@@ -503,14 +980,68 @@ export interface CIStatusResponse {
   lastUpdated: string;
 }
 
+/**
+ * Logs of one CI check.
+ */
+export interface CILogsResponse {
+  checkId: string;
+  name: string;
+  logs: string;
+  downloadUrl?: string;
+}
+
+/**
+ * Message of the CI status stream (GET /api/ci/stream).
+ */
+export interface CIStatusStreamEvent {
+  /** Latest known status of the commit, if any */
+  status: CIStatusResponse | null;
+  /** Whether GitHub webhooks keep the status current; if not, clients poll */
+  webhooks: boolean;
+}
+
 /**
  * CI configuration settings.
  */
 export interface CIConfig {
   enabled: boolean;
   autoFix: boolean;
-  pollInterval: number; // milliseconds
-  maxRetries: number;
+  pollInterval: number; // milliseconds, used while webhooks aren't delivering
+  maxRetries: number; // fix attempts per PR, and status fetch retries
+  provider?: CIProviderName; // defaults to the server's RALPH_CI_PROVIDER
+}
+
+/**
+ * State of a CI fix attempt: its run is queued or running, it pushed a fix
+ * to the PR's branch, or it ended without one.
+ */
+export type CIFixStatus = 'running' | 'pushed' | 'failed';
+
+/**
+ * Build run that tries to fix a PR's failing CI checks on the PR's branch
+ * (POST /api/ci/fix). The run's events are also streamed under the
+ * attempt's ID.
+ */
+export interface CIFixAttempt {
+  id: string;
+  issueId: string;
+  /** Queue job of the fix run */
+  jobId?: string;
+  owner: string;
+  repo: string;
+  prUrl: string;
+  branch: string;
+  /** Commit whose checks failed */
+  sha: string;
+  failures: CIFailure[];
+  /** 1-based number of the attempt on the PR */
+  attempt: number;
+  status: CIFixStatus;
+  /** Commit the fix pushed, which CI runs on next */
+  headSha?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -532,14 +1063,39 @@ export const DEFAULT_CI_CONFIG: CIConfig = {
  */
 export type RiskLevel = 'low' | 'medium' | 'high';
 
+/**
+ * Effort estimate of a plan step, e.g. `~2h` or `est: 30m`.
+ */
+export interface PlanEstimate {
+  /** The estimate as written */
+  text: string;
+  hours: number;
+}
+
 /**
  * Plan task/step with completion tracking.
+ *
+ * The structural fields are filled in by parsePlanMarkdown, which sees the
+ * whole plan; a single parsed line only has the basics.
  */
 export interface PlanStep {
   id: string;
   content: string;
   completed: boolean;
   line: number;
+  /** Step content without its dependency and estimate annotations */
+  title?: string;
+  /** Outline number by position, e.g. '3' or '3.1' for its first sub-task */
+  number?: string;
+  /** Nesting level; 0 for top-level steps */
+  depth?: number;
+  /** ID of the step this is a sub-task of */
+  parentId?: string;
+  /** IDs of the steps this one depends on ("depends on step 3") */
+  dependsOn?: string[];
+  estimate?: PlanEstimate;
+  /** Files the step mentions in backticks */
+  files?: string[];
 }
 
 /**
@@ -560,6 +1116,11 @@ export interface PlanRisk {
   mitigation?: string;
 }
 
+/**
+ * YAML front-matter of a plan: scalar fields and lists.
+ */
+export type PlanMetadata = Record<string, string | string[]>;
+
 /**
  * Parsed implementation plan document.
  */
@@ -571,11 +1132,75 @@ export interface ImplementationPlan {
   files: PlanFile[];
   risks: PlanRisk[];
   estimatedDuration?: string;
+  /** Sum of the step estimates, counting sub-tasks only when their parent has none */
+  estimatedHours?: number;
+  /** YAML front-matter fields */
+  metadata?: PlanMetadata;
   progress: number; // 0-100 percentage
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * How a plan revision came about.
+ */
+export type PlanRevisionSource = 'generated' | 'edited' | 'imported';
+
+/**
+ * One version of an issue's implementation plan.
+ */
+export interface PlanRevision {
+  issueId: string;
+  /** 1-based, increasing with every change */
+  revision: number;
+  content: string;
+  source: PlanRevisionSource;
+  /** Who made the revision: a user name, 'ui', or 'meta-ralph' for runs */
+  author: string;
+  /** Model of the plan-mode run that generated it */
+  model?: ModelType;
+  /** Plan-mode job that generated it */
+  jobId?: string;
+  createdAt: string;
+}
+
+/**
+ * Review state of an issue's implementation plan.
+ */
+export type PlanReviewStatus = 'awaiting_approval' | 'approved' | 'rejected' | 'changes_requested';
+
+/**
+ * A build run's progress through the steps of the approved plan.
+ */
+export interface PlanProgress {
+  completedSteps: number;
+  totalSteps: number;
+  progress: number; // 0-100 percentage
+  /** Content of the first unchecked step; null when all are done */
+  currentStep: string | null;
+}
+
+/**
+ * Review of the plan produced by an issue's latest plan-mode run.
+ */
+export interface PlanReview {
+  issueId: string;
+  status: PlanReviewStatus;
+  /** Plan-mode job that produced the plan */
+  jobId?: string;
+  /** Plan revision that was approved */
+  approvedRevision?: number;
+  /** The plan as approved, with build progress checked off */
+  approvedContent?: string;
+  /** Reviewer's reason for rejecting or requesting changes */
+  feedback?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  /** Progress of the latest build run against the approved plan */
+  progress?: PlanProgress;
+  updatedAt: string;
+}
+
 /**
  * Progress update entry for tracking changes.
  */
@@ -649,6 +1274,15 @@ export interface CostEstimate {
     perIssue: number;
     perIteration: number;
   };
+  /** Past runs the estimate was learned from; absent for the fixed formula */
+  history?: {
+    /** Number of past runs used */
+    sampleSize: number;
+    /** Confidence level of the min-max interval, e.g. 0.9 */
+    confidence: number;
+    /** Expected duration in milliseconds, for the issues run one after another */
+    durationMs: { min: number; max: number; average: number };
+  };
 }
 
 /**
@@ -659,21 +1293,43 @@ export interface ModelInfo {
   name: string;
   description: string;
   speed: 'fast' | 'medium' | 'slow';
-  costPer1kTokens: number;
+  /** USD per 1K input tokens */
+  inputCostPer1kTokens: number;
+  /** USD per 1K output tokens */
+  outputCostPer1kTokens: number;
+  /** Context window in tokens */
+  contextTokens: number;
+  /** Model passed to the Claude CLI (`--model`); the model's ID when unset */
+  cliModel?: string;
   bestFor: string[];
   icon: string;
 }
 
 /**
- * Model details mapping.
+ * Built-in model catalog. The catalog config extends or overrides it
+ * (see models.ts).
  */
 export const MODEL_INFO: Record<ModelType, ModelInfo> = {
+  haiku: {
+    id: 'haiku',
+    name: 'Claude Haiku',
+    description: 'Cheapest for simple, mechanical fixes',
+    speed: 'fast',
+    inputCostPer1kTokens: 0.0008,
+    outputCostPer1kTokens: 0.004,
+    contextTokens: 200000,
+    cliModel: 'haiku',
+    bestFor: ['Coverage tasks', 'Lint fixes', 'Small refactors'],
+    icon: '🪶',
+  },
   sonnet: {
     id: 'sonnet',
     name: 'Claude Sonnet',
     description: 'Fast and cost-effective',
     speed: 'fast',
-    costPer1kTokens: 0.003,
+    inputCostPer1kTokens: 0.003,
+    outputCostPer1kTokens: 0.015,
+    contextTokens: 200000,
     bestFor: ['Simple bugs', 'Refactoring', 'Coverage tasks'],
     icon: '⚡',
   },
@@ -682,22 +1338,36 @@ export const MODEL_INFO: Record<ModelType, ModelInfo> = {
     name: 'Claude Opus',
     description: 'Most capable for complex tasks',
     speed: 'slow',
-    costPer1kTokens: 0.015,
+    inputCostPer1kTokens: 0.015,
+    outputCostPer1kTokens: 0.075,
+    contextTokens: 200000,
+    cliModel: 'claude-opus-4-5-20251101',
     bestFor: ['Security issues', 'Architecture', 'Complex debugging'],
     icon: '🧠',
   },
 };
 
+// Share of an iteration's tokens that are input (agent runs mostly read)
+const INPUT_TOKEN_SHARE = 0.8;
+
+/**
+ * Blended price of 1K tokens of a typical iteration.
+ */
+export function getModelCostPer1kTokens(info: ModelInfo): number {
+  return info.inputCostPer1kTokens * INPUT_TOKEN_SHARE + info.outputCostPer1kTokens * (1 - INPUT_TOKEN_SHARE);
+}
+
 /**
  * Estimate processing cost based on options and issue count.
  */
 export function estimateCost(
   options: ProcessingOptions,
   issueCount: number,
-  avgTokensPerIteration = 5000
+  avgTokensPerIteration = 5000,
+  catalog: Record<ModelType, ModelInfo> = MODEL_INFO
 ): CostEstimate {
-  const modelInfo = MODEL_INFO[options.model];
-  const costPerIteration = (avgTokensPerIteration / 1000) * modelInfo.costPer1kTokens;
+  const modelInfo = catalog[options.model] ?? MODEL_INFO.sonnet;
+  const costPerIteration = (avgTokensPerIteration / 1000) * getModelCostPer1kTokens(modelInfo);
   const costPerIssue = costPerIteration * options.maxIterations;
   const totalCost = costPerIssue * issueCount;
 
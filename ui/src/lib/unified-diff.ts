@@ -0,0 +1,145 @@
+/**
+ * Unified Diff Parsing
+ *
+ * Parses `git diff` output into per-file hunks for the run diff viewer,
+ * and lays hunks out side by side the same way plan revision diffs are
+ * (see line-diff.ts): a run of deleted lines followed by added lines is
+ * paired up row by row as changed lines.
+ */
+
+import type { DiffFile, DiffHunk, DiffHunkLine } from './types';
+import { pairChangedLines, type DiffLine, type DiffRow } from './line-diff';
+
+// ============================================================================
+// Regex Patterns
+// ============================================================================
+
+/**
+ * Matches file headers: diff --git a/path b/path
+ * Groups: [1] = old path, [2] = new path
+ */
+const FILE_HEADER_REGEX = /^diff --git a\/(.+) b\/(.+)$/;
+
+/**
+ * Matches hunk headers: @@ -12,7 +12,9 @@ optional context
+ * Groups: [1] = old start, [2] = new start
+ */
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Strips the a/ or b/ prefix from a ---/+++ path; null for /dev/null.
+ */
+function markerPath(line: string): string | null {
+  const value = line.slice(4).trim();
+  if (value === '/dev/null') return null;
+  return value.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff from `git diff` into files.
+ *
+ * @param diff - The raw diff output
+ * @returns One entry per changed file, in diff order
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split('\n')) {
+    const fileHeader = line.match(FILE_HEADER_REGEX);
+    if (fileHeader) {
+      file = { path: fileHeader[2], status: 'modified', binary: false, additions: 0, deletions: 0, hunks: [] };
+      if (fileHeader[1] !== fileHeader[2]) {
+        file.oldPath = fileHeader[1];
+        file.status = 'renamed';
+      }
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    const hunkHeader = line.match(HUNK_HEADER_REGEX);
+    if (hunkHeader) {
+      oldLine = parseInt(hunkHeader[1], 10);
+      newLine = parseInt(hunkHeader[2], 10);
+      hunk = { header: line, oldStart: oldLine, newStart: newLine, lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      // Extended headers between the file header and its first hunk
+      if (line.startsWith('new file mode')) {
+        file.status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        file.status = 'deleted';
+      } else if (line.startsWith('rename from ')) {
+        file.oldPath = line.slice('rename from '.length);
+        file.status = 'renamed';
+      } else if (line.startsWith('rename to ')) {
+        file.path = line.slice('rename to '.length);
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      } else if (line.startsWith('--- ') && file.status === 'deleted') {
+        file.path = markerPath(line) ?? file.path;
+      }
+      continue;
+    }
+
+    let hunkLine: DiffHunkLine | null = null;
+    if (line.startsWith('+')) {
+      hunkLine = { type: 'add', text: line.slice(1), oldLine: null, newLine: newLine++ };
+      file.additions++;
+    } else if (line.startsWith('-')) {
+      hunkLine = { type: 'delete', text: line.slice(1), oldLine: oldLine++, newLine: null };
+      file.deletions++;
+    } else if (line.startsWith(' ')) {
+      hunkLine = { type: 'context', text: line.slice(1), oldLine: oldLine++, newLine: newLine++ };
+    }
+    // Anything else ("\ No newline at end of file", trailing blank) isn't content
+    if (hunkLine) hunk.lines.push(hunkLine);
+  }
+
+  return files;
+}
+
+/**
+ * Lay a hunk out as side-by-side rows.
+ */
+export function hunkToRows(hunk: DiffHunk): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let deleted: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    rows.push(...pairChangedLines(deleted, added));
+    deleted = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'delete') {
+      deleted.push({ line: line.oldLine!, text: line.text });
+    } else if (line.type === 'add') {
+      added.push({ line: line.newLine!, text: line.text });
+    } else {
+      flush();
+      rows.push({
+        type: 'unchanged',
+        left: { line: line.oldLine!, text: line.text },
+        right: { line: line.newLine!, text: line.text },
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
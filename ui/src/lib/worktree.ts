@@ -0,0 +1,76 @@
+/**
+ * Git Worktrees
+ *
+ * Isolated checkouts of the target repository for concurrent processing.
+ * Each concurrently processed issue gets its own detached worktree at the
+ * base branch, and meta-ralph creates the issue's branch inside it, so
+ * parallel runs never edit the same working directory.
+ *
+ * Branches live in the shared repository, so they outlive the worktree.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Where worktrees are created (RALPH_WORKTREE_DIR overrides)
+const WORKTREE_ROOT = process.env.RALPH_WORKTREE_DIR || path.join(os.tmpdir(), 'ralph-worktrees');
+
+// Branch new worktrees start from, matching the CLI's --base-branch default
+const BASE_BRANCH = process.env.RALPH_BASE_BRANCH || 'main';
+
+/**
+ * Run a git command, rejecting with git's error output.
+ */
+function runGit(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, (error, _stdout, stderr) => {
+      if (error) reject(new Error(String(stderr).trim() || error.message));
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Directory for a new worktree of an issue. Unique per call, so a retry
+ * never collides with a worktree that is still being removed.
+ */
+export function getWorktreePath(issueId: string, root: string = WORKTREE_ROOT): string {
+  const safeId = issueId.replace(/[^a-zA-Z0-9._-]/g, '_');
+  return path.join(root, `${safeId}-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`);
+}
+
+/**
+ * Create a detached worktree of the repository at the base branch.
+ *
+ * @returns Path of the new worktree
+ */
+export async function createWorktree(
+  repoRoot: string,
+  issueId: string,
+  { baseBranch = BASE_BRANCH, root = WORKTREE_ROOT }: { baseBranch?: string; root?: string } = {}
+): Promise<string> {
+  const worktreePath = getWorktreePath(issueId, root);
+  fs.mkdirSync(root, { recursive: true });
+
+  try {
+    await runGit(['-C', repoRoot, 'worktree', 'add', '--detach', '--', worktreePath, baseBranch]);
+  } catch (e) {
+    throw new Error(`Failed to create worktree for ${issueId}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return worktreePath;
+}
+
+/**
+ * Remove a worktree and its directory. Failures are logged, not thrown:
+ * a leftover worktree is cleaned up by the next `git worktree prune`.
+ */
+export async function removeWorktree(repoRoot: string, worktreePath: string): Promise<void> {
+  try {
+    await runGit(['-C', repoRoot, 'worktree', 'remove', '--force', '--', worktreePath]);
+  } catch (e) {
+    console.error(`Failed to remove worktree ${worktreePath}:`, e);
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+  }
+}